@@ -0,0 +1,106 @@
+// Headless AI vs AI tournament for balance testing (see src/lib/ai/tournament.ts).
+//
+//   npm run tournament -- --difficulties=normal,hard --personalities=balanced,zoner --matches=200
+//
+// Options (comma separated lists, every combination of them enters):
+//   --policies       AI policies (default: behaviourTree)
+//   --difficulties   easy, normal, hard, nightmare (default: all)
+//   --personalities  balanced, rushdown, zoner, turtle, jumper (default: balanced)
+//   --matches        matches per pairing, split between both sides (default: 100)
+//   --rounds         1, 3 or 5 (default: 3)
+//   --time           round clock in seconds, 0 = untimed (default: 99)
+//   --seed           tournament seed, the same seed replays the same tournament (default: random)
+//   --out            JSON report path (default: ai-tournament-<seed>.json)
+import { writeFileSync } from 'node:fs';
+import { AI_DIFFICULTY_OPTIONS, type AIDifficulty } from '@/lib/ai/difficulty';
+import { AI_PERSONALITY_OPTIONS, type AIPersonality } from '@/lib/ai/personality';
+import { getAIPolicyIds } from '@/lib/ai/registry';
+import { runTournament, type TournamentEntrant } from '@/lib/ai/tournament';
+import { parseMatchRules } from '@/lib/combat/rounds';
+import { randomSeed } from '@/lib/combat/rng';
+
+const DEFAULT_MATCHES_PER_PAIRING = 100;
+
+const args = Object.fromEntries(process.argv.slice(2)
+    .filter(arg => arg.startsWith('--'))
+    .map(arg => {
+        const [key, ...value] = arg.slice(2).split('=');
+        return [key, value.join('=')];
+    }));
+
+// Comma separated values, each one has to be in the allowed list
+function parseList<T extends string>(name: string, allowed: readonly T[], fallback: readonly T[]): T[] {
+    if (!args[name]) return [...fallback];
+    const values = args[name].split(',').map(value => value.trim()).filter(Boolean);
+    const unknown = values.filter(value => !(allowed as readonly string[]).includes(value));
+    if (unknown.length > 0) {
+        console.error(`Unknown ${name}: ${unknown.join(', ')} (expected ${allowed.join(', ')})`);
+        process.exit(1);
+    }
+    return values as T[];
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const policies = parseList('policies', getAIPolicyIds(), ['behaviourTree']);
+const difficulties = parseList<AIDifficulty>('difficulties', AI_DIFFICULTY_OPTIONS, AI_DIFFICULTY_OPTIONS);
+const personalities = parseList<AIPersonality>('personalities', AI_PERSONALITY_OPTIONS, ['balanced']);
+const matchesPerPairing = Number(args.matches) > 0 ? Math.floor(Number(args.matches)) : DEFAULT_MATCHES_PER_PAIRING;
+const rules = parseMatchRules(args.rounds ?? null, args.time ?? null);
+const seed = /^\d+$/.test(args.seed ?? '') ? Number(args.seed) >>> 0 : randomSeed();
+const outPath = args.out || `ai-tournament-${seed}.json`;
+
+const entrants: TournamentEntrant[] = policies.flatMap(policyId => difficulties.flatMap(difficulty =>
+    personalities.map(personality => ({ policyId, difficulty, personality }))));
+
+console.log(`${entrants.length} entrants, ${matchesPerPairing} matches per pairing, best of ${rules.bestOf}, ` +
+    `${rules.roundSeconds === null ? 'untimed' : `${rules.roundSeconds}s`} rounds, seed ${seed}`);
+
+const startedAt = Date.now();
+let lastProgress = 0;
+const report = runTournament({
+    entrants,
+    matchesPerPairing,
+    rules,
+    seed,
+    onMatchFinished: (finished, total) => {
+        const progress = Math.floor((finished / total) * 10);
+        if (progress > lastProgress || finished === total) {
+            lastProgress = progress;
+            console.log(`  ${finished}/${total} matches`);
+        }
+    },
+});
+
+writeFileSync(outPath, JSON.stringify(report, null, 2));
+
+console.log(`\n${report.matches} matches in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+console.log(`Average match ${report.averageMatchSeconds.toFixed(1)}s, ${report.averageRounds.toFixed(2)} rounds of ${report.averageRoundSeconds.toFixed(1)}s ` +
+    `(KO ${percent(report.roundEndings.ko)}, double KO ${percent(report.roundEndings.doubleKo)}, time over ${percent(report.roundEndings.timeOver)})`);
+console.log(`Player 1 side win rate ${percent(report.player1WinRate)}\n`);
+
+console.table(Object.fromEntries(report.entrants.map(entrant => [entrant.entrant, {
+    'win rate': percent(entrant.winRate),
+    'W/L/D': `${entrant.wins}/${entrant.losses}/${entrant.draws}`,
+    'rounds won': `${entrant.roundsWon}/${entrant.roundsPlayed}`,
+    'damage/match': Math.round(entrant.averageDamageDealt),
+    'chip/match': Math.round(entrant.averageChipDamage),
+    'blocked hits': percent(entrant.blockedHitRate),
+    'specials/match': entrant.specialsPerMatch.toFixed(2),
+    'best combo': entrant.longestCombo,
+}])));
+
+console.log('Damage sources (share of each entrant\'s damage)');
+console.table(Object.fromEntries(report.entrants.map(entrant => [entrant.entrant,
+    Object.fromEntries(Object.entries(entrant.damageByMove).map(([move, share]) => [move, percent(share ?? 0)]))])));
+
+if (report.matchups.length > 1) {
+    console.log('Matchups');
+    console.table(report.matchups.map(matchup => ({
+        matchup: `${matchup.entrants[0]} vs ${matchup.entrants[1]}`,
+        wins: `${matchup.wins[0]}-${matchup.wins[1]}`,
+        draws: matchup.draws,
+    })));
+}
+
+console.log(`Report written to ${outPath}`);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { GoogleGenAI } from '@google/genai';
 import Replicate from 'replicate';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { AI_PERSONALITIES, AI_PERSONALITY_OPTIONS, DEFAULT_AI_PERSONALITY, parseAIPersonality, type AIPersonality } from '@/lib/ai/personality';
 import mime from 'mime';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs/promises'; // Use fs.promises for async operations
@@ -160,6 +161,52 @@ ONLY answer with the prompt, nothing before or after`,
     return generatedPrompt.trim();
 }
 
+// Helper: Pick the CPU fighting style (Step 1B). Best effort: the character is still usable
+// with the default style if Gemini fails or answers something else.
+async function generateAIPersonality(uploadedConceptFile: UploadedFile, characterPrompt: string | null, specialPrompt: string): Promise<AIPersonality> {
+    console.log("Picking AI personality using model gemini-2.5-flash-preview-04-17...");
+    const model = 'gemini-2.5-flash-preview-04-17';
+    const config = {
+        responseMimeType: 'text/plain',
+    };
+    const styles = AI_PERSONALITY_OPTIONS.map(id => `- ${id}: ${AI_PERSONALITIES[id].description}`).join('\n');
+    const contents = [{
+        role: 'user',
+        parts: [
+            {
+                text: `This is a character of a 90s fight game, shown in the image.
+${characterPrompt ? `It was created from this description: "${characterPrompt}"\n` : ''}Its special power is described by: "${specialPrompt}"
+Pick the fighting style that suits this character best when the computer plays it, among:
+${styles}
+ONLY answer with the style name, nothing before or after`,
+            },
+            {
+                fileData: {
+                    fileUri: uploadedConceptFile.uri,
+                    mimeType: uploadedConceptFile.mimeType,
+                }
+            }
+        ],
+    }];
+
+    let answer = "";
+    try {
+        const responseStream = await genAI.models.generateContentStream({ model, config, contents });
+        for await (const chunk of responseStream) {
+            if (chunk?.text) {
+                answer += chunk.text;
+            }
+        }
+    } catch (error) {
+        console.error("Error picking AI personality, using the default:", error);
+        return DEFAULT_AI_PERSONALITY;
+    }
+
+    const personality = parseAIPersonality(answer);
+    console.log(`AI personality answer: "${answer.trim()}" -> ${personality}`);
+    return personality;
+}
+
 // Helper: Generate Image (Step 2 - Updated)
 async function generateSpecialImage(prompt: string): Promise<{ buffer: Buffer; mimeType: string }> {
     console.log("Generating special power image using model gemini-2.0-flash-exp-image-generation...");
@@ -410,6 +457,10 @@ export async function POST(request: NextRequest) {
     // 1. Generate Prompt using uploaded concept image file
     const specialPrompt = await generateSpecialPrompt(conceptUploadedFile);
 
+    // 1B. Pick the CPU fighting style from the character's prompt, concept image and special power
+    const { data: characterRow } = await supabase.from('characters').select('prompt').eq('id', characterId).single();
+    const aiPersonality = await generateAIPersonality(conceptUploadedFile, characterRow?.prompt ?? null, specialPrompt);
+
     // 2. Generate Initial Image using prompt
     const originalImage = await generateSpecialImage(specialPrompt);
     let finalImage = originalImage; // Assume original is final unless reversed
@@ -456,13 +507,14 @@ export async function POST(request: NextRequest) {
     finalR2Url = R2_PUBLIC_URL ? `${R2_PUBLIC_URL}/${r2Key}` : r2Key; 
     console.log(`[Char ${characterId}] Final special power image uploaded to R2: ${finalR2Url}`);
 
-    // 7. Save final R2 URL and prompt to Supabase
-    console.log(`Saving final special image R2 URL (${finalR2Url}) and prompt to Supabase for character ${characterId}`);
+    // 7. Save final R2 URL, prompt and AI personality to Supabase
+    console.log(`Saving final special image R2 URL (${finalR2Url}), prompt and AI personality to Supabase for character ${characterId}`);
     const { error: updateError } = await supabaseAdmin
       .from('characters')
       .update({
         special_prompt: specialPrompt,
         special_image: finalR2Url, // <-- Save the R2 URL here
+        ai_personality: aiPersonality,
        })
       .eq('id', characterId);
 
@@ -475,7 +527,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
         message: 'Special power generated successfully',
         specialImageUrl: finalR2Url, // <-- Return the R2 URL
-        specialPrompt: specialPrompt
+        specialPrompt: specialPrompt,
+        aiPersonality: aiPersonality
     });
 
   } catch (error: any) {
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isRoomCode, type NetplayRole } from '@/lib/netplay/signaling';
+
+// Signaling relay of online matches: each browser of a room posts messages for the other one and
+// polls its own. A message is dropped once its browser polled past it. Rooms only live in this
+// server's memory, so it needs one long-running server (next dev / next start), not serverless functions.
+
+const ROOM_IDLE_MS = 10 * 60 * 1000;
+const MAX_ROOM_MESSAGES = 200; // Waiting to be read
+const MAX_MESSAGE_LENGTH = 20000; // Characters of JSON, an offer with its candidates is a few KB
+
+interface RelayedMessage {
+    id: number;
+    to: NetplayRole;
+    message: unknown;
+}
+
+interface Room {
+    messages: RelayedMessage[];
+    nextId: number;
+    lastActive: number;
+}
+
+const rooms = new Map<string, Room>();
+
+const isRole = (value: unknown): value is NetplayRole => value === 'host' || value === 'guest';
+
+function getRoom(code: string): Room {
+    const now = Date.now();
+    rooms.forEach((room, roomCode) => {
+        if (now - room.lastActive > ROOM_IDLE_MS) rooms.delete(roomCode);
+    });
+    let room = rooms.get(code);
+    if (!room) {
+        room = { messages: [], nextId: 1, lastActive: now };
+        rooms.set(code, room);
+    }
+    room.lastActive = now;
+    return room;
+}
+
+// Posts a message for the other browser of the room
+export async function POST(request: NextRequest) {
+    let requestData;
+    try {
+        requestData = await request.json();
+    } catch (error) {
+        return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { room: code, to, message } = requestData;
+    if (typeof code !== 'string' || !isRoomCode(code) || !isRole(to)) {
+        return NextResponse.json({ error: 'Missing or invalid room or role' }, { status: 400 });
+    }
+    if (!message || typeof message !== 'object' || JSON.stringify(message).length > MAX_MESSAGE_LENGTH) {
+        return NextResponse.json({ error: 'Invalid message' }, { status: 400 });
+    }
+
+    const room = getRoom(code);
+    // The guest repeats its join until the host answers, one waiting is enough
+    const isRepeatedJoin = (message as { type?: unknown }).type === 'join'
+        && room.messages.some(relayed => relayed.to === to && (relayed.message as { type?: unknown }).type === 'join');
+    if (isRepeatedJoin) return NextResponse.json({ ok: true });
+    if (room.messages.length >= MAX_ROOM_MESSAGES) {
+        return NextResponse.json({ error: 'Room is full' }, { status: 429 });
+    }
+    room.messages.push({ id: room.nextId++, to, message });
+    return NextResponse.json({ ok: true });
+}
+
+// Messages for a browser of the room, posted after the id it last got
+export async function GET(request: NextRequest) {
+    const code = request.nextUrl.searchParams.get('room') ?? '';
+    const role = request.nextUrl.searchParams.get('role');
+    const after = Number(request.nextUrl.searchParams.get('after') ?? 0);
+    if (!isRoomCode(code) || !isRole(role) || !Number.isInteger(after)) {
+        return NextResponse.json({ error: 'Missing or invalid room or role' }, { status: 400 });
+    }
+
+    // Everything up to `after` reached this browser already
+    const room = getRoom(code);
+    room.messages = room.messages.filter(relayed => relayed.to !== role || relayed.id > after);
+    const messages = room.messages
+        .filter(relayed => relayed.to === role)
+        .map(({ id, message }) => ({ id, message }));
+    return NextResponse.json({ messages });
+}
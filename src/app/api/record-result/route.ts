@@ -0,0 +1,40 @@
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { NextRequest, NextResponse } from 'next/server';
+import { CHALLENGE_MODES } from '@/lib/arcade/results';
+
+const MAX_TIME_MS = 24 * 60 * 60 * 1000; // Anything longer is not a real run
+
+// Saves a finished survival or time attack run (challenge_results) for the leaderboards
+export async function POST(request: NextRequest) {
+    let requestData;
+    try {
+        requestData = await request.json();
+    } catch (error) {
+        return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { characterId, mode, opponentsBeaten, timeMs } = requestData;
+    if (!characterId || typeof characterId !== 'string') {
+        return NextResponse.json({ error: 'Missing or invalid characterId' }, { status: 400 });
+    }
+    if (!(CHALLENGE_MODES as readonly string[]).includes(mode)) {
+        return NextResponse.json({ error: 'Invalid mode' }, { status: 400 });
+    }
+    if (!Number.isInteger(opponentsBeaten) || opponentsBeaten < 0 || !Number.isInteger(timeMs) || timeMs < 0 || timeMs > MAX_TIME_MS) {
+        return NextResponse.json({ error: 'Invalid opponentsBeaten or timeMs' }, { status: 400 });
+    }
+
+    try {
+        const { data, error } = await supabaseAdmin
+            .from('challenge_results')
+            .insert({ character_id: characterId, mode, opponents_beaten: opponentsBeaten, time_ms: timeMs })
+            .select('id')
+            .single();
+        if (error) throw error;
+        console.log(`[API Record Result] ${mode} run by ${characterId}: ${opponentsBeaten} opponents in ${timeMs}ms`);
+        return NextResponse.json({ id: data.id });
+    } catch (error: any) {
+        console.error(`[API Record Result] Failed to save the ${mode} run for ${characterId}:`, error);
+        return NextResponse.json({ error: error.message || 'Failed to save the result' }, { status: 500 });
+    }
+}
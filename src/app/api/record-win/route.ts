@@ -0,0 +1,30 @@
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Counts an arcade match won by a character (characters.wins), the arcade boss is the character with the most
+export async function POST(request: NextRequest) {
+    let requestData;
+    try {
+        requestData = await request.json();
+    } catch (error) {
+        return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { characterId } = requestData;
+    if (!characterId || typeof characterId !== 'string') {
+        return NextResponse.json({ error: 'Missing or invalid characterId' }, { status: 400 });
+    }
+
+    try {
+        const { data: wins, error } = await supabaseAdmin.rpc('increment_character_wins', { character_id: characterId });
+        if (error) throw error;
+        if (wins === null) {
+            return NextResponse.json({ error: 'Character not found' }, { status: 404 });
+        }
+        console.log(`[API Record Win] ${characterId} now has ${wins} wins`);
+        return NextResponse.json({ characterId, wins });
+    } catch (error: any) {
+        console.error(`[API Record Win] Failed to record a win for ${characterId}:`, error);
+        return NextResponse.json({ error: error.message || 'Failed to record the win' }, { status: 500 });
+    }
+}
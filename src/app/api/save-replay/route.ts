@@ -0,0 +1,33 @@
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { NextRequest, NextResponse } from 'next/server';
+import { parseReplay } from '@/lib/replay/replay';
+
+// Shares a match replay (replays table), the whole replay is kept as JSON
+export async function POST(request: NextRequest) {
+    let requestData;
+    try {
+        requestData = await request.json();
+    } catch (error) {
+        return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    // Also checks its frames against its rounds (and MAX_REPLAY_FRAMES), the stored count is the one worked out from them
+    const replay = parseReplay(requestData);
+    if (!replay) {
+        return NextResponse.json({ error: 'Invalid or too long replay' }, { status: 400 });
+    }
+
+    try {
+        const { data, error } = await supabaseAdmin
+            .from('replays')
+            .insert({ char1: replay.char1, char2: replay.char2, location: replay.location, winner: replay.winner, frames: replay.frames, data: replay })
+            .select('id')
+            .single();
+        if (error) throw error;
+        console.log(`[API Save Replay] ${replay.player1Name} vs ${replay.player2Name} saved as ${data.id}`);
+        return NextResponse.json({ id: data.id });
+    } catch (error: any) {
+        console.error(`[API Save Replay] Failed to save replay ${replay.id}:`, error);
+        return NextResponse.json({ error: error.message || 'Failed to save the replay' }, { status: 500 });
+    }
+}
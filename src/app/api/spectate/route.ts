@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isRoomCode } from '@/lib/netplay/signaling';
+import { isSpectatorEmote } from '@/lib/netplay/spectate';
+
+// Spectator relay of online matches: the host posts the match's feed (set-up and inputs), spectators
+// poll it from the start and post reaction emotes. Like /api/netplay, rooms only live in this server's
+// memory, so it needs one long-running server.
+
+const ROOM_IDLE_MS = 10 * 60 * 1000;
+const VIEWER_TIMEOUT_MS = 5000; // A spectator that stopped polling this long ago left
+const MAX_FEED_MESSAGES = 5000; // Two a second, a long match is a few hundred
+const MAX_MESSAGE_LENGTH = 20000;
+const KEPT_EMOTES = 50;
+const RECENT_EMOTE_MS = 5000; // Older emotes aren't handed out, a spectator coming in late doesn't get the backlog
+const VIEWER_PATTERN = /^[a-z0-9-]{1,32}$/;
+
+interface Room {
+    feed: { id: number; message: unknown }[];
+    emotes: { id: number; sentAt: number; reaction: { emote: string; viewer: string } }[];
+    nextEmoteId: number;
+    viewers: Map<string, number>; // Last poll, by viewer id
+    lastActive: number;
+}
+
+const rooms = new Map<string, Room>();
+
+function getRoom(code: string): Room {
+    const now = Date.now();
+    rooms.forEach((room, roomCode) => {
+        if (now - room.lastActive > ROOM_IDLE_MS) rooms.delete(roomCode);
+    });
+    let room = rooms.get(code);
+    if (!room) {
+        room = { feed: [], emotes: [], nextEmoteId: 1, viewers: new Map(), lastActive: now };
+        rooms.set(code, room);
+    }
+    room.lastActive = now;
+    return room;
+}
+
+// The host posts { room, feed, seq } with seq counting its feed messages from 1, a spectator { room, reaction: { emote, viewer } }
+export async function POST(request: NextRequest) {
+    let requestData;
+    try {
+        requestData = await request.json();
+    } catch (error) {
+        return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { room: code, feed, reaction } = requestData;
+    if (typeof code !== 'string' || !isRoomCode(code)) {
+        return NextResponse.json({ error: 'Missing or invalid room' }, { status: 400 });
+    }
+    const room = getRoom(code);
+
+    if (reaction) {
+        if (!isSpectatorEmote(reaction.emote) || typeof reaction.viewer !== 'string' || !VIEWER_PATTERN.test(reaction.viewer)) {
+            return NextResponse.json({ error: 'Invalid reaction' }, { status: 400 });
+        }
+        room.emotes.push({ id: room.nextEmoteId++, sentAt: Date.now(), reaction: { emote: reaction.emote, viewer: reaction.viewer } });
+        room.emotes.splice(0, room.emotes.length - KEPT_EMOTES);
+        return NextResponse.json({ ok: true });
+    }
+
+    const { seq } = requestData;
+    if (!feed || typeof feed !== 'object' || JSON.stringify(feed).length > MAX_MESSAGE_LENGTH || !Number.isInteger(seq) || seq < 1) {
+        return NextResponse.json({ error: 'Invalid feed message' }, { status: 400 });
+    }
+    // The host sends a message again until it's taken, one that got here before is taken again without a copy
+    if (seq <= room.feed.length) return NextResponse.json({ ok: true });
+    if (seq > room.feed.length + 1) {
+        return NextResponse.json({ error: 'Feed message out of order' }, { status: 409 });
+    }
+    if (room.feed.length >= MAX_FEED_MESSAGES) {
+        return NextResponse.json({ error: 'Room is full' }, { status: 429 });
+    }
+    room.feed.push({ id: room.feed.length + 1, message: feed });
+    return NextResponse.json({ ok: true });
+}
+
+// Feed messages after the id a spectator last got (none for the players, who poll without a viewer id),
+// the recent emotes after the last one seen, and how many spectators are watching
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const code = params.get('room') ?? '';
+    const viewer = params.get('viewer');
+    const after = Number(params.get('after') ?? 0);
+    const emotesAfter = Number(params.get('emotesAfter') ?? 0);
+    if (!isRoomCode(code) || (viewer !== null && !VIEWER_PATTERN.test(viewer)) || !Number.isInteger(after) || !Number.isInteger(emotesAfter)) {
+        return NextResponse.json({ error: 'Missing or invalid room or viewer' }, { status: 400 });
+    }
+
+    const room = getRoom(code);
+    const now = Date.now();
+    if (viewer) room.viewers.set(viewer, now);
+    room.viewers.forEach((lastPoll, id) => {
+        if (now - lastPoll > VIEWER_TIMEOUT_MS) room.viewers.delete(id);
+    });
+
+    return NextResponse.json({
+        feed: viewer ? room.feed.slice(Math.max(after, 0)) : [],
+        emotes: room.emotes.filter(entry => entry.id > emotesAfter && now - entry.sentAt <= RECENT_EMOTE_MS),
+        spectators: room.viewers.size,
+    });
+}
@@ -0,0 +1,346 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { playSoundEffect } from '@/utils/playSoundEffect';
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
+import { AI_DIFFICULTIES } from '@/lib/ai/difficulty';
+import { MAX_HEALTH } from '@/lib/combat/constants';
+import {
+    ARCADE_CONTINUES,
+    ARCADE_CONTINUE_SECONDS,
+    BOSS_HEALTH_MULTIPLIER,
+    BOSS_SCALE,
+    buildLadder,
+    scoreStage,
+    sumScore,
+    type ArcadeStage,
+    type ScoreLine,
+} from '@/lib/arcade/ladder';
+import { loadArcadeRoster, recordWin } from '@/lib/arcade/roster';
+import { pickRandom, type RosterCharacter, type RosterLocation } from '@/lib/supabase/roster';
+import { ArcadeFight } from '@/components/ArcadeFight';
+import type { MatchEndResult } from '@/components/BattleScene';
+
+const CONFIRM_SOUND_URL = '/sounds/effects/confirm.mp3';
+
+function LoadingFallback({ message }: { message: string }) {
+    return (
+        <div className="flex items-center justify-center h-screen bg-gray-900 text-white">
+            <p className="text-xl animate-pulse">{message}</p>
+        </div>
+    );
+}
+
+// 'intro': the ladder with the next opponent, 'tally': score of a won stage,
+// 'continue': countdown after a loss, 'gameOver': out of continues, 'ending': the boss is beaten
+type ArcadePhase = 'intro' | 'fight' | 'tally' | 'continue' | 'gameOver' | 'ending';
+
+// Arcade mode: the chosen fighter climbs a ladder of CPU opponents, each harder than the last,
+// up to the boss. Won stages add to the score, a lost one costs a continue.
+export default function ArcadePage() {
+    const params = useParams();
+    const router = useRouter();
+    const characterId = params.characterId as string;
+
+    const [characters, setCharacters] = useState<Record<string, RosterCharacter>>({});
+    const [locations, setLocations] = useState<RosterLocation[]>([]);
+    const [ladder, setLadder] = useState<ArcadeStage[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [phase, setPhase] = useState<ArcadePhase>('intro');
+    const [stageIndex, setStageIndex] = useState(0);
+    const [attempt, setAttempt] = useState(0); // Remounts the fight on every stage and retry
+    const [location, setLocation] = useState<RosterLocation | null>(null);
+    const [score, setScore] = useState(0);
+    const [stageScore, setStageScore] = useState<ScoreLine[]>([]);
+    const [continuesLeft, setContinuesLeft] = useState(ARCADE_CONTINUES);
+    const [continueCountdown, setContinueCountdown] = useState(ARCADE_CONTINUE_SECONDS);
+
+    const player = characters[characterId];
+    const stage = ladder[stageIndex];
+    const opponent = stage ? characters[stage.opponentId] : undefined;
+    const isFinalStage = stageIndex === ladder.length - 1;
+
+    // --- Fighters, locations and the ladder ---
+    useEffect(() => {
+        if (!characterId) return;
+        let cancelled = false;
+        setIsLoading(true);
+        setError(null);
+
+        loadArcadeRoster(characterId)
+            .then(roster => {
+                if (cancelled) return;
+                const builtLadder = buildLadder(Object.values(roster.characters), characterId);
+                console.log(`[ArcadePage] Ladder: ${builtLadder.map(entry => `${roster.characters[entry.opponentId].name} (${entry.isBoss ? 'boss' : entry.difficulty})`).join(' > ')}`);
+                setCharacters(roster.characters);
+                setLocations(roster.locations);
+                setLadder(builtLadder);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error('[ArcadePage] Failed to set up the arcade ladder:', err);
+                setError(err.message || 'Failed to load the arcade mode.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [characterId]);
+
+    // --- Flow ---
+    const startStage = useCallback(() => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        setLocation(pickRandom(locations)); // A new place for every fight
+        setAttempt(current => current + 1);
+        setPhase('fight');
+    }, [locations]);
+
+    const handleMatchEnd = useCallback((result: MatchEndResult) => {
+        if (!stage) return;
+        if (result.winner !== null) {
+            recordWin(result.winner === 0 ? characterId : stage.opponentId);
+        }
+
+        if (result.winner === 0) {
+            const lines = scoreStage(stage, {
+                roundsWon: result.roundResults.filter(round => round.winner === 0).length,
+                roundsLost: result.roundResults.filter(round => round.winner === 1).length,
+                healthLeft: result.health[0] / result.maxHealth[0],
+                timeLeft: result.timeLeft,
+            });
+            setStageScore(lines);
+            setScore(current => current + sumScore(lines));
+            setPhase('tally');
+        } else if (continuesLeft > 0) {
+            setContinueCountdown(ARCADE_CONTINUE_SECONDS);
+            setPhase('continue');
+        } else {
+            setPhase('gameOver');
+        }
+    }, [stage, characterId, continuesLeft]);
+
+    const handleNextStage = useCallback(() => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        if (isFinalStage) {
+            setPhase('ending');
+        } else {
+            setStageIndex(current => current + 1);
+            setPhase('intro');
+        }
+    }, [isFinalStage]);
+
+    // Continuing clears the score, like in the arcades
+    const handleContinue = useCallback(() => {
+        setContinuesLeft(current => current - 1);
+        setScore(0);
+        startStage();
+    }, [startStage]);
+
+    const handleQuit = useCallback(() => {
+        router.push(`/vs/${encodeURIComponent(characterId)}`);
+    }, [router, characterId]);
+
+    // A fresh ladder with the same fighter (the boss may have changed)
+    const handlePlayAgain = useCallback(() => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        setLadder(buildLadder(Object.values(characters), characterId));
+        setStageIndex(0);
+        setScore(0);
+        setContinuesLeft(ARCADE_CONTINUES);
+        setPhase('intro');
+    }, [characters, characterId]);
+
+    // Continue countdown, running out is a game over
+    useEffect(() => {
+        if (phase !== 'continue') return;
+        if (continueCountdown <= 0) {
+            setPhase('gameOver');
+            return;
+        }
+        const tick = setTimeout(() => setContinueCountdown(current => current - 1), 1000);
+        return () => clearTimeout(tick);
+    }, [phase, continueCountdown]);
+
+    // The pads fight during matches, BattleScene handles them there
+    const isInMenu = phase !== 'fight';
+    useGamepadMenu({
+        navigate: isInMenu,
+        onStart: phase === 'intro' ? startStage : phase === 'continue' ? handleContinue : undefined,
+        onBack: isInMenu ? handleQuit : undefined,
+    });
+
+    const bossConfig = useMemo(() => stage?.isBoss
+        ? { maxHealth: Math.round(MAX_HEALTH * BOSS_HEALTH_MULTIPLIER), scale: BOSS_SCALE }
+        : { maxHealth: MAX_HEALTH, scale: 1 }, [stage]);
+
+    // --- Render ---
+    if (isLoading) {
+        return <LoadingFallback message="Loading Arcade..." />;
+    }
+
+    if (error || !player || !stage || !opponent) {
+        return (
+            <div className="flex flex-col items-center justify-center h-screen bg-gray-900 text-white p-4">
+                <h2 className="text-2xl text-red-500 mb-4">Error Loading Arcade</h2>
+                <p className="mb-6 text-center text-red-300">{error ?? 'The arcade ladder could not be built.'}</p>
+                <Link href="/select-existing" className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-white font-semibold">
+                    Go back to Character Selection
+                </Link>
+            </div>
+        );
+    }
+
+    if (phase === 'fight' && location) {
+        return (
+            <ArcadeFight
+                key={attempt}
+                player={player}
+                opponent={opponent}
+                location={location}
+                aiDifficulty={stage.difficulty}
+                player2MaxHealth={bossConfig.maxHealth}
+                player2Scale={bossConfig.scale}
+                banner={`${stage.isBoss ? 'Final Stage' : `Stage ${stageIndex + 1}`} · Score ${score.toLocaleString()}`}
+                onMatchEnd={handleMatchEnd}
+            />
+        );
+    }
+
+    return (
+        <main className="flex min-h-screen flex-col items-center justify-center gap-8 p-8 bg-gradient-to-b from-blue-900 via-purple-900 to-black text-arcade-white overflow-hidden">
+            <div className="text-center">
+                <p className="text-sm text-arcade-gray uppercase tracking-wider">Arcade · {player.name}</p>
+                <p className="text-2xl text-logo-yellow drop-shadow-[2px_2px_0_rgba(0,0,0,0.8)]">Score {score.toLocaleString()}</p>
+                <p className="text-xs text-arcade-gray">Continues {continuesLeft}</p>
+            </div>
+
+            {phase === 'intro' && (
+                <>
+                    {/* The ladder, bottom to top: beaten opponents fade out, the next one is highlighted */}
+                    <ol className="flex flex-col-reverse gap-2 w-full max-w-md">
+                        {ladder.map((entry, index) => {
+                            const character = characters[entry.opponentId];
+                            return (
+                                <li
+                                    key={`${entry.opponentId}-${index}`}
+                                    className={`flex items-center gap-3 rounded border-2 px-3 py-2 ${index === stageIndex ? 'border-logo-yellow bg-black/60' : 'border-arcade-gray bg-black/30'} ${index < stageIndex ? 'opacity-40' : ''}`}
+                                >
+                                    <div className="relative w-12 h-12 flex-shrink-0 overflow-hidden rounded">
+                                        {character.conceptImageUrl && (
+                                            <Image src={character.conceptImageUrl} alt={character.name} fill style={{ objectFit: 'cover', objectPosition: 'top' }} sizes="48px" />
+                                        )}
+                                    </div>
+                                    <span className="flex-grow uppercase">{character.name}</span>
+                                    <span className={`text-xs ${entry.isBoss ? 'text-red-500' : 'text-arcade-gray'}`}>
+                                        {entry.isBoss ? 'Boss' : AI_DIFFICULTIES[entry.difficulty].label}
+                                    </span>
+                                </li>
+                            );
+                        })}
+                    </ol>
+                    <h2 className="text-4xl font-bold text-logo-yellow drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider text-center">
+                        {stage.isBoss ? `Final Stage: ${opponent.name}` : `Stage ${stageIndex + 1}: ${opponent.name}`}
+                    </h2>
+                    <div className="flex gap-4">
+                        <button onClick={startStage} className="btn-arcade btn-arcade-primary animate-bounce">
+                            Fight!
+                        </button>
+                        <button onClick={handleQuit} className="btn-arcade btn-arcade-secondary">
+                            Quit
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {phase === 'tally' && (
+                <>
+                    <h2 className="text-4xl font-bold text-logo-yellow drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider">
+                        {stage.isBoss ? 'Boss Defeated!' : 'Stage Clear!'}
+                    </h2>
+                    <table className="w-full max-w-sm text-lg">
+                        <tbody>
+                            {stageScore.map(line => (
+                                <tr key={line.label}>
+                                    <td className="py-1">{line.label}</td>
+                                    <td className={`py-1 text-right ${line.points < 0 ? 'text-red-400' : ''}`}>{line.points.toLocaleString()}</td>
+                                </tr>
+                            ))}
+                            <tr className="border-t border-arcade-gray text-logo-yellow">
+                                <td className="py-1">Stage Total</td>
+                                <td className="py-1 text-right">{sumScore(stageScore).toLocaleString()}</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                    <button onClick={handleNextStage} className="btn-arcade btn-arcade-primary">
+                        {isFinalStage ? 'Ending' : 'Next Stage'}
+                    </button>
+                </>
+            )}
+
+            {phase === 'continue' && (
+                <>
+                    <h2 className="text-5xl font-bold text-red-500 drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider">Continue?</h2>
+                    <p className="text-7xl font-black text-logo-yellow">{continueCountdown}</p>
+                    <p className="text-sm text-arcade-gray">Continuing resets your score · {continuesLeft} left</p>
+                    <div className="flex gap-4">
+                        <button onClick={handleContinue} className="btn-arcade btn-arcade-primary animate-bounce">
+                            Continue
+                        </button>
+                        <button onClick={() => setPhase('gameOver')} className="btn-arcade btn-arcade-secondary">
+                            Give Up
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {phase === 'gameOver' && (
+                <>
+                    <h2 className="text-5xl font-bold text-red-500 drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider">Game Over</h2>
+                    <p className="text-lg">Reached {stage.isBoss ? 'the final stage' : `stage ${stageIndex + 1} of ${ladder.length}`}</p>
+                    <div className="flex gap-4">
+                        <button onClick={handlePlayAgain} className="btn-arcade btn-arcade-primary">
+                            Try Again
+                        </button>
+                        <button onClick={handleQuit} className="btn-arcade btn-arcade-secondary">
+                            Quit
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {phase === 'ending' && (
+                <>
+                    <div className="relative w-64 h-64 overflow-hidden rounded-lg border-4 border-logo-yellow shadow-lg">
+                        {player.conceptImageUrl && (
+                            <Image src={player.conceptImageUrl} alt={player.name} fill style={{ objectFit: 'cover', objectPosition: 'top' }} sizes="256px" priority />
+                        )}
+                    </div>
+                    <h2 className="text-5xl font-bold text-logo-yellow drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider text-center">
+                        {player.name} is the Champion!
+                    </h2>
+                    <p className="text-lg text-center max-w-md">
+                        {opponent.name} has fallen. With all {ladder.length} challengers beaten, nobody is left to stand in the way.
+                    </p>
+                    <p className="text-3xl text-logo-yellow">Final Score {score.toLocaleString()}</p>
+                    <p className="text-xs text-arcade-gray">Continues used {ARCADE_CONTINUES - continuesLeft}</p>
+                    <div className="flex gap-4">
+                        <button onClick={handlePlayAgain} className="btn-arcade btn-arcade-primary">
+                            Play Again
+                        </button>
+                        <Link href="/" className="btn-arcade btn-arcade-secondary">
+                            Title Screen
+                        </Link>
+                    </div>
+                </>
+            )}
+        </main>
+    );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import React, { useState, useEffect, useContext, useCallback } from 'react';
+import dynamic from 'next/dynamic';
+import { useRouter } from 'next/navigation';
+import { AudioContext } from '@/contexts/AudioContext';
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
+import { loadCompleteCharacters, loadUsableLocations, pickRandom, type RosterCharacter, type RosterLocation } from '@/lib/supabase/roster';
+import type { AIDifficulty } from '@/lib/ai/difficulty';
+
+// Dynamically import the BattleScene component with SSR disabled
+const BattleScene = dynamic(
+    () => import('@/components/BattleScene').then((mod) => mod.BattleScene),
+    { ssr: false, loading: () => <LoadingFallback message="Loading Demo..." /> }
+);
+
+// The CPUs play a notch above the default so the demo shows specials and anti-airs
+const DEMO_AI_DIFFICULTY: AIDifficulty = 'hard';
+const ERROR_RETURN_DELAY_MS = 5000; // Back to the title when there's nothing to show
+
+function LoadingFallback({ message }: { message: string }) {
+    return (
+        <div className="flex items-center justify-center h-screen bg-gray-900 text-white">
+            <p className="text-xl animate-pulse">{message}</p>
+        </div>
+    );
+}
+
+interface DemoMatch {
+    player1: RosterCharacter;
+    player2: RosterCharacter;
+    location: RosterLocation;
+}
+
+// Two random complete characters (different ones when there are at least two) on a random location
+async function pickDemoMatch(): Promise<DemoMatch> {
+    const [characters, locations] = await Promise.all([loadCompleteCharacters(), loadUsableLocations()]);
+    if (characters.length === 0 || locations.length === 0) {
+        throw new Error('No complete characters or locations to show yet.');
+    }
+
+    const player1 = pickRandom(characters);
+    const others = characters.filter(character => character.id !== player1.id);
+    const player2 = others.length > 0 ? pickRandom(others) : player1; // Mirror match with a single character
+    return { player1, player2, location: pickRandom(locations) };
+}
+
+// Arcade attract mode: the CPU fights itself with random characters, one match after the other,
+// until someone presses a key, clicks or touches a pad (back to the title screen).
+export default function AttractPage() {
+    const router = useRouter();
+    const audioContext = useContext(AudioContext);
+    const [matchNumber, setMatchNumber] = useState(0);
+    const [match, setMatch] = useState<DemoMatch | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isSceneVisible, setIsSceneVisible] = useState(false);
+
+    const exitDemo = useCallback(() => {
+        router.push('/');
+    }, [router]);
+
+    const handleSceneVisible = useCallback(() => {
+        setIsSceneVisible(true);
+    }, []);
+
+    // A new random match once the previous one is over
+    const handleMatchEnd = useCallback(() => {
+        setMatch(null);
+        setMatchNumber(current => current + 1);
+    }, []);
+
+    useEffect(() => {
+        audioContext?.setMusicMode('fight');
+        return () => {
+            audioContext?.setMusicMode('default');
+        };
+    }, [audioContext]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsSceneVisible(false);
+        pickDemoMatch()
+            .then(picked => {
+                if (cancelled) return;
+                console.log(`[AttractPage] Demo match ${matchNumber + 1}: ${picked.player1.name} vs ${picked.player2.name}`);
+                setMatch(picked);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error('[AttractPage] Failed to pick a demo match:', err);
+                setError(err.message || 'Failed to load the demo.');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [matchNumber]);
+
+    useEffect(() => {
+        if (!error) return;
+        const returnTimer = setTimeout(exitDemo, ERROR_RETURN_DELAY_MS);
+        return () => clearTimeout(returnTimer);
+    }, [error, exitDemo]);
+
+    // Any key or click leaves the demo
+    useEffect(() => {
+        window.addEventListener('keydown', exitDemo);
+        window.addEventListener('pointerdown', exitDemo);
+        return () => {
+            window.removeEventListener('keydown', exitDemo);
+            window.removeEventListener('pointerdown', exitDemo);
+        };
+    }, [exitDemo]);
+
+    useGamepadMenu({ navigate: false, onStart: exitDemo, onConfirm: exitDemo, onBack: exitDemo });
+
+    if (error) {
+        return <LoadingFallback message={error} />;
+    }
+
+    if (!match) {
+        return <LoadingFallback message="Loading Demo..." />;
+    }
+
+    return (
+        <div style={{ width: '100vw', height: '100vh', overflow: 'hidden', background: '#000', position: 'relative' }}>
+            {!isSceneVisible && <LoadingFallback message="Preparing Demo..." />}
+            <div style={{ visibility: isSceneVisible ? 'visible' : 'hidden', width: '100%', height: '100%' }}>
+                <BattleScene
+                    key={matchNumber}
+                    player1Id={match.player1.id}
+                    player1ModelUrl={match.player1.modelUrl}
+                    player2ModelUrl={match.player2.modelUrl}
+                    player1Name={match.player1.name}
+                    player2Name={match.player2.name}
+                    player1NameAudioUrl={match.player1.nameAudioUrl}
+                    player2NameAudioUrl={match.player2.nameAudioUrl}
+                    player1SpecialImageUrl={match.player1.specialImageUrl}
+                    player2SpecialImageUrl={match.player2.specialImageUrl}
+                    backgroundImageUrl={match.location.backgroundImageUrl}
+                    floorTextureUrl={match.location.floorTextureUrl}
+                    onSceneVisible={handleSceneVisible}
+                    gameMode="attract"
+                    aiDifficulty={DEMO_AI_DIFFICULTY}
+                    aiPersonality={match.player2.aiPersonality}
+                    player1AIPersonality={match.player1.aiPersonality}
+                    onMatchEnd={handleMatchEnd}
+                />
+            </div>
+            {isSceneVisible && (
+                <div className="absolute bottom-10 w-full text-center pointer-events-none" style={{ zIndex: 5 }}>
+                    <p className="text-3xl blink text-logo-yellow drop-shadow-[2px_2px_0_rgba(0,0,0,0.8)]">
+                        Demo - Press Any Key
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
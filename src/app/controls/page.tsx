@@ -0,0 +1,356 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { playSoundEffect } from '@/utils/playSoundEffect';
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
+import { INPUT_ACTIONS, chordFromEvent, formatKeyChord, type InputAction, type KeyChord } from '@/lib/input/keyBindings';
+import {
+    CONTROL_SLOTS,
+    CONTROL_SLOT_LABELS,
+    DEFAULT_PAUSE_KEYS,
+    DEFAULT_SLOT_BINDINGS,
+    cloneBindings,
+    describeConflict,
+    findBindingConflicts,
+    isOwnerInConflict,
+    loadControlsConfig,
+    saveControlsConfig,
+    type ControlSlot,
+    type ControlsConfig,
+} from '@/lib/input/controlProfiles';
+import {
+    DEFAULT_EFFECTS_SETTINGS,
+    EFFECTS_INTENSITIES,
+    EFFECTS_INTENSITY_LABELS,
+    REDUCED_MOTION_EFFECTS_SETTINGS,
+    loadEffectsSettings,
+    saveEffectsSettings,
+    type EffectsSettings,
+} from '@/lib/effects/settings';
+
+const CONFIRM_SOUND_URL = '/sounds/effects/confirm.mp3';
+
+const ACTION_LABELS: Record<InputAction | 'pause', string> = {
+    left: 'Move Left',
+    right: 'Move Right',
+    jump: 'Jump',
+    duck: 'Duck',
+    punch: 'Punch',
+    block: 'Block',
+    special: 'Special',
+    pause: 'Pause',
+};
+
+const EFFECT_TOGGLES: { key: 'hitStop' | 'screenShake' | 'particles' | 'koCinematic'; label: string }[] = [
+    { key: 'hitStop', label: 'Hit-Stop' },
+    { key: 'screenShake', label: 'Screen Shake' },
+    { key: 'particles', label: 'Impact Particles' },
+    { key: 'koCinematic', label: 'K.O. Cinematic' },
+];
+
+// The row currently waiting for a key press
+interface CaptureTarget {
+    slot: ControlSlot | null; // null = pause keys (shared by every slot)
+    action: InputAction | 'pause';
+}
+
+export default function ControlsPage() {
+    const [config, setConfig] = useState<ControlsConfig | null>(null);
+    const [activeSlot, setActiveSlot] = useState<ControlSlot>('solo');
+    const [captureTarget, setCaptureTarget] = useState<CaptureTarget | null>(null);
+    const [profileName, setProfileName] = useState('');
+    const [effects, setEffects] = useState<EffectsSettings | null>(null);
+    const router = useRouter();
+
+    // localStorage is only available in the browser, load after mount
+    useEffect(() => {
+        setConfig(loadControlsConfig());
+        setEffects(loadEffectsSettings());
+    }, []);
+
+    const updateEffects = (next: EffectsSettings) => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        saveEffectsSettings(next);
+        setEffects(next);
+    };
+
+    const updateConfig = (updater: (current: ControlsConfig) => ControlsConfig) => {
+        setConfig(current => {
+            if (!current) return current;
+            const next = updater(current);
+            saveControlsConfig(next);
+            return next;
+        });
+    };
+
+    const getChords = (current: ControlsConfig, target: CaptureTarget): KeyChord[] =>
+        target.slot === null ? current.pauseKeys : current.slots[target.slot][target.action as InputAction];
+
+    const setChords = (current: ControlsConfig, target: CaptureTarget, chords: KeyChord[]): ControlsConfig => {
+        if (target.slot === null) {
+            return { ...current, pauseKeys: chords };
+        }
+        return {
+            ...current,
+            slots: {
+                ...current.slots,
+                [target.slot]: { ...current.slots[target.slot], [target.action]: chords },
+            },
+        };
+    };
+
+    // --- Key capture: the next key press is added to the selected action ---
+    useEffect(() => {
+        if (!captureTarget) return;
+
+        const handleCaptureKeyDown = (event: KeyboardEvent) => {
+            event.preventDefault();
+            event.stopPropagation();
+            if (event.code === 'Escape') {
+                setCaptureTarget(null);
+                return;
+            }
+            const chord = chordFromEvent(event);
+            if (!chord) return; // Wait for the key that goes with the modifier
+            updateConfig(current => {
+                const chords = getChords(current, captureTarget);
+                return chords.includes(chord) ? current : setChords(current, captureTarget, [...chords, chord]);
+            });
+            playSoundEffect(CONFIRM_SOUND_URL);
+            setCaptureTarget(null);
+        };
+
+        // Capture phase so the key doesn't also activate the focused button
+        window.addEventListener('keydown', handleCaptureKeyDown, true);
+        return () => {
+            window.removeEventListener('keydown', handleCaptureKeyDown, true);
+        };
+    }, [captureTarget]);
+
+    const removeChord = (target: CaptureTarget, chord: KeyChord) => {
+        updateConfig(current => setChords(current, target, getChords(current, target).filter(existing => existing !== chord)));
+    };
+
+    const resetSlot = () => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        updateConfig(current => ({
+            ...current,
+            slots: { ...current.slots, [activeSlot]: cloneBindings(DEFAULT_SLOT_BINDINGS[activeSlot]) },
+            pauseKeys: [...DEFAULT_PAUSE_KEYS],
+        }));
+    };
+
+    const saveProfile = () => {
+        const name = profileName.trim();
+        if (!name) return;
+        playSoundEffect(CONFIRM_SOUND_URL);
+        updateConfig(current => ({
+            ...current,
+            // Saving under an existing name overwrites that profile
+            profiles: [
+                ...current.profiles.filter(profile => profile.name !== name),
+                { name, bindings: cloneBindings(current.slots[activeSlot]) },
+            ],
+        }));
+        setProfileName('');
+    };
+
+    const loadProfile = (name: string) => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        updateConfig(current => {
+            const profile = current.profiles.find(existing => existing.name === name);
+            if (!profile) return current;
+            return { ...current, slots: { ...current.slots, [activeSlot]: cloneBindings(profile.bindings) } };
+        });
+    };
+
+    const deleteProfile = (name: string) => {
+        updateConfig(current => ({ ...current, profiles: current.profiles.filter(profile => profile.name !== name) }));
+    };
+
+    // Gamepad can move around the page; rebinding itself needs a keyboard
+    useGamepadMenu({ navigate: !captureTarget, onBack: () => router.push('/select') });
+
+    if (!config || !effects) {
+        return (
+            <main className="flex min-h-screen flex-col items-center justify-center p-8 bg-gradient-to-br from-arcade-dark-gray to-arcade-bg text-arcade-white">
+                <p className="text-2xl text-arcade-yellow animate-pulse">Loading controls...</p>
+            </main>
+        );
+    }
+
+    const conflicts = findBindingConflicts(config);
+
+    const renderRow = (target: CaptureTarget) => {
+        const chords = getChords(config, target);
+        const isCapturing = captureTarget?.slot === target.slot && captureTarget?.action === target.action;
+        return (
+            <div key={`${target.slot}-${target.action}`} className="flex items-center justify-between gap-4 py-2 border-b border-arcade-dark-gray">
+                <span className="w-32 text-lg text-logo-yellow">{ACTION_LABELS[target.action]}</span>
+                <div className="flex flex-wrap flex-grow gap-2">
+                    {chords.length === 0 && <span className="text-sm text-red-500">Unbound</span>}
+                    {chords.map(chord => (
+                        <span
+                            key={chord}
+                            className={`flex items-center gap-1 px-2 py-1 rounded border-2 text-sm ${isOwnerInConflict(conflicts, target.slot, target.action, chord) ? 'border-logo-red text-logo-red' : 'border-arcade-gray'}`}
+                        >
+                            {formatKeyChord(chord)}
+                            <button
+                                onClick={() => removeChord(target, chord)}
+                                className="text-arcade-gray hover:text-arcade-white"
+                                aria-label={`Remove ${formatKeyChord(chord)}`}
+                            >
+                                ×
+                            </button>
+                        </span>
+                    ))}
+                </div>
+                <button
+                    onClick={() => setCaptureTarget(target)}
+                    className={`btn-arcade px-3 py-1 text-sm ${isCapturing ? 'btn-arcade-action animate-pulse' : 'btn-arcade-secondary'}`}
+                >
+                    {isCapturing ? 'Press a key...' : '+ Add Key'}
+                </button>
+            </div>
+        );
+    };
+
+    return (
+        <main className="flex min-h-screen flex-col items-center p-8 bg-gradient-to-br from-arcade-dark-gray to-arcade-bg text-arcade-white">
+            <Link href="/select" className="absolute top-4 left-4 z-50 text-arcade-yellow hover:text-logo-yellow transition duration-200 opacity-80 hover:opacity-100">
+                &larr; Back
+            </Link>
+
+            <h1 className="text-5xl font-bold mb-6 text-logo-yellow drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)]">Controls</h1>
+
+            {/* Slot Tabs */}
+            <div className="flex justify-center border-b border-arcade-gray mb-4">
+                {CONTROL_SLOTS.map(slot => (
+                    <button
+                        key={slot}
+                        onClick={() => { setActiveSlot(slot); setCaptureTarget(null); }}
+                        className={`px-4 py-2 text-lg font-medium transition-colors duration-200 ${activeSlot === slot ? 'text-logo-yellow border-b-2 border-logo-yellow' : 'text-arcade-gray hover:text-arcade-white'}`}
+                    >
+                        {CONTROL_SLOT_LABELS[slot]}
+                    </button>
+                ))}
+            </div>
+
+            <div className="card-arcade w-full max-w-3xl">
+                {INPUT_ACTIONS.map(action => renderRow({ slot: activeSlot, action }))}
+                {renderRow({ slot: null, action: 'pause' })}
+                <p className="mt-3 text-xs text-arcade-gray">
+                    Hold Shift, Ctrl or Alt while pressing a key to bind a combination. Escape cancels. Pause keys are shared by every mode.
+                </p>
+                <div className="mt-4 text-center">
+                    <button onClick={resetSlot} className="btn-arcade btn-arcade-danger px-4 py-1 text-sm">
+                        Reset to Defaults
+                    </button>
+                </div>
+            </div>
+
+            {/* Gamepad (fixed standard mapping) */}
+            <div className="card-arcade w-full max-w-3xl mt-4">
+                <h2 className="text-xl font-semibold mb-2 text-arcade-yellow">Gamepad</h2>
+                <p className="text-sm">
+                    D-pad / left stick: move, jump (up) and duck (down) · A: punch · X or RB: block · B: special · Y: jump · Start: pause
+                </p>
+                <p className="mt-2 text-xs text-arcade-gray">
+                    Pads are assigned to P1 then P2 in the order they are connected (press a button to wake a pad). In menus, the d-pad moves, A selects and B goes back.
+                </p>
+            </div>
+
+            {/* Hit effects (only shown, they never change the fight) */}
+            <div className="card-arcade w-full max-w-3xl mt-4">
+                <h2 className="text-xl font-semibold mb-2 text-arcade-yellow">Hit Effects</h2>
+                <div className="flex flex-wrap gap-2 mb-3">
+                    {EFFECT_TOGGLES.map(toggle => (
+                        <button
+                            key={toggle.key}
+                            onClick={() => updateEffects({ ...effects, [toggle.key]: !effects[toggle.key] })}
+                            className={`btn-arcade px-3 py-1 text-sm ${effects[toggle.key] ? 'btn-arcade-action' : 'btn-arcade-secondary'}`}
+                        >
+                            {toggle.label}: {effects[toggle.key] ? 'On' : 'Off'}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mb-3">
+                    <span className="text-sm">Intensity:</span>
+                    {EFFECTS_INTENSITIES.map(intensity => (
+                        <button
+                            key={intensity}
+                            onClick={() => updateEffects({ ...effects, intensity })}
+                            className={`btn-arcade px-3 py-1 text-sm ${effects.intensity === intensity ? 'btn-arcade-action' : 'btn-arcade-secondary'}`}
+                        >
+                            {EFFECTS_INTENSITY_LABELS[intensity]}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={() => updateEffects({ ...REDUCED_MOTION_EFFECTS_SETTINGS })} className="btn-arcade btn-arcade-secondary px-3 py-1 text-sm">
+                        Reduce Motion
+                    </button>
+                    <button onClick={() => updateEffects({ ...DEFAULT_EFFECTS_SETTINGS })} className="btn-arcade btn-arcade-danger px-3 py-1 text-sm">
+                        Reset to Defaults
+                    </button>
+                </div>
+                <p className="mt-2 text-xs text-arcade-gray">
+                    Hit-stop freezes both fighters for a few frames when a hit lands, the screen shakes with the damage and sparks fly from where the hit landed, stronger for the special power and a K.O. The K.O. cinematic slows the final hit down and swings the camera around the loser. Reduce Motion turns the freeze, the shake and the cinematic off and keeps a few sparks.
+                </p>
+            </div>
+
+            {/* Conflicts */}
+            {conflicts.length > 0 && (
+                <div className="card-arcade w-full max-w-3xl mt-4 border-logo-red">
+                    <h2 className="text-xl font-semibold mb-2 text-logo-red">Conflicts</h2>
+                    {conflicts.map(conflict => (
+                        <p key={`${conflict.chord}-${conflict.owners.map(owner => `${owner.slot}:${owner.action}`).join(',')}`} className="text-sm">
+                            {describeConflict(conflict)}
+                        </p>
+                    ))}
+                </div>
+            )}
+
+            {/* Profiles */}
+            <div className="card-arcade w-full max-w-3xl mt-4">
+                <h2 className="text-xl font-semibold mb-3 text-arcade-yellow">Profiles</h2>
+                <div className="flex gap-2 mb-4">
+                    <input
+                        type="text"
+                        value={profileName}
+                        onChange={(e) => setProfileName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') saveProfile(); }}
+                        placeholder="Profile name (e.g. AZERTY)"
+                        className="input-arcade flex-grow"
+                    />
+                    <button
+                        onClick={saveProfile}
+                        disabled={!profileName.trim()}
+                        className={`btn-arcade px-4 py-1 text-sm ${profileName.trim() ? 'btn-arcade-action' : 'btn-arcade-disabled'}`}
+                    >
+                        Save Current
+                    </button>
+                </div>
+                {config.profiles.length === 0 ? (
+                    <p className="text-sm text-arcade-gray">No saved profiles yet.</p>
+                ) : (
+                    config.profiles.map(profile => (
+                        <div key={profile.name} className="flex items-center justify-between py-1">
+                            <span>{profile.name}</span>
+                            <div className="flex gap-2">
+                                <button onClick={() => loadProfile(profile.name)} className="btn-arcade btn-arcade-secondary px-3 py-1 text-sm">
+                                    Load into {CONTROL_SLOT_LABELS[activeSlot]}
+                                </button>
+                                <button onClick={() => deleteProfile(profile.name)} className="btn-arcade btn-arcade-danger px-3 py-1 text-sm">
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    ))
+                )}
+            </div>
+        </main>
+    );
+}
@@ -1,12 +1,20 @@
 "use client";
 
-import React, { Suspense, useState, useEffect, useContext } from 'react';
+import React, { Suspense, useState, useEffect, useContext, useMemo } from 'react';
 import dynamic from 'next/dynamic';
 import { useSearchParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { supabase } from '@/lib/supabase/client';
+import { ensureAbsoluteUrl } from '@/lib/supabase/roster';
 import { AudioContext } from '@/contexts/AudioContext';
 import { playSoundEffect } from '@/utils/playSoundEffect';
+import { parseMatchRules } from '@/lib/combat/rounds';
+import { TRAINING_MATCH_RULES } from '@/lib/combat/training';
+import { finishReplay, type ReplayRecorder } from '@/lib/replay/replay';
+import { saveLocalReplay } from '@/lib/replay/localReplays';
+import type { FighterIndex } from '@/lib/combat/types';
+import { parseAIDifficulty } from '@/lib/ai/difficulty';
+import { parseAIPersonality, type AIPersonality } from '@/lib/ai/personality';
 
 // Dynamically import the BattleScene component with SSR disabled
 const BattleScene = dynamic(
@@ -31,6 +39,7 @@ interface CharacterData {
     modelUrl: string | null;
     nameAudioUrl: string | null;
     specialImageUrl: string | null;
+    aiPersonality: AIPersonality; // How the CPU fights with this character
 }
 
 interface LocationData {
@@ -42,14 +51,6 @@ interface LocationData {
 
 type ResourceData = CharacterData | LocationData;
 
-// Helper to ensure absolute URL
-const ensureAbsoluteUrl = (url: string | null): string | null => {
-    if (url && !url.startsWith('http') && process.env.NEXT_PUBLIC_R2_PUBLIC_URL) {
-        return `${process.env.NEXT_PUBLIC_R2_PUBLIC_URL}/${url}`;
-    }
-    return url;
-};
-
 // Fetches either character or location data
 async function getResourceData(id: string, resourceType: 'character' | 'location'): Promise<ResourceData | null> {
     console.log(`[FightPage] Fetching ${resourceType} data for: ${id}`);
@@ -57,7 +58,7 @@ async function getResourceData(id: string, resourceType: 'character' | 'location
         if (resourceType === 'character') {
             const { data, error } = await supabase
                 .from('characters')
-                .select('id, name, model_glb_url, name_audio_url, special_image')
+                .select('id, name, model_glb_url, name_audio_url, special_image, ai_personality')
                 .eq('id', id)
                 .single();
 
@@ -71,7 +72,8 @@ async function getResourceData(id: string, resourceType: 'character' | 'location
                 name: data.name,
                 modelUrl: ensureAbsoluteUrl(data.model_glb_url),
                 nameAudioUrl: ensureAbsoluteUrl(data.name_audio_url),
-                specialImageUrl: ensureAbsoluteUrl(data.special_image)
+                specialImageUrl: ensureAbsoluteUrl(data.special_image),
+                aiPersonality: parseAIPersonality(data.ai_personality)
             };
         } else if (resourceType === 'location') {
              const { data, error } = await supabase
@@ -107,6 +109,22 @@ export default function FightPage() {
     const charId1 = searchParams.get('char1');
     const charId2 = searchParams.get('char2');
     const locationId = searchParams.get('location'); // Add location ID
+    // ?mode=versus puts a second human on P2 instead of the AI, ?mode=training a training dummy,
+    // ?mode=tutorial the dummy with the step by step tutorial
+    const modeParam = searchParams.get('mode');
+    const gameMode = modeParam === 'versus' ? 'local-versus' : modeParam === 'training' || modeParam === 'tutorial' ? modeParam : 'vs-ai';
+    // Optional fixed RNG seed (?seed=123) to replay the same fight
+    const seedParam = searchParams.get('seed');
+    const fightSeed = seedParam && /^\d+$/.test(seedParam) ? Number(seedParam) >>> 0 : undefined;
+    // ?rounds=1|3|5 and ?time=<seconds> (0 = no clock) set the match format
+    const roundsParam = searchParams.get('rounds');
+    const timeParam = searchParams.get('time');
+    const matchRules = useMemo(
+        () => (gameMode === 'training' || gameMode === 'tutorial' ? TRAINING_MATCH_RULES : parseMatchRules(roundsParam, timeParam)),
+        [gameMode, roundsParam, timeParam]
+    );
+    // ?ai=easy|normal|hard|nightmare sets the CPU opponent's strength
+    const aiDifficulty = parseAIDifficulty(searchParams.get('ai'));
 
     // State for fetched data, loading, and errors
     const [player1Data, setPlayer1Data] = useState<CharacterData | null>(null);
@@ -125,6 +143,20 @@ export default function FightPage() {
         setIsSceneVisible(true);
     }, []);
 
+    // Every decided match is kept as a replay in this browser (see /replays)
+    const handleReplayRecorded = React.useCallback((recording: ReplayRecorder, winner: FighterIndex | null) => {
+        if (!player1Data || !player2Data || !locationId) return;
+        saveLocalReplay(finishReplay(recording, {
+            char1: player1Data.id,
+            char2: player2Data.id,
+            location: locationId,
+            player1Name: player1Data.name,
+            player2Name: player2Data.name,
+            gameMode,
+            matchRules,
+        }, winner));
+    }, [player1Data, player2Data, locationId, gameMode, matchRules]);
+
     // Effect to switch music mode on mount and unmount
     useEffect(() => {
         if (!audioContext) {
@@ -248,6 +280,13 @@ export default function FightPage() {
                     backgroundImageUrl={locationData.backgroundImageUrl}
                     floorTextureUrl={locationData.floorTextureUrl}
                     onSceneVisible={handleSceneVisible} // Pass the callback
+                    gameMode={gameMode}
+                    seed={fightSeed}
+                    matchRules={matchRules}
+                    aiDifficulty={aiDifficulty}
+                    aiPersonality={player2Data.aiPersonality}
+                    player1AIPersonality={player1Data.aiPersonality}
+                    onReplayRecorded={handleReplayRecorded}
                 />
             </div>
             {/* Health bars will be rendered inside BattleScene's parent div, managed by BattleScene */}
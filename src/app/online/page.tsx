@@ -0,0 +1,376 @@
+"use client";
+
+import React, { useState, useEffect, useContext, useCallback, useMemo, useRef } from 'react';
+import dynamic from 'next/dynamic';
+import { useSearchParams, useRouter } from 'next/navigation';
+import { AudioContext } from '@/contexts/AudioContext';
+import { playSoundEffect } from '@/utils/playSoundEffect';
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
+import { parseMatchRules } from '@/lib/combat/rounds';
+import { randomSeed } from '@/lib/combat/rng';
+import type { FighterIndex } from '@/lib/combat/types';
+import { finishReplay, type ReplayRecorder } from '@/lib/replay/replay';
+import { saveLocalReplay } from '@/lib/replay/localReplays';
+import { loadRosterCharacter, loadRosterLocation, type RosterCharacter, type RosterLocation } from '@/lib/supabase/roster';
+import { connectNetplay, type NetplayConnection, type NetplayMatch, type NetplaySetup } from '@/lib/netplay/connection';
+import { generateRoomCode, isRoomCode, normalizeRoomCode, ROOM_CODE_LENGTH, type NetplayRole, type SignalingKind } from '@/lib/netplay/signaling';
+import { openSpectateChannel, type SpectateChannel } from '@/lib/netplay/spectate';
+import { INPUT_DELAY_OPTIONS, DEFAULT_INPUT_DELAY, loadInputDelay, saveInputDelay } from '@/lib/netplay/settings';
+
+// Dynamically import the BattleScene component with SSR disabled
+const BattleScene = dynamic(
+    () => import('@/components/BattleScene').then((mod) => mod.BattleScene),
+    { ssr: false, loading: () => <LoadingFallback message="Loading Fight Scene..." /> }
+);
+
+function LoadingFallback({ message }: { message: string }) {
+    return (
+        <div className="flex items-center justify-center h-screen bg-gray-900 text-white">
+            <p className="text-xl animate-pulse">{message}</p>
+        </div>
+    );
+}
+
+const CONFIRM_SOUND_URL = '/sounds/effects/confirm.mp3';
+const HELLO_INTERVAL_MS = 500;
+
+interface OnlineScene {
+    setup: NetplaySetup;
+    player1: RosterCharacter;
+    player2: RosterCharacter;
+    location: RosterLocation;
+}
+
+type LobbyPhase = 'idle' | 'waiting' | 'connecting' | 'setup' | 'fighting';
+
+/**
+ * Online versus lobby. The host comes from the VS page (?char1&char2&location&rounds) and creates
+ * a room, the guest joins with its code or link (?room=CODE). ?signal=local swaps the signaling
+ * server for a BroadcastChannel, to play two tabs of one browser against each other.
+ */
+export default function OnlinePage() {
+    const searchParams = useSearchParams();
+    const router = useRouter();
+    const char1 = searchParams.get('char1');
+    const char2 = searchParams.get('char2');
+    const locationId = searchParams.get('location');
+    const roundsParam = searchParams.get('rounds');
+    const roomParam = normalizeRoomCode(searchParams.get('room') ?? '');
+    const hostSetup = useMemo(
+        () => (char1 && char2 && locationId ? { char1, char2, location: locationId, matchRules: parseMatchRules(roundsParam, null) } : null),
+        [char1, char2, locationId, roundsParam]
+    );
+
+    const [phase, setPhase] = useState<LobbyPhase>('idle');
+    const [error, setError] = useState<string | null>(null);
+    const [roomCode, setRoomCode] = useState<string | null>(null);
+    const [joinCode, setJoinCode] = useState(roomParam);
+    const [signalingKind, setSignalingKind] = useState<SignalingKind>(searchParams.get('signal') === 'local' ? 'local' : 'server');
+    const [inputDelay, setInputDelay] = useState(DEFAULT_INPUT_DELAY);
+    const [copied, setCopied] = useState(false);
+    const [match, setMatch] = useState<NetplayMatch | null>(null);
+    const [setup, setSetup] = useState<NetplaySetup | null>(null);
+    const [scene, setScene] = useState<OnlineScene | null>(null);
+    const [isSceneVisible, setIsSceneVisible] = useState(false);
+    const connectionRef = useRef<NetplayConnection | null>(null);
+    const spectateRef = useRef<SpectateChannel | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const audioContext = useContext(AudioContext);
+
+    // localStorage is only available in the browser, load after mount
+    useEffect(() => {
+        setInputDelay(loadInputDelay());
+    }, []);
+
+    // Cancels a pending connection and tells the other player (and the host's spectators) this side left
+    const closeMatch = useCallback(() => {
+        abortRef.current?.abort();
+        if (connectionRef.current?.role === 'host') spectateRef.current?.publish({ type: 'end' });
+        spectateRef.current?.close();
+        connectionRef.current?.close();
+    }, []);
+
+    useEffect(() => closeMatch, [closeMatch]);
+
+    useEffect(() => {
+        if (phase !== 'fighting') return;
+        audioContext?.setMusicMode('fight');
+        return () => {
+            audioContext?.setMusicMode('default');
+        };
+    }, [phase, audioContext]);
+
+    const startConnection = useCallback((role: NetplayRole, room: string) => {
+        abortRef.current?.abort();
+        const abort = new AbortController();
+        abortRef.current = abort;
+        setError(null);
+        setRoomCode(room);
+        setPhase(role === 'host' ? 'waiting' : 'connecting');
+
+        connectNetplay({ room, role, signalingKind, signal: abort.signal })
+            .then(connection => {
+                if (abort.signal.aborted) {
+                    connection.close();
+                    return;
+                }
+                connectionRef.current = connection;
+                const spectators = openSpectateChannel(signalingKind, room, null);
+                spectateRef.current = spectators;
+                setMatch({ connection, localIndex: role === 'host' ? 0 : 1, inputDelay: loadInputDelay(), spectators }); // Saved on every change
+                if (role === 'host' && hostSetup) setSetup({ ...hostSetup, seed: randomSeed() });
+                setPhase('setup');
+            })
+            .catch(err => {
+                if (abort.signal.aborted) return;
+                console.error(`[OnlinePage] Failed to connect to room ${room}:`, err);
+                setError(err.message || 'Could not connect to the other player.');
+                setPhase('idle');
+            });
+    }, [signalingKind, hostSetup]);
+
+    // The host's room is created on demand, a guest with a room link joins right away
+    const handleCreateRoom = useCallback(() => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        startConnection('host', generateRoomCode());
+    }, [startConnection]);
+
+    const handleJoin = useCallback(() => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        const code = normalizeRoomCode(joinCode);
+        if (!isRoomCode(code)) {
+            setError(`Room codes are ${ROOM_CODE_LENGTH} letters and digits.`);
+            return;
+        }
+        startConnection('guest', code);
+    }, [joinCode, startConnection]);
+
+    const hasAutoJoined = useRef(false);
+    useEffect(() => {
+        if (hostSetup || hasAutoJoined.current || !isRoomCode(roomParam)) return;
+        hasAutoJoined.current = true;
+        startConnection('guest', roomParam);
+    }, [hostSetup, roomParam, startConnection]);
+
+    // Connected: the host answers every hello with the fight it set up (the guest may miss the first
+    // answers, the channel doesn't retransmit), the guest says hello until the setup arrives
+    useEffect(() => {
+        if (!match || match.connection.role !== 'host' || !setup) return;
+        const { connection } = match;
+        match.spectators?.publish({ type: 'setup', setup });
+        return connection.onMessage(message => {
+            if (message.type === 'hello') connection.send({ type: 'setup', setup });
+        });
+    }, [match, setup]);
+
+    useEffect(() => {
+        if (!match || match.connection.role !== 'guest' || setup) return;
+        const { connection } = match;
+        const stopMessages = connection.onMessage(message => {
+            if (message.type === 'setup') setSetup(message.setup);
+        });
+        const sayHello = () => connection.send({ type: 'hello' });
+        sayHello();
+        const helloTimer = setInterval(sayHello, HELLO_INTERVAL_MS);
+        return () => {
+            stopMessages();
+            clearInterval(helloTimer);
+        };
+    }, [match, setup]);
+
+    // In the fight BattleScene shows the disconnect itself
+    useEffect(() => {
+        if (!match || phase === 'fighting') return;
+        return match.connection.onClose(() => setError('The other player left.'));
+    }, [match, phase]);
+
+    useEffect(() => {
+        if (!setup) return;
+        let cancelled = false;
+        Promise.all([loadRosterCharacter(setup.char1), loadRosterCharacter(setup.char2), loadRosterLocation(setup.location)])
+            .then(([player1, player2, location]) => {
+                if (cancelled) return;
+                setScene({ setup, player1, player2, location });
+                setPhase('fighting');
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error('[OnlinePage] Failed to load the online match:', err);
+                setError(err.message || 'Failed to load the fight.');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [setup]);
+
+    const handleInputDelayChange = useCallback((frames: number) => {
+        setInputDelay(frames);
+        saveInputDelay(frames);
+    }, []);
+
+    const shareLink = roomCode && typeof window !== 'undefined'
+        ? `${window.location.origin}/online?room=${roomCode}${signalingKind === 'local' ? '&signal=local' : ''}`
+        : null;
+
+    const spectateLink = roomCode && typeof window !== 'undefined'
+        ? `${window.location.origin}/spectate?room=${roomCode}${signalingKind === 'local' ? '&signal=local' : ''}`
+        : null;
+
+    const handleCopyLink = useCallback(() => {
+        if (!shareLink) return;
+        navigator.clipboard.writeText(shareLink)
+            .then(() => setCopied(true))
+            .catch(err => console.error('[OnlinePage] Failed to copy the room link:', err));
+    }, [shareLink]);
+
+    const handleLeave = useCallback(() => {
+        closeMatch();
+        router.push(hostSetup ? `/vs/${hostSetup.char1}` : '/select');
+    }, [router, hostSetup, closeMatch]);
+
+    const handleWatch = useCallback(() => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        const code = normalizeRoomCode(joinCode);
+        if (!isRoomCode(code)) {
+            setError(`Room codes are ${ROOM_CODE_LENGTH} letters and digits.`);
+            return;
+        }
+        router.push(`/spectate?room=${code}${signalingKind === 'local' ? '&signal=local' : ''}`);
+    }, [joinCode, signalingKind, router]);
+
+    const handleSceneVisible = useCallback(() => {
+        setIsSceneVisible(true);
+    }, []);
+
+    // Both browsers keep the match as a replay, it plays back the same on either side
+    const handleReplayRecorded = useCallback((recording: ReplayRecorder, winner: FighterIndex | null) => {
+        if (!scene) return;
+        saveLocalReplay(finishReplay(recording, {
+            char1: scene.player1.id,
+            char2: scene.player2.id,
+            location: scene.setup.location,
+            player1Name: scene.player1.name,
+            player2Name: scene.player2.name,
+            gameMode: 'online',
+            matchRules: scene.setup.matchRules,
+        }, winner));
+    }, [scene]);
+
+    useGamepadMenu({ navigate: phase !== 'fighting', onBack: phase !== 'fighting' ? handleLeave : undefined });
+
+    if (phase === 'fighting' && scene && match) {
+        const { setup, player1, player2, location } = scene;
+        return (
+            <div style={{ width: '100vw', height: '100vh', overflow: 'hidden', background: '#000', position: 'relative' }}>
+                {!isSceneVisible && <LoadingFallback message="Preparing Scene..." />}
+                <div style={{ visibility: isSceneVisible ? 'visible' : 'hidden', width: '100%', height: '100%' }}>
+                    <BattleScene
+                        player1Id={player1.id}
+                        player1ModelUrl={player1.modelUrl}
+                        player2ModelUrl={player2.modelUrl}
+                        player1Name={player1.name}
+                        player2Name={player2.name}
+                        player1NameAudioUrl={player1.nameAudioUrl}
+                        player2NameAudioUrl={player2.nameAudioUrl}
+                        player1SpecialImageUrl={player1.specialImageUrl}
+                        player2SpecialImageUrl={player2.specialImageUrl}
+                        backgroundImageUrl={location.backgroundImageUrl}
+                        floorTextureUrl={location.floorTextureUrl}
+                        onSceneVisible={handleSceneVisible}
+                        gameMode="online"
+                        seed={setup.seed}
+                        matchRules={setup.matchRules}
+                        netplay={match}
+                        onReplayRecorded={handleReplayRecorded}
+                    />
+                </div>
+            </div>
+        );
+    }
+
+    const isBusy = phase !== 'idle';
+    return (
+        <main className="flex min-h-screen flex-col items-center justify-center gap-6 p-8 bg-gradient-to-b from-blue-900 via-purple-900 to-black text-arcade-white">
+            <h1 className="text-5xl font-bold text-logo-yellow drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider">Online Versus</h1>
+
+            <div className="flex flex-wrap items-center justify-center gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                    Input delay
+                    <select
+                        value={inputDelay}
+                        onChange={event => handleInputDelayChange(Number(event.target.value))}
+                        disabled={isBusy}
+                        className="rounded bg-black/60 border-2 border-arcade-gray px-2 py-1"
+                    >
+                        {INPUT_DELAY_OPTIONS.map(frames => (
+                            <option key={frames} value={frames}>{frames} {frames === 1 ? 'frame' : 'frames'}</option>
+                        ))}
+                    </select>
+                </label>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setSignalingKind('server')}
+                        disabled={isBusy}
+                        className={`btn-arcade px-4 py-1 text-sm ${signalingKind === 'server' ? 'btn-arcade-primary' : 'btn-arcade-secondary opacity-60'}`}
+                    >
+                        Internet
+                    </button>
+                    <button
+                        onClick={() => setSignalingKind('local')}
+                        disabled={isBusy}
+                        className={`btn-arcade px-4 py-1 text-sm ${signalingKind === 'local' ? 'btn-arcade-primary' : 'btn-arcade-secondary opacity-60'}`}
+                    >
+                        Two Tabs
+                    </button>
+                </div>
+            </div>
+            <p className="max-w-xl text-center text-xs text-arcade-gray">
+                More input delay means fewer rollbacks but laggier controls. Both players need the same connection type, &quot;Two Tabs&quot; only reaches tabs of this browser.
+            </p>
+
+            {hostSetup ? (
+                phase === 'idle' ? (
+                    <button onClick={handleCreateRoom} className="btn-arcade btn-arcade-primary">Create Room</button>
+                ) : (
+                    <div className="flex flex-col items-center gap-3">
+                        <p className="text-arcade-gray">Room code</p>
+                        <p className="text-5xl font-bold tracking-[0.3em] text-logo-yellow">{roomCode}</p>
+                        {shareLink && (
+                            <div className="flex items-center gap-2">
+                                <input readOnly value={shareLink} className="w-80 rounded bg-black/60 border-2 border-arcade-gray px-2 py-1 text-xs" />
+                                <button onClick={handleCopyLink} className="btn-arcade btn-arcade-secondary px-4 py-1 text-sm">
+                                    {copied ? 'Copied!' : 'Copy Link'}
+                                </button>
+                            </div>
+                        )}
+                        {spectateLink && <p className="text-xs text-arcade-gray">Spectators can watch at {spectateLink}</p>}
+                    </div>
+                )
+            ) : (
+                <div className="flex items-center gap-2">
+                    <input
+                        value={joinCode}
+                        onChange={event => setJoinCode(normalizeRoomCode(event.target.value).slice(0, ROOM_CODE_LENGTH))}
+                        placeholder="ROOM CODE"
+                        disabled={isBusy}
+                        className="w-48 rounded bg-black/60 border-2 border-arcade-gray px-3 py-2 text-center text-2xl tracking-[0.2em] uppercase"
+                    />
+                    <button onClick={handleJoin} disabled={isBusy} className="btn-arcade btn-arcade-primary">Join</button>
+                    <button onClick={handleWatch} disabled={isBusy} className="btn-arcade btn-arcade-secondary">Watch</button>
+                </div>
+            )}
+
+            {phase !== 'idle' && !error && (
+                <p className="animate-pulse">
+                    {phase === 'waiting' ? 'Waiting for the other player to join...' : phase === 'connecting' ? 'Connecting...' : 'Loading the fight...'}
+                </p>
+            )}
+            {error && <p className="text-red-400">{error}</p>}
+            {!hostSetup && (
+                <p className="max-w-xl text-center text-xs text-arcade-gray">To host a match, pick both fighters on the VS screen and choose Online.</p>
+            )}
+
+            <button onClick={handleLeave} className="btn-arcade btn-arcade-secondary">Back</button>
+        </main>
+    );
+}
@@ -6,8 +6,10 @@ import { useRouter } from 'next/navigation';
 import { AudioContext } from '@/contexts/AudioContext';
 import React from 'react';
 import { playSoundEffect } from '@/utils/playSoundEffect';
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
 
 const START_SOUND_URL = '/sounds/effects/start.mp3';
+const ATTRACT_MODE_DELAY_MS = 30000; // Idle time on the title before the demo starts, like an arcade cabinet
 
 export default function Home() {
   const router = useRouter();
@@ -37,6 +39,27 @@ export default function Home() {
     };
   }, [handleInteraction]);
 
+  // Left alone, the title screen switches to the demo (any input on the page restarts the wait)
+  useEffect(() => {
+    let idleTimer = setTimeout(() => router.push('/attract'), ATTRACT_MODE_DELAY_MS);
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => router.push('/attract'), ATTRACT_MODE_DELAY_MS);
+    };
+    window.addEventListener('keydown', resetIdleTimer);
+    window.addEventListener('pointermove', resetIdleTimer);
+    window.addEventListener('pointerdown', resetIdleTimer);
+    return () => {
+      clearTimeout(idleTimer);
+      window.removeEventListener('keydown', resetIdleTimer);
+      window.removeEventListener('pointermove', resetIdleTimer);
+      window.removeEventListener('pointerdown', resetIdleTimer);
+    };
+  }, [router]);
+
+  // Start or A on a pad works like Enter
+  useGamepadMenu({ navigate: false, onStart: handleInteraction, onConfirm: handleInteraction });
+
   return (
     <main className="flex min-h-screen flex-col items-center justify-center p-4">
        <div className="text-center cursor-pointer group" onClick={handleInteraction}>
@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useState, useEffect, useContext, useCallback } from 'react';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { AudioContext } from '@/contexts/AudioContext';
+import { loadLocalReplay } from '@/lib/replay/localReplays';
+import { loadOnlineReplay } from '@/lib/replay/onlineReplays';
+import type { Replay } from '@/lib/replay/replay';
+import { loadRosterCharacter, loadRosterLocation, type RosterCharacter, type RosterLocation } from '@/lib/supabase/roster';
+
+// Dynamically import the BattleScene component with SSR disabled
+const BattleScene = dynamic(
+    () => import('@/components/BattleScene').then((mod) => mod.BattleScene),
+    { ssr: false, loading: () => <LoadingFallback message="Loading Replay Scene..." /> }
+);
+
+function LoadingFallback({ message }: { message: string }) {
+    return (
+        <div className="flex items-center justify-center h-screen bg-gray-900 text-white">
+            <p className="text-xl animate-pulse">{message}</p>
+        </div>
+    );
+}
+
+interface ReplayScene {
+    replay: Replay;
+    player1: RosterCharacter;
+    player2: RosterCharacter;
+    location: RosterLocation;
+}
+
+// Plays a recorded match back: /replays/local/<id> from this browser, /replays/online/<id> from the replays table
+export default function ReplayPage() {
+    const params = useParams();
+    const source = params.source as string;
+    const replayId = params.replayId as string;
+
+    const [scene, setScene] = useState<ReplayScene | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isSceneVisible, setIsSceneVisible] = useState(false);
+    const audioContext = useContext(AudioContext);
+
+    const handleSceneVisible = useCallback(() => {
+        setIsSceneVisible(true);
+    }, []);
+
+    useEffect(() => {
+        audioContext?.setMusicMode('fight');
+        return () => {
+            audioContext?.setMusicMode('default');
+        };
+    }, [audioContext]);
+
+    useEffect(() => {
+        if (!replayId) return;
+        let cancelled = false;
+        setError(null);
+
+        const loadReplay = async (): Promise<Replay> => {
+            if (source === 'online') return loadOnlineReplay(replayId);
+            const replay = source === 'local' ? loadLocalReplay(replayId) : null;
+            if (!replay) throw new Error('This replay is not saved in this browser.');
+            return replay;
+        };
+
+        loadReplay()
+            .then(async replay => {
+                const [player1, player2, location] = await Promise.all([
+                    loadRosterCharacter(replay.char1),
+                    loadRosterCharacter(replay.char2),
+                    loadRosterLocation(replay.location),
+                ]);
+                if (!cancelled) setScene({ replay, player1, player2, location });
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error(`[ReplayPage] Failed to load replay ${source}/${replayId}:`, err);
+                setError(err.message || 'Failed to load the replay.');
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [source, replayId]);
+
+    if (error) {
+        return (
+            <div className="flex flex-col items-center justify-center h-screen bg-gray-900 text-white p-4">
+                <h2 className="text-2xl text-red-500 mb-4">Error Loading Replay</h2>
+                <p className="mb-6 text-center text-red-300">{error}</p>
+                <Link href="/replays" className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-white font-semibold">
+                    Go back to Replays
+                </Link>
+            </div>
+        );
+    }
+
+    if (!scene) {
+        return <LoadingFallback message="Loading Replay..." />;
+    }
+
+    const { replay, player1, player2, location } = scene;
+    return (
+        <div style={{ width: '100vw', height: '100vh', overflow: 'hidden', background: '#000', position: 'relative' }}>
+            {!isSceneVisible && <LoadingFallback message="Preparing Scene..." />}
+            <div style={{ visibility: isSceneVisible ? 'visible' : 'hidden', width: '100%', height: '100%' }}>
+                <BattleScene
+                    player1Id={player1.id}
+                    player1ModelUrl={player1.modelUrl}
+                    player2ModelUrl={player2.modelUrl}
+                    player1Name={player1.name}
+                    player2Name={player2.name}
+                    player1NameAudioUrl={player1.nameAudioUrl}
+                    player2NameAudioUrl={player2.nameAudioUrl}
+                    player1SpecialImageUrl={player1.specialImageUrl}
+                    player2SpecialImageUrl={player2.specialImageUrl}
+                    backgroundImageUrl={location.backgroundImageUrl}
+                    floorTextureUrl={location.floorTextureUrl}
+                    onSceneVisible={handleSceneVisible}
+                    gameMode="replay"
+                    seed={replay.seed}
+                    matchRules={replay.matchRules}
+                    player1StartHealth={replay.player1StartHealth}
+                    player2MaxHealth={replay.player2MaxHealth}
+                    player2Scale={replay.player2Scale}
+                    replay={replay}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { playSoundEffect } from '@/utils/playSoundEffect';
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
+import { SIM_FPS } from '@/lib/combat/constants';
+import { formatRaceTime } from '@/lib/arcade/timeAttack';
+import { deleteLocalReplay, loadLocalReplays } from '@/lib/replay/localReplays';
+import { loadOnlineReplays, uploadReplay, type OnlineReplaySummary } from '@/lib/replay/onlineReplays';
+import type { Replay } from '@/lib/replay/replay';
+
+const CONFIRM_SOUND_URL = '/sounds/effects/confirm.mp3';
+
+const describeWinner = (winner: number | null, player1Name: string, player2Name: string): string =>
+    winner === null ? 'Draw' : `${winner === 0 ? player1Name : player2Name} wins`;
+
+const formatDate = (isoDate: string): string => new Date(isoDate).toLocaleString();
+
+// Matches played in this browser (watch, share, delete) and the ones shared online
+export default function ReplaysPage() {
+    const router = useRouter();
+    const [localReplays, setLocalReplays] = useState<Replay[]>([]);
+    const [onlineReplays, setOnlineReplays] = useState<OnlineReplaySummary[] | null>(null);
+    const [onlineError, setOnlineError] = useState<string | null>(null);
+    const [uploadStatus, setUploadStatus] = useState<Record<string, string>>({}); // By local replay id
+    const [onlineRefreshKey, setOnlineRefreshKey] = useState(0);
+
+    // localStorage is only available in the browser, load after mount
+    useEffect(() => {
+        setLocalReplays(loadLocalReplays());
+    }, []);
+
+    useEffect(() => {
+        let cancelled = false;
+        setOnlineError(null);
+        loadOnlineReplays()
+            .then(loaded => {
+                if (!cancelled) setOnlineReplays(loaded);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error('[ReplaysPage] Failed to load the online replays:', err);
+                setOnlineError('Online replays unavailable');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [onlineRefreshKey]);
+
+    const watch = useCallback((path: string) => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        router.push(path);
+    }, [router]);
+
+    const handleShare = useCallback((replay: Replay) => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        setUploadStatus(current => ({ ...current, [replay.id]: 'Sharing...' }));
+        uploadReplay(replay)
+            .then(() => {
+                setUploadStatus(current => ({ ...current, [replay.id]: 'Shared!' }));
+                setOnlineRefreshKey(current => current + 1);
+            })
+            .catch(err => {
+                console.error(`[ReplaysPage] Failed to share replay ${replay.id}:`, err);
+                setUploadStatus(current => ({ ...current, [replay.id]: 'Sharing failed' }));
+            });
+    }, []);
+
+    const handleDelete = useCallback((id: string) => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        deleteLocalReplay(id);
+        setLocalReplays(loadLocalReplays());
+    }, []);
+
+    useGamepadMenu({ onBack: () => router.push('/select') });
+
+    return (
+        <main className="flex min-h-screen flex-col items-center gap-8 p-8 bg-gradient-to-b from-blue-900 via-purple-900 to-black text-arcade-white">
+            <h1 className="text-5xl font-bold text-logo-yellow drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider">Replays</h1>
+
+            <section className="w-full max-w-3xl">
+                <h2 className="text-2xl text-logo-yellow mb-2">Your Matches</h2>
+                {localReplays.length === 0 ? (
+                    <p className="text-sm text-arcade-gray">No replays yet, every match you finish is saved here.</p>
+                ) : (
+                    <ul className="flex flex-col gap-2">
+                        {localReplays.map(replay => (
+                            <li key={replay.id} className="flex items-center gap-3 rounded border-2 border-arcade-gray bg-black/40 px-3 py-2">
+                                <div className="flex-grow">
+                                    <p className="uppercase">{replay.player1Name} vs {replay.player2Name}</p>
+                                    <p className="text-xs text-arcade-gray">
+                                        {describeWinner(replay.winner, replay.player1Name, replay.player2Name)} · {formatRaceTime(replay.frames / SIM_FPS)} · {formatDate(replay.createdAt)}
+                                    </p>
+                                </div>
+                                {uploadStatus[replay.id] && <span className="text-xs text-arcade-gray">{uploadStatus[replay.id]}</span>}
+                                <button onClick={() => watch(`/replays/local/${encodeURIComponent(replay.id)}`)} className="btn-arcade btn-arcade-primary px-4 py-1 text-sm">
+                                    Watch
+                                </button>
+                                <button onClick={() => handleShare(replay)} className="btn-arcade btn-arcade-secondary px-4 py-1 text-sm">
+                                    Share
+                                </button>
+                                <button onClick={() => handleDelete(replay.id)} className="btn-arcade btn-arcade-secondary px-4 py-1 text-sm opacity-60">
+                                    Delete
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+
+            <section className="w-full max-w-3xl">
+                <h2 className="text-2xl text-logo-yellow mb-2">Shared Online</h2>
+                {onlineError ? (
+                    <p className="text-sm text-arcade-gray">{onlineError}</p>
+                ) : !onlineReplays ? (
+                    <p className="text-sm text-arcade-gray animate-pulse">Loading online replays...</p>
+                ) : onlineReplays.length === 0 ? (
+                    <p className="text-sm text-arcade-gray">Nothing shared yet.</p>
+                ) : (
+                    <ul className="flex flex-col gap-2">
+                        {onlineReplays.map(replay => (
+                            <li key={replay.id} className="flex items-center gap-3 rounded border-2 border-arcade-gray bg-black/40 px-3 py-2">
+                                <div className="flex-grow">
+                                    <p className="uppercase">{replay.player1Name} vs {replay.player2Name}</p>
+                                    <p className="text-xs text-arcade-gray">
+                                        {describeWinner(replay.winner, replay.player1Name, replay.player2Name)} · {formatRaceTime(replay.frames / SIM_FPS)} · {formatDate(replay.createdAt)}
+                                    </p>
+                                </div>
+                                <button onClick={() => watch(`/replays/online/${encodeURIComponent(replay.id)}`)} className="btn-arcade btn-arcade-primary px-4 py-1 text-sm">
+                                    Watch
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+
+            <button onClick={() => router.push('/select')} className="btn-arcade btn-arcade-secondary">
+                Back
+            </button>
+        </main>
+    );
+}
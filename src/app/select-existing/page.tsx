@@ -4,9 +4,10 @@ import { supabase } from '@/lib/supabase/client';
 import CharacterViewer from '../character/[characterId]/CharacterViewer'; // Adjust path if needed
 import Link from 'next/link';
 import Image from 'next/image';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation'; // Import useRouter
 import { playSoundEffect } from '@/utils/playSoundEffect'; // Import the utility
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
 
 const CONFIRM_SOUND_URL = '/sounds/effects/confirm.mp3'; // Define sound path
 
@@ -26,6 +27,7 @@ export default function SelectExistingCharacter() {
     const [error, setError] = useState<string | null>(null);
     const [selectedCharacter, setSelectedCharacter] = useState<Character | null>(null);
     const router = useRouter(); // Initialize router
+    const modalRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
         async function fetchCharacters() {
@@ -104,6 +106,13 @@ export default function SelectExistingCharacter() {
         }
     };
 
+    // Gamepad: d-pad picks a fighter, B closes the viewer (or goes back), Start confirms the viewed fighter
+    useGamepadMenu({
+        rootRef: selectedCharacter ? modalRef : undefined,
+        onBack: selectedCharacter ? closeModal : () => router.push('/select'),
+        onStart: selectedCharacter ? handleConfirmFighter : undefined,
+    });
+
     // Helper to determine if a character card should be disabled
     const isCharacterDisabled = (character: Character) => {
         return character.status !== 'complete' || !character.model_glb_url;
@@ -177,7 +186,7 @@ export default function SelectExistingCharacter() {
             {/* Modal for Character Viewer */}
             {selectedCharacter && selectedCharacter.model_glb_url && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4">
-                    <div className="relative max-w-4xl w-[80vw] max-h-[80vh] h-[80vh] bg-transparent rounded-lg overflow-hidden shadow-xl">
+                    <div ref={modalRef} className="relative max-w-4xl w-[80vw] max-h-[80vh] h-[80vh] bg-transparent rounded-lg overflow-hidden shadow-xl">
                          {/* Character Name Display */}
                          <div className="absolute top-4 left-4 z-10 bg-black/50 p-2 rounded">
                             <h1 className="text-xl sm:text-2xl font-bold text-logo-yellow drop-shadow-[2px_2px_0_rgba(0,0,0,0.8)]">
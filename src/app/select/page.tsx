@@ -3,6 +3,7 @@
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import { playSoundEffect } from '@/utils/playSoundEffect';
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
 
 const CONFIRM_SOUND_URL = '/sounds/effects/confirm.mp3';
 
@@ -20,6 +21,23 @@ export default function SelectCharacter() {
     router.push('/select-existing');
   };
 
+  const goToControls = () => {
+    playSoundEffect(CONFIRM_SOUND_URL);
+    router.push('/controls');
+  };
+
+  const goToOnline = () => {
+    playSoundEffect(CONFIRM_SOUND_URL);
+    router.push('/online');
+  };
+
+  const goToReplays = () => {
+    playSoundEffect(CONFIRM_SOUND_URL);
+    router.push('/replays');
+  };
+
+  useGamepadMenu({ onBack: () => router.push('/') });
+
   // Placeholder for future function to select existing character
   // const goToExisting = (characterId: string) => {
   //   router.push(`/character/${characterId}`); 
@@ -55,6 +73,24 @@ export default function SelectCharacter() {
             Select Existing Character
           </button>
         </div>
+        <button
+          onClick={goToControls}
+          className="btn-arcade btn-arcade-action w-72 sm:w-80 mt-6"
+        >
+          Controls
+        </button>
+        <button
+          onClick={goToOnline}
+          className="btn-arcade btn-arcade-action w-72 sm:w-80 mt-6"
+        >
+          Join Online Match
+        </button>
+        <button
+          onClick={goToReplays}
+          className="btn-arcade btn-arcade-action w-72 sm:w-80 mt-6"
+        >
+          Replays
+        </button>
       </div>
 
       <footer className="w-full text-center p-4 text-sm text-arcade-gray">
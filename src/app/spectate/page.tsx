@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useState, useEffect, useContext, useCallback, useRef } from 'react';
+import dynamic from 'next/dynamic';
+import { useSearchParams, useRouter } from 'next/navigation';
+import { AudioContext } from '@/contexts/AudioContext';
+import { playSoundEffect } from '@/utils/playSoundEffect';
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
+import type { NetplaySetup } from '@/lib/netplay/connection';
+import { isRoomCode, normalizeRoomCode, ROOM_CODE_LENGTH, type SignalingKind } from '@/lib/netplay/signaling';
+import {
+    createViewerId,
+    openSpectateChannel,
+    SPECTATOR_DELAY_MS,
+    type SpectateChannel,
+    type SpectateFeedMessage,
+} from '@/lib/netplay/spectate';
+import { appendLiveInputs, createLivePlayback, type ReplayPlayback } from '@/lib/replay/replay';
+import { loadRosterCharacter, loadRosterLocation, type RosterCharacter, type RosterLocation } from '@/lib/supabase/roster';
+
+// Dynamically import the BattleScene component with SSR disabled
+const BattleScene = dynamic(
+    () => import('@/components/BattleScene').then((mod) => mod.BattleScene),
+    { ssr: false, loading: () => <LoadingFallback message="Loading Fight Scene..." /> }
+);
+
+function LoadingFallback({ message }: { message: string }) {
+    return (
+        <div className="flex items-center justify-center h-screen bg-gray-900 text-white">
+            <p className="text-xl animate-pulse">{message}</p>
+        </div>
+    );
+}
+
+const CONFIRM_SOUND_URL = '/sounds/effects/confirm.mp3';
+const RELEASE_INTERVAL_MS = 100;
+
+interface SpectateScene {
+    setup: NetplaySetup;
+    player1: RosterCharacter;
+    player2: RosterCharacter;
+    location: RosterLocation;
+    playback: ReplayPlayback;
+}
+
+// Inputs received but not shown yet, spectators watch SPECTATOR_DELAY_MS behind
+interface HeldInputs {
+    message: Extract<SpectateFeedMessage, { type: 'inputs' }>;
+    receivedAt: number;
+}
+
+// Watches a live online match: /spectate?room=CODE (&signal=local for a match between tabs of this browser)
+export default function SpectatePage() {
+    const searchParams = useSearchParams();
+    const router = useRouter();
+    const signalingKind: SignalingKind = searchParams.get('signal') === 'local' ? 'local' : 'server';
+    const roomParam = normalizeRoomCode(searchParams.get('room') ?? '');
+
+    const [room, setRoom] = useState<string | null>(isRoomCode(roomParam) ? roomParam : null);
+    const [roomInput, setRoomInput] = useState(roomParam);
+    const [channel, setChannel] = useState<SpectateChannel | null>(null);
+    const [setup, setSetup] = useState<NetplaySetup | null>(null);
+    const [scene, setScene] = useState<SpectateScene | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [hostLeft, setHostLeft] = useState(false);
+    const [isSceneVisible, setIsSceneVisible] = useState(false);
+    const heldInputsRef = useRef<HeldInputs[]>([]);
+    const audioContext = useContext(AudioContext);
+
+    useEffect(() => {
+        if (!scene) return;
+        audioContext?.setMusicMode('fight');
+        return () => {
+            audioContext?.setMusicMode('default');
+        };
+    }, [scene, audioContext]);
+
+    // The feed from the start of the match: the set-up, then the inputs, held back for the delay
+    useEffect(() => {
+        if (!room) return;
+        const spectateChannel = openSpectateChannel(signalingKind, room, createViewerId());
+        heldInputsRef.current = [];
+        const stopFeed = spectateChannel.onFeed(message => {
+            switch (message.type) {
+                case 'setup':
+                    setSetup(current => current ?? message.setup);
+                    break;
+                case 'inputs':
+                    heldInputsRef.current.push({ message, receivedAt: Date.now() });
+                    break;
+                case 'end':
+                    setHostLeft(true);
+                    break;
+            }
+        });
+        setChannel(spectateChannel);
+        return () => {
+            stopFeed();
+            spectateChannel.close();
+            setChannel(null);
+        };
+    }, [room, signalingKind]);
+
+    useEffect(() => {
+        if (!setup) return;
+        let cancelled = false;
+        Promise.all([loadRosterCharacter(setup.char1), loadRosterCharacter(setup.char2), loadRosterLocation(setup.location)])
+            .then(([player1, player2, location]) => {
+                if (cancelled) return;
+                const playback = createLivePlayback({
+                    char1: player1.id,
+                    char2: player2.id,
+                    location: setup.location,
+                    player1Name: player1.name,
+                    player2Name: player2.name,
+                    gameMode: 'online',
+                    matchRules: setup.matchRules,
+                }, setup.seed);
+                setScene({ setup, player1, player2, location, playback });
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error('[SpectatePage] Failed to load the match:', err);
+                setError(err.message || 'Failed to load the match.');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [setup]);
+
+    // Hands the inputs to the playback once they're SPECTATOR_DELAY_MS old
+    useEffect(() => {
+        if (!scene) return;
+        const releaseTimer = setInterval(() => {
+            const held = heldInputsRef.current;
+            const due = Date.now() - SPECTATOR_DELAY_MS;
+            while (held.length > 0 && held[0].receivedAt <= due) {
+                const { round, start, inputs } = held.shift()!.message;
+                appendLiveInputs(scene.playback, round, start, inputs);
+            }
+        }, RELEASE_INTERVAL_MS);
+        return () => clearInterval(releaseTimer);
+    }, [scene]);
+
+    const handleWatch = useCallback(() => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        const code = normalizeRoomCode(roomInput);
+        if (!isRoomCode(code)) {
+            setError(`Room codes are ${ROOM_CODE_LENGTH} letters and digits.`);
+            return;
+        }
+        setError(null);
+        setRoom(code);
+    }, [roomInput]);
+
+    const handleSceneVisible = useCallback(() => {
+        setIsSceneVisible(true);
+    }, []);
+
+    useGamepadMenu({ navigate: !scene, onBack: scene ? undefined : () => router.push('/online') });
+
+    if (scene && channel) {
+        const { setup: matchSetup, player1, player2, location, playback } = scene;
+        return (
+            <div style={{ width: '100vw', height: '100vh', overflow: 'hidden', background: '#000', position: 'relative' }}>
+                {!isSceneVisible && <LoadingFallback message="Preparing Scene..." />}
+                <div style={{ visibility: isSceneVisible ? 'visible' : 'hidden', width: '100%', height: '100%' }}>
+                    <BattleScene
+                        player1Id={player1.id}
+                        player1ModelUrl={player1.modelUrl}
+                        player2ModelUrl={player2.modelUrl}
+                        player1Name={player1.name}
+                        player2Name={player2.name}
+                        player1NameAudioUrl={player1.nameAudioUrl}
+                        player2NameAudioUrl={player2.nameAudioUrl}
+                        player1SpecialImageUrl={player1.specialImageUrl}
+                        player2SpecialImageUrl={player2.specialImageUrl}
+                        backgroundImageUrl={location.backgroundImageUrl}
+                        floorTextureUrl={location.floorTextureUrl}
+                        onSceneVisible={handleSceneVisible}
+                        gameMode="spectate"
+                        seed={matchSetup.seed}
+                        matchRules={matchSetup.matchRules}
+                        spectating={{ channel, playback }}
+                    />
+                </div>
+                {hostLeft && isSceneVisible && (
+                    <div style={{
+                        position: 'absolute', top: '130px', left: '50%', transform: 'translateX(-50%)', zIndex: 3, pointerEvents: 'none',
+                        backgroundColor: 'rgba(0, 0, 0, 0.55)', color: '#ff5252', borderRadius: '6px', padding: '4px 10px', fontSize: '13px',
+                    }}>
+                        The players left, the stream ends here
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <main className="flex min-h-screen flex-col items-center justify-center gap-6 p-8 bg-gradient-to-b from-blue-900 via-purple-900 to-black text-arcade-white">
+            <h1 className="text-5xl font-bold text-logo-yellow drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider">Spectate</h1>
+            {room ? (
+                <p className="animate-pulse">{setup ? 'Loading the match...' : `Waiting for the match in room ${room} to start...`}</p>
+            ) : (
+                <div className="flex items-center gap-2">
+                    <input
+                        value={roomInput}
+                        onChange={event => setRoomInput(normalizeRoomCode(event.target.value).slice(0, ROOM_CODE_LENGTH))}
+                        placeholder="ROOM CODE"
+                        className="w-48 rounded bg-black/60 border-2 border-arcade-gray px-3 py-2 text-center text-2xl tracking-[0.2em] uppercase"
+                    />
+                    <button onClick={handleWatch} className="btn-arcade btn-arcade-primary">Watch</button>
+                </div>
+            )}
+            <p className="max-w-xl text-center text-xs text-arcade-gray">
+                The match is shown {SPECTATOR_DELAY_MS / 1000} seconds behind, from its start. Joined late, it plays faster until it catches up.
+            </p>
+            {error && <p className="text-red-400">{error}</p>}
+            <button onClick={() => router.push('/online')} className="btn-arcade btn-arcade-secondary">Back</button>
+        </main>
+    );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { playSoundEffect } from '@/utils/playSoundEffect';
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
+import { AI_DIFFICULTIES } from '@/lib/ai/difficulty';
+import { MAX_HEALTH } from '@/lib/combat/constants';
+import { loadArcadeRoster } from '@/lib/arcade/roster';
+import { pickRandom, type RosterCharacter, type RosterLocation } from '@/lib/supabase/roster';
+import { SURVIVAL_MATCH_RULES, SURVIVAL_REGEN, getSurvivalDifficulty, pickSurvivalOpponent, regenerateHealth } from '@/lib/arcade/survival';
+import { recordChallengeResult } from '@/lib/arcade/results';
+import { formatRaceTime } from '@/lib/arcade/timeAttack';
+import { ArcadeFight } from '@/components/ArcadeFight';
+import { Leaderboard } from '@/components/Leaderboard';
+import type { MatchEndResult } from '@/components/BattleScene';
+
+const CONFIRM_SOUND_URL = '/sounds/effects/confirm.mp3';
+
+function LoadingFallback({ message }: { message: string }) {
+    return (
+        <div className="flex items-center justify-center h-screen bg-gray-900 text-white">
+            <p className="text-xl animate-pulse">{message}</p>
+        </div>
+    );
+}
+
+// 'intro': rules and leaderboard, 'between': a won fight and the next opponent, 'results': the run is over
+type SurvivalPhase = 'intro' | 'fight' | 'between' | 'results';
+
+// Survival mode: CPU opponents one after the other until the player's fighter falls,
+// with the health left carried over (plus a bit back after each win)
+export default function SurvivalPage() {
+    const params = useParams();
+    const router = useRouter();
+    const characterId = params.characterId as string;
+
+    const [characters, setCharacters] = useState<Record<string, RosterCharacter>>({});
+    const [locations, setLocations] = useState<RosterLocation[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [phase, setPhase] = useState<SurvivalPhase>('intro');
+    const [opponentId, setOpponentId] = useState<string | null>(null);
+    const [location, setLocation] = useState<RosterLocation | null>(null);
+    const [fightNumber, setFightNumber] = useState(0); // Remounts the fight every time
+    const [health, setHealth] = useState(MAX_HEALTH);
+    const [healthBeforeRegen, setHealthBeforeRegen] = useState(MAX_HEALTH);
+    const [wins, setWins] = useState(0);
+    const [fightSeconds, setFightSeconds] = useState(0);
+    const [leaderboardKey, setLeaderboardKey] = useState(0);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const isRunSavedRef = useRef(false);
+
+    const player = characters[characterId];
+    const opponent = opponentId ? characters[opponentId] : undefined;
+    const difficulty = getSurvivalDifficulty(wins);
+
+    useEffect(() => {
+        if (!characterId) return;
+        let cancelled = false;
+        setIsLoading(true);
+        setError(null);
+
+        loadArcadeRoster(characterId)
+            .then(roster => {
+                if (cancelled) return;
+                setCharacters(roster.characters);
+                setLocations(roster.locations);
+                setOpponentId(pickSurvivalOpponent(Object.keys(roster.characters), characterId, null));
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error('[SurvivalPage] Failed to load the roster:', err);
+                setError(err.message || 'Failed to load the survival mode.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [characterId]);
+
+    const startFight = useCallback(() => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        setLocation(pickRandom(locations));
+        setFightNumber(current => current + 1);
+        setPhase('fight');
+    }, [locations]);
+
+    const saveRun = useCallback((opponentsBeaten: number, totalSeconds: number) => {
+        if (isRunSavedRef.current) return;
+        isRunSavedRef.current = true;
+        setSaveError(null);
+        recordChallengeResult({ characterId, mode: 'survival', opponentsBeaten, timeMs: Math.round(totalSeconds * 1000) })
+            .then(() => setLeaderboardKey(current => current + 1))
+            .catch(err => {
+                console.error('[SurvivalPage] Failed to save the run:', err);
+                setSaveError('Your run could not be saved.');
+            });
+    }, [characterId]);
+
+    const handleMatchEnd = useCallback((result: MatchEndResult) => {
+        const totalSeconds = fightSeconds + result.fightSeconds;
+        setFightSeconds(totalSeconds);
+        if (result.winner === 0) {
+            setWins(current => current + 1);
+            setHealthBeforeRegen(result.health[0]);
+            setHealth(regenerateHealth(result.health[0], MAX_HEALTH));
+            setOpponentId(current => pickSurvivalOpponent(Object.keys(characters), characterId, current));
+            setPhase('between');
+        } else {
+            // Lost or drawn, either way the run is over
+            saveRun(wins, totalSeconds);
+            setPhase('results');
+        }
+    }, [fightSeconds, wins, characters, characterId, saveRun]);
+
+    const handleTryAgain = useCallback(() => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        isRunSavedRef.current = false;
+        setWins(0);
+        setHealth(MAX_HEALTH);
+        setFightSeconds(0);
+        setSaveError(null);
+        setOpponentId(pickSurvivalOpponent(Object.keys(characters), characterId, opponentId));
+        setPhase('intro');
+    }, [characters, characterId, opponentId]);
+
+    const handleQuit = useCallback(() => {
+        router.push(`/vs/${encodeURIComponent(characterId)}`);
+    }, [router, characterId]);
+
+    // The pads fight during matches, BattleScene handles them there
+    const isInMenu = phase !== 'fight';
+    useGamepadMenu({
+        navigate: isInMenu,
+        onStart: phase === 'intro' || phase === 'between' ? startFight : phase === 'results' ? handleTryAgain : undefined,
+        onBack: isInMenu ? handleQuit : undefined,
+    });
+
+    if (isLoading) {
+        return <LoadingFallback message="Loading Survival..." />;
+    }
+
+    if (error || !player || !opponent) {
+        return (
+            <div className="flex flex-col items-center justify-center h-screen bg-gray-900 text-white p-4">
+                <h2 className="text-2xl text-red-500 mb-4">Error Loading Survival</h2>
+                <p className="mb-6 text-center text-red-300">{error ?? 'No opponent to fight.'}</p>
+                <Link href="/select-existing" className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-white font-semibold">
+                    Go back to Character Selection
+                </Link>
+            </div>
+        );
+    }
+
+    if (phase === 'fight' && location) {
+        return (
+            <ArcadeFight
+                key={fightNumber}
+                player={player}
+                opponent={opponent}
+                location={location}
+                aiDifficulty={difficulty}
+                matchRules={SURVIVAL_MATCH_RULES}
+                player1StartHealth={health}
+                banner={`Survival · Fight ${wins + 1} · ${AI_DIFFICULTIES[difficulty].label}`}
+                onMatchEnd={handleMatchEnd}
+            />
+        );
+    }
+
+    return (
+        <main className="flex min-h-screen flex-col items-center justify-center gap-6 p-8 bg-gradient-to-b from-blue-900 via-purple-900 to-black text-arcade-white overflow-hidden">
+            <div className="text-center">
+                <p className="text-sm text-arcade-gray uppercase tracking-wider">Survival · {player.name}</p>
+                <p className="text-2xl text-logo-yellow drop-shadow-[2px_2px_0_rgba(0,0,0,0.8)]">Opponents Beaten {wins}</p>
+                <p className="text-xs text-arcade-gray">Fight Time {formatRaceTime(fightSeconds)}</p>
+            </div>
+
+            {phase === 'intro' && (
+                <>
+                    <p className="max-w-md text-center">
+                        Beat as many opponents as you can. Your health carries over from one fight to the next,
+                        with {Math.round(SURVIVAL_REGEN * 100)}% of it back after each win, and the CPU gets tougher as you go.
+                    </p>
+                    <h2 className="text-4xl font-bold text-logo-yellow drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider text-center">
+                        First up: {opponent.name}
+                    </h2>
+                    <div className="flex gap-4">
+                        <button onClick={startFight} className="btn-arcade btn-arcade-primary animate-bounce">
+                            Fight!
+                        </button>
+                        <button onClick={handleQuit} className="btn-arcade btn-arcade-secondary">
+                            Quit
+                        </button>
+                    </div>
+                    <Leaderboard mode="survival" highlightCharacterId={characterId} />
+                </>
+            )}
+
+            {phase === 'between' && (
+                <>
+                    <h2 className="text-4xl font-bold text-logo-yellow drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider">You Win!</h2>
+                    <p className="text-lg">
+                        Health {Math.round((healthBeforeRegen / MAX_HEALTH) * 100)}% → {Math.round((health / MAX_HEALTH) * 100)}%
+                    </p>
+                    <p className="text-lg">Next: <span className="uppercase text-logo-yellow">{opponent.name}</span> ({AI_DIFFICULTIES[difficulty].label})</p>
+                    <div className="flex gap-4">
+                        <button onClick={startFight} className="btn-arcade btn-arcade-primary animate-bounce">
+                            Next Fight
+                        </button>
+                        <button onClick={handleQuit} className="btn-arcade btn-arcade-secondary">
+                            Quit
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {phase === 'results' && (
+                <>
+                    <h2 className="text-5xl font-bold text-red-500 drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider">Game Over</h2>
+                    <p className="text-lg">{player.name} beat {wins} {wins === 1 ? 'opponent' : 'opponents'} in {formatRaceTime(fightSeconds)}</p>
+                    {saveError && <p className="text-sm text-red-300">{saveError}</p>}
+                    <Leaderboard mode="survival" highlightCharacterId={characterId} refreshKey={leaderboardKey} />
+                    <div className="flex gap-4">
+                        <button onClick={handleTryAgain} className="btn-arcade btn-arcade-primary">
+                            Try Again
+                        </button>
+                        <button onClick={handleQuit} className="btn-arcade btn-arcade-secondary">
+                            Quit
+                        </button>
+                    </div>
+                </>
+            )}
+        </main>
+    );
+}
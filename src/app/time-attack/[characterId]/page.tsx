@@ -0,0 +1,259 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { playSoundEffect } from '@/utils/playSoundEffect';
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
+import { AI_DIFFICULTIES } from '@/lib/ai/difficulty';
+import { loadArcadeRoster } from '@/lib/arcade/roster';
+import { pickRandom, type RosterCharacter, type RosterLocation } from '@/lib/supabase/roster';
+import { TIME_ATTACK_MATCH_RULES, TIME_ATTACK_STAGE_COUNT, buildTimeAttackLadder, formatRaceTime } from '@/lib/arcade/timeAttack';
+import { recordChallengeResult } from '@/lib/arcade/results';
+import type { ArcadeStage } from '@/lib/arcade/ladder';
+import { ArcadeFight } from '@/components/ArcadeFight';
+import { Leaderboard } from '@/components/Leaderboard';
+import type { MatchEndResult } from '@/components/BattleScene';
+
+const CONFIRM_SOUND_URL = '/sounds/effects/confirm.mp3';
+
+function LoadingFallback({ message }: { message: string }) {
+    return (
+        <div className="flex items-center justify-center h-screen bg-gray-900 text-white">
+            <p className="text-xl animate-pulse">{message}</p>
+        </div>
+    );
+}
+
+// 'intro': the ladder and leaderboard, 'between': a stage won or lost, 'results': the ladder is beaten
+type TimeAttackPhase = 'intro' | 'fight' | 'between' | 'results';
+
+// Time attack mode: the same ladder for everyone, beaten as fast as possible. Only fighting time
+// counts, a lost stage is fought again with the clock still running.
+export default function TimeAttackPage() {
+    const params = useParams();
+    const router = useRouter();
+    const characterId = params.characterId as string;
+
+    const [characters, setCharacters] = useState<Record<string, RosterCharacter>>({});
+    const [locations, setLocations] = useState<RosterLocation[]>([]);
+    const [ladder, setLadder] = useState<ArcadeStage[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [phase, setPhase] = useState<TimeAttackPhase>('intro');
+    const [stageIndex, setStageIndex] = useState(0);
+    const [location, setLocation] = useState<RosterLocation | null>(null);
+    const [fightNumber, setFightNumber] = useState(0); // Remounts the fight every time
+    const [stageSeconds, setStageSeconds] = useState<number[]>([]); // Per stage, retries included
+    const [lastFightWon, setLastFightWon] = useState(false);
+    const [leaderboardKey, setLeaderboardKey] = useState(0);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const isRunSavedRef = useRef(false);
+
+    const player = characters[characterId];
+    const stage = ladder[stageIndex];
+    const opponent = stage ? characters[stage.opponentId] : undefined;
+    const totalSeconds = stageSeconds.reduce((total, seconds) => total + seconds, 0);
+
+    useEffect(() => {
+        if (!characterId) return;
+        let cancelled = false;
+        setIsLoading(true);
+        setError(null);
+
+        loadArcadeRoster(characterId)
+            .then(roster => {
+                if (cancelled) return;
+                const timeAttackLadder = buildTimeAttackLadder(Object.values(roster.characters));
+                if (timeAttackLadder.length === 0) {
+                    throw new Error(`Time attack needs ${TIME_ATTACK_STAGE_COUNT + 1} complete characters, ${TIME_ATTACK_STAGE_COUNT} to race against and yours.`);
+                }
+                // No mirror matches: the ladder's own fighters can't race it
+                if (timeAttackLadder.some(entry => entry.opponentId === characterId)) {
+                    throw new Error(`${roster.characters[characterId].name} is one of the ${TIME_ATTACK_STAGE_COUNT} time attack opponents, pick another fighter to race them.`);
+                }
+                setCharacters(roster.characters);
+                setLocations(roster.locations);
+                setLadder(timeAttackLadder);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error('[TimeAttackPage] Failed to load the roster:', err);
+                setError(err.message || 'Failed to load the time attack mode.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [characterId]);
+
+    const startFight = useCallback(() => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        setLocation(pickRandom(locations));
+        setFightNumber(current => current + 1);
+        setPhase('fight');
+    }, [locations]);
+
+    const handleMatchEnd = useCallback((result: MatchEndResult) => {
+        const won = result.winner === 0;
+        const seconds = [...stageSeconds];
+        seconds[stageIndex] = (seconds[stageIndex] ?? 0) + result.fightSeconds;
+        setStageSeconds(seconds);
+        setLastFightWon(won);
+
+        if (won && stageIndex === ladder.length - 1) {
+            const runSeconds = seconds.reduce((total, value) => total + value, 0);
+            if (!isRunSavedRef.current) {
+                isRunSavedRef.current = true;
+                recordChallengeResult({ characterId, mode: 'time-attack', opponentsBeaten: ladder.length, timeMs: Math.round(runSeconds * 1000) })
+                    .then(() => setLeaderboardKey(current => current + 1))
+                    .catch(err => {
+                        console.error('[TimeAttackPage] Failed to save the run:', err);
+                        setSaveError('Your time could not be saved.');
+                    });
+            }
+            setPhase('results');
+        } else {
+            setPhase('between');
+        }
+    }, [stageSeconds, stageIndex, ladder.length, characterId]);
+
+    // After a win the next stage, after a loss the same one again
+    const handleNext = useCallback(() => {
+        if (lastFightWon) setStageIndex(current => current + 1);
+        startFight();
+    }, [lastFightWon, startFight]);
+
+    const handleTryAgain = useCallback(() => {
+        playSoundEffect(CONFIRM_SOUND_URL);
+        isRunSavedRef.current = false;
+        setStageIndex(0);
+        setStageSeconds([]);
+        setSaveError(null);
+        setPhase('intro');
+    }, []);
+
+    const handleQuit = useCallback(() => {
+        router.push(`/vs/${encodeURIComponent(characterId)}`);
+    }, [router, characterId]);
+
+    // The pads fight during matches, BattleScene handles them there
+    const isInMenu = phase !== 'fight';
+    useGamepadMenu({
+        navigate: isInMenu,
+        onStart: phase === 'intro' ? startFight : phase === 'between' ? handleNext : phase === 'results' ? handleTryAgain : undefined,
+        onBack: isInMenu ? handleQuit : undefined,
+    });
+
+    if (isLoading) {
+        return <LoadingFallback message="Loading Time Attack..." />;
+    }
+
+    if (error || !player || !stage || !opponent) {
+        return (
+            <div className="flex flex-col items-center justify-center h-screen bg-gray-900 text-white p-4">
+                <h2 className="text-2xl text-red-500 mb-4">Error Loading Time Attack</h2>
+                <p className="mb-6 text-center text-red-300">{error ?? 'The time attack ladder could not be built.'}</p>
+                <Link href="/select-existing" className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-white font-semibold">
+                    Go back to Character Selection
+                </Link>
+            </div>
+        );
+    }
+
+    if (phase === 'fight' && location) {
+        return (
+            <ArcadeFight
+                key={fightNumber}
+                player={player}
+                opponent={opponent}
+                location={location}
+                aiDifficulty={stage.difficulty}
+                matchRules={TIME_ATTACK_MATCH_RULES}
+                banner={`Time Attack · Stage ${stageIndex + 1}/${ladder.length} · ${formatRaceTime(totalSeconds)}`}
+                onMatchEnd={handleMatchEnd}
+            />
+        );
+    }
+
+    const nextOpponent = lastFightWon ? characters[ladder[stageIndex + 1]?.opponentId] : opponent;
+
+    return (
+        <main className="flex min-h-screen flex-col items-center justify-center gap-6 p-8 bg-gradient-to-b from-blue-900 via-purple-900 to-black text-arcade-white overflow-hidden">
+            <div className="text-center">
+                <p className="text-sm text-arcade-gray uppercase tracking-wider">Time Attack · {player.name}</p>
+                <p className="text-3xl text-logo-yellow drop-shadow-[2px_2px_0_rgba(0,0,0,0.8)]">{formatRaceTime(totalSeconds)}</p>
+            </div>
+
+            {/* Stage times so far */}
+            <ol className="flex flex-col gap-1 w-full max-w-md">
+                {ladder.map((entry, index) => (
+                    <li
+                        key={`${entry.opponentId}-${index}`}
+                        className={`flex gap-3 rounded border-2 px-3 py-1 ${index === stageIndex && phase !== 'results' ? 'border-logo-yellow bg-black/60' : 'border-arcade-gray bg-black/30'}`}
+                    >
+                        <span className="w-6">{index + 1}</span>
+                        <span className="flex-grow uppercase">{characters[entry.opponentId].name}</span>
+                        <span className="text-xs text-arcade-gray self-center">{AI_DIFFICULTIES[entry.difficulty].label}</span>
+                        <span className="w-20 text-right">{stageSeconds[index] !== undefined ? formatRaceTime(stageSeconds[index]) : '-:--.--'}</span>
+                    </li>
+                ))}
+            </ol>
+
+            {phase === 'intro' && (
+                <>
+                    <p className="max-w-md text-center">
+                        Beat all {ladder.length} opponents as fast as you can. Only fighting time counts,
+                        and a lost fight is fought again while the clock keeps running.
+                    </p>
+                    <div className="flex gap-4">
+                        <button onClick={startFight} className="btn-arcade btn-arcade-primary animate-bounce">
+                            Start
+                        </button>
+                        <button onClick={handleQuit} className="btn-arcade btn-arcade-secondary">
+                            Quit
+                        </button>
+                    </div>
+                    <Leaderboard mode="time-attack" highlightCharacterId={characterId} />
+                </>
+            )}
+
+            {phase === 'between' && (
+                <>
+                    <h2 className={`text-4xl font-bold drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider ${lastFightWon ? 'text-logo-yellow' : 'text-red-500'}`}>
+                        {lastFightWon ? 'Stage Clear!' : 'Try Again!'}
+                    </h2>
+                    {nextOpponent && <p className="text-lg">Next: <span className="uppercase text-logo-yellow">{nextOpponent.name}</span></p>}
+                    <div className="flex gap-4">
+                        <button onClick={handleNext} className="btn-arcade btn-arcade-primary animate-bounce">
+                            {lastFightWon ? 'Next Stage' : 'Retry'}
+                        </button>
+                        <button onClick={handleQuit} className="btn-arcade btn-arcade-secondary">
+                            Quit
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {phase === 'results' && (
+                <>
+                    <h2 className="text-5xl font-bold text-logo-yellow drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider">Finish!</h2>
+                    {saveError && <p className="text-sm text-red-300">{saveError}</p>}
+                    <Leaderboard mode="time-attack" highlightCharacterId={characterId} refreshKey={leaderboardKey} />
+                    <div className="flex gap-4">
+                        <button onClick={handleTryAgain} className="btn-arcade btn-arcade-primary">
+                            Try Again
+                        </button>
+                        <button onClick={handleQuit} className="btn-arcade btn-arcade-secondary">
+                            Quit
+                        </button>
+                    </div>
+                </>
+            )}
+        </main>
+    );
+}
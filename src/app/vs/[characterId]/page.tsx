@@ -5,7 +5,17 @@ import { useParams, useRouter } from 'next/navigation'; // Use useParams for cli
 import Image from 'next/image';
 import Link from 'next/link';
 import { supabase } from '@/lib/supabase/client';
+import { ensureAbsoluteUrl } from '@/lib/supabase/roster';
 import { playSoundEffect } from '@/utils/playSoundEffect'; // Import the utility
+import { formatKeyChord, type KeyBindings, type KeyChord } from '@/lib/input/keyBindings';
+import { DEFAULT_SLOT_BINDINGS, loadControlsConfig } from '@/lib/input/controlProfiles';
+import { subscribeGamepadAssignments } from '@/lib/input/gamepad';
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
+import { BEST_OF_OPTIONS, DEFAULT_MATCH_RULES } from '@/lib/combat/rounds';
+import { AI_DIFFICULTIES, AI_DIFFICULTY_OPTIONS, DEFAULT_AI_DIFFICULTY } from '@/lib/ai/difficulty';
+
+// Who controls P2: the AI, a second human on the same keyboard or online, or a training dummy (with or without the tutorial)
+type OpponentControl = 'cpu' | 'versus' | 'online' | 'training' | 'tutorial';
 
 interface Character {
     id: string;
@@ -25,16 +35,14 @@ interface Location {
     created_at: string;
 }
 
-// Helper to add R2 prefix if needed
-const ensureAbsoluteUrl = (url: string | null): string | null => {
-    if (url && !url.startsWith('http') && process.env.NEXT_PUBLIC_R2_PUBLIC_URL) {
-        return `${process.env.NEXT_PUBLIC_R2_PUBLIC_URL}/${url}`;
-    }
-    return url;
-};
-
 const CONFIRM_SOUND_URL = '/sounds/effects/confirm.mp3'; // Define sound path
 
+// Short controls summary shown under each fighter in 2P mode
+const firstKey = (chords: KeyChord[]): string => chords.length > 0 ? formatKeyChord(chords[0]) : '-';
+const describeBindings = (bindings: KeyBindings): string =>
+    `Move ${[bindings.left, bindings.jump, bindings.duck, bindings.right].map(firstKey).join('/')} · ` +
+    `Punch ${firstKey(bindings.punch)} · Block ${firstKey(bindings.block)} · Special ${firstKey(bindings.special)}`;
+
 export default function VsPage() {
     const params = useParams();
     const router = useRouter();
@@ -47,6 +55,13 @@ export default function VsPage() {
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [isAnimating, setIsAnimating] = useState(false);
+    const [opponentControl, setOpponentControl] = useState<OpponentControl>('cpu');
+    const isLocalVersus = opponentControl === 'versus';
+    const hasRounds = opponentControl === 'cpu' || opponentControl === 'versus' || opponentControl === 'online';
+    const [bestOf, setBestOf] = useState(DEFAULT_MATCH_RULES.bestOf); // Rounds in the match
+    const [aiDifficulty, setAIDifficulty] = useState(DEFAULT_AI_DIFFICULTY); // CPU strength in 1P vs CPU
+    const [versusBindings, setVersusBindings] = useState({ p1: DEFAULT_SLOT_BINDINGS.p1, p2: DEFAULT_SLOT_BINDINGS.p2 });
+    const [padAssignments, setPadAssignments] = useState<(number | null)[]>([null, null]); // Gamepad index per player
 
     // --- Location Modal State ---
     const [showLocationModal, setShowLocationModal] = useState(false);
@@ -64,8 +79,18 @@ export default function VsPage() {
     const [selectedExistingLocation, setSelectedExistingLocation] = useState<Location | null>(null); // Track visual selection
 
     const animationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+    const locationModalRef = useRef<HTMLDivElement>(null);
     const opponentAudioRef = useRef<HTMLAudioElement | null>(null);
 
+    // Show the 2P bindings saved from the controls screen (localStorage, so after mount)
+    useEffect(() => {
+        const { slots } = loadControlsConfig();
+        setVersusBindings({ p1: slots.p1, p2: slots.p2 });
+    }, []);
+
+    // Pads get assigned to P1/P2 as they are connected
+    useEffect(() => subscribeGamepadAssignments(setPadAssignments), []);
+
     // 1. Fetch Chosen Character and Potential Opponents
     useEffect(() => {
         if (!characterId) return;
@@ -369,8 +394,22 @@ export default function VsPage() {
         console.log("Location Confirmed ID:", confirmedLocationId);
         console.log(`Proceeding to fight: ${chosenCharacter.name} (${chosenCharacter.id}) vs ${finalOpponent.name} (${finalOpponent.id})`);
         
+        // Online: the lobby creates a room for this fight and waits for the other player
+        if (opponentControl === 'online') {
+            router.push(`/online?char1=${encodeURIComponent(chosenCharacter.id)}&char2=${encodeURIComponent(finalOpponent.id)}&location=${encodeURIComponent(confirmedLocationId)}&rounds=${bestOf}`);
+            return;
+        }
+
         // Construct the fight URL with query parameters
-        const fightUrl = `/fight?char1=${encodeURIComponent(chosenCharacter.id)}&char2=${encodeURIComponent(finalOpponent.id)}&location=${encodeURIComponent(confirmedLocationId)}`;
+        let fightUrl = `/fight?char1=${encodeURIComponent(chosenCharacter.id)}&char2=${encodeURIComponent(finalOpponent.id)}&location=${encodeURIComponent(confirmedLocationId)}`;
+        if (opponentControl === 'versus') {
+            fightUrl += '&mode=versus';
+        } else if (opponentControl === 'training' || opponentControl === 'tutorial') {
+            fightUrl += `&mode=${opponentControl}`;
+        } else {
+            fightUrl += `&ai=${aiDifficulty}`;
+        }
+        if (hasRounds) fightUrl += `&rounds=${bestOf}`;
         
         console.log("Navigating to:", fightUrl);
         // Navigate to the actual fight screen (ensure /fight page exists)
@@ -379,6 +418,13 @@ export default function VsPage() {
         // handleCloseLocationModal(); // Close modal automatically? Maybe keep open until navigation occurs.
     };
 
+    // Gamepad: d-pad moves between buttons, B closes the location modal (or goes back), Start confirms the location
+    useGamepadMenu({
+        rootRef: showLocationModal ? locationModalRef : undefined,
+        onBack: showLocationModal ? handleCloseLocationModal : () => router.push('/select-existing'),
+        onStart: showLocationModal ? handleConfirmLocation : undefined,
+    });
+
     // --- Render Logic ---
 
     if (isLoading) {
@@ -421,6 +467,9 @@ export default function VsPage() {
             <Link href="/select-existing" className="absolute top-4 left-4 z-50 text-arcade-yellow hover:text-logo-yellow transition duration-200 opacity-80 hover:opacity-100">
                 &larr; Change Fighter
             </Link>
+            <Link href="/controls" className="absolute top-4 right-4 z-50 text-arcade-yellow hover:text-logo-yellow transition duration-200 opacity-80 hover:opacity-100">
+                Controls
+            </Link>
 
             {/* Chosen Fighter (Left) */}
             <div className="flex flex-col items-center w-1/3">
@@ -441,6 +490,9 @@ export default function VsPage() {
                  <h2 className="text-4xl font-bold text-logo-yellow drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider">
                      {chosenCharacter.name}
                  </h2>
+                 {isLocalVersus && (
+                     <p className="mt-2 text-xs text-arcade-gray text-center">P1 · {describeBindings(versusBindings.p1)}{padAssignments[0] !== null ? ' · Pad' : ''}</p>
+                 )}
                 {/* --- NEW: Chosen Character Special Power Image --- */}
                 {chosenCharacter.special_image_url && (
                     <div className="mt-4 w-full max-w-xs h-20 relative">
@@ -491,6 +543,11 @@ export default function VsPage() {
                  <h2 className={`text-4xl font-bold text-logo-yellow drop-shadow-[3px_3px_0_rgba(0,0,0,0.8)] uppercase tracking-wider transition-opacity duration-100 ${isAnimating ? 'opacity-75' : 'opacity-100'}`}>
                      {displayOpponent?.name || '??????'}
                  </h2>
+                 {finalOpponent && (
+                     <p className="mt-2 text-xs text-arcade-gray text-center">
+                         {isLocalVersus ? `P2 · ${describeBindings(versusBindings.p2)}${padAssignments[1] !== null ? ' · Pad' : ''}` : opponentControl === 'online' ? 'Online' : hasRounds ? 'CPU' : 'Dummy'}
+                     </p>
+                 )}
                 {/* --- NEW: Opponent Special Power Image --- */}
                 {displayOpponent?.special_image_url && (
                     <div className="mt-4 w-full max-w-xs h-20 relative">
@@ -508,7 +565,86 @@ export default function VsPage() {
 
              {/* Choose Location Button Container - Replaces Start Fight */}
              {finalOpponent && (
-                 <div className="absolute bottom-10 left-1/2 transform -translate-x-1/2 z-50">
+                 <div className="absolute bottom-10 left-1/2 transform -translate-x-1/2 z-50 flex flex-col items-center gap-4">
+                     {/* Opponent control: AI, a second human on the same keyboard or online, or a training dummy */}
+                     <div className="flex gap-2">
+                         <button
+                             onClick={() => { playSoundEffect(CONFIRM_SOUND_URL); setOpponentControl('cpu'); }}
+                             className={`btn-arcade px-4 py-1 text-sm ${opponentControl === 'cpu' ? 'btn-arcade-primary' : 'btn-arcade-secondary opacity-60'}`}
+                         >
+                             1P vs CPU
+                         </button>
+                         <button
+                             onClick={() => { playSoundEffect(CONFIRM_SOUND_URL); setOpponentControl('versus'); }}
+                             className={`btn-arcade px-4 py-1 text-sm ${isLocalVersus ? 'btn-arcade-primary' : 'btn-arcade-secondary opacity-60'}`}
+                         >
+                             2P Versus
+                         </button>
+                         <button
+                             onClick={() => { playSoundEffect(CONFIRM_SOUND_URL); setOpponentControl('online'); }}
+                             className={`btn-arcade px-4 py-1 text-sm ${opponentControl === 'online' ? 'btn-arcade-primary' : 'btn-arcade-secondary opacity-60'}`}
+                         >
+                             Online
+                         </button>
+                         <button
+                             onClick={() => { playSoundEffect(CONFIRM_SOUND_URL); setOpponentControl('training'); }}
+                             className={`btn-arcade px-4 py-1 text-sm ${opponentControl === 'training' ? 'btn-arcade-primary' : 'btn-arcade-secondary opacity-60'}`}
+                         >
+                             Training
+                         </button>
+                         <button
+                             onClick={() => { playSoundEffect(CONFIRM_SOUND_URL); setOpponentControl('tutorial'); }}
+                             className={`btn-arcade px-4 py-1 text-sm ${opponentControl === 'tutorial' ? 'btn-arcade-primary' : 'btn-arcade-secondary opacity-60'}`}
+                         >
+                             Tutorial
+                         </button>
+                         <button
+                             onClick={() => { playSoundEffect(CONFIRM_SOUND_URL); router.push(`/arcade/${encodeURIComponent(chosenCharacter.id)}`); }}
+                             className="btn-arcade btn-arcade-secondary px-4 py-1 text-sm opacity-60"
+                         >
+                             Arcade
+                         </button>
+                         <button
+                             onClick={() => { playSoundEffect(CONFIRM_SOUND_URL); router.push(`/survival/${encodeURIComponent(chosenCharacter.id)}`); }}
+                             className="btn-arcade btn-arcade-secondary px-4 py-1 text-sm opacity-60"
+                         >
+                             Survival
+                         </button>
+                         <button
+                             onClick={() => { playSoundEffect(CONFIRM_SOUND_URL); router.push(`/time-attack/${encodeURIComponent(chosenCharacter.id)}`); }}
+                             className="btn-arcade btn-arcade-secondary px-4 py-1 text-sm opacity-60"
+                         >
+                             Time Attack
+                         </button>
+                     </div>
+                     {/* CPU difficulty */}
+                     {opponentControl === 'cpu' && (
+                         <div className="flex gap-2">
+                             {AI_DIFFICULTY_OPTIONS.map(option => (
+                                 <button
+                                     key={option}
+                                     onClick={() => { playSoundEffect(CONFIRM_SOUND_URL); setAIDifficulty(option); }}
+                                     className={`btn-arcade px-4 py-1 text-sm ${aiDifficulty === option ? 'btn-arcade-primary' : 'btn-arcade-secondary opacity-60'}`}
+                                 >
+                                     {AI_DIFFICULTIES[option].label}
+                                 </button>
+                             ))}
+                         </div>
+                     )}
+                     {/* Match format (training and the tutorial have no rounds) */}
+                     {hasRounds && (
+                         <div className="flex gap-2">
+                             {BEST_OF_OPTIONS.map(option => (
+                                 <button
+                                     key={option}
+                                     onClick={() => { playSoundEffect(CONFIRM_SOUND_URL); setBestOf(option); }}
+                                     className={`btn-arcade px-4 py-1 text-sm ${bestOf === option ? 'btn-arcade-primary' : 'btn-arcade-secondary opacity-60'}`}
+                                 >
+                                     {option === 1 ? '1 Round' : `Best of ${option}`}
+                                 </button>
+                             ))}
+                         </div>
+                     )}
                      <button
                          onClick={handleOpenLocationModal} // Opens the modal
                          className="btn-arcade btn-arcade-primary animate-bounce"
@@ -521,7 +657,7 @@ export default function VsPage() {
             {/* --- Location Selection Modal --- */}
             {showLocationModal && (
                 <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md p-4"> {/* Increased max-w, flex-col, max-h */}
-                    <div className="relative bg-arcade-bg border-4 border-logo-yellow rounded-lg shadow-xl p-6 w-full max-w-3xl text-arcade-white flex flex-col max-h-[90vh]">
+                    <div ref={locationModalRef} className="relative bg-arcade-bg border-4 border-logo-yellow rounded-lg shadow-xl p-6 w-full max-w-3xl text-arcade-white flex flex-col max-h-[90vh]">
 
                         {/* Close Button */}
                         <button
@@ -0,0 +1,121 @@
+"use client";
+
+import React, { useState, useEffect, useContext, useCallback } from 'react';
+import dynamic from 'next/dynamic';
+import { AudioContext } from '@/contexts/AudioContext';
+import type { AIDifficulty } from '@/lib/ai/difficulty';
+import type { RosterCharacter, RosterLocation } from '@/lib/supabase/roster';
+import { DEFAULT_MATCH_RULES, type MatchRules } from '@/lib/combat/rounds';
+import type { FighterIndex } from '@/lib/combat/types';
+import { finishReplay, type ReplayRecorder } from '@/lib/replay/replay';
+import { saveLocalReplay } from '@/lib/replay/localReplays';
+import type { MatchEndResult } from '@/components/BattleScene';
+
+// Dynamically import the BattleScene component with SSR disabled
+const BattleScene = dynamic(
+    () => import('@/components/BattleScene').then((mod) => mod.BattleScene),
+    { ssr: false, loading: () => <LoadingFallback message="Loading Fight Scene..." /> }
+);
+
+function LoadingFallback({ message }: { message: string }) {
+    return (
+        <div className="flex items-center justify-center h-screen bg-gray-900 text-white">
+            <p className="text-xl animate-pulse">{message}</p>
+        </div>
+    );
+}
+
+interface ArcadeFightProps {
+    player: RosterCharacter;
+    opponent: RosterCharacter;
+    location: RosterLocation;
+    aiDifficulty: AIDifficulty;
+    matchRules?: MatchRules;
+    player1StartHealth?: number;
+    player2MaxHealth?: number;
+    player2Scale?: number;
+    banner: string; // Stage and score line shown under the health bars
+    onMatchEnd: (result: MatchEndResult) => void;
+}
+
+// One CPU fight of a single player mode (arcade, survival, time attack). Give it a new key
+// for every fight so the scene starts over.
+export function ArcadeFight({
+    player,
+    opponent,
+    location,
+    aiDifficulty,
+    matchRules,
+    player1StartHealth,
+    player2MaxHealth,
+    player2Scale,
+    banner,
+    onMatchEnd,
+}: ArcadeFightProps) {
+    const audioContext = useContext(AudioContext);
+    const [isSceneVisible, setIsSceneVisible] = useState(false);
+
+    const handleSceneVisible = useCallback(() => {
+        setIsSceneVisible(true);
+    }, []);
+
+    // Kept with the other replays, with the boss and carried over health so it plays back the same
+    const handleReplayRecorded = useCallback((recording: ReplayRecorder, winner: FighterIndex | null) => {
+        saveLocalReplay(finishReplay(recording, {
+            char1: player.id,
+            char2: opponent.id,
+            location: location.id,
+            player1Name: player.name,
+            player2Name: opponent.name,
+            gameMode: 'vs-ai',
+            matchRules: matchRules ?? DEFAULT_MATCH_RULES,
+            player1StartHealth,
+            player2MaxHealth,
+            player2Scale,
+        }, winner));
+    }, [player, opponent, location, matchRules, player1StartHealth, player2MaxHealth, player2Scale]);
+
+    // Fight music while the fight is on, the menu music between fights
+    useEffect(() => {
+        audioContext?.setMusicMode('fight');
+        return () => {
+            audioContext?.setMusicMode('default');
+        };
+    }, [audioContext]);
+
+    return (
+        <div style={{ width: '100vw', height: '100vh', overflow: 'hidden', background: '#000', position: 'relative' }}>
+            {!isSceneVisible && <LoadingFallback message="Preparing Scene..." />}
+            <div style={{ visibility: isSceneVisible ? 'visible' : 'hidden', width: '100%', height: '100%' }}>
+                <BattleScene
+                    player1Id={player.id}
+                    player1ModelUrl={player.modelUrl}
+                    player2ModelUrl={opponent.modelUrl}
+                    player1Name={player.name}
+                    player2Name={opponent.name}
+                    player1NameAudioUrl={player.nameAudioUrl}
+                    player2NameAudioUrl={opponent.nameAudioUrl}
+                    player1SpecialImageUrl={player.specialImageUrl}
+                    player2SpecialImageUrl={opponent.specialImageUrl}
+                    backgroundImageUrl={location.backgroundImageUrl}
+                    floorTextureUrl={location.floorTextureUrl}
+                    onSceneVisible={handleSceneVisible}
+                    gameMode="vs-ai"
+                    matchRules={matchRules}
+                    aiDifficulty={aiDifficulty}
+                    aiPersonality={opponent.aiPersonality}
+                    player1StartHealth={player1StartHealth}
+                    player2MaxHealth={player2MaxHealth}
+                    player2Scale={player2Scale}
+                    onMatchEnd={onMatchEnd}
+                    onReplayRecorded={handleReplayRecorded}
+                />
+            </div>
+            {isSceneVisible && (
+                <div className="absolute top-24 w-full text-center pointer-events-none" style={{ zIndex: 5 }}>
+                    <p className="text-lg text-arcade-yellow drop-shadow-[2px_2px_0_rgba(0,0,0,0.8)]">{banner}</p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -11,19 +11,128 @@ import { useTexture } from '@react-three/drei'; // <-- Add useTexture import
 import { PlayerCharacter, PlayerCharacterHandle, InputState, FightPhase } from './PlayerCharacter'; // Import InputState and FightPhase
 import HealthBar from './HealthBar'; // Import the HealthBar component
 import { AIController } from './AIController'; // Import AIController
+import { HitboxOverlay } from './HitboxOverlay';
+import { TrainingOverlay } from './TrainingOverlay';
+import { TutorialOverlay } from './TutorialOverlay';
+import { ReplayControls } from './ReplayControls';
+import { NetplayOverlay, type NetplayReadout } from './NetplayOverlay';
+import { SpectatorOverlay, type FloatingEmote } from './SpectatorOverlay';
+import { ImpactParticles, type ImpactParticlesHandle } from './ImpactParticles';
 import { playSoundEffect } from '@/utils/playSoundEffect'; // <-- Import sound utility
 import { useRouter } from 'next/navigation';             // <-- Import router
-
-// Define stage boundaries
-const MIN_X = -8;
-const MAX_X = 8;
-const CHARACTER_RADIUS = 0.09; // Match debug cylinder radius
-const MIN_SEPARATION = CHARACTER_RADIUS * 2;
+import { matchesAnyChord } from '@/lib/input/keyBindings';
+import { useGamepadMenu } from '@/lib/input/useGamepadMenu';
+import { loadControlsConfig, type ControlsConfig } from '@/lib/input/controlProfiles';
+import { createFightState, createNextRoundState, isRoundOver, stepFight } from '@/lib/combat/simulation';
+import { randomSeed } from '@/lib/combat/rng';
+import {
+    GROUND_LEVEL,
+    MAX_ENERGY,
+    MAX_HEALTH,
+    PLAYER1_START_X,
+    PLAYER2_START_X,
+    PROJECTILE_GROWTH_FRAMES,
+    SIM_DT,
+    SIM_FPS,
+    secondsToFrames,
+} from '@/lib/combat/constants';
+import {
+    DEFAULT_MATCH_RULES,
+    countRoundWins,
+    getMatchOutcome,
+    resolveRound,
+    roundsToWin,
+    type MatchRules,
+    type RoundEndReason,
+    type RoundResult,
+} from '@/lib/combat/rounds';
+import { MOVES } from '@/lib/combat/moves';
+import { DEFAULT_AI_DIFFICULTY, type AIDifficulty } from '@/lib/ai/difficulty';
+import { AI_PERSONALITIES, DEFAULT_AI_PERSONALITY, type AIPersonality } from '@/lib/ai/personality';
+import {
+    DEFAULT_TRAINING_SETTINGS,
+    TRAINING_DUMMY_LABELS,
+    TRAINING_DUMMY_MODES,
+    afterTrainingStep,
+    createTrainingSession,
+    getTrainingDummyInput,
+    startTrainingRecording,
+    stopTrainingRecording,
+    type InputLogEntry,
+    type TrainingReadout,
+    type TrainingSession,
+    type TrainingSettings,
+    type TrainingStepResult,
+} from '@/lib/combat/training';
+import {
+    createReplayPlayback,
+    getLiveCatchUpSpeed,
+    isReplayFrameAvailable,
+    createReplayRecorder,
+    getReplayInputs,
+    recordReplayFrame,
+    type Replay,
+    type ReplayPlayback,
+    type ReplayRecorder,
+} from '@/lib/replay/replay';
+import { advanceTutorial, createTutorialSession, getTutorialStep, type TutorialSession, type TutorialStepResult } from '@/lib/combat/tutorial';
+import {
+    applyRollback,
+    createRollbackSession,
+    isRollbackConfirmed,
+    isWaitingForRemote,
+    receiveRollbackMessage,
+    shouldSkipStepForSync,
+    startRollbackRound,
+    stepRollback,
+    takeRollbackMessage,
+    type RollbackSession,
+} from '@/lib/netplay/rollback';
+import type { NetplayConnection, NetplayMatch } from '@/lib/netplay/connection';
+import {
+    createSpectateProgress,
+    SPECTATE_PUBLISH_MS,
+    takeSpectateInputs,
+    type SpectateChannel,
+    type SpectatorEmote,
+    type SpectatorMatch,
+} from '@/lib/netplay/spectate';
+import { getHitEffects } from '@/lib/effects/hitEffects';
+import { loadEffectsSettings, type EffectsSettings } from '@/lib/effects/settings';
+import type { BodyLayout, FightConfig, FightEvent, FightState, FighterIndex, GameMode } from '@/lib/combat/types';
 
 // Define starting positions
-const PLAYER1_START_POS: [number, number, number] = [-1.5, 0, 0];
-const PLAYER2_START_POS: [number, number, number] = [1.5, 0, 0];
-const GROUND_LEVEL = 0;
+const PLAYER1_START_POS: [number, number, number] = [PLAYER1_START_X, GROUND_LEVEL, 0];
+const PLAYER2_START_POS: [number, number, number] = [PLAYER2_START_X, GROUND_LEVEL, 0];
+
+// Fixed-step simulation: render frames longer than this (tab switch, hitch) are cut short
+// instead of running a burst of catch-up steps
+const MAX_SIM_STEPS_PER_FRAME = 5;
+
+// How long the round result stays up before the next round's PRE_FIGHT
+const ROUND_OVER_DELAY_MS = 3000;
+const HITBOX_DEBUG_KEY = 'F2'; // Toggles the hurtbox / hitbox overlay
+const GUARD_FEEDBACK_MS = 800; // Matches the flash-pop animation
+const COMBO_COUNTER_MS = 1200; // Stays up a little longer than a combo's gap between hits
+const TUTORIAL_CLEARED_MS = 1200;
+const NETPLAY_READOUT_MS = 250; // Ping / rollback HUD refresh
+const EMOTE_FLOAT_MS = 2000; // Matches the emote-rise animation
+const MAX_FLOATING_EMOTES = 20;
+const CAMERA_SHAKE_SECONDS = 0.3; // The shake of a hit dies down over this
+// K.O. cinematic: the fight slows down, then the camera swings around the loser. It lasts as long as the
+// winner's delay before the victory pose (PlayerCharacter), the camera goes to them for it.
+const KO_CINEMATIC_SECONDS = 2;
+const KO_SLOW_MOTION_SECONDS = 1.2;
+const KO_SLOW_MOTION_SCALE = 0.3;
+
+// Flashed on the defender's side of the HUD: a block, or a guard at the wrong height
+type GuardFeedbackText = 'BLOCKED' | 'LOW' | 'OVERHEAD';
+
+const ROUND_END_TEXT: Record<RoundEndReason, string> = {
+    ko: 'K.O.!',
+    doubleKo: 'Double K.O.!',
+    timeOver: 'Time Over!',
+};
 
 // Camera control constants - Lower Y, keeping straight angle
 const MIN_CAM_Z = 2.76;
@@ -33,16 +142,18 @@ const CAM_Y = 0.31;       // Lowered Camera Y
 const CAM_LOOKAT_Y = 1.2 // Matching LookAt Y for straight view
 const LERP_FACTOR = 0.1;
 const INTRO_CAMERA_SMOOTH_TIME = 0.4; // Approx time for damping transition
+const INTRO_CAM_LOOKAT_Y = 0.9;
+const INTRO_CAM_DISTANCE = 1.4;
+const INTRO_CAM_Y = CAM_Y + 0.2;
+const KO_CAM_LOOKAT_Y = 0.6; // The loser is going down
+const KO_CAM_DISTANCE = 1.8;
+const KO_CAM_Y = CAM_Y + 0.4;
+const KO_CAM_SWING = 1; // Radians around the loser, towards the side away from the winner
 const BASE_DISTANCE_FACTOR = 0.3;
 const INITIAL_FOV = 50; // Keep FOV constant here for now
-const MAX_HEALTH = 1000; // Define max health
-const PUNCH_DAMAGE = 20; // Damage per hit
-const BLOCK_DAMAGE_MULTIPLIER = 0.1; // 10% damage when blocking
-const HIT_DISTANCE = CHARACTER_RADIUS * 2 + 0.3; // Distance threshold for a hit (cylinders touching + small buffer)
 const ROTATION_START_POS_TOLERANCE = 0.1; // Tolerance for starting position check
 // Re-introduce FLOOR_TEXTURE_REPEAT (or define if removed)
 const FLOOR_TEXTURE_REPEAT = 8; 
-const VERTICAL_COLLISION_THRESHOLD = 0.5; // Allow jumping over if Y difference > this
 
 // --- ADD Punch Hit Sound Assets ---
 const PUNCH_HIT_SOUNDS = [
@@ -55,20 +166,32 @@ const PUNCH_HIT_SOUNDS = [
     '/sounds/fight/punch/punch7.mp3',
     '/sounds/fight/punch/punch8.mp3',
 ];
+const PROJECTILE_HIT_SOUND = '/sounds/fight/punch/punch3.mp3';
+// Add any new sound file paths to these arrays when you add them to the public/sounds folders.
+const JUMP_SOUNDS = [
+    '/sounds/fight/jump/jump1.mp3',
+    '/sounds/fight/jump/jump2.mp3',
+    '/sounds/fight/jump/jump3.mp3',
+    '/sounds/fight/jump/jump4.mp3'
+];
+const SPECIAL_SOUNDS = [
+    '/sounds/fight/special/special1.mp3',
+    '/sounds/fight/special/special2.mp3',
+    '/sounds/fight/special/special3.mp3'
+];
 
-// Helper function to get a random sound from an array (can be a shared utility later)
-const getRandomSound = (sounds: string[]): string => {
+// Picks a sound with the variant the simulation drew for the event
+const getEventSound = (sounds: string[], variant: number): string => {
     if (sounds.length === 0) {
-        console.warn('[BattleScene] Attempted to get random sound from empty array.');
+        console.warn('[BattleScene] Attempted to get a sound from an empty array.');
         return ''; // Return empty string or a path to a default silent sound
     }
-    return sounds[Math.floor(Math.random() * sounds.length)];
+    return sounds[variant % sounds.length];
 };
 
 // --- ADD Projectile Constants ---
 const INITIAL_PROJECTILE_SCALE = 0.01;
 const BASE_PLANE_SIZE = 0.35; // <-- Reduced Size // Base size of the projectile plane
-const GROWTH_DURATION_MS = 500; // Duration for projectile growth (in ms)
 
 // Define available intro animation types (matching clip names or identifiers)
 const INTRO_ANIMATION_TYPES = ['Hello', 'ArmsCrossed', 'Bow']; // Example types
@@ -76,6 +199,14 @@ const INTRO_ANIMATION_TYPES = ['Hello', 'ArmsCrossed', 'Bow']; // Example types
 // Helper function to pick a random intro animation
 const getRandomIntroAnimation = () => INTRO_ANIMATION_TYPES[Math.floor(Math.random() * INTRO_ANIMATION_TYPES.length)];
 
+// Eases the camera towards a position and looks at a point (intros, the K.O. swing and the victory pose)
+const dampCamera = (camera: THREE.Camera, position: THREE.Vector3, lookAt: THREE.Vector3, delta: number) => {
+    camera.position.x = THREE.MathUtils.damp(camera.position.x, position.x, INTRO_CAMERA_SMOOTH_TIME, delta);
+    camera.position.y = THREE.MathUtils.damp(camera.position.y, position.y, INTRO_CAMERA_SMOOTH_TIME, delta);
+    camera.position.z = THREE.MathUtils.damp(camera.position.z, position.z, INTRO_CAMERA_SMOOTH_TIME, delta);
+    camera.lookAt(lookAt);
+};
+
 // Helper function to play sound
 const playSound = (url: string | null, volume: number = 1.0) => {
     if (!url) {
@@ -93,13 +224,11 @@ const playSound = (url: string | null, volume: number = 1.0) => {
     }
 };
 
-// Define the callback prop type for launching projectiles
-type LaunchProjectileCallback = (
-    startPosition: THREE.Vector3,
-    directionX: number, // 1 for right, -1 for left
-    textureUrl: string | null,
-    launcherIndex: 1 | 2 // <-- Add launcher index
-) => void;
+// Modes where P2 is a training dummy instead of a fighter
+const hasTrainingDummy = (gameMode: GameMode): boolean => gameMode === 'training' || gameMode === 'tutorial';
+
+// Modes played from recorded inputs, nobody fighting
+const isPlaybackMode = (gameMode: GameMode): boolean => gameMode === 'replay' || gameMode === 'spectate';
 
 interface BattleSceneProps {
     player1Id: string; // <-- Add player 1 ID prop
@@ -114,6 +243,30 @@ interface BattleSceneProps {
     backgroundImageUrl: string;
     floorTextureUrl: string;
     onSceneVisible: () => void; // Add callback prop
+    gameMode?: GameMode;
+    seed?: number; // Fight RNG seed, the same seed and inputs replay the same fight (random when omitted)
+    matchRules?: MatchRules; // Rounds and round clock (best of 3, 99 seconds by default)
+    aiDifficulty?: AIDifficulty; // CPU opponent strength in 'vs-ai'
+    aiPersonality?: AIPersonality; // How the CPU plays player 2's character
+    player1AIPersonality?: AIPersonality; // How the CPU plays player 1's character in 'attract', picks the 'tutorial' challenges
+    player1StartHealth?: number; // Health player 1 starts the rounds with (survival carries it over), MAX_HEALTH by default
+    player2MaxHealth?: number; // Tougher opponents (the arcade boss), MAX_HEALTH by default
+    player2Scale?: number; // Bigger opponents (the arcade boss), model and boxes
+    onMatchEnd?: (result: MatchEndResult) => void; // Called instead of showing the game over menu (the demo loops, arcade moves on)
+    replay?: Replay; // Played back in 'replay' mode, give it the replay's seed and set-up too
+    onReplayRecorded?: (recording: ReplayRecorder, winner: FighterIndex | null) => void; // Inputs of the decided match, to keep as a replay
+    netplay?: NetplayMatch; // The connected other player in 'online' mode, give it the host's seed too
+    spectating?: SpectatorMatch; // The live match in 'spectate' mode, give it the match's seed and rules too
+}
+
+// How the match went, handed to onMatchEnd
+export interface MatchEndResult {
+    winner: FighterIndex | null; // null = draw
+    roundResults: RoundResult[];
+    health: [number, number]; // At the end of the last round
+    maxHealth: [number, number];
+    timeLeft: number | null; // Seconds left on the clock of the last round, null = untimed
+    fightSeconds: number; // Time fought over all the rounds, from FIGHT! to the end of each round
 }
 
 // --- Create a simple context for Battle State ---
@@ -126,9 +279,35 @@ interface BattleStateContextProps {
     setPlayer1Energy: React.Dispatch<React.SetStateAction<number>>;
     player2Energy: number;
     setPlayer2Energy: React.Dispatch<React.SetStateAction<number>>;
+    roundTimeLeft: number | null; // Whole seconds on the round clock, null = untimed
+    setRoundTimeLeft: React.Dispatch<React.SetStateAction<number | null>>;
+    showGuardFeedback: (defender: FighterIndex, text: GuardFeedbackText) => void;
+    showComboCounter: (attacker: FighterIndex, hits: number) => void;
 }
 const BattleStateContext = React.createContext<BattleStateContextProps | undefined>(undefined);
 
+// Short-lived HUD text, one per fighter side. Showing it again restarts the flash (new id = new key).
+function useSideCallouts<T>(durationMs: number) {
+    const [callouts, setCallouts] = useState<({ value: T; id: number } | null)[]>([null, null]);
+    const timersRef = useRef<(NodeJS.Timeout | null)[]>([null, null]);
+
+    const show = useCallback((side: FighterIndex, value: T) => {
+        setCallouts(current => current.map((entry, index) => index === side ? { value, id: (entry?.id ?? 0) + 1 } : entry));
+        const timer = timersRef.current[side];
+        if (timer) clearTimeout(timer);
+        timersRef.current[side] = setTimeout(() => {
+            setCallouts(current => current.map((entry, index) => index === side ? null : entry));
+        }, durationMs);
+    }, [durationMs]);
+
+    useEffect(() => {
+        const timers = timersRef.current;
+        return () => timers.forEach(timer => { if (timer) clearTimeout(timer); });
+    }, []);
+
+    return [callouts, show] as const;
+}
+
 // --- MOVE useBattleState OUTSIDE the main component ---
 function useBattleState() {
     const context = React.useContext(BattleStateContext);
@@ -140,17 +319,17 @@ function useBattleState() {
 
 // -------- Special Power Projectile Component Definition (within BattleScene.tsx) --------
 interface SpecialPowerProjectileProps {
-  position: THREE.Vector3;
+  projectileId: number;
+  simulationRef: React.RefObject<FightState | null>; // Position and growth are read from the simulation every frame
   textureUrl: string | null;
   isFlipped: boolean; // Determine flip based on launch direction
-  scale: THREE.Vector3; // Add scale prop
 }
 
 const SpecialPowerProjectileComponent: React.FC<SpecialPowerProjectileProps> = memo(function SpecialPowerProjectileComponentProps({
-  position,
+  projectileId,
+  simulationRef,
   textureUrl,
   isFlipped,
-  scale, // Receive scale prop
 }: SpecialPowerProjectileProps) {
   const meshRef = useRef<THREE.Mesh>(null);
   const loadedTexture = useTexture(textureUrl || '');
@@ -168,6 +347,16 @@ const SpecialPowerProjectileComponent: React.FC<SpecialPowerProjectileProps> = m
     }
   }, [loadedTexture, isFlipped]);
 
+  useFrame(() => {
+    const mesh = meshRef.current;
+    const projectile = simulationRef.current?.projectiles.find(candidate => candidate.id === projectileId);
+    if (!mesh || !projectile) return;
+    // Grows in place, then keeps its full size while flying
+    const growthProgress = Math.min(projectile.frame / PROJECTILE_GROWTH_FRAMES, 1);
+    mesh.scale.setScalar(THREE.MathUtils.lerp(INITIAL_PROJECTILE_SCALE, BASE_PLANE_SIZE, growthProgress));
+    mesh.position.set(projectile.x, projectile.y, 0);
+  });
+
   // Only render if the URL was provided and the texture has loaded
   if (!textureUrl || !loadedTexture) {
     return null;
@@ -177,8 +366,8 @@ const SpecialPowerProjectileComponent: React.FC<SpecialPowerProjectileProps> = m
   const aspect = loadedTexture.image ? loadedTexture.image.width / loadedTexture.image.height : 1;
 
   return (
-    <mesh ref={meshRef} position={position} scale={scale}>
-      {/* Geometry args define the base shape (1x1 plane), scale prop handles final size */}
+    <mesh ref={meshRef} scale={INITIAL_PROJECTILE_SCALE}>
+      {/* Geometry args define the base shape (1x1 plane), scale handles final size */}
       <planeGeometry args={[aspect, 1]} /> {/* Use aspect ratio in geometry */}
       <meshBasicMaterial
         map={loadedTexture}
@@ -208,8 +397,62 @@ interface SceneContentProps {
     player2Health: number;
     isPaused: boolean;
     maxEnergy: number;
+    gameMode: GameMode;
+    aiDifficulty: AIDifficulty;
+    aiPersonality: AIPersonality;
+    player1AIPersonality: AIPersonality;
+    player1Id: string; // The CPU remembers the habits of the player's character
+    player1StartHealth: number;
+    player2MaxHealth: number;
+    player2Scale: number;
+    roundFramesRef: React.MutableRefObject<number>; // Frames fought this round, stops when the round is decided
+    trainingSessionRef: React.MutableRefObject<TrainingSession> | null; // 'training' and 'tutorial' only, drives the dummy
+    onTrainingStep: (result: TrainingStepResult) => void;
+    tutorialSessionRef: React.MutableRefObject<TutorialSession> | null; // 'tutorial' only
+    onTutorialStep: (result: TutorialStepResult) => void;
+    trainingResetCounter: number; // Bumped to put the fighters back at their start positions
+    replayPlaybackRef: React.MutableRefObject<ReplayPlayback | null> | null; // 'replay' and 'spectate' only, feeds the inputs
+    replayRecorderRef: React.MutableRefObject<ReplayRecorder | null> | null; // Set when the match is recorded
+    freeCamera: boolean; // The camera stops following the fighters and can be orbited
+    rollbackSessionRef: React.MutableRefObject<RollbackSession | null> | null; // 'online' only, steps the fight
+    netplayConnection: NetplayConnection | null;
+    controlsConfig: ControlsConfig;
+    effectsSettings: EffectsSettings; // Hit-stop, camera shake and particles of this browser
+    koLoser: FighterIndex | null; // Set while the round's K.O. cinematic plays, the fighter it swings around
+    seed?: number;
+    round: number;
+    roundSeconds: number | null;
+    matchWinner: FighterIndex | null;
+    showHitboxes: boolean;
 }
 
+// Projectiles currently in the simulation, only changes when one is launched or removed
+interface RenderedProjectile {
+    id: number;
+    owner: FighterIndex;
+    direction: 1 | -1;
+}
+
+const toRenderedProjectiles = (state: FightState): RenderedProjectile[] =>
+    state.projectiles.map(({ id, owner, direction }) => ({ id, owner, direction }));
+
+const haveSameProjectiles = (rendered: RenderedProjectile[], state: FightState): boolean =>
+    rendered.length === state.projectiles.length && rendered.every((projectile, index) => projectile.id === state.projectiles[index].id);
+
+const EMPTY_INPUT: InputState = { left: false, right: false, punch: false, duck: false, block: false, jump: false, special: false };
+
+// Keeps a press seen in any render frame until the next simulation step consumes it,
+// so a one-frame tap (or AI pulse) isn't lost on displays faster than the simulation
+const mergeInputs = (a: InputState, b: InputState): InputState => ({
+    left: a.left || b.left,
+    right: a.right || b.right,
+    punch: a.punch || b.punch,
+    duck: a.duck || b.duck,
+    block: a.block || b.block,
+    jump: a.jump || b.jump,
+    special: a.special || b.special,
+});
+
 // --- SceneContent Component (Wrapped with memo) ---
 const SceneContent: React.FC<SceneContentProps> = memo(function SceneContent({
     player1ModelUrl,
@@ -227,21 +470,113 @@ const SceneContent: React.FC<SceneContentProps> = memo(function SceneContent({
     player2Health,
     isPaused,
     maxEnergy,
+    gameMode,
+    aiDifficulty,
+    aiPersonality,
+    player1AIPersonality,
+    player1Id,
+    player1StartHealth,
+    player2MaxHealth,
+    player2Scale,
+    roundFramesRef,
+    trainingSessionRef,
+    onTrainingStep,
+    tutorialSessionRef,
+    onTutorialStep,
+    trainingResetCounter,
+    replayPlaybackRef,
+    replayRecorderRef,
+    freeCamera,
+    rollbackSessionRef,
+    netplayConnection,
+    controlsConfig,
+    effectsSettings,
+    koLoser,
+    seed,
+    round,
+    roundSeconds,
+    matchWinner,
+    showHitboxes,
 }: SceneContentProps) {
+    const isLocalVersus = gameMode === 'local-versus';
+    const isAttract = gameMode === 'attract';
+    const isTraining = hasTrainingDummy(gameMode);
+    const isPlayback = isPlaybackMode(gameMode);
+    // Online, this browser's player is the host's P1 or the guest's P2, the other fighter gets its inputs from the session
+    const onlineLocalIndex = rollbackSessionRef?.current?.localIndex ?? null;
+    const isPlayer1Local = !isAttract && onlineLocalIndex !== 1;
+    const isPlayer2Local = isLocalVersus || onlineLocalIndex === 1;
     const player1Ref = useRef<PlayerCharacterHandle>(null);
     const player2Ref = useRef<PlayerCharacterHandle>(null);
     const aiInputRef = useRef<InputState>({ left: false, right: false, punch: false, duck: false, block: false, jump: false, special: false });
+    const player1AIInputRef = useRef<InputState>({ left: false, right: false, punch: false, duck: false, block: false, jump: false, special: false }); // 'attract' only
     const controlsRef = useRef<any>(null);
     const { scene, camera } = useThree();
     const { 
         setPlayer1Health, 
         setPlayer2Health, 
-        player1Energy,
         setPlayer1Energy,
-        player2Energy,
-        setPlayer2Energy
+        setPlayer2Energy,
+        setRoundTimeLeft,
+        showGuardFeedback,
+        showComboCounter
     } = useBattleState();
 
+    // --- Fight Simulation (fixed 60Hz steps, the characters only render its state) ---
+    // Hurtboxes: measured on the models as they load, a replay keeps the ones it was recorded with
+    // (null = DEFAULT_BODY_LAYOUT, e.g. a replay older than the measuring)
+    const [measuredBodies, setMeasuredBodies] = useState<[BodyLayout | null, BodyLayout | null]>([null, null]);
+    const playedBackReplay = replayPlaybackRef?.current && !replayPlaybackRef.current.live ? replayPlaybackRef.current.replay : null;
+    const [player1Body, player2Body] = playedBackReplay ? playedBackReplay.bodies ?? [null, null] : measuredBodies;
+    const roundConfig = useMemo<Omit<FightConfig, 'seed'>>(() => ({
+        fighters: [
+            { startX: PLAYER1_START_X, facing: 1, canUseSpecial: !!player1SpecialImageUrl, startHealth: player1StartHealth, body: player1Body ?? undefined },
+            { startX: PLAYER2_START_X, facing: -1, canUseSpecial: !!player2SpecialImageUrl, maxHealth: player2MaxHealth, scale: player2Scale, body: player2Body ?? undefined },
+        ],
+        roundFrames: roundSeconds === null ? null : secondsToFrames(roundSeconds),
+    }), [player1SpecialImageUrl, player2SpecialImageUrl, player1StartHealth, player2MaxHealth, player2Scale, player1Body, player2Body, roundSeconds]);
+    const fightSeedRef = useRef(seed ?? randomSeed());
+    const simulationRef = useRef<FightState | null>(null);
+    if (!simulationRef.current) {
+        const state = createFightState({ ...roundConfig, seed: fightSeedRef.current });
+        simulationRef.current = state;
+        if (replayRecorderRef) replayRecorderRef.current = createReplayRecorder(fightSeedRef.current, [state.fighters[0].body, state.fighters[1].body]);
+    }
+    const simulatedRoundRef = useRef(round);
+    const simulatedResetRef = useRef(trainingResetCounter);
+    const stepAccumulatorRef = useRef(0);
+    const pendingInputsRef = useRef<[InputState, InputState] | null>(null);
+    // Last values pushed to the HUD, so React state only changes when they do
+    const hudValuesRef = useRef({ p1Health: player1StartHealth, p2Health: player2MaxHealth, p1Energy: MAX_ENERGY, p2Energy: MAX_ENERGY, timeLeft: roundSeconds });
+    const [renderedProjectiles, setRenderedProjectiles] = useState<RenderedProjectile[]>([]);
+    // Hit effects, only shown: hit-stop seconds left, the camera shake and the offset it last added
+    const particlesRef = useRef<ImpactParticlesHandle>(null);
+    const hitStopSecondsRef = useRef(0);
+    const animationTimeScaleRef = useRef(1);
+    const koCinematicRef = useRef<{ loser: FighterIndex; seconds: number } | null>(null);
+    const cameraShakeRef = useRef({ amplitude: 0, secondsLeft: 0 });
+    const shakeOffsetRef = useRef(new THREE.Vector3());
+
+    // --- Next round (or a training reset): fresh fighters and clock, the RNG carries on ---
+    useEffect(() => {
+        const previous = simulationRef.current;
+        if (!previous || (round === simulatedRoundRef.current && trainingResetCounter === simulatedResetRef.current)) return;
+        simulatedRoundRef.current = round;
+        simulatedResetRef.current = trainingResetCounter;
+        simulationRef.current = createNextRoundState(previous, roundConfig);
+        if (rollbackSessionRef?.current) startRollbackRound(rollbackSessionRef.current, round);
+        stepAccumulatorRef.current = 0;
+        pendingInputsRef.current = null;
+        hitStopSecondsRef.current = 0;
+        setRenderedProjectiles([]);
+        hudValuesRef.current = { p1Health: player1StartHealth, p2Health: player2MaxHealth, p1Energy: MAX_ENERGY, p2Energy: MAX_ENERGY, timeLeft: roundSeconds };
+        setPlayer1Health(player1StartHealth);
+        setPlayer2Health(player2MaxHealth);
+        setPlayer1Energy(MAX_ENERGY);
+        setPlayer2Energy(MAX_ENERGY);
+        setRoundTimeLeft(roundSeconds);
+    }, [round, trainingResetCounter, roundConfig, roundSeconds, player1StartHealth, player2MaxHealth, rollbackSessionRef, setPlayer1Health, setPlayer2Health, setPlayer1Energy, setPlayer2Energy, setRoundTimeLeft]);
+
     // --- State ---
     const dynamicRotationHasRun = useRef(false);
     const sceneReadySignaled = useRef(false);
@@ -249,50 +584,27 @@ const SceneContent: React.FC<SceneContentProps> = memo(function SceneContent({
     const [loadedFloorTexture, setLoadedFloorTexture] = useState<THREE.Texture | null>(null);
     const [p1Ready, setP1Ready] = useState(false);
     const [p2Ready, setP2Ready] = useState(false);
+
+    const handleCharacterReady = useCallback((fighter: FighterIndex, body: BodyLayout | null) => {
+        setMeasuredBodies(current => fighter === 0 ? [body, current[1]] : [current[0], body]);
+        (fighter === 0 ? setP1Ready : setP2Ready)(true);
+    }, []);
+    const handlePlayer1Ready = useCallback((body: BodyLayout | null) => handleCharacterReady(0, body), [handleCharacterReady]);
+    const handlePlayer2Ready = useCallback((body: BodyLayout | null) => handleCharacterReady(1, body), [handleCharacterReady]);
+
+    // --- Both bodies measured: the fight is set up again with them (and the same seed), before its first step ---
+    useEffect(() => {
+        if (!p1Ready || !p2Ready || round !== 1 || simulationRef.current?.frame !== 0) return;
+        const state = createFightState({ ...roundConfig, seed: fightSeedRef.current });
+        simulationRef.current = state;
+        if (replayRecorderRef) replayRecorderRef.current = createReplayRecorder(fightSeedRef.current, [state.fighters[0].body, state.fighters[1].body]);
+    }, [p1Ready, p2Ready, round, roundConfig, replayRecorderRef]);
     const [showReadyText, setShowReadyText] = useState(false);
     const [showFightText, setShowFightText] = useState(false);
     const [winnerName, setWinnerName] = useState<string | null>(null);
     const [showWinnerBanner, setShowWinnerBanner] = useState(false);
     const [frozenCamState, setFrozenCamState] = useState<{ position: THREE.Vector3, target: THREE.Vector3 } | null>(null);
 
-    // --- ADD State for the Active Projectile ---
-    interface ActiveProjectile {
-        id: number; // Simple ID for key prop
-        startX: number; // Store initial X for distance calculation
-        position: THREE.Vector3;
-        directionX: number;
-        textureUrl: string | null;
-        startTime: number;
-        status: 'growing' | 'throwing'; // Add status
-        scale: THREE.Vector3; // Add scale state
-        throwStartTime?: number; // Optional throw start time
-        launcherIndex: 1 | 2; // <-- Add launcher index
-    }
-    const [activeProjectile, setActiveProjectile] = useState<ActiveProjectile | null>(null);
-    const nextProjectileId = useRef(0);
-
-    // --- Update Launch Handler ---
-    const handleProjectileLaunch = useCallback((startPosition: THREE.Vector3, directionX: number, textureUrl: string | null, launcherIndex: 1 | 2) => {
-        console.log(`[SceneContent] Launching Projectile:`, { startPosition, directionX, textureUrl, launcherIndex });
-
-        // Create new projectile state
-        const newProjectile: ActiveProjectile = {
-             id: nextProjectileId.current++,
-             startX: startPosition.x, // Store starting X
-             position: startPosition.clone(),
-             directionX: directionX,
-             textureUrl: textureUrl,
-             startTime: performance.now(),
-             status: 'growing', // Start in growing state
-             scale: new THREE.Vector3(INITIAL_PROJECTILE_SCALE, INITIAL_PROJECTILE_SCALE, INITIAL_PROJECTILE_SCALE),
-             launcherIndex: launcherIndex, // <-- Store launcher index
-        };
-        // Log just before setting state
-        console.log(`[SceneContent] Setting new projectile state:`, newProjectile);
-        setActiveProjectile(newProjectile); // Set the new projectile as active
-
-    }, []);
-
     // --- Create materials for the side walls (AFTER texture state) ---
     const leftWallMaterial = useMemo(() => {
         if (!loadedBackgroundTexture) return null;
@@ -382,6 +694,64 @@ const SceneContent: React.FC<SceneContentProps> = memo(function SceneContent({
         }
     }, [isPaused, player1Ref, player2Ref, camera]); // Added camera dependency
 
+    // --- K.O. cinematic: its clock starts when the round is decided ---
+    useEffect(() => {
+        koCinematicRef.current = koLoser === null ? null : { loser: koLoser, seconds: 0 };
+    }, [koLoser]);
+
+    // --- Hit-stop, camera shake and particles for a landed (or blocked) hit, after the effects settings ---
+    const showHitEffects = (event: Extract<FightEvent, { type: 'hit' }>) => {
+        const simulation = simulationRef.current;
+        if (!simulation) return;
+        const attacker = simulation.fighters[event.attacker];
+        const defender = simulation.fighters[event.defender];
+        const effects = getHitEffects(event, defender.health === 0, effectsSettings);
+        if (effects.hitStopFrames > 0) {
+            hitStopSecondsRef.current = Math.max(hitStopSecondsRef.current, effects.hitStopFrames * SIM_DT);
+        }
+        if (effects.shake > 0) {
+            const shake = cameraShakeRef.current;
+            const currentAmplitude = shake.amplitude * (shake.secondsLeft / CAMERA_SHAKE_SECONDS);
+            cameraShakeRef.current = { amplitude: Math.max(currentAmplitude, effects.shake), secondsLeft: CAMERA_SHAKE_SECONDS };
+        }
+        if (effects.sparks > 0) {
+            particlesRef.current?.sparks(event.contact.x, event.contact.y, effects.sparks, event.contact.x >= attacker.x ? 1 : -1, effects.blocked);
+        }
+        if (effects.dust > 0) particlesRef.current?.dust(defender.x, GROUND_LEVEL, effects.dust);
+    };
+
+    // --- Sounds, flicker and projectile meshes for what happened in a simulation step ---
+    const handleFightEvent = (event: FightEvent) => {
+        switch (event.type) {
+            case 'jump':
+                playSoundEffect(getEventSound(JUMP_SOUNDS, event.variant));
+                break;
+            case 'special':
+                playSoundEffect(getEventSound(SPECIAL_SOUNDS, event.variant));
+                break;
+            case 'hit': {
+                const defenderRef = event.defender === 0 ? player1Ref : player2Ref;
+                defenderRef.current?.triggerHitFlicker();
+                if (event.blocked) showGuardFeedback(event.defender, 'BLOCKED');
+                else if (event.guardBroken) showGuardFeedback(event.defender, MOVES[event.move].height === 'low' ? 'LOW' : 'OVERHEAD');
+                if (event.comboHits >= 2) showComboCounter(event.attacker, event.comboHits);
+                playSoundEffect(event.source === 'projectile' ? PROJECTILE_HIT_SOUND : getEventSound(PUNCH_HIT_SOUNDS, event.variant));
+                showHitEffects(event);
+                break;
+            }
+            case 'projectileSpawned': {
+                const projectile = simulationRef.current?.projectiles.find(candidate => candidate.id === event.projectileId);
+                if (projectile) {
+                    setRenderedProjectiles(current => [...current, { id: projectile.id, owner: projectile.owner, direction: projectile.direction }]);
+                }
+                break;
+            }
+            case 'projectileRemoved':
+                setRenderedProjectiles(current => current.filter(projectile => projectile.id !== event.projectileId));
+                break;
+        }
+    };
+
     useFrame((state, delta) => {
         if (isPaused && frozenCamState) {
             camera.position.copy(frozenCamState.position);
@@ -390,16 +760,124 @@ const SceneContent: React.FC<SceneContentProps> = memo(function SceneContent({
             return;
         }
 
-        // --- ADDED: Update energy states from player refs ---
-        if (player1Ref.current) {
-            const p1EnergyVal = player1Ref.current.getCurrentEnergy();
-            setPlayer1Energy(p1EnergyVal);
+        // The K.O. cinematic starts in slow motion, the fight is over so even online it can slow down
+        const koCinematic = koCinematicRef.current;
+        if (koCinematic) koCinematic.seconds += delta;
+        const slowMotion = koCinematic && koCinematic.seconds < KO_SLOW_MOTION_SECONDS ? KO_SLOW_MOTION_SCALE : 1;
+
+        // Online, the fight (not the KO'd fighter's fall after it) goes through the rollback session:
+        // the frames simulated on a wrong guess of the other player's inputs are simulated again first
+        const rollbackSession = fightPhase === 'FIGHT' && !isPaused ? rollbackSessionRef?.current ?? null : null;
+        if (rollbackSession && simulationRef.current) {
+            const corrected = applyRollback(rollbackSession, simulationRef.current, replayRecorderRef?.current ?? null);
+            if (corrected !== simulationRef.current) {
+                simulationRef.current = corrected;
+                setRenderedProjectiles(current => haveSameProjectiles(current, corrected) ? current : toRenderedProjectiles(corrected));
+            }
+        }
+
+        // --- Step the fight simulation at a fixed rate (FIGHT, and after the round so the KO'd fighter can land) ---
+        const simulation = simulationRef.current;
+        const isSimulating = fightPhase === 'FIGHT' || fightPhase === 'ROUND_OVER' || fightPhase === 'GAME_OVER';
+        if (simulation && !isPaused && isSimulating) {
+            const p1Input = player1Ref.current?.getInput() ?? EMPTY_INPUT;
+            const p2Input = player2Ref.current?.getInput() ?? EMPTY_INPUT;
+            const pending = pendingInputsRef.current;
+            pendingInputsRef.current = pending
+                ? [mergeInputs(pending[0], p1Input), mergeInputs(pending[1], p2Input)]
+                : [p1Input, p2Input];
+
+            // A replay runs at its playback speed, or a frame at a time while paused. A live one
+            // catches up faster when it fell behind.
+            const playback = replayPlaybackRef?.current;
+            const speed = slowMotion * (playback ? (playback.paused ? 0 : playback.speed * getLiveCatchUpSpeed(playback, round, simulation.frame)) : 1);
+            // Hit-stop holds the fight for a few frames (at the replay's speed too). Online the other
+            // player's side doesn't wait, so only the animations stop there.
+            const isHitStopped = hitStopSecondsRef.current > 0;
+            if (isHitStopped) hitStopSecondsRef.current = Math.max(0, hitStopSecondsRef.current - delta * speed);
+            stepAccumulatorRef.current = isHitStopped && !rollbackSessionRef
+                ? 0
+                : Math.min(stepAccumulatorRef.current + delta * speed, SIM_DT * MAX_SIM_STEPS_PER_FRAME);
+            if (playback && playback.pendingSteps > 0) {
+                stepAccumulatorRef.current += SIM_DT * playback.pendingSteps;
+                playback.pendingSteps = 0;
+            }
+            while (stepAccumulatorRef.current >= SIM_DT) {
+                if (playback && fightPhase === 'FIGHT' && !isReplayFrameAvailable(playback, round, simulation.frame)) {
+                    // Spectating, caught up with the delayed stream: wait for the next inputs
+                    stepAccumulatorRef.current = 0;
+                    break;
+                }
+                stepAccumulatorRef.current -= SIM_DT;
+                const inputs = playback
+                    ? getReplayInputs(playback, round, simulation.frame)
+                    : pendingInputsRef.current ?? [EMPTY_INPUT, EMPTY_INPUT];
+                if (rollbackSession) {
+                    if (shouldSkipStepForSync(rollbackSession, netplayConnection?.getPingMs() ?? null)) continue;
+                    const events = stepRollback(rollbackSession, simulation, inputs[rollbackSession.localIndex], replayRecorderRef?.current ?? null);
+                    if (!events) {
+                        // Too far ahead of the other player: the time is dropped, not caught up in a burst later
+                        stepAccumulatorRef.current = 0;
+                        break;
+                    }
+                    pendingInputsRef.current = null;
+                    events.forEach(handleFightEvent);
+                    continue;
+                }
+                const training = trainingSessionRef?.current;
+                const stepInputs: [InputState, InputState] = training ? [inputs[0], getTrainingDummyInput(training, simulation)] : inputs;
+                const recorder = replayRecorderRef?.current;
+                if (recorder) recordReplayFrame(recorder, round, simulation.frame, stepInputs);
+                const events = stepFight(simulation, stepInputs);
+                pendingInputsRef.current = null;
+                events.forEach(handleFightEvent);
+                if (training) onTrainingStep(afterTrainingStep(training, simulation, stepInputs[0], events));
+                const tutorial = tutorialSessionRef?.current;
+                if (tutorial) onTutorialStep(advanceTutorial(tutorial, simulation, stepInputs[0], events));
+            }
+            if (fightPhase === 'FIGHT') roundFramesRef.current = simulation.frame;
+            // Still sent after the round, until the other side has every input it needs to see the KO too
+            const netplaySession = rollbackSessionRef?.current;
+            if (netplaySession) netplayConnection?.send(takeRollbackMessage(netplaySession));
+
+            // Push changed values to the HUD. Online, a KO or time over only gets there (and ends the
+            // round) once no rollback can undo it anymore.
+            const isRoundOverPending = !!rollbackSession && isRoundOver(simulation) && !isRollbackConfirmed(rollbackSession);
+            if (!isRoundOverPending) {
+                const [fighter1, fighter2] = simulation.fighters;
+                const hud = hudValuesRef.current;
+                if (fighter1.health !== hud.p1Health) {
+                    hud.p1Health = fighter1.health;
+                    setPlayer1Health(fighter1.health);
+                }
+                if (fighter2.health !== hud.p2Health) {
+                    hud.p2Health = fighter2.health;
+                    setPlayer2Health(fighter2.health);
+                }
+                const p1Energy = Math.floor(fighter1.energy);
+                const p2Energy = Math.floor(fighter2.energy);
+                if (p1Energy !== hud.p1Energy) {
+                    hud.p1Energy = p1Energy;
+                    setPlayer1Energy(p1Energy);
+                }
+                if (p2Energy !== hud.p2Energy) {
+                    hud.p2Energy = p2Energy;
+                    setPlayer2Energy(p2Energy);
+                }
+                const timeLeft = simulation.timerFrames === null ? null : Math.ceil(simulation.timerFrames / SIM_FPS);
+                if (timeLeft !== hud.timeLeft) {
+                    hud.timeLeft = timeLeft;
+                    setRoundTimeLeft(timeLeft);
+                }
+            }
         }
-        if (player2Ref.current) {
-            const p2EnergyVal = player2Ref.current.getCurrentEnergy();
-            setPlayer2Energy(p2EnergyVal);
+
+        const animationTimeScale = hitStopSecondsRef.current > 0 ? 0 : slowMotion;
+        if (animationTimeScale !== animationTimeScaleRef.current) {
+            animationTimeScaleRef.current = animationTimeScale;
+            player1Ref.current?.setAnimationTimeScale(animationTimeScale);
+            player2Ref.current?.setAnimationTimeScale(animationTimeScale);
         }
-        // --- END ADDED ---
 
         const p1Group = player1Ref.current?.getMainGroup();
         const p2Group = player2Ref.current?.getMainGroup();
@@ -416,183 +894,27 @@ const SceneContent: React.FC<SceneContentProps> = memo(function SceneContent({
                 if (player2Ref.current && p2Wrapper) {
                     p2Wrapper.rotation.y = Math.PI;
                 }
-            } else if (fightPhase === 'FIGHT') {
-                const playersLanded = player1Ref.current?.getHasHitGround() && player2Ref.current?.getHasHitGround();
-                if (!playersLanded) return;
-
-                let angleP1 = Math.atan2(p2Group.position.x - p1Group.position.x, p2Group.position.z - p1Group.position.z);
-                let angleP2 = Math.atan2(p1Group.position.x - p2Group.position.x, p1Group.position.z - p2Group.position.z);
-                const targetP1Rotation = angleP1 - Math.PI / 2;
-                const targetP2Rotation = angleP2 - Math.PI / 2;
-                p1Wrapper.rotation.y = targetP1Rotation;
-                p2Wrapper.rotation.y = targetP2Rotation;
-
-                const distX = Math.abs(p1Group.position.x - p2Group.position.x);
-                const distY = Math.abs(p1Group.position.y - p2Group.position.y);
-                if (distX < MIN_SEPARATION && distY < VERTICAL_COLLISION_THRESHOLD) {
-                    player1Ref.current!.resetVelocityX();
-                    player2Ref.current!.resetVelocityX();
-                    const midPointX = (p1Group.position.x + p2Group.position.x) / 2;
-                    const directionP1 = Math.sign(p1Group.position.x - p2Group.position.x);
-                    const correctedP1X = midPointX + (directionP1 * MIN_SEPARATION / 2);
-                    const correctedP2X = midPointX - (directionP1 * MIN_SEPARATION / 2);
-                    player1Ref.current!.setPositionX(THREE.MathUtils.clamp(correctedP1X, MIN_X, MAX_X));
-                    player2Ref.current!.setPositionX(THREE.MathUtils.clamp(correctedP2X, MIN_X, MAX_X));
-                }
-
-                // --- Update Projectile Position & State ---
-                if (activeProjectile) {
-                    const now = performance.now();
-                    // It's generally better to update state via the setter function
-                    // We calculate the next state properties here and call setActiveProjectile once at the end.
-                    let newStatus = activeProjectile.status;
-                    let newScale = activeProjectile.scale.clone();
-                    let newPosition = activeProjectile.position.clone();
-                    let newThrowStartTime = activeProjectile.throwStartTime;
-
-                    let shouldDeactivate = false; // Flag for deactivation
-
-                    switch (activeProjectile.status) {
-                        case 'growing': {
-                            const growingElapsedTime = now - activeProjectile.startTime;
-                            const growthProgress = Math.min(growingElapsedTime / GROWTH_DURATION_MS, 1);
-                            const targetScaleValue = BASE_PLANE_SIZE;
-                            
-                            // Interpolate scale uniformly (aspect ratio handled by component geometry)
-                            const currentScaleValue = THREE.MathUtils.lerp(INITIAL_PROJECTILE_SCALE, targetScaleValue, growthProgress);
-                            newScale.set(currentScaleValue, currentScaleValue, currentScaleValue);
-
-                            // Position remains fixed at start during growth
-                            newPosition.copy(activeProjectile.position);
-
-                            if (growthProgress === 1) {
-                                console.log(`[SceneContent Projectile] Growth Complete for ID ${activeProjectile.id}. Transitioning to throwing.`);
-                                newStatus = 'throwing';
-                                newThrowStartTime = now; // Record the time throwing starts
-                            }
-                            break;
-                        }
-                        case 'throwing': {
-                            const projectileSpeed = 3; // Define speed (SLOWER)
-                            const MAX_TRAVEL_TIME_MS = 1500; // Define max travel time
-
-                            // Calculate next position for throwing
-                            newPosition.x += activeProjectile.directionX * projectileSpeed * delta;
-
-                            // Use throwStartTime if available, otherwise fall back to startTime
-                            const throwStartTime = activeProjectile.throwStartTime ?? activeProjectile.startTime;
-                            const elapsedTime = now - throwStartTime;
-
-                            if (elapsedTime > MAX_TRAVEL_TIME_MS) {
-                                console.log(`[SceneContent Projectile] Deactivating ID ${activeProjectile.id} (Time Limit)`);
-                                shouldDeactivate = true;
-                            }
-
-                            // --- Projectile Hit Detection --- << REVISED LOGIC
-                            // Determine opponent based on who LAUNCHED the projectile
-                            const opponentGroup = activeProjectile.launcherIndex === 1 ? p2Group : p1Group;
-                            const opponentRef = activeProjectile.launcherIndex === 1 ? player2Ref.current : player1Ref.current;
-                            const opponentPlayerIndex = activeProjectile.launcherIndex === 1 ? 2 : 1; // For logging
-
-                            const opponentHitRadius = CHARACTER_RADIUS; // Use character radius
-                            const projectileHitRadius = 0.3; // Keep projectile radius
-                            const verticalHitTolerance = 1.0; // Generous vertical tolerance
-
-                            // Calculate distances separately
-                            const distanceX = Math.abs(newPosition.x - opponentGroup.position.x);
-                            const distanceY = Math.abs(newPosition.y - opponentGroup.position.y);
-                            const combinedRadiusX = projectileHitRadius + opponentHitRadius;
-
-                            // --- Update Logging ---
-                            console.log(`[Projectile Hit Check - ID ${activeProjectile.id} by P${activeProjectile.launcherIndex}]
-  Projectile Pos: ${newPosition.x.toFixed(2)}, ${newPosition.y.toFixed(2)}
-  Opponent (P${opponentPlayerIndex}) Pos:   ${opponentGroup.position.x.toFixed(2)}, ${opponentGroup.position.y.toFixed(2)}
-  Distance X:      ${distanceX.toFixed(3)} (Threshold: ${combinedRadiusX.toFixed(3)})
-  Distance Y:      ${distanceY.toFixed(3)} (Tolerance: ${verticalHitTolerance.toFixed(3)})
-  X Met:           ${distanceX < combinedRadiusX}
-  Y Met:           ${distanceY < verticalHitTolerance}
-  Condition Met:   ${distanceX < combinedRadiusX && distanceY < verticalHitTolerance}`);
-                            // --- END LOGGING ---
-
-                            // Check BOTH horizontal and vertical proximity
-                            if (distanceX < combinedRadiusX && distanceY < verticalHitTolerance) {
-                                console.log(`[SceneContent Projectile] HIT DETECTED (X/Y): P${activeProjectile.launcherIndex}'s Projectile (ID ${activeProjectile.id}) vs P${opponentPlayerIndex}`);
-                                const opponentBlocking = opponentRef?.isBlocking() ?? false;
-                                const damage = opponentBlocking ? 100 * 0.2 : 100; // Apply special damage amounts
-
-                                // --- Trigger Hit Flicker on Opponent --- 
-                                opponentRef?.triggerHitFlicker(); // Call flicker on the hit character
-
-                                if (opponentPlayerIndex === 2) { // Hit Player 2
-                                    setPlayer2Health(h => Math.max(0, h - damage));
-                                } else { // Hit Player 1
-                                    setPlayer1Health(h => Math.max(0, h - damage));
-                                }
-                                playSoundEffect('/sounds/fight/punch/punch3.mp3');
-                                shouldDeactivate = true; // Deactivate on hit
-                            }
-                            break; // End throwing case
-                        }
-                    } // End switch
-
-                    // Update the main state only once at the end of the frame logic
-                    if (shouldDeactivate) {
-                        setActiveProjectile(null); // Deactivate
-                    } else {
-                        setActiveProjectile({
-                            ...activeProjectile,
-                            status: newStatus,
-                            scale: newScale,
-                            position: newPosition,
-                            throwStartTime: newThrowStartTime,
-                        });
-                    }
-                } // End if(activeProjectile)
-
-                // --- Standard Hit Detection & Damage --- (Keep existing)
-                const p1 = player1Ref.current;
-                const p2 = player2Ref.current;
-                if (p1 && p2) {
-                    const p1GroupPos = p1Group.position;
-                    const p2GroupPos = p2Group.position;
-                    const distXHit = Math.abs(p1GroupPos.x - p2GroupPos.x);
-                    const p1Blocking = p1?.isBlocking() ?? false;
-                    const p2Blocking = p2?.isBlocking() ?? false;
-                    const playersLandedHit = (p1?.getHasHitGround() ?? false) && (p2?.getHasHitGround() ?? false);
-                    const p1AttackingPunchKick = (p1?.isAttacking() ?? false) && !(p1?.isPerformingSpecialAttack() ?? true);
-                    const p2AttackingPunchKick = (p2?.isAttacking() ?? false) && !(p2?.isPerformingSpecialAttack() ?? true);
-                    const p1CanDamage = p1?.getCanDamage() ?? false;
-                    const p2CanDamage = p2?.getCanDamage() ?? false;
-
-                    if (p1AttackingPunchKick && distXHit < HIT_DISTANCE && p1CanDamage && playersLandedHit) {
-                        const damage = p2Blocking ? PUNCH_DAMAGE * BLOCK_DAMAGE_MULTIPLIER : PUNCH_DAMAGE;
-                        p1.confirmHit(); // Attacker confirms their hit (e.g., to stop their damage window)
-                        playSoundEffect(getRandomSound(PUNCH_HIT_SOUNDS)); // <-- Play punch hit sound
-                        p2?.triggerHitFlicker(); // Trigger flicker on Player 2 (the one hit)
-                        setPlayer2Health(h => Math.max(0, h - damage));
-                    }
-                    if (p2AttackingPunchKick && distXHit < HIT_DISTANCE && p2CanDamage && playersLandedHit) {
-                        const damage = p1Blocking ? PUNCH_DAMAGE * BLOCK_DAMAGE_MULTIPLIER : PUNCH_DAMAGE;
-                        p2.confirmHit(); // Attacker confirms their hit
-                        playSoundEffect(getRandomSound(PUNCH_HIT_SOUNDS)); // <-- Play punch hit sound
-                        p1?.triggerHitFlicker(); // Trigger flicker on Player 1 (the one hit)
-                        setPlayer1Health(h => Math.max(0, h - damage));
-                    }
-                }
+            } else if (isSimulating && simulation) {
+                // Face the direction the simulation decided (it turns fighters once they've landed)
+                const [fighter1, fighter2] = simulation.fighters;
+                p1Wrapper.rotation.y = fighter1.facing === 1 ? 0 : -Math.PI;
+                p2Wrapper.rotation.y = fighter2.facing === 1 ? 0 : -Math.PI;
             }
 
-            if (camera) {
-                if (fightPhase === 'INTRO_P1' || fightPhase === 'INTRO_P2') {
-                    const introLookAtY = 0.9;
-                    const introCamDistance = 1.4;
-                    const introCamYOffset = CAM_Y + 0.2;
-                    const focusGroup = fightPhase === 'INTRO_P1' ? p1Group : p2Group;
-                    const targetFocusPos = new THREE.Vector3(focusGroup.position.x, introLookAtY, focusGroup.position.z);
-                    const targetCamPosIntro = new THREE.Vector3(focusGroup.position.x, introCamYOffset, focusGroup.position.z + introCamDistance);
-                    camera.position.x = THREE.MathUtils.damp(camera.position.x, targetCamPosIntro.x, INTRO_CAMERA_SMOOTH_TIME, delta);
-                    camera.position.y = THREE.MathUtils.damp(camera.position.y, targetCamPosIntro.y, INTRO_CAMERA_SMOOTH_TIME, delta);
-                    camera.position.z = THREE.MathUtils.damp(camera.position.z, targetCamPosIntro.z, INTRO_CAMERA_SMOOTH_TIME, delta);
-                    camera.lookAt(targetFocusPos);
+            if (camera && !freeCamera) {
+                // The follow below works from the unshaken position
+                camera.position.sub(shakeOffsetRef.current);
+                shakeOffsetRef.current.set(0, 0, 0);
+                const isKoSwing = !!koCinematic && koCinematic.seconds < KO_CINEMATIC_SECONDS;
+                // Intros, and after the match's K.O. the winner's victory pose, are framed close on one fighter
+                const focusGroup = fightPhase === 'INTRO_P1' ? p1Group
+                    : fightPhase === 'INTRO_P2' ? p2Group
+                    : koCinematic && !isKoSwing && fightPhase === 'GAME_OVER' && matchWinner !== null ? (matchWinner === 0 ? p1Group : p2Group)
+                    : null;
+                if (focusGroup) {
+                    const targetFocusPos = new THREE.Vector3(focusGroup.position.x, INTRO_CAM_LOOKAT_Y, focusGroup.position.z);
+                    const targetCamPosIntro = new THREE.Vector3(focusGroup.position.x, INTRO_CAM_Y, focusGroup.position.z + INTRO_CAM_DISTANCE);
+                    dampCamera(camera, targetCamPosIntro, targetFocusPos, delta);
                 }
                 else if (fightPhase === 'PRE_FIGHT') {
                     const fightViewMidPointX = (p1Group.position.x + p2Group.position.x) / 2;
@@ -603,17 +925,34 @@ const SceneContent: React.FC<SceneContentProps> = memo(function SceneContent({
                     camera.position.z = THREE.MathUtils.lerp(camera.position.z, fightViewTargetPos.z, LERP_FACTOR * 1.5);
                     camera.lookAt(fightViewMidPointX, CAM_LOOKAT_Y, 0);
                 }
-                else if (fightPhase === 'FIGHT' || fightPhase === 'GAME_OVER') {
-                    const playersLanded = player1Ref.current?.getHasHitGround() && player2Ref.current?.getHasHitGround();
-                    if (playersLanded) {
-                        const cameraDistX = Math.abs(p1Group.position.x - p2Group.position.x);
-                        const targetZ = THREE.MathUtils.clamp(MIN_CAM_Z + cameraDistX * BASE_DISTANCE_FACTOR, MIN_CAM_Z, MAX_CAM_Z);
-                        const midPointX = (p1Group.position.x + p2Group.position.x) / 2;
-                        camera.position.x = THREE.MathUtils.lerp(camera.position.x, midPointX, LERP_FACTOR);
-                        camera.position.y = THREE.MathUtils.lerp(camera.position.y, CAM_Y, LERP_FACTOR);
-                        camera.position.z = THREE.MathUtils.lerp(camera.position.z, targetZ, LERP_FACTOR);
-                        camera.lookAt(midPointX, CAM_LOOKAT_Y, 0);
-                    }
+                else if (koCinematic && isKoSwing) {
+                    const loserGroup = koCinematic.loser === 0 ? p1Group : p2Group;
+                    const winnerGroup = koCinematic.loser === 0 ? p2Group : p1Group;
+                    const awayFromWinner = loserGroup.position.x <= winnerGroup.position.x ? -1 : 1;
+                    const progress = THREE.MathUtils.smoothstep(koCinematic.seconds / KO_CINEMATIC_SECONDS, 0, 1);
+                    const angle = awayFromWinner * KO_CAM_SWING * progress; // 0 = in front, like the fight camera
+                    const swingPos = new THREE.Vector3(
+                        loserGroup.position.x + Math.sin(angle) * KO_CAM_DISTANCE,
+                        KO_CAM_Y,
+                        loserGroup.position.z + Math.cos(angle) * KO_CAM_DISTANCE,
+                    );
+                    dampCamera(camera, swingPos, new THREE.Vector3(loserGroup.position.x, KO_CAM_LOOKAT_Y, loserGroup.position.z), delta);
+                }
+                else if (isSimulating) {
+                    const cameraDistX = Math.abs(p1Group.position.x - p2Group.position.x);
+                    const targetZ = THREE.MathUtils.clamp(MIN_CAM_Z + cameraDistX * BASE_DISTANCE_FACTOR, MIN_CAM_Z, MAX_CAM_Z);
+                    const midPointX = (p1Group.position.x + p2Group.position.x) / 2;
+                    camera.position.x = THREE.MathUtils.lerp(camera.position.x, midPointX, LERP_FACTOR);
+                    camera.position.y = THREE.MathUtils.lerp(camera.position.y, CAM_Y, LERP_FACTOR);
+                    camera.position.z = THREE.MathUtils.lerp(camera.position.z, targetZ, LERP_FACTOR);
+                    camera.lookAt(midPointX, CAM_LOOKAT_Y, 0);
+                }
+                const shake = cameraShakeRef.current;
+                if (shake.secondsLeft > 0) {
+                    shake.secondsLeft = Math.max(0, shake.secondsLeft - delta);
+                    const amplitude = shake.amplitude * (shake.secondsLeft / CAMERA_SHAKE_SECONDS);
+                    shakeOffsetRef.current.set((Math.random() * 2 - 1) * amplitude, (Math.random() * 2 - 1) * amplitude, 0);
+                    camera.position.add(shakeOffsetRef.current);
                 }
                 camera.updateProjectionMatrix();
             }
@@ -628,9 +967,9 @@ const SceneContent: React.FC<SceneContentProps> = memo(function SceneContent({
              <color attach="background" args={['#202020']} />
              <OrbitControls
                  ref={controlsRef}
-                 enablePan={false}
-                 enableZoom={false}
-                 enableRotate={false}
+                 enablePan={freeCamera}
+                 enableZoom={freeCamera}
+                 enableRotate={freeCamera}
                  target={[0, CAM_LOOKAT_Y, 0]}
              />
              {loadedBackgroundTexture && (
@@ -647,7 +986,7 @@ const SceneContent: React.FC<SceneContentProps> = memo(function SceneContent({
                  </>
              )}
 
-            {/* Player Characters - Add onLaunchProjectile prop AND playerIndex prop */}
+            {/* Player Characters - Render the simulation fighters, playerIndex picks which one */}
             <>
             {(() => { console.log(`[SceneContent] Rendering PlayerCharacter 1. URL: ${player1ModelUrl}, Facing: right, Phase: ${fightPhase}`); return null; })()}
             <PlayerCharacter
@@ -655,16 +994,18 @@ const SceneContent: React.FC<SceneContentProps> = memo(function SceneContent({
                 modelUrl={player1ModelUrl}
                 initialPosition={PLAYER1_START_POS}
                 initialFacing="right"
-                isPlayerControlled={true}
+                isPlayerControlled={isPlayer1Local}
+                externalInput={isPlayer1Local ? undefined : player1AIInputRef}
+                keyBindings={isLocalVersus ? controlsConfig.slots.p1 : controlsConfig.slots.solo}
                 fightPhase={fightPhase}
                 introAnimationType={p1IntroAnim}
                 startIntroAnimation={fightPhase === 'INTRO_P1'}
                 canFight={fightPhase === 'FIGHT'}
-                onCharacterReady={() => { setP1Ready(true); }}
+                onCharacterReady={handlePlayer1Ready}
                 currentHealth={player1Health}
+                isWinner={matchWinner === 0}
                 isPaused={isPaused}
-                specialImageUrlProp={player1SpecialImageUrl}
-                onLaunchProjectile={handleProjectileLaunch}
+                simulationRef={simulationRef}
                 playerIndex={1} // <-- Pass index 1
             />
             </>
@@ -675,29 +1016,47 @@ const SceneContent: React.FC<SceneContentProps> = memo(function SceneContent({
                 modelUrl={player2ModelUrl}
                 initialPosition={PLAYER2_START_POS}
                 initialFacing="left"
-                isPlayerControlled={false}
-                externalInput={aiInputRef}
+                isPlayerControlled={isPlayer2Local}
+                externalInput={isPlayer2Local ? undefined : aiInputRef}
+                keyBindings={isLocalVersus ? controlsConfig.slots.p2 : isPlayer2Local ? controlsConfig.slots.solo : undefined}
+                gamepadPlayer={isPlayer2Local && !isLocalVersus ? 1 : undefined}
                 fightPhase={fightPhase}
                 introAnimationType={p2IntroAnim}
                 startIntroAnimation={fightPhase === 'INTRO_P2'}
                 canFight={fightPhase === 'FIGHT'}
-                onCharacterReady={() => { setP2Ready(true); }}
+                onCharacterReady={handlePlayer2Ready}
                 currentHealth={player2Health}
+                isWinner={matchWinner === 1}
                 isPaused={isPaused}
-                specialImageUrlProp={player2SpecialImageUrl}
-                onLaunchProjectile={handleProjectileLaunch}
+                simulationRef={simulationRef}
                 playerIndex={2} // <-- Pass index 2
+                scale={player2Scale}
             />
             </>
 
-            <AIController
-                playerRef={player2Ref}
-                opponentRef={player1Ref}
-                isActive={isAIActive}
-                aiInputRef={aiInputRef}
-                isPaused={isPaused}
-                currentHealth={player2Health}
-            />
+            {!isLocalVersus && !isTraining && !isPlayback && !rollbackSessionRef && (
+                <AIController
+                    simulationRef={simulationRef}
+                    fighterIndex={1}
+                    isActive={isAIActive}
+                    aiInputRef={aiInputRef}
+                    isPaused={isPaused}
+                    difficulty={aiDifficulty}
+                    personality={aiPersonality}
+                    habitsPlayerId={isAttract ? undefined : player1Id}
+                />
+            )}
+            {isAttract && (
+                <AIController
+                    simulationRef={simulationRef}
+                    fighterIndex={0}
+                    isActive={isAIActive}
+                    aiInputRef={player1AIInputRef}
+                    isPaused={isPaused}
+                    difficulty={aiDifficulty}
+                    personality={player1AIPersonality}
+                />
+            )}
 
             <mesh
                 rotation={[-Math.PI / 2, 0, 0]}
@@ -729,16 +1088,24 @@ const SceneContent: React.FC<SceneContentProps> = memo(function SceneContent({
                 </mesh>
             )}
 
-            {/* --- Render Active Projectile --- */}
-            {activeProjectile && activeProjectile.textureUrl ? (
-                <SpecialPowerProjectileComponent
-                    key={activeProjectile.id}
-                    position={activeProjectile.position}
-                    textureUrl={activeProjectile.textureUrl}
-                    isFlipped={activeProjectile.directionX === -1}
-                    scale={activeProjectile.scale}
-                />
-            ) : null}
+            <ImpactParticles ref={particlesRef} isPaused={isPaused} />
+
+            {/* --- Render Projectiles (moved by the simulation) --- */}
+            {renderedProjectiles.map(projectile => {
+                const textureUrl = projectile.owner === 0 ? player1SpecialImageUrl : player2SpecialImageUrl;
+                return textureUrl ? (
+                    <SpecialPowerProjectileComponent
+                        key={projectile.id}
+                        projectileId={projectile.id}
+                        simulationRef={simulationRef}
+                        textureUrl={textureUrl}
+                        isFlipped={projectile.direction === -1}
+                    />
+                ) : null;
+            })}
+
+            {/* --- Debug: simulation hurtboxes / hitboxes --- */}
+            {showHitboxes && <HitboxOverlay simulationRef={simulationRef} playerRefs={[player1Ref, player2Ref]} />}
         </Suspense>
     );
 }); // Close memo wrapper
@@ -756,32 +1123,243 @@ export function BattleScene({
     player2SpecialImageUrl,
     backgroundImageUrl,
     floorTextureUrl,
-    onSceneVisible
+    onSceneVisible,
+    gameMode = 'vs-ai',
+    seed,
+    matchRules = DEFAULT_MATCH_RULES,
+    aiDifficulty = DEFAULT_AI_DIFFICULTY,
+    aiPersonality = DEFAULT_AI_PERSONALITY,
+    player1AIPersonality = DEFAULT_AI_PERSONALITY,
+    player1StartHealth = MAX_HEALTH,
+    player2MaxHealth = MAX_HEALTH,
+    player2Scale = 1,
+    onMatchEnd,
+    replay,
+    onReplayRecorded,
+    netplay,
+    spectating,
 }: BattleSceneProps) {
-    const [player1Health, setPlayer1Health] = useState(MAX_HEALTH);
-    const [player2Health, setPlayer2Health] = useState(MAX_HEALTH);
+    const [player1Health, setPlayer1Health] = useState(player1StartHealth);
+    const [player2Health, setPlayer2Health] = useState(player2MaxHealth);
     const [isAIEnabled, setIsAIEnabled] = useState(false);
     const [fightPhase, setFightPhase] = useState<FightPhase>('LOADING');
     const [p1IntroAnim, setP1IntroAnim] = useState<string | null>(null);
     const [p2IntroAnim, setP2IntroAnim] = useState<string | null>(null);
     const [showReadyText, setShowReadyText] = useState(false);
     const [showFightText, setShowFightText] = useState(false);
-    const [winnerName, setWinnerName] = useState<string | null>(null);
+    const [matchWinner, setMatchWinner] = useState<FighterIndex | null>(null); // null while the match runs, or for a drawn match
     const [showWinnerBanner, setShowWinnerBanner] = useState(false);
     const [isPaused, setIsPaused] = useState(false);
     const [showPauseMenu, setShowPauseMenu] = useState(false);
+    const [showHitboxes, setShowHitboxes] = useState(false); // Debug overlay, toggled with HITBOX_DEBUG_KEY
     const fightStartTriggeredRef = useRef(false);
     const [restartCounter, setRestartCounter] = useState(0);
     const gameOverMenuTimerRef = useRef<NodeJS.Timeout | null>(null);
     const gameOverSequenceInitiatedRef = useRef(false);
+    const matchEndResultRef = useRef<MatchEndResult | null>(null); // Set when the match is decided, for onMatchEnd
+    const roundFramesRef = useRef(0);
+    const foughtFramesRef = useRef(0); // Rounds before the current one
+    const pauseMenuRef = useRef<HTMLDivElement>(null);
     const router = useRouter();
+    // Key bindings and pause keys saved from the controls screen (read once per fight)
+    const [controlsConfig] = useState<ControlsConfig>(() => loadControlsConfig());
+    const [effectsSettings] = useState<EffectsSettings>(() => loadEffectsSettings());
+
+    // Training: the session drives the dummy inside the simulation loop, the state below mirrors it for the HUD
+    const isTraining = gameMode === 'training';
+    const trainingSessionRef = useRef<TrainingSession>(createTrainingSession());
+    const [trainingSettings, setTrainingSettings] = useState<TrainingSettings>(DEFAULT_TRAINING_SETTINGS);
+    const [isTrainingRecording, setIsTrainingRecording] = useState(false);
+    const [trainingInputLog, setTrainingInputLog] = useState<InputLogEntry[]>([]);
+    const [trainingReadout, setTrainingReadout] = useState<TrainingReadout>(() => trainingSessionRef.current.readout);
+    const [trainingResetCounter, setTrainingResetCounter] = useState(0);
+
+    useEffect(() => {
+        trainingSessionRef.current.settings = trainingSettings;
+    }, [trainingSettings]);
+
+    const handleTrainingStep = useCallback((result: TrainingStepResult) => {
+        const session = trainingSessionRef.current;
+        if (result.inputLogChanged) setTrainingInputLog([...session.inputLog]);
+        if (result.readoutChanged) setTrainingReadout(session.readout);
+        if (result.recordingStopped) {
+            setIsTrainingRecording(false);
+            setTrainingSettings(current => ({ ...current, dummy: 'replay' }));
+        }
+    }, []);
+
+    // Tutorial: the steps run in the simulation loop too, a cleared step sets the dummy up for the next one
+    const isTutorial = gameMode === 'tutorial';
+    const createTutorial = useCallback(
+        () => createTutorialSession(player1AIPersonality, !!player1SpecialImageUrl),
+        [player1AIPersonality, player1SpecialImageUrl]
+    );
+    const tutorialSessionRef = useRef<TutorialSession>(createTutorial());
+    const [tutorialStepIndex, setTutorialStepIndex] = useState(0);
+    const [tutorialProgress, setTutorialProgress] = useState(0);
+    const [tutorialCleared, showTutorialCleared] = useSideCallouts<true>(TUTORIAL_CLEARED_MS);
+
+    const setUpTutorialStep = useCallback((session: TutorialSession) => {
+        setTutorialStepIndex(session.stepIndex);
+        setTutorialProgress(session.progress);
+        setTrainingSettings(current => ({ ...current, dummy: getTutorialStep(session)?.dummy ?? 'stand' }));
+        setTrainingResetCounter(current => current + 1);
+    }, []);
+
+    // Replays: playback reads the inputs in the simulation loop, the state below mirrors its controls
+    const isReplay = gameMode === 'replay';
+    const replayPlaybackRef = useRef<ReplayPlayback | null>(null);
+    if (!replayPlaybackRef.current) {
+        replayPlaybackRef.current = spectating?.playback ?? (replay ? createReplayPlayback(replay) : null);
+    }
+    const replayRecorderRef = useRef<ReplayRecorder | null>(null); // Set by SceneContent when the match is recorded
+    // Online matches are always recorded, their spectators are streamed the recording
+    const isRecordingReplay = (!!onReplayRecorded || gameMode === 'online') && !isPlaybackMode(gameMode) && !hasTrainingDummy(gameMode);
+    const [isReplayPaused, setIsReplayPaused] = useState(false);
+    const [replaySpeed, setReplaySpeed] = useState(1);
+    const [freeCamera, setFreeCamera] = useState(false);
+
+    const toggleReplayPause = useCallback(() => {
+        const playback = replayPlaybackRef.current;
+        if (!playback) return;
+        playback.paused = !playback.paused;
+        setIsReplayPaused(playback.paused);
+    }, []);
+
+    const stepReplayFrame = useCallback(() => {
+        const playback = replayPlaybackRef.current;
+        if (playback?.paused) playback.pendingSteps++;
+    }, []);
 
-    // --- ADDED: Energy States & Max Energy Constant ---
-    const MAX_ENERGY_BATTLESCENE = 100; // Must match PlayerCharacter's MAX_ENERGY
-    const [player1Energy, setPlayer1Energy] = useState(MAX_ENERGY_BATTLESCENE);
-    const [player2Energy, setPlayer2Energy] = useState(MAX_ENERGY_BATTLESCENE);
+    const changeReplaySpeed = useCallback((speed: number) => {
+        if (replayPlaybackRef.current) replayPlaybackRef.current.speed = speed;
+        setReplaySpeed(speed);
+    }, []);
+
+    const toggleFreeCamera = useCallback(() => {
+        setFreeCamera(current => !current);
+    }, []);
+
+    // Online: the rollback session runs in the simulation loop, the readout below mirrors it for the HUD
+    const isOnline = gameMode === 'online' && !!netplay;
+    const rollbackSessionRef = useRef<RollbackSession | null>(null);
+    if (isOnline && !rollbackSessionRef.current) {
+        rollbackSessionRef.current = createRollbackSession(netplay.localIndex, netplay.inputDelay);
+    }
+    const [netplayReadout, setNetplayReadout] = useState<NetplayReadout | null>(null);
+    const [opponentLeft, setOpponentLeft] = useState(false);
+
+    useEffect(() => {
+        if (!isOnline) return;
+        const { connection } = netplay;
+        const stopMessages = connection.onMessage(message => {
+            const session = rollbackSessionRef.current;
+            if (session && message.type === 'input') receiveRollbackMessage(session, message);
+        });
+        const stopClose = connection.onClose(() => {
+            console.warn('[BattleScene] The other player disconnected.');
+            setOpponentLeft(true);
+            setShowPauseMenu(true);
+        });
+        const readoutTimer = setInterval(() => {
+            const session = rollbackSessionRef.current;
+            if (!session) return;
+            const readout: NetplayReadout = {
+                pingMs: connection.getPingMs(),
+                inputDelay: session.inputDelay,
+                lastRollbackFrames: session.stats.lastRollbackFrames,
+                maxRollbackFrames: session.stats.maxRollbackFrames,
+                isWaiting: isWaitingForRemote(session),
+                desyncFrame: session.desync?.frame ?? null,
+            };
+            setNetplayReadout(current => current && (Object.keys(readout) as (keyof NetplayReadout)[]).every(key => current[key] === readout[key]) ? current : readout);
+        }, NETPLAY_READOUT_MS);
+        return () => {
+            stopMessages();
+            stopClose();
+            clearInterval(readoutTimer);
+        };
+    }, [isOnline, netplay]);
+
+    // The host streams each input to the spectators once it's final (see takeSpectateInputs)
+    useEffect(() => {
+        const channel = isOnline && netplay.localIndex === 0 ? netplay.spectators : null;
+        if (!channel) return;
+        const progress = createSpectateProgress();
+        const publishTimer = setInterval(() => {
+            const session = rollbackSessionRef.current;
+            const recorder = replayRecorderRef.current;
+            if (session && recorder) takeSpectateInputs(progress, session, recorder).forEach(channel.publish);
+        }, SPECTATE_PUBLISH_MS);
+        return () => clearInterval(publishTimer);
+    }, [isOnline, netplay]);
+
+    // Spectators of an online match: how many, and their emotes (sent by the ones watching, seen by everyone)
+    const spectateChannel: SpectateChannel | null = (isOnline ? netplay.spectators : null) ?? (gameMode === 'spectate' ? spectating?.channel ?? null : null);
+    const [spectatorCount, setSpectatorCount] = useState(0);
+    const [floatingEmotes, setFloatingEmotes] = useState<FloatingEmote[]>([]);
+
+    useEffect(() => {
+        if (!spectateChannel) return;
+        const timers = new Set<NodeJS.Timeout>();
+        let nextId = 0;
+        const stopCount = spectateChannel.onSpectatorCount(setSpectatorCount);
+        const stopEmotes = spectateChannel.onEmote(({ emote }) => {
+            const entry: FloatingEmote = { id: nextId++, emote, offset: 20 + Math.floor(Math.random() * 160) };
+            setFloatingEmotes(current => [...current, entry].slice(-MAX_FLOATING_EMOTES));
+            const timer = setTimeout(() => {
+                timers.delete(timer);
+                setFloatingEmotes(current => current.filter(other => other.id !== entry.id));
+            }, EMOTE_FLOAT_MS);
+            timers.add(timer);
+        });
+        return () => {
+            stopCount();
+            stopEmotes();
+            timers.forEach(timer => clearTimeout(timer));
+        };
+    }, [spectateChannel]);
+
+    const sendEmote = useCallback((emote: SpectatorEmote) => {
+        spectateChannel?.sendEmote(emote);
+    }, [spectateChannel]);
+
+    const handleTutorialStep = useCallback((result: TutorialStepResult) => {
+        const session = tutorialSessionRef.current;
+        if (result.stepCompleted) {
+            playSoundEffect('/sounds/effects/confirm.mp3');
+            showTutorialCleared(0, true);
+            setUpTutorialStep(session);
+        } else if (result.progressChanged) {
+            setTutorialProgress(session.progress);
+        }
+    }, [setUpTutorialStep, showTutorialCleared]);
+
+    // --- ADDED: Energy States ---
+    const [player1Energy, setPlayer1Energy] = useState(MAX_ENERGY);
+    const [player2Energy, setPlayer2Energy] = useState(MAX_ENERGY);
     // --- END ADDED ---
 
+    // --- Match State (rounds, clock) ---
+    const [round, setRound] = useState(1);
+    const [roundResults, setRoundResults] = useState<RoundResult[]>([]);
+    const [roundTimeLeft, setRoundTimeLeft] = useState<number | null>(matchRules.roundSeconds);
+
+    // --- HUD callouts (block feedback under the defender's bar, combo counter under the attacker's) ---
+    const [guardFeedback, showGuardFeedback] = useSideCallouts<GuardFeedbackText>(GUARD_FEEDBACK_MS);
+    const [comboCounters, showComboCounter] = useSideCallouts<number>(COMBO_COUNTER_MS);
+    const winnerName = matchWinner === null ? null : matchWinner === 0 ? player1Name : player2Name;
+    const [p1RoundWins, p2RoundWins] = countRoundWins(roundResults);
+    const winsNeeded = roundsToWin(matchRules.bestOf);
+    const lastRoundResult = roundResults.length > 0 ? roundResults[roundResults.length - 1] : null;
+    const isFinalRound = matchRules.bestOf > 1 && p1RoundWins === winsNeeded - 1 && p2RoundWins === winsNeeded - 1;
+    const isRoundResultShown = (fightPhase === 'ROUND_OVER' || fightPhase === 'GAME_OVER') && !!lastRoundResult;
+    const isKnockout = isRoundResultShown && lastRoundResult?.reason !== 'timeOver';
+    // The K.O. cinematic swings around the one fighter left down (not after a double K.O.)
+    const koLoser: FighterIndex | null = effectsSettings.koCinematic && isKnockout && lastRoundResult?.reason === 'ko' && lastRoundResult.winner !== null
+        ? (lastRoundResult.winner === 0 ? 1 : 0)
+        : null;
+
     // --- DIAGNOSTIC useEffects ---
     useEffect(() => {
         console.log(`[BattleScene Diagnostics] showPauseMenu state is NOW: ${showPauseMenu}`);
@@ -796,61 +1374,84 @@ export function BattleScene({
         player1Health, setPlayer1Health, 
         player2Health, setPlayer2Health,
         player1Energy, setPlayer1Energy,
-        player2Energy, setPlayer2Energy
+        player2Energy, setPlayer2Energy,
+        roundTimeLeft, setRoundTimeLeft,
+        showGuardFeedback,
+        showComboCounter
     };
 
     // --- Effect to Reset State on Restart ---
     useEffect(() => {
         if (restartCounter > 0) {
             console.log("[BattleScene] Restart triggered. Resetting states.");
-            setPlayer1Health(MAX_HEALTH);
-            setPlayer2Health(MAX_HEALTH);
+            setPlayer1Health(player1StartHealth);
+            setPlayer2Health(player2MaxHealth);
             setIsAIEnabled(false);
             setFightPhase('LOADING');
             setP1IntroAnim(null);
             setP2IntroAnim(null);
             setShowReadyText(false);
             setShowFightText(false);
-            setWinnerName(null);
+            setMatchWinner(null);
             setShowWinnerBanner(false);
             setIsPaused(false);
             setShowPauseMenu(false);
             fightStartTriggeredRef.current = false;
             gameOverSequenceInitiatedRef.current = false;
-            setPlayer1Energy(MAX_ENERGY_BATTLESCENE);
-            setPlayer2Energy(MAX_ENERGY_BATTLESCENE);
+            matchEndResultRef.current = null;
+            roundFramesRef.current = 0;
+            foughtFramesRef.current = 0;
+            setPlayer1Energy(MAX_ENERGY);
+            setPlayer2Energy(MAX_ENERGY);
+            setRound(1);
+            setRoundResults([]);
+            setRoundTimeLeft(matchRules.roundSeconds);
         }
-    }, [restartCounter]);
+    }, [restartCounter, matchRules.roundSeconds, player1StartHealth, player2MaxHealth]);
 
     const versusSoundUrl = '/sounds/voices/versus.mp3';
     const readySoundUrl = '/sounds/voices/ready.mp3';
     const fightSoundUrl = '/sounds/voices/fight.mp3';
     const winsSoundUrl = '/sounds/voices/wins.mp3';
 
+    // --- Pause toggle (keyboard pause keys and gamepad Start) ---
+    const togglePause = useCallback(() => {
+        if (gameMode === 'attract') return; // Nobody to pause for, the demo page leaves on any input
+        if (gameMode === 'online' || gameMode === 'spectate') {
+            // The other player keeps fighting (or the live match goes on), the menu opens over the running fight
+            if (fightPhase !== 'GAME_OVER') setShowPauseMenu(current => !current);
+            return;
+        }
+        if (fightPhase === 'FIGHT' || fightPhase === 'READY') {
+            setIsPaused((prevPaused) => {
+                const nextPaused = !prevPaused;
+                setShowPauseMenu(nextPaused);
+                if (nextPaused) {
+                    playSoundEffect('/sounds/effects/pause.mp3');
+                }
+                console.log(`[BattleScene] Pause Toggled: ${nextPaused}`);
+                return nextPaused;
+            });
+        } else {
+            console.log(`[BattleScene] Pause prevented. Fight Phase: ${fightPhase}`);
+        }
+    }, [fightPhase, gameMode]);
+
     // --- Effect to Handle Pause Key Press ---
     useEffect(() => {
         const handleKeyDown = (event: KeyboardEvent) => {
-            if (event.key === 'Enter') {
-                if (fightPhase === 'FIGHT' || fightPhase === 'READY') {
-                    setIsPaused((prevPaused) => {
-                        const nextPaused = !prevPaused;
-                        setShowPauseMenu(nextPaused);
-                        if (nextPaused) {
-                            playSoundEffect('/sounds/effects/pause.mp3');
-                        }
-                        console.log(`[BattleScene] Pause Toggled: ${nextPaused}`);
-                        return nextPaused;
-                    });
-                } else {
-                    console.log(`[BattleScene] Pause prevented. Fight Phase: ${fightPhase}`);
-                }
+            if (matchesAnyChord(event, controlsConfig.pauseKeys)) {
+                togglePause();
+            } else if (event.code === HITBOX_DEBUG_KEY) {
+                event.preventDefault();
+                setShowHitboxes(current => !current);
             }
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => {
             window.removeEventListener('keydown', handleKeyDown);
         };
-    }, [fightPhase]);
+    }, [togglePause, controlsConfig]);
 
     // --- Effect to manage Fight Phase transitions & Play Sounds --- //
     useEffect(() => {
@@ -1021,6 +1622,10 @@ export function BattleScene({
                     }
                 }
                 break;
+            case 'ROUND_OVER':
+                setIsAIEnabled(false);
+                setShowFightText(false);
+                break;
              case 'GAME_OVER':
                  console.log(`[BattleScene GAME_OVER Check] Current fightPhase: ${fightPhase}, gameOverSequenceInitiatedRef: ${gameOverSequenceInitiatedRef.current}, winnerName: ${winnerName}`);
 
@@ -1031,8 +1636,7 @@ export function BattleScene({
                     setIsAIEnabled(false);
                     setShowReadyText(false);
                     setShowFightText(false);
-                    setShowWinnerBanner(true);
-                    const winnerAudioUrl = winnerName === player1Name ? player1NameAudioUrl : player2NameAudioUrl;
+                    const winnerAudioUrl = matchWinner === null ? null : matchWinner === 0 ? player1NameAudioUrl : player2NameAudioUrl;
                     let winsSoundPlayed = false;
                     const playWinsAndStartTimer = () => {
                         console.log(`[BattleScene playWinsAndStartTimer] Entered. winsSoundPlayed: ${winsSoundPlayed}`);
@@ -1041,8 +1645,10 @@ export function BattleScene({
                             return;
                         }
                         winsSoundPlayed = true;
-                        console.log("[BattleScene GAME_OVER] Playing wins sound.");
-                        playSound(winsSoundUrl);
+                        if (matchWinner !== null) { // Nobody to announce after a drawn match
+                            console.log("[BattleScene GAME_OVER] Playing wins sound.");
+                            playSound(winsSoundUrl);
+                        }
                         console.log("[BattleScene GAME_OVER] Preparing to set 5s timer for Game Over menu.");
                         if (gameOverMenuTimerRef.current) {
                             clearTimeout(gameOverMenuTimerRef.current);
@@ -1050,7 +1656,9 @@ export function BattleScene({
                         }
                         gameOverMenuTimerRef.current = setTimeout(() => {
                             console.log(`[BattleScene GAME_OVER Timer Callback] Entered. Current fightPhase: ${fightPhase}. Menu should appear now.`);
-                            if (fightPhase === 'GAME_OVER') {
+                            if (fightPhase === 'GAME_OVER' && onMatchEnd && matchEndResultRef.current) {
+                                onMatchEnd(matchEndResultRef.current);
+                            } else if (fightPhase === 'GAME_OVER') {
                                 console.log("[BattleScene GAME_OVER Timer Callback] Condition met (fightPhase is GAME_OVER). Setting isPaused and showPauseMenu to true.");
                                 setIsPaused(true);
                                 setShowPauseMenu(true);
@@ -1062,68 +1670,93 @@ export function BattleScene({
                         console.log("[BattleScene GAME_OVER] 5s timer for Game Over menu SET.");
                     };
 
-                    if (winnerAudioUrl) {
-                        try {
-                            const nameAudio = new Audio(winnerAudioUrl);
-                            nameAudio.onended = () => {
-                                console.log(`[BattleScene] Winner name audio finished for ${winnerName}. Starting wins sequence.`);
-                                soundDelayTimer = setTimeout(playWinsAndStartTimer, 300);
-                            };
-                            nameAudio.onerror = (e) => {
-                                console.error(`[BattleScene] Error loading winner name audio:`, e);
+                    const announceWinner = () => {
+                        setShowWinnerBanner(true);
+                        if (winnerAudioUrl) {
+                            try {
+                                const nameAudio = new Audio(winnerAudioUrl);
+                                nameAudio.onended = () => {
+                                    console.log(`[BattleScene] Winner name audio finished for ${winnerName}. Starting wins sequence.`);
+                                    soundDelayTimer = setTimeout(playWinsAndStartTimer, 300);
+                                };
+                                nameAudio.onerror = (e) => {
+                                    console.error(`[BattleScene] Error loading winner name audio:`, e);
+                                    playWinsAndStartTimer();
+                                };
+                                nameAudio.play().catch(error => {
+                                    console.error(`[BattleScene] Error playing winner name audio directly:`, error);
+                                    playWinsAndStartTimer();
+                                });
+                            } catch (error) {
+                                console.error(`[BattleScene] Error creating Audio object for winner name:`, error);
                                 playWinsAndStartTimer();
-                            };
-                            nameAudio.play().catch(error => {
-                                console.error(`[BattleScene] Error playing winner name audio directly:`, error);
-                                playWinsAndStartTimer();
-                            });
-                        } catch (error) {
-                            console.error(`[BattleScene] Error creating Audio object for winner name:`, error);
+                            }
+                        } else {
+                            console.log("[BattleScene GAME_OVER] winnerAudioUrl is null, calling playWinsAndStartTimer directly.");
                             playWinsAndStartTimer();
                         }
+                    };
+
+                    if (koLoser !== null) {
+                        // The K.O. cinematic plays first, the winner is announced as the camera gets to them.
+                        // Kept in gameOverMenuTimerRef so a restart cancels it like the menu.
+                        gameOverMenuTimerRef.current = setTimeout(announceWinner, KO_CINEMATIC_SECONDS * 1000);
                     } else {
-                        console.log("[BattleScene GAME_OVER] winnerAudioUrl is null, calling playWinsAndStartTimer directly.");
-                        playWinsAndStartTimer();
+                        announceWinner();
                     }
                  } else {
                     console.log('[BattleScene GAME_OVER] Skipped game over sequence because gameOverSequenceInitiatedRef was true.');
                  }
                 break;
         }
-    }, [fightPhase, player1NameAudioUrl, player2NameAudioUrl, versusSoundUrl, readySoundUrl, fightSoundUrl, onSceneVisible, winnerName, player1Name, player2Name, winsSoundUrl, isPaused]);
+    }, [fightPhase, player1NameAudioUrl, player2NameAudioUrl, versusSoundUrl, readySoundUrl, fightSoundUrl, onSceneVisible, winnerName, matchWinner, winsSoundUrl, isPaused, onMatchEnd, koLoser]);
 
-    // --- Effect to check for Game Over ---
+    // --- Effect to end the round (KO, double KO or time over) and decide the match ---
     useEffect(() => {
-        if (fightPhase === 'FIGHT') {
-            let determinedWinner: string | null = null;
-            if (player1Health <= 0) {
-                determinedWinner = player2Name;
-            } else if (player2Health <= 0) {
-                determinedWinner = player1Name;
-            }
-
-            if (determinedWinner) {
-                console.log(`[BattleScene] Game Over! Winner: ${determinedWinner}`);
-                setWinnerName(determinedWinner);
-                setFightPhase('GAME_OVER');
-            }
+        if (fightPhase !== 'FIGHT') return;
+        const result = resolveRound([player1Health, player2Health], [MAX_HEALTH, player2MaxHealth], roundTimeLeft === 0);
+        if (!result) return;
+        if (hasTrainingDummy(gameMode)) {
+            // No rounds in training, a KO just puts both fighters back
+            setTrainingResetCounter(current => current + 1);
+            return;
         }
-        else if (fightPhase === 'GAME_OVER' && winnerName === null) {
-            let potentialWinner: string | null = null;
-            if (player1Health <= 0 && player2Health > 0) {
-                potentialWinner = player2Name;
-            } else if (player2Health <= 0 && player1Health > 0) {
-                potentialWinner = player1Name;
-            } else if (player1Health <= 0 && player2Health <= 0) {
-                console.log("[BattleScene] GAME_OVER with null winnerName and both players at 0 health. Possible draw?");
-            }
 
-            if (potentialWinner) {
-                console.log(`[BattleScene] Setting winner in GAME_OVER phase as name was null: ${potentialWinner}`);
-                setWinnerName(potentialWinner);
-            }
+        const results = [...roundResults, result];
+        const outcome = getMatchOutcome(results, matchRules);
+        console.log(`[BattleScene] Round ${round} over (${result.reason}). Winner: ${result.winner === null ? 'draw' : `P${result.winner + 1}`}`);
+        setRoundResults(results);
+        foughtFramesRef.current += roundFramesRef.current;
+        roundFramesRef.current = 0;
+        if (outcome.finished) {
+            console.log(`[BattleScene] Game Over! Winner: ${outcome.winner === null ? 'draw' : `P${outcome.winner + 1}`}`);
+            matchEndResultRef.current = {
+                winner: outcome.winner,
+                roundResults: results,
+                health: [player1Health, player2Health],
+                maxHealth: [MAX_HEALTH, player2MaxHealth],
+                timeLeft: roundTimeLeft,
+                fightSeconds: foughtFramesRef.current / SIM_FPS,
+            };
+            if (replayRecorderRef.current) onReplayRecorded?.(replayRecorderRef.current, outcome.winner);
+            setMatchWinner(outcome.winner);
+            setFightPhase('GAME_OVER');
+        } else {
+            setFightPhase('ROUND_OVER');
         }
-    }, [player1Health, player2Health, fightPhase, player1Name, player2Name, winnerName]);
+    }, [player1Health, player2Health, player2MaxHealth, roundTimeLeft, fightPhase, round, roundResults, matchRules, gameMode, onReplayRecorded]);
+
+    // --- Effect to start the next round after the round result has been shown ---
+    useEffect(() => {
+        if (fightPhase !== 'ROUND_OVER') return;
+        const nextRoundTimer = setTimeout(() => {
+            setRound(current => current + 1);
+            setFightPhase('PRE_FIGHT');
+        }, ROUND_OVER_DELAY_MS);
+        return () => {
+            clearTimeout(nextRoundTimer);
+        };
+    }, [fightPhase]);
 
     // --- Pause Menu Handlers ---
     const handleResume = () => {
@@ -1132,8 +1765,51 @@ export function BattleScene({
         setShowPauseMenu(false);
     };
 
+    const cycleTrainingDummy = () => {
+        playSoundEffect('/sounds/effects/confirm.mp3');
+        setTrainingSettings(current => ({
+            ...current,
+            dummy: TRAINING_DUMMY_MODES[(TRAINING_DUMMY_MODES.indexOf(current.dummy) + 1) % TRAINING_DUMMY_MODES.length],
+        }));
+    };
+
+    const toggleTrainingSetting = (setting: 'infiniteHealth' | 'infiniteEnergy') => {
+        playSoundEffect('/sounds/effects/confirm.mp3');
+        setTrainingSettings(current => ({ ...current, [setting]: !current[setting] }));
+    };
+
+    // Recording starts when the fight resumes and stops from the menu (or after MAX_RECORDING_FRAMES),
+    // then the dummy replays it
+    const handleTrainingRecord = () => {
+        if (isTrainingRecording) {
+            playSoundEffect('/sounds/effects/confirm.mp3');
+            stopTrainingRecording(trainingSessionRef.current);
+            setIsTrainingRecording(false);
+            setTrainingSettings(current => ({ ...current, dummy: 'replay' }));
+        } else {
+            startTrainingRecording(trainingSessionRef.current);
+            setIsTrainingRecording(true);
+            handleResume();
+        }
+    };
+
+    const handleTrainingReset = () => {
+        setTrainingResetCounter(current => current + 1);
+        handleResume();
+    };
+
     const handleRestart = () => {
         playSoundEffect('/sounds/effects/confirm.mp3');
+        if (isTutorial) {
+            tutorialSessionRef.current = createTutorial();
+            setUpTutorialStep(tutorialSessionRef.current);
+        }
+        if (replay) {
+            // From the start again, the scene remounts with the same seed
+            replayPlaybackRef.current = createReplayPlayback(replay);
+            setIsReplayPaused(false);
+            setReplaySpeed(1);
+        }
         if (gameOverMenuTimerRef.current) {
             clearTimeout(gameOverMenuTimerRef.current);
             gameOverMenuTimerRef.current = null;
@@ -1147,9 +1823,17 @@ export function BattleScene({
     const handleBackToSelect = () => {
         playSoundEffect('/sounds/effects/confirm.mp3');
         fightStartTriggeredRef.current = false;
-        router.push(`/vs/${player1Id}`);
+        router.push(isReplay ? '/replays' : isOnline || gameMode === 'spectate' ? '/select' : `/vs/${player1Id}`);
     };
 
+    // Pads fight while the menu is closed, and drive the pause / game over menu while it's open
+    useGamepadMenu({
+        navigate: showPauseMenu,
+        rootRef: pauseMenuRef,
+        onStart: togglePause,
+        onBack: showPauseMenu && fightPhase !== 'GAME_OVER' ? handleResume : undefined,
+    });
+
     return (
         <BattleStateContext.Provider value={battleStateValue}>
             <React.Fragment key={restartCounter}>
@@ -1178,7 +1862,34 @@ export function BattleScene({
                         player1Health={player1Health}
                         player2Health={player2Health}
                         isPaused={isPaused}
-                        maxEnergy={MAX_ENERGY_BATTLESCENE}
+                        maxEnergy={MAX_ENERGY}
+                        gameMode={gameMode}
+                        aiDifficulty={aiDifficulty}
+                        aiPersonality={aiPersonality}
+                        player1AIPersonality={player1AIPersonality}
+                        player1Id={player1Id}
+                        player1StartHealth={player1StartHealth}
+                        player2MaxHealth={player2MaxHealth}
+                        player2Scale={player2Scale}
+                        roundFramesRef={roundFramesRef}
+                        trainingSessionRef={hasTrainingDummy(gameMode) ? trainingSessionRef : null}
+                        onTrainingStep={handleTrainingStep}
+                        tutorialSessionRef={isTutorial ? tutorialSessionRef : null}
+                        onTutorialStep={handleTutorialStep}
+                        replayPlaybackRef={isPlaybackMode(gameMode) ? replayPlaybackRef : null}
+                        replayRecorderRef={isRecordingReplay ? replayRecorderRef : null}
+                        freeCamera={freeCamera}
+                        rollbackSessionRef={isOnline ? rollbackSessionRef : null}
+                        netplayConnection={netplay?.connection ?? null}
+                        trainingResetCounter={trainingResetCounter}
+                        controlsConfig={controlsConfig}
+                        effectsSettings={effectsSettings}
+                        koLoser={koLoser}
+                        seed={seed}
+                        round={round}
+                        roundSeconds={matchRules.roundSeconds}
+                        matchWinner={matchWinner}
+                        showHitboxes={showHitboxes}
                     />
                 </Canvas>
 
@@ -1188,16 +1899,110 @@ export function BattleScene({
                      zIndex: 2, display: 'flex', justifyContent: 'space-between',
                      alignItems: 'flex-start'
                  }}>
-                    <HealthBar name={player1Name} currentHealth={player1Health} maxHealth={MAX_HEALTH} alignment="left" style={{ position: 'relative' }} currentEnergy={player1Energy} maxEnergy={MAX_ENERGY_BATTLESCENE} />
-                    <HealthBar name={player2Name} currentHealth={player2Health} maxHealth={MAX_HEALTH} alignment="right" style={{ position: 'relative' }} currentEnergy={player2Energy} maxEnergy={MAX_ENERGY_BATTLESCENE} />
+                    <HealthBar name={player1Name} currentHealth={player1Health} maxHealth={MAX_HEALTH} alignment="left" style={{ position: 'relative' }} currentEnergy={player1Energy} maxEnergy={MAX_ENERGY} roundWins={p1RoundWins} roundsToWin={matchRules.bestOf > 1 ? winsNeeded : 0} />
+                    {roundTimeLeft !== null && (
+                        <div style={{
+                            fontSize: '2.5em', color: roundTimeLeft <= 10 ? '#dc3545' : 'white', fontWeight: 'bold',
+                            textShadow: '2px 2px 4px #000000', fontFamily: 'var(--font-pixel)', minWidth: '2.5em', textAlign: 'center'
+                        }}>
+                            {roundTimeLeft}
+                        </div>
+                    )}
+                    <HealthBar name={player2Name} currentHealth={player2Health} maxHealth={player2MaxHealth} alignment="right" style={{ position: 'relative' }} currentEnergy={player2Energy} maxEnergy={MAX_ENERGY} roundWins={p2RoundWins} roundsToWin={matchRules.bestOf > 1 ? winsNeeded : 0} />
                 </div>
 
+                {/* --- Guard feedback under the defender's health bar --- */}
+                {guardFeedback.map((entry, index) => entry && !isPaused && (
+                    <div key={`${index}-${entry.id}`} className="flash-pop" style={{
+                        position: 'absolute', top: '140px', [index === 0 ? 'left' : 'right']: '40px',
+                        zIndex: 3, pointerEvents: 'none', fontFamily: 'var(--font-pixel)', fontSize: '1.6em',
+                        color: entry.value === 'BLOCKED' ? '#4fc3f7' : '#ff9800', textShadow: '2px 2px 4px #000000'
+                    }}>
+                        {entry.value}
+                    </div>
+                ))}
+
+                {isTraining && fightPhase === 'FIGHT' && !isPaused && (
+                    <TrainingOverlay settings={trainingSettings} isRecording={isTrainingRecording} inputLog={trainingInputLog} readout={trainingReadout} />
+                )}
+                {isReplay && !showPauseMenu && (fightPhase === 'FIGHT' || fightPhase === 'ROUND_OVER' || fightPhase === 'GAME_OVER') && (
+                    <ReplayControls
+                        paused={isReplayPaused}
+                        speed={replaySpeed}
+                        freeCamera={freeCamera}
+                        onTogglePause={toggleReplayPause}
+                        onStep={stepReplayFrame}
+                        onSpeedChange={changeReplaySpeed}
+                        onToggleFreeCamera={toggleFreeCamera}
+                    />
+                )}
+                {isOnline && netplayReadout && fightPhase !== 'LOADING' && (
+                    <NetplayOverlay readout={netplayReadout} opponentLeft={opponentLeft} />
+                )}
+                {spectateChannel && fightPhase !== 'LOADING' && !showPauseMenu && (
+                    <SpectatorOverlay
+                        spectatorCount={spectatorCount}
+                        emotes={floatingEmotes}
+                        onReact={spectateChannel.viewer ? sendEmote : undefined}
+                    />
+                )}
+                {isTutorial && fightPhase === 'FIGHT' && !isPaused && (
+                    <TutorialOverlay
+                        session={tutorialSessionRef.current}
+                        stepIndex={tutorialStepIndex}
+                        progress={tutorialProgress}
+                        keyBindings={controlsConfig.slots.solo}
+                        showStepCleared={!!tutorialCleared[0]}
+                        personalityLabel={AI_PERSONALITIES[player1AIPersonality].label}
+                    />
+                )}
+
+                {/* --- Combo counter under the attacker's health bar --- */}
+                {comboCounters.map((entry, index) => entry && !isPaused && (
+                    <div key={`${index}-${entry.id}`} className="flash-pop" style={{
+                        position: 'absolute', top: '190px', [index === 0 ? 'left' : 'right']: '40px',
+                        zIndex: 3, pointerEvents: 'none', fontFamily: 'var(--font-pixel)', fontSize: '2em',
+                        color: '#FFD700', textShadow: '3px 3px 6px #000000'
+                    }}>
+                        {entry.value} HITS!
+                    </div>
+                ))}
+
+                 {koLoser !== null && !isPaused && (
+                     <div className="ko-flash" style={{
+                         position: 'absolute', inset: 0, zIndex: 2, pointerEvents: 'none',
+                         background: 'radial-gradient(circle, rgba(255, 255, 255, 0.9) 0%, rgba(255, 40, 40, 0.4) 100%)',
+                     }} />
+                 )}
                  <div style={{
                      position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)',
                      zIndex: 3, pointerEvents: 'none', textAlign: 'center'
                  }}>
+                     {showReadyText && !isPaused && matchRules.bestOf > 1 && (
+                         <p style={{ fontSize: '3em', color: '#FFD700', fontWeight: 'bold', textShadow: '2px 2px 4px #000000' }}>
+                             {isFinalRound ? 'Final Round' : `Round ${round}`}
+                         </p>
+                     )}
                      {showReadyText && !isPaused && <p style={{ fontSize: '4em', color: 'white', fontWeight: 'bold', textShadow: '2px 2px 4px #000000' }}>Ready?</p>}
                      {showFightText && !isPaused && <p style={{ fontSize: '5em', color: 'red', fontWeight: 'bold', textShadow: '3px 3px 6px #000000' }}>FIGHT!</p>}
+                    {isRoundResultShown && lastRoundResult && !isPaused && (
+                        <p
+                            className={isKnockout ? 'ko-slam' : undefined}
+                            style={{ fontSize: isKnockout ? '6em' : '4em', color: 'red', fontWeight: 'bold', textShadow: '3px 3px 6px #000000', whiteSpace: 'nowrap' }}
+                        >
+                            {ROUND_END_TEXT[lastRoundResult.reason]}
+                        </p>
+                    )}
+                    {fightPhase === 'ROUND_OVER' && lastRoundResult && !isPaused && (
+                        <p style={{ fontSize: '2.5em', color: 'white', fontWeight: 'bold', textShadow: '2px 2px 4px #000000', whiteSpace: 'nowrap' }}>
+                            {lastRoundResult.winner === null ? 'Draw' : `${lastRoundResult.winner === 0 ? player1Name : player2Name} wins the round`}
+                        </p>
+                    )}
+                    {showWinnerBanner && !winnerName && !isPaused && (
+                        <p style={{ fontSize: '3.5em', color: '#FFD700', fontWeight: 'bold', textShadow: '3px 3px 6px #000000' }}>
+                            Draw!
+                        </p>
+                    )}
                     {showWinnerBanner && winnerName && !isPaused && (
                         <p style={{
                             fontSize: '3.5em',
@@ -1212,7 +2017,7 @@ export function BattleScene({
                  </div>
 
                  {showPauseMenu && (
-                     <div style={{
+                     <div ref={pauseMenuRef} style={{
                          position: 'absolute', inset: 0, zIndex: 10,
                          backgroundColor: 'rgba(0, 0, 0, 0.7)',
                          display: 'flex', flexDirection: 'column',
@@ -1221,13 +2026,33 @@ export function BattleScene({
                          pointerEvents: 'auto'
                      }}>
                          <h2 style={{ fontSize: '3em', marginBottom: '40px', textShadow: '2px 2px 4px #000' }}>
-                             {fightPhase === 'GAME_OVER' ? 'Game Over' : 'Paused'}
+                             {fightPhase === 'GAME_OVER' ? 'Game Over' : isOnline || gameMode === 'spectate' ? 'Menu' : 'Paused'}
                          </h2>
-                         {fightPhase !== 'GAME_OVER' && (
+                         {fightPhase !== 'GAME_OVER' && !opponentLeft && (
                             <button onClick={handleResume} style={pauseButtonStyle}>Resume Fight</button>
                          )}
-                         <button onClick={handleRestart} style={pauseButtonStyle}>Restart Fight</button>
-                         <button onClick={handleBackToSelect} style={pauseButtonStyle}>Back to Fighter Selection</button>
+                         {isTraining && fightPhase !== 'GAME_OVER' && (
+                             <>
+                                 <button onClick={cycleTrainingDummy} style={pauseButtonStyle}>
+                                     Dummy: {TRAINING_DUMMY_LABELS[trainingSettings.dummy]}
+                                 </button>
+                                 <button onClick={handleTrainingRecord} style={pauseButtonStyle}>
+                                     {isTrainingRecording ? 'Stop Recording' : 'Record Dummy Actions'}
+                                 </button>
+                                 <button onClick={() => toggleTrainingSetting('infiniteHealth')} style={pauseButtonStyle}>
+                                     Infinite Health: {trainingSettings.infiniteHealth ? 'On' : 'Off'}
+                                 </button>
+                                 <button onClick={() => toggleTrainingSetting('infiniteEnergy')} style={pauseButtonStyle}>
+                                     Infinite Energy: {trainingSettings.infiniteEnergy ? 'On' : 'Off'}
+                                 </button>
+                                 <button onClick={handleTrainingReset} style={pauseButtonStyle}>Reset Positions</button>
+                             </>
+                         )}
+                         {!isOnline && gameMode !== 'spectate' && <button onClick={handleRestart} style={pauseButtonStyle}>Restart Fight</button>}
+                         <button onClick={() => setShowHitboxes(current => !current)} style={pauseButtonStyle}>
+                             Hitboxes: {showHitboxes ? 'On' : 'Off'}
+                         </button>
+                         <button onClick={handleBackToSelect} style={pauseButtonStyle}>{isReplay ? 'Back to Replays' : isOnline ? 'Leave Online Match' : gameMode === 'spectate' ? 'Stop Watching' : 'Back to Fighter Selection'}</button>
                      </div>
                  )}
 
@@ -8,6 +8,8 @@ interface HealthBarProps {
     maxEnergy: number;
     alignment: 'left' | 'right'; // To flip text alignment if needed
     style?: React.CSSProperties;
+    roundWins?: number; // Rounds won so far in the match
+    roundsToWin?: number; // Pips to show, 0 for single round fights
 }
 
 const HealthBar: React.FC<HealthBarProps> = ({
@@ -18,6 +20,8 @@ const HealthBar: React.FC<HealthBarProps> = ({
     maxEnergy,
     alignment,
     style,
+    roundWins = 0,
+    roundsToWin = 0,
 }) => {
     const healthPercentage = Math.max(0, (currentHealth / maxHealth) * 100);
     const energyPercentage = Math.max(0, (currentEnergy / maxEnergy) * 100);
@@ -75,9 +79,36 @@ const HealthBar: React.FC<HealthBarProps> = ({
         borderRadius: '2px 0 0 2px',
     };
 
+    // Name and round pips on one row, pips on the inner side (towards the timer)
+    const nameRowStyle: React.CSSProperties = {
+        display: 'flex',
+        flexDirection: alignment === 'left' ? 'row' : 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    };
+
+    const pipStyle = (won: boolean): React.CSSProperties => ({
+        width: '12px',
+        height: '12px',
+        marginLeft: '4px',
+        borderRadius: '50%',
+        border: '2px solid #333',
+        backgroundColor: won ? '#ffc107' : 'rgba(255, 255, 255, 0.2)',
+        display: 'inline-block',
+    });
+
     return (
         <div style={barStyle}>
-            <div style={nameStyle}>{name}</div>
+            <div style={nameRowStyle}>
+                <div style={nameStyle}>{name}</div>
+                {roundsToWin > 0 && (
+                    <div style={{ marginBottom: '4px' }}>
+                        {Array.from({ length: roundsToWin }, (_, index) => (
+                            <span key={index} style={pipStyle(index < roundWins)} />
+                        ))}
+                    </div>
+                )}
+            </div>
             <div style={barContainerStyle}>
                 <div style={healthFillStyle}></div>
             </div>
@@ -0,0 +1,98 @@
+import React, { memo, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import { getActiveHitbox, getHurtboxes, getProjectileHitbox, type Box } from '@/lib/combat/boxes';
+import type { FightState } from '@/lib/combat/types';
+import type { PlayerCharacterHandle } from './PlayerCharacter';
+
+// --- Debug overlay for the simulation's collision boxes ---
+// Hurtboxes in green, active hitboxes in red, projectiles in orange. The small cubes mark where
+// the rig bones each box stands for really are, to check the boxes against the animations.
+const HURTBOX_COLOR = '#22ff66';
+const HITBOX_COLOR = '#ff2244';
+const PROJECTILE_BOX_COLOR = '#ffaa00';
+const BONE_MARKER_COLOR = '#22ccff';
+const BOX_DEPTH = 0.3;
+const BONE_MARKER_SIZE = 0.05;
+const MAX_PROJECTILE_BOXES = 4;
+const BODY_BOXES_PER_FIGHTER = 3; // head, torso, legs
+const BOXES_PER_FIGHTER = BODY_BOXES_PER_FIGHTER + 1; // + the attacking limb
+
+interface HitboxOverlayProps {
+    simulationRef: React.RefObject<FightState | null>;
+    playerRefs: [React.RefObject<PlayerCharacterHandle | null>, React.RefObject<PlayerCharacterHandle | null>];
+}
+
+const placeBox = (mesh: THREE.Mesh | null, box: Box | null) => {
+    if (!mesh) return;
+    mesh.visible = !!box;
+    if (!box) return;
+    mesh.position.set((box.left + box.right) / 2, (box.bottom + box.top) / 2, 0);
+    mesh.scale.set(box.right - box.left, box.top - box.bottom, BOX_DEPTH);
+};
+
+const boneWorldPosition = new THREE.Vector3();
+
+const placeBoneMarker = (mesh: THREE.Mesh | null, player: PlayerCharacterHandle | null, boneName: string | null) => {
+    if (!mesh) return;
+    const bone = boneName ? player?.getModelWrapper()?.getObjectByName(boneName) : undefined;
+    mesh.visible = !!bone;
+    if (!bone) return;
+    bone.getWorldPosition(boneWorldPosition);
+    mesh.position.copy(boneWorldPosition);
+};
+
+export const HitboxOverlay: React.FC<HitboxOverlayProps> = memo(function HitboxOverlay({ simulationRef, playerRefs }: HitboxOverlayProps) {
+    const fighterBoxRefs = useRef<(THREE.Mesh | null)[]>([]);
+    const boneMarkerRefs = useRef<(THREE.Mesh | null)[]>([]);
+    const projectileBoxRefs = useRef<(THREE.Mesh | null)[]>([]);
+    const boxGeometry = useMemo(() => new THREE.BoxGeometry(1, 1, 1), []);
+
+    useFrame(() => {
+        const simulation = simulationRef.current;
+        if (!simulation) return;
+
+        simulation.fighters.forEach((fighter, index) => {
+            const player = playerRefs[index].current;
+            const slot = index * BOXES_PER_FIGHTER;
+            const hurtboxes = getHurtboxes(fighter);
+            const hitbox = getActiveHitbox(fighter);
+            hurtboxes.forEach((hurtbox, part) => {
+                placeBox(fighterBoxRefs.current[slot + part], hurtbox);
+                placeBoneMarker(boneMarkerRefs.current[slot + part], player, hurtbox.bone);
+            });
+            placeBox(fighterBoxRefs.current[slot + BODY_BOXES_PER_FIGHTER], hitbox);
+            placeBoneMarker(boneMarkerRefs.current[slot + BODY_BOXES_PER_FIGHTER], player, hitbox?.bone ?? null);
+        });
+
+        projectileBoxRefs.current.forEach((mesh, index) => {
+            const projectile = simulation.projectiles[index];
+            placeBox(mesh, projectile ? getProjectileHitbox(projectile) : null);
+        });
+    });
+
+    const fighterBoxCount = BOXES_PER_FIGHTER * 2;
+    return (
+        <group renderOrder={10}>
+            {Array.from({ length: fighterBoxCount }, (_, index) => (
+                <mesh key={`box-${index}`} ref={mesh => { fighterBoxRefs.current[index] = mesh; }} geometry={boxGeometry} visible={false}>
+                    <meshBasicMaterial
+                        color={index % BOXES_PER_FIGHTER === BODY_BOXES_PER_FIGHTER ? HITBOX_COLOR : HURTBOX_COLOR}
+                        wireframe
+                        depthTest={false}
+                    />
+                </mesh>
+            ))}
+            {Array.from({ length: fighterBoxCount }, (_, index) => (
+                <mesh key={`bone-${index}`} ref={mesh => { boneMarkerRefs.current[index] = mesh; }} geometry={boxGeometry} scale={BONE_MARKER_SIZE} visible={false}>
+                    <meshBasicMaterial color={BONE_MARKER_COLOR} depthTest={false} />
+                </mesh>
+            ))}
+            {Array.from({ length: MAX_PROJECTILE_BOXES }, (_, index) => (
+                <mesh key={`projectile-${index}`} ref={mesh => { projectileBoxRefs.current[index] = mesh; }} geometry={boxGeometry} visible={false}>
+                    <meshBasicMaterial color={PROJECTILE_BOX_COLOR} wireframe depthTest={false} />
+                </mesh>
+            ))}
+        </group>
+    );
+});
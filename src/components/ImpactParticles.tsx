@@ -0,0 +1,153 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+
+// One pool of small cubes for every burst, drawn as a single instanced mesh
+const MAX_PARTICLES = 160;
+const MAX_FRAME_DELTA = 1 / 20; // A hitch doesn't throw the particles across the stage
+const SPARK_COLORS = [new THREE.Color('#fff3b0'), new THREE.Color('#ffc247'), new THREE.Color('#ff7a1a')];
+const BLOCK_SPARK_COLORS = [new THREE.Color('#e6f7ff'), new THREE.Color('#8fd3ff')];
+const DUST_COLORS = [new THREE.Color('#c8b79c'), new THREE.Color('#9c8b72')];
+const SPARK_SPEED = 3;
+const SPARK_SIZE = 0.03;
+const SPARK_LIFE = 0.25; // Seconds
+const SPARK_GRAVITY = -9;
+const DUST_SPEED = 0.8;
+const DUST_SIZE = 0.09;
+const DUST_LIFE = 0.6;
+const DUST_GRAVITY = 0.6; // Dust drifts up
+const DUST_DRAG = 3;
+
+interface Particle {
+    position: THREE.Vector3;
+    velocity: THREE.Vector3;
+    age: number;
+    life: number; // Dead once age reaches it
+    size: number;
+    gravity: number;
+    drag: number;
+}
+
+export interface ImpactParticlesHandle {
+    // Sparks flying from a contact point, mostly in the hit's direction (1 = towards +x)
+    sparks: (x: number, y: number, count: number, direction: 1 | -1, blocked: boolean) => void;
+    // A puff of dust on the ground around x
+    dust: (x: number, groundY: number, count: number) => void;
+}
+
+interface ImpactParticlesProps {
+    isPaused: boolean;
+}
+
+const pick = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+const hiddenMatrix = new THREE.Matrix4().makeScale(0, 0, 0);
+
+// Spark and dust bursts for the hit effects. Purely cosmetic, so it uses Math.random freely.
+export const ImpactParticles = forwardRef<ImpactParticlesHandle, ImpactParticlesProps>(function ImpactParticles({ isPaused }, ref) {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const particlesRef = useRef<Particle[]>([]);
+    const nextSlotRef = useRef(0);
+    const aliveRef = useRef(false);
+    const matrix = useRef(new THREE.Matrix4()).current;
+    const scale = useRef(new THREE.Vector3()).current;
+    const rotation = useRef(new THREE.Quaternion()).current;
+
+    useEffect(() => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        particlesRef.current = Array.from({ length: MAX_PARTICLES }, () => ({
+            position: new THREE.Vector3(),
+            velocity: new THREE.Vector3(),
+            age: 0,
+            life: 0,
+            size: 0,
+            gravity: 0,
+            drag: 0,
+        }));
+        for (let index = 0; index < MAX_PARTICLES; index++) {
+            mesh.setMatrixAt(index, hiddenMatrix);
+            mesh.setColorAt(index, SPARK_COLORS[0]);
+        }
+        mesh.instanceMatrix.needsUpdate = true;
+        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    }, []);
+
+    // Reuses the oldest slot when the pool is full
+    const spawn = (color: THREE.Color, setUp: (particle: Particle) => void) => {
+        const mesh = meshRef.current;
+        const particles = particlesRef.current;
+        if (!mesh || particles.length === 0) return;
+        const slot = nextSlotRef.current;
+        nextSlotRef.current = (slot + 1) % MAX_PARTICLES;
+        const particle = particles[slot];
+        particle.age = 0;
+        setUp(particle);
+        mesh.setColorAt(slot, color);
+        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+        aliveRef.current = true;
+    };
+
+    useImperativeHandle(ref, () => ({
+        sparks: (x, y, count, direction, blocked) => {
+            for (let index = 0; index < count; index++) {
+                spawn(pick(blocked ? BLOCK_SPARK_COLORS : SPARK_COLORS), particle => {
+                    // A cone opening in the hit's direction, a little upwards
+                    const angle = (Math.random() - 0.35) * Math.PI * 0.8;
+                    const speed = SPARK_SPEED * (0.5 + Math.random());
+                    particle.position.set(x, y, (Math.random() - 0.5) * 0.1);
+                    particle.velocity.set(Math.cos(angle) * speed * direction, Math.sin(angle) * speed, (Math.random() - 0.5) * speed * 0.6);
+                    particle.life = SPARK_LIFE * (0.6 + Math.random() * 0.8);
+                    particle.size = SPARK_SIZE * (0.6 + Math.random() * 0.8);
+                    particle.gravity = SPARK_GRAVITY;
+                    particle.drag = 0;
+                });
+            }
+        },
+        dust: (x, groundY, count) => {
+            for (let index = 0; index < count; index++) {
+                spawn(pick(DUST_COLORS), particle => {
+                    const side = Math.random() < 0.5 ? -1 : 1;
+                    particle.position.set(x + (Math.random() - 0.5) * 0.3, groundY + 0.03, (Math.random() - 0.5) * 0.3);
+                    particle.velocity.set(side * DUST_SPEED * (0.4 + Math.random()), DUST_SPEED * Math.random() * 0.5, (Math.random() - 0.5) * DUST_SPEED);
+                    particle.life = DUST_LIFE * (0.7 + Math.random() * 0.6);
+                    particle.size = DUST_SIZE * (0.6 + Math.random() * 0.8);
+                    particle.gravity = DUST_GRAVITY;
+                    particle.drag = DUST_DRAG;
+                });
+            }
+        },
+    }));
+
+    useFrame((_, frameDelta) => {
+        const mesh = meshRef.current;
+        if (!mesh || isPaused || !aliveRef.current) return;
+        const delta = Math.min(frameDelta, MAX_FRAME_DELTA);
+        let anyAlive = false;
+        particlesRef.current.forEach((particle, index) => {
+            if (particle.age >= particle.life) return;
+            particle.age += delta;
+            if (particle.age >= particle.life) {
+                mesh.setMatrixAt(index, hiddenMatrix);
+                return;
+            }
+            anyAlive = true;
+            particle.velocity.y += particle.gravity * delta;
+            particle.velocity.multiplyScalar(Math.max(0, 1 - particle.drag * delta));
+            particle.position.addScaledVector(particle.velocity, delta);
+            // Shrinks away instead of fading, instances share one material
+            scale.setScalar(particle.size * (1 - particle.age / particle.life));
+            matrix.compose(particle.position, rotation, scale);
+            mesh.setMatrixAt(index, matrix);
+        });
+        mesh.instanceMatrix.needsUpdate = true;
+        aliveRef.current = anyAlive;
+    });
+
+    return (
+        <instancedMesh ref={meshRef} args={[undefined, undefined, MAX_PARTICLES]} frustumCulled={false}>
+            <boxGeometry args={[1, 1, 1]} />
+            <meshBasicMaterial toneMapped={false} />
+        </instancedMesh>
+    );
+});
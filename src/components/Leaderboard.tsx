@@ -0,0 +1,62 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { loadLeaderboard, type LeaderboardEntry } from '@/lib/arcade/leaderboard';
+import { formatRaceTime } from '@/lib/arcade/timeAttack';
+import type { ChallengeMode } from '@/lib/arcade/results';
+
+interface LeaderboardProps {
+    mode: ChallengeMode;
+    highlightCharacterId?: string; // Rows of this character stand out
+    refreshKey?: number; // Change it to reload, e.g. once a new run is saved
+}
+
+// Best survival or time attack runs
+export function Leaderboard({ mode, highlightCharacterId, refreshKey = 0 }: LeaderboardProps) {
+    const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setError(null);
+        loadLeaderboard(mode)
+            .then(loaded => {
+                if (!cancelled) setEntries(loaded);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error(`[Leaderboard] Failed to load the ${mode} leaderboard:`, err);
+                setError('Leaderboard unavailable');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [mode, refreshKey]);
+
+    if (error) return <p className="text-sm text-arcade-gray">{error}</p>;
+    if (!entries) return <p className="text-sm text-arcade-gray animate-pulse">Loading leaderboard...</p>;
+    if (entries.length === 0) return <p className="text-sm text-arcade-gray">No runs yet, be the first!</p>;
+
+    return (
+        <table className="w-full max-w-md text-sm">
+            <thead>
+                <tr className="text-arcade-gray text-left">
+                    <th className="py-1 pr-2">#</th>
+                    <th className="py-1">Fighter</th>
+                    {mode === 'survival' && <th className="py-1 text-right">Beaten</th>}
+                    <th className="py-1 text-right">Time</th>
+                </tr>
+            </thead>
+            <tbody>
+                {entries.map((entry, index) => (
+                    <tr key={entry.id} className={entry.characterId === highlightCharacterId ? 'text-logo-yellow' : ''}>
+                        <td className="py-1 pr-2">{index + 1}</td>
+                        <td className="py-1 uppercase">{entry.characterName}</td>
+                        {mode === 'survival' && <td className="py-1 text-right">{entry.opponentsBeaten}</td>}
+                        <td className="py-1 text-right">{formatRaceTime(entry.timeMs / 1000)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
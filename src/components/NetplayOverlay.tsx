@@ -0,0 +1,50 @@
+import React from 'react';
+
+// What the HUD shows of the connection, refreshed a few times a second
+export interface NetplayReadout {
+    pingMs: number | null;
+    inputDelay: number;
+    lastRollbackFrames: number;
+    maxRollbackFrames: number;
+    isWaiting: boolean; // Stalled on the other player's inputs
+    desyncFrame: number | null;
+}
+
+interface NetplayOverlayProps {
+    readout: NetplayReadout;
+    opponentLeft: boolean;
+}
+
+// Round trip: green under about 5 frames, yellow under 10, red past that
+const getPingColor = (pingMs: number | null): string =>
+    pingMs === null ? '#aaa' : pingMs < 80 ? '#4caf50' : pingMs < 160 ? '#FFD700' : '#ff5252';
+
+// Online HUD: ping and rollback indicator under the timer, connection problems in the middle
+export function NetplayOverlay({ readout, opponentLeft }: NetplayOverlayProps) {
+    const { pingMs, inputDelay, lastRollbackFrames, maxRollbackFrames, isWaiting, desyncFrame } = readout;
+    return (
+        <>
+            <div style={{
+                position: 'absolute', top: '90px', left: '50%', transform: 'translateX(-50%)', zIndex: 3, pointerEvents: 'none',
+                backgroundColor: 'rgba(0, 0, 0, 0.55)', color: 'white', borderRadius: '6px', padding: '4px 10px',
+                fontFamily: 'monospace', fontSize: '13px', textShadow: '1px 1px 2px #000', whiteSpace: 'nowrap',
+            }}>
+                <span style={{ color: getPingColor(pingMs) }}>● {pingMs === null ? '--' : Math.round(pingMs)} ms</span>
+                {' · '}rollback {lastRollbackFrames}f (max {maxRollbackFrames}f){' · '}delay {inputDelay}f
+            </div>
+            {(opponentLeft || desyncFrame !== null || isWaiting) && (
+                <div style={{
+                    position: 'absolute', top: '30%', left: '50%', transform: 'translateX(-50%)', zIndex: 3, pointerEvents: 'none',
+                    fontFamily: 'var(--font-pixel)', fontSize: '1.4em', textAlign: 'center', textShadow: '2px 2px 4px #000000',
+                    color: opponentLeft || desyncFrame !== null ? '#ff5252' : 'white',
+                }}>
+                    {opponentLeft
+                        ? 'Opponent disconnected'
+                        : desyncFrame !== null
+                            ? `Desync at frame ${desyncFrame}, the fight no longer matches the other side`
+                            : 'Waiting for opponent...'}
+                </div>
+            )}
+        </>
+    );
+}
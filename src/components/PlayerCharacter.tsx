@@ -1,33 +1,44 @@
 import React, { useEffect, useState, useRef, memo, useMemo, forwardRef, useCallback, useImperativeHandle } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
-import { useGLTF, useAnimations, useTexture } from '@react-three/drei';
-import { Texture } from 'three';
+import { useGLTF, useAnimations } from '@react-three/drei';
 // import { useBox, type BoxProps, type BodyProps } from '@react-three/cannon'; // Keep commented
 // Remove Rapier imports
-import { playSoundEffect } from '@/utils/playSoundEffect'; // <-- Import sound utility
+import {
+    DEFAULT_KEY_BINDINGS,
+    createEmptyInputState,
+    getActionsForKeyDown,
+    getActionsForKeyUp,
+    type KeyBindings
+} from '@/lib/input/keyBindings';
+import { readPlayerGamepadInput, type GamepadPlayer } from '@/lib/input/gamepad';
+import { isAttackAction } from '@/lib/combat/simulation';
+import { MOVES, getCurrentMove, getMoveTotalFrames } from '@/lib/combat/moves';
+import { getBodyStance } from '@/lib/combat/boxes';
+import { SIM_FPS } from '@/lib/combat/constants';
+import type { BodyLayout, FightState, FighterAction, FighterState, InputState, MoveId } from '@/lib/combat/types';
+import { MOVE_CLIP_FACTORIES, MOVE_CLIP_PREFIX } from '@/lib/animations/moveClips';
+import { measureBodyLayout } from '@/lib/animations/bodyLayout';
 
 // Import animation types and functions
 import {
     createWalkCycleClip,
     createFightStanceClip,
     createIdleBreathClip,
-    createRightPunchClip,
-    createLeftPunchClip,
     createDuckPoseClip,
     createBlockPoseClip,
-    createDuckKickClip,
     // --- NEW: Intro Animation Imports ---
     createTransitionToHelloClip,
     createHelloWaveLoopClip,
     createTransitionToArmsCrossedClip,
     createArmsCrossedBreathClip,
     createBowClip,
+    createHitReactionClip,
     createFallBackwardClip,
-    createSpecialPowerThrowClip,
     // --- Target Pose Imports ---
     defaultFightStanceTargets,
     blockTargets,
+    crouchBlockStanceTargets,
     helloTargets,
     armsCrossedTargets,
     // --- Type Imports ---
@@ -44,41 +55,24 @@ import {
 
 
 // --- Local Type Definitions (Copied from previous attempts, adjust as needed) ---
-export type FightPhase = 'LOADING' | 'INTRO_START' | 'INTRO_P1' | 'INTRO_P2' | 'PRE_FIGHT' | 'READY' | 'FIGHT' | 'GAME_OVER';
-
-export type InputState = {
-    left: boolean;
-    right: boolean;
-    punch: boolean;
-    duck: boolean;
-    block: boolean;
-    jump: boolean;
-    special: boolean;
-};
-
-// ---> ADD THIS TYPE DEFINITION <---
-type LaunchProjectileCallback = (
-    startPosition: THREE.Vector3,
-    directionX: number, // 1 for right, -1 for left
-    textureUrl: string | null,
-    launcherIndex: 1 | 2 // <-- Add launcher index
-) => void;
+export type FightPhase = 'LOADING' | 'INTRO_START' | 'INTRO_P1' | 'INTRO_P2' | 'PRE_FIGHT' | 'READY' | 'FIGHT' | 'ROUND_OVER' | 'GAME_OVER';
+
+// Input now lives with the fight simulation, re-exported for existing imports
+export type { InputState };
 
+// Combat state (position, actions, energy, hits) lives in the fight simulation;
+// these read it for the AI and let SceneContent collect input and trigger effects.
 export interface PlayerCharacterHandle {
     getMainGroup: () => THREE.Group | null;
     getModelWrapper: () => THREE.Group | null;
-    setPositionX: (x: number) => void;
-    resetVelocityX: () => void;
+    getInput: () => InputState; // Keyboard + gamepad (or external) input for the next simulation step
     getHasHitGround: () => boolean;
     isAttacking: () => boolean;
     isDucking: () => boolean;
     isPerformingSpecialAttack: () => boolean;
-    confirmHit: () => void;
-    getCanDamage: () => boolean;
     isBlocking: () => boolean;
-    getProjectileState: () => { active: boolean; position: THREE.Vector3 | null };
-    deactivateProjectile: () => void;
     triggerHitFlicker: () => void;
+    setAnimationTimeScale: (timeScale: number) => void; // 0 holds the pose (hit-stop), below 1 is slow motion
     getCurrentEnergy: () => number;
     currentHealth: number; // Add currentHealth property
 }
@@ -93,12 +87,15 @@ interface PlayerCharacterProps {
     startIntroAnimation: boolean;
     canFight: boolean;
     externalInput?: React.RefObject<InputState>;
-    onCharacterReady?: () => void;
+    onCharacterReady?: (body: BodyLayout | null) => void; // With the hurtboxes and move reach measured on the model, null if it couldn't be
     currentHealth: number;
+    isWinner: boolean; // Won the match, plays the victory pose at GAME_OVER
     isPaused: boolean;
-    specialImageUrlProp: string | null; // <-- Add prop for URL
-    onLaunchProjectile: LaunchProjectileCallback; // <-- Callback type updated here
+    simulationRef: React.RefObject<FightState | null>; // Fight simulation this character renders
     playerIndex: 1 | 2; // <-- Add playerIndex prop
+    keyBindings?: KeyBindings; // Keyboard map for this fighter (defaults to the single player controls)
+    gamepadPlayer?: GamepadPlayer; // Pad driving this fighter, playerIndex's by default (online, the local fighter uses the first)
+    scale?: number; // Model size, matches the fighter's scale in the simulation (arcade boss)
 }
 
 interface AnimationFinishedEvent extends THREE.Event {
@@ -107,158 +104,21 @@ interface AnimationFinishedEvent extends THREE.Event {
     direction: number;
 }
 
-// --- ADD Projectile Status Type ---
-type SpecialPowerStatus = 'idle' | 'growing' | 'throwing' | 'hit';
-
-// --- ADDED: Energy Constants ---
-const MAX_ENERGY = 100;
-const ENERGY_COST_SPECIAL_THROW = 50;
-const ENERGY_REGEN_PER_SECOND = MAX_ENERGY / 30; // Full charge in 30 seconds
-// --- END ADDED --- 
-
-// --- Projectile Constants (copied from editor) ---
-// Comment out constants relying on external imports for now
-// const GROWTH_DURATION_MS = SPECIAL_POWER_THROW_DURATION_MS * 0.4; // Duration for the projectile to grow
-// const GROWTH_START_DELAY_MS = SPECIAL_POWER_THROW_DURATION_MS * 0.2; // Delay before growth starts
-// Use more reasonable hardcoded durations for testing
-const BASE_THROW_ANIM_DURATION = 1000; // Base duration in ms (adjust as needed)
-const GROWTH_DURATION_MS = BASE_THROW_ANIM_DURATION * 0.4; // e.g., 400ms
-const GROWTH_START_DELAY_MS = BASE_THROW_ANIM_DURATION * 0.2; // e.g., 200ms
-const THROW_DURATION_MS = 800; // Duration for the projectile to travel
-const MAX_THROW_DISTANCE = 20; // Max distance the projectile travels
-const BASE_PLANE_SIZE = 0.5; // Base size of the projectile plane
-
-// --- Sound Effect Arrays ---
-// Add any new sound file paths to these arrays when you add them to the public/sounds folders.
-const JUMP_SOUNDS = [
-    '/sounds/fight/jump/jump1.mp3',
-    '/sounds/fight/jump/jump2.mp3',
-    '/sounds/fight/jump/jump3.mp3',
-    '/sounds/fight/jump/jump4.mp3'
-];
-const SPECIAL_SOUNDS = [
-    '/sounds/fight/special/special1.mp3',
-    '/sounds/fight/special/special2.mp3',
-    '/sounds/fight/special/special3.mp3'
-];
-
-// Helper function to get a random sound from an array
-const getRandomSound = (sounds: string[]): string => {
-    if (sounds.length === 0) {
-        console.warn('[PlayerCharacter] Attempted to get random sound from empty array.');
-        return ''; // Return empty string or a path to a default silent sound
-    }
-    return sounds[Math.floor(Math.random() * sounds.length)];
-};
-
-
-// -------- Special Power Projectile Component Definition --------
-interface SpecialPowerProjectileProps {
-  active: boolean;
-  status: SpecialPowerStatus; // Use the locally defined type
-  initialPosition: [number, number, number];
-  initialScale: [number, number, number];
-  texture: THREE.Texture | null;
-  isFlipped: boolean;
+// Last simulation action the animations were synced to
+interface AnimatedAction {
+    key: string; // "action:startFrame", a change starts the matching animation
+    action: FighterAction;
+    move: MoveId | null;
 }
 
-// Wrap with forwardRef
-const SpecialPowerProjectile = forwardRef<THREE.Mesh, SpecialPowerProjectileProps>((
-  {
-    active,
-    status,
-    initialPosition,
-    initialScale,
-    texture,
-    isFlipped,
-  },
-  ref // Receive ref from parent
-) => {
-  // const meshRef = useRef<THREE.Mesh>(null); // Remove local ref
-  const [isVisible, setIsVisible] = useState(false);
-  const startTimeRef = useRef<number | null>(null); // Keep track of activation time
-
-  // Effect to manage visibility and reset state on activation
-  useEffect(() => {
-    if (active && status !== 'idle') {
-      setIsVisible(true);
-      startTimeRef.current = performance.now(); // Record activation time
-      // Use the forwarded ref
-      const mesh = ref && typeof ref !== 'function' ? ref.current : null;
-      if (mesh) {
-        // Reset position and scale to initial values when activated
-        mesh.position.set(...initialPosition);
-        mesh.scale.set(...initialScale);
-        mesh.visible = true; // Ensure mesh is visible
-      }
-    } else {
-      // Delay hiding slightly to prevent flicker if deactivated/reactivated quickly
-      const timer = setTimeout(() => {
-        setIsVisible(false);
-        // Use the forwarded ref
-        const mesh = ref && typeof ref !== 'function' ? ref.current : null;
-        if (mesh) {
-          mesh.visible = false; // Explicitly hide
-        }
-        startTimeRef.current = null; // Reset start time
-      }, 100); // 100ms delay
-      return () => clearTimeout(timer); // Cleanup timer
-    }
-    // Add ref to dependencies? Maybe not needed for this logic.
-  }, [active, status, initialPosition, initialScale, ref]);
-
-  // Effect to handle texture flipping
-  useEffect(() => {
-    if (texture) {
-      texture.wrapS = THREE.RepeatWrapping; // Ensure wrapping is enabled
-      texture.repeat.x = isFlipped ? -1 : 1;
-      texture.offset.x = isFlipped ? 1 : 0; // Offset to correct position after flip
-      texture.needsUpdate = true; // Important: Mark texture for update when repeat/offset changes
-    }
-  }, [texture, isFlipped]);
-
-  // Movement/scaling logic will be handled in the parent PlayerCharacter's useFrame
-  // This component mainly focuses on setup, visibility, and rendering
-
-  // Conditional Rendering: Only render if active, visible, and texture is loaded
-  if (!active || !isVisible || !texture) {
-    return null;
-  }
-
-  // Determine aspect ratio for the plane geometry
-  const aspect = texture.image ? texture.image.width / texture.image.height : 1;
-
-  return (
-    // Assign the forwarded ref to the mesh
-    <mesh ref={ref} position={initialPosition} scale={initialScale} visible={isVisible}>
-      {/* Use aspect ratio in planeGeometry args */}
-      <planeGeometry args={[BASE_PLANE_SIZE * aspect, BASE_PLANE_SIZE]} />
-      {/* Use MeshBasicMaterial for unlit 2D appearance, ensure transparency */}
-      <meshBasicMaterial
-        map={texture}
-        transparent
-        side={THREE.DoubleSide}
-        depthWrite={false} // Render on top of other things potentially
-      />
-    </mesh>
-  );
-});
-SpecialPowerProjectile.displayName = 'SpecialPowerProjectile'; // Add display name for debugging
-// -------- End Special Power Projectile Component Definition --------
-
-
 // --- General Constants ---
-const CHARACTER_WALK_SPEED = 2;
-const GRAVITY = 9.81 * 2;
-const JUMP_FORCE = 7;
-const JUMP_HORIZONTAL_SPEED = 1.8; // Speed for forward/backward jumps
-const GROUND_LEVEL = 0;
 // Debug Collider Visuals (Adjusted Size)
 const DEBUG_CYLINDER_HEIGHT = 1; // Slightly shorter
 const DEBUG_CYLINDER_RADIUS = 0.09; // Significantly narrower
-// --- ADDED: Boundary Constants (copied from BattleScene) ---
-const MIN_X = -8;
-const MAX_X = 8;
+
+// Hit / block reactions: how far the body snaps back (towards the fall backward pose)
+const HIT_REACTION_LEAN = 0.15;
+const BLOCK_REACTION_LEAN = 0.05;
 
 // Define available animation types FOR VICTORY (Transitions Only for now)
 const VICTORY_ANIMATION_TYPES = ['Hello', 'ArmsCrossed', 'Bow']; // Use for victory poses
@@ -272,7 +132,7 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
         // --- Log Received Props (Safely) --- 
         console.log(`[PlayerCharacter ${props?.initialFacing ?? 'UNKNOWN'} ${props?.playerIndex ?? '?'}] Received Props Check. Props defined: ${!!props}`);
         if (props) {
-            console.log(`  - modelUrl=${props.modelUrl}, fightPhase=${props.fightPhase}, specialUrl=${props.specialImageUrlProp}`); // Log new prop
+            console.log(`  - modelUrl=${props.modelUrl}, fightPhase=${props.fightPhase}`);
         }
 
         // Destructure props inside the function body
@@ -288,10 +148,13 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
             externalInput,
             onCharacterReady,
             currentHealth,
+            isWinner,
             isPaused,
-            specialImageUrlProp, // <-- Destructure prop
-            onLaunchProjectile, // <-- Destructure prop
-            playerIndex // <-- Destructure prop
+            simulationRef,
+            playerIndex, // <-- Destructure prop
+            keyBindings = DEFAULT_KEY_BINDINGS,
+            gamepadPlayer = playerIndex,
+            scale = 1
         } = props;
 
         // --- Refs ---
@@ -300,29 +163,22 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
         const mainGroupRefCallback = useCallback((node: THREE.Group | null) => {
             groupRef.current = node;
         }, []);
-        const projectileMeshRef = useRef<THREE.Mesh>(null); // <-- Add ref for the projectile mesh
 
         // Action/State Refs
-        const isAttackingRef = useRef(false);
-        const canDamageRef = useRef(false);
-        const isBlockingRef = useRef(false);
-        const isDuckingRef = useRef(false);
-        const isSpecialAttackRef = useRef(false); // <-- Add ref for special attack
-        const manualVelocityRef = useRef({ x: 0, y: 0, z: 0 });
         const positionRef = useRef(new THREE.Vector3(...initialPosition));
         const skeletonRef = useRef<THREE.Skeleton | null>(null);
-        const isMovingHorizontally = useRef(false);
-        const hasHitGround = useRef(false);
         const isInStance = useRef(false);
-        const isActionInProgress = useRef(false);
         const currentIntroLoopAction = useRef<THREE.AnimationAction | null>(null);
         const isReadySignaled = useRef(false);
-        const nextPunchTypeRef = useRef<'right' | 'left'>('right'); // <-- Use useRef to track next punch type
+        // Last simulation action animated, a change starts the matching animation
+        const lastAnimatedActionRef = useRef<AnimatedAction>({ key: 'idle:0', action: 'idle', move: null });
+        const currentMoveActionRef = useRef<THREE.AnimationAction | null>(null); // Dynamic clip of the move being played
+        const stunReactionActionRef = useRef<THREE.AnimationAction | null>(null); // Dynamic hit / block reaction, clamped until the next action
+        const animationMixerRef = useRef<THREE.AnimationMixer | null>(null); // For the handle, which is set up before the mixer
         const [idleBreathAction, setIdleBreathAction] = useState<THREE.AnimationAction | null>(null); 
         const [audioPlayed, setAudioPlayed] = useState(false); // Track audio playback
         const [fallBackwardAction, setFallBackwardAction] = useState<THREE.AnimationAction | null>(null); // <-- ADD State for Fall Action
         const punchIntervalRef = useRef<NodeJS.Timeout | null>(null); // Ref for punch interval timer
-        const stanceTimeoutRef = useRef<NodeJS.Timeout | null>(null); // Ref for initial stance delay timeout
         // Add refs specifically for winner rotation control
         const winnerRotationTarget = useRef<number | null>(null);
         const winnerRotationComplete = useRef(false);
@@ -333,35 +189,11 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
         const hitFlickerTimerRef = useRef<NodeJS.Timeout | null>(null);
         const originalMaterialEmissiveMapRef = useRef<Map<THREE.Material, { emissive: THREE.Color, emissiveIntensity: number }>>(new Map());
 
-        // --- ADDED: Energy State and Refs ---
-        const currentEnergyRef = useRef(MAX_ENERGY);
-        const lastEnergyUpdateTimeRef = useRef(performance.now());
-        // --- END ADDED ---
-
-        // --- ADD Projectile State ---
-        // const [specialImageUrl, setSpecialImageUrl] = useState<string | null>(null); // <-- Remove state
-        const [specialImageTexture, setSpecialImageTexture] = useState<Texture | null>(null);
-        const [specialPowerActive, setSpecialPowerActive] = useState(false);
-        const [specialPowerStatus, setSpecialPowerStatus] = useState<SpecialPowerStatus>('idle');
-        const [specialPowerPosition, setSpecialPowerPosition] = useState<[number, number, number]>([0, 1, 0.5]); // Initial placeholder
-        const [specialPowerScale, setSpecialPowerScale] = useState<[number, number, number]>([1, 1, 1]); // Initial placeholder
-        const [projectileIsFlipped, setProjectileIsFlipped] = useState(initialFacing === 'left'); // Initial flip based on prop
-
-        // --- Load Special Image Texture (Conditionally using prop) ---
-        const loadedTexture = specialImageUrlProp ? useTexture(specialImageUrlProp) : null;
-        useEffect(() => {
-            // Update state only if loadedTexture changes (becomes non-null or null again)
-            setSpecialImageTexture(loadedTexture);
-            console.log(`[PlayerCharacter ${initialFacing}] Special Image Texture Updated: ${loadedTexture ? 'Loaded' : 'Null/Loading'}`);
-        }, [loadedTexture, initialFacing]);
-
         // --- Effect to synchronize positionRef with prop ---
         useEffect(() => {
             console.log(`[PlayerCharacter ${initialFacing}] initialPosition prop updated:`, initialPosition);
             positionRef.current.set(...initialPosition);
             console.log(`[PlayerCharacter ${initialFacing}] positionRef updated to:`, positionRef.current);
-            hasHitGround.current = false; // Reset ground state
-            manualVelocityRef.current = { x: 0, y: 0, z: 0 }; // Reset velocity
         }, [initialPosition]);
 
         // --- triggerHitFlickerInternal function (defined within component scope) ---
@@ -397,56 +229,6 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
             }, 150); // Flicker duration 150ms
         }, [isHitFlickering]); // isHitFlickering ensures correct original capture logic
 
-        // --- useImperativeHandle ---
-        useImperativeHandle(ref, () => ({
-            getMainGroup: () => groupRef.current,
-            getModelWrapper: () => modelWrapperRef.current,
-            setPositionX: (x: number) => {
-                if (positionRef.current) {
-                    positionRef.current.x = x;
-                }
-            },
-            resetVelocityX: () => {
-                if (manualVelocityRef.current) {
-                    manualVelocityRef.current.x = 0;
-                }
-            },
-            getHasHitGround: () => hasHitGround.current,
-            isAttacking: () => isAttackingRef.current,
-            isDucking: () => isDuckingRef.current,
-            isPerformingSpecialAttack: () => isSpecialAttackRef.current,
-            confirmHit: () => { // For attacker to confirm their hit window. Does NOT trigger flicker on self.
-                canDamageRef.current = false;
-            },
-            getCanDamage: () => canDamageRef.current,
-            isBlocking: () => isBlockingRef.current,
-            getProjectileState: () => {
-                if (specialPowerActive && projectileMeshRef.current) {
-                    projectileMeshRef.current.updateWorldMatrix(true, false);
-                    const worldPosition = new THREE.Vector3();
-                    projectileMeshRef.current.getWorldPosition(worldPosition);
-                    return { active: true, position: worldPosition };
-                } else {
-                    return { active: false, position: null };
-                }
-            },
-            deactivateProjectile: () => {
-                setSpecialPowerActive(false);
-                setSpecialPowerStatus('idle');
-                if (projectileMeshRef.current) {
-                    projectileMeshRef.current.userData.startTime = null;
-                    projectileMeshRef.current.userData.throwStartTime = null;
-                }
-            },
-            triggerHitFlicker: triggerHitFlickerInternal, // Expose the memoized function for BattleScene to call on the target
-            getCurrentEnergy: () => currentEnergyRef.current, // <-- ADDED: Expose current energy
-            currentHealth: currentHealth // Add currentHealth to the exposed handle
-        }), [
-            isAttackingRef, canDamageRef, isBlockingRef, isDuckingRef, isSpecialAttackRef, 
-            setSpecialPowerActive, setSpecialPowerStatus, 
-            triggerHitFlickerInternal, currentEnergyRef, currentHealth // Add currentHealth to dependencies
-        ]);
-
         // --- State ---
         const [pressedKeys, setPressedKeys] = useState<InputState>({
             left: false,
@@ -498,36 +280,24 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
 
         // Define key handlers outside useEffect so they can be referenced in cleanup
         const handleKeyDown = useCallback((event: KeyboardEvent) => {
-             switch (event.key) {
-                 case 'ArrowLeft': setPressedKeys(prev => ({ ...prev, left: true })); break;
-                 case 'ArrowRight': setPressedKeys(prev => ({ ...prev, right: true })); break;
-                 case 'ArrowDown': setPressedKeys(prev => ({ ...prev, duck: true })); break;
-                 case ' ':
-                     if (event.shiftKey) {
-                         
-                         setPressedKeys(prev => ({ ...prev, special: true }));
-                     } else {
-                         setPressedKeys(prev => ({ ...prev, punch: true }));
-                     }
-                     break;
-                 case 'b': setPressedKeys(prev => ({ ...prev, block: true })); break;
-                 case 'ArrowUp': setPressedKeys(prev => ({ ...prev, jump: true })); break;
-             }
-        }, [initialFacing]); // Added initialFacing dependency for logging
+            const pressedActions = getActionsForKeyDown(event, keyBindings);
+            if (pressedActions.length === 0) return;
+            setPressedKeys(prev => {
+                const next = { ...prev };
+                pressedActions.forEach(action => { next[action] = true; });
+                return next;
+            });
+        }, [keyBindings]);
 
         const handleKeyUp = useCallback((event: KeyboardEvent) => {
-              switch (event.key) {
-                 case 'ArrowLeft': setPressedKeys(prev => ({ ...prev, left: false })); break;
-                 case 'ArrowRight': setPressedKeys(prev => ({ ...prev, right: false })); break;
-                 case 'ArrowDown': setPressedKeys(prev => ({ ...prev, duck: false })); break;
-                 case ' ':
-                    
-                    setPressedKeys(prev => ({ ...prev, punch: false, special: false }));
-                    break;
-                 case 'b': setPressedKeys(prev => ({ ...prev, block: false })); break;
-                 case 'ArrowUp': setPressedKeys(prev => ({ ...prev, jump: false })); break;
-             }
-        }, [initialFacing]); // Added initialFacing dependency for logging
+            const releasedActions = getActionsForKeyUp(event, keyBindings);
+            if (releasedActions.length === 0) return;
+            setPressedKeys(prev => {
+                const next = { ...prev };
+                releasedActions.forEach(action => { next[action] = false; });
+                return next;
+            });
+        }, [keyBindings]);
 
         // --- Input Handling (Conditionally Active) ---
         useEffect(() => {
@@ -535,7 +305,7 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
                  window.removeEventListener('keydown', handleKeyDown);
                  window.removeEventListener('keyup', handleKeyUp);
                  // Clear pressed keys when input is disabled or paused
-                 setPressedKeys({ left: false, right: false, punch: false, duck: false, block: false, jump: false, special: false }); // <-- Add field
+                 setPressedKeys(createEmptyInputState());
                  return;
             }
 
@@ -558,8 +328,54 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
             if (externalInput?.current) {
                 return externalInput.current;
             }
-            return pressedKeys;
-        }, [externalInput, pressedKeys, canFight, isPaused]);
+            if (!isPlayerControlled) {
+                return pressedKeys;
+            }
+            // Keyboard and the player's gamepad both drive the fighter
+            const padInput = readPlayerGamepadInput(gamepadPlayer);
+            return {
+                left: pressedKeys.left || padInput.left,
+                right: pressedKeys.right || padInput.right,
+                punch: pressedKeys.punch || padInput.punch,
+                duck: pressedKeys.duck || padInput.duck,
+                block: pressedKeys.block || padInput.block,
+                jump: pressedKeys.jump || padInput.jump,
+                special: pressedKeys.special || padInput.special,
+            };
+        }, [externalInput, pressedKeys, canFight, isPaused, isPlayerControlled, gamepadPlayer]);
+
+        // This character's state in the fight simulation
+        const getFighterState = useCallback((): FighterState | null => simulationRef.current?.fighters[playerIndex - 1] ?? null, [simulationRef, playerIndex]);
+
+        // --- useImperativeHandle ---
+        useImperativeHandle(ref, () => ({
+            getMainGroup: () => groupRef.current,
+            getModelWrapper: () => modelWrapperRef.current,
+            getInput: getEffectiveInputState,
+            getHasHitGround: () => getFighterState()?.grounded ?? false,
+            isAttacking: () => {
+                const action = getFighterState()?.action;
+                return !!action && isAttackAction(action);
+            },
+            isDucking: () => { // Any crouched stance, including a crouching guard
+                const fighter = getFighterState();
+                return !!fighter && getBodyStance(fighter) === 'crouching';
+            },
+            isPerformingSpecialAttack: () => {
+                const fighter = getFighterState();
+                return !!fighter && !!getCurrentMove(fighter)?.projectile;
+            },
+            isBlocking: () => { // Guard up (standing or crouching), also while in blockstun
+                const action = getFighterState()?.action;
+                return action === 'block' || action === 'blockstun';
+            },
+            triggerHitFlicker: triggerHitFlickerInternal, // Expose the memoized function for BattleScene to call on the target
+            setAnimationTimeScale: (timeScale: number) => {
+                if (animationMixerRef.current) animationMixerRef.current.timeScale = timeScale;
+            },
+            getCurrentEnergy: () => getFighterState()?.energy ?? 0,
+            currentHealth: currentHealth // Add currentHealth to the exposed handle
+        }), [getEffectiveInputState, getFighterState, triggerHitFlickerInternal, currentHealth]);
 
 
         // --- Create Animation Clips ---
@@ -568,7 +384,7 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
         const idleBreathClip = useMemo(() => createIdleBreathClip(skeletonRef.current, defaultFightStanceTargets, initialPose), [initialPose]);
         const duckPoseClip = useMemo(() => createDuckPoseClip(skeletonRef.current, initialPose, defaultFightStanceTargets), [initialPose]);
         const blockPoseClip = useMemo(() => createBlockPoseClip(skeletonRef.current, initialPose, defaultFightStanceTargets), [initialPose]);
-        const duckKickClip = useMemo(() => createDuckKickClip(skeletonRef.current, initialPose), [initialPose]);
+        const crouchBlockPoseClip = useMemo(() => createDuckPoseClip(skeletonRef.current, initialPose, crouchBlockStanceTargets, 'CrouchBlockPose', 0.3), [initialPose]);
         const fallBackwardClip = useMemo(() => createFallBackwardClip(skeletonRef.current, initialPose), [initialPose]);
 
         // --- NEW: Intro Animation Clips ---
@@ -583,7 +399,7 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
         const animationsToUse = useMemo(() => {
             const clips = [
                 walkCycleClip, fightStanceClip, idleBreathClip,
-                duckPoseClip, blockPoseClip, duckKickClip,
+                duckPoseClip, blockPoseClip, crouchBlockPoseClip,
                 fallBackwardClip,
                 // Add intro/victory transitions and loops
                 transitionToHelloClip, helloWaveLoopClip,
@@ -594,13 +410,16 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
             return clips as THREE.AnimationClip[];
         }, [
             walkCycleClip, fightStanceClip, idleBreathClip,
-            duckPoseClip, blockPoseClip, duckKickClip,
+            duckPoseClip, blockPoseClip, crouchBlockPoseClip,
             fallBackwardClip,
             transitionToHelloClip, helloWaveLoopClip,
             transitionToArmsCrossedClip, armsCrossedBreathClip,
             bowClip
         ]);
         const { actions, mixer } = useAnimations(animationsToUse, groupRef);
+        useEffect(() => {
+            animationMixerRef.current = mixer;
+        }, [mixer]);
 
         // --- Configure Animation Actions & Initial State + Signal Readiness ---
         useEffect(() => {
@@ -615,7 +434,7 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
              if (actions?.IdleBreath) actions.IdleBreath.setLoop(THREE.LoopRepeat, Infinity);
              if (actions?.DuckPose) { actions.DuckPose.setLoop(THREE.LoopOnce, 1); actions.DuckPose.clampWhenFinished = true; }
              if (actions?.BlockPose) { actions.BlockPose.setLoop(THREE.LoopOnce, 1); actions.BlockPose.clampWhenFinished = true; }
-             if (actions?.DuckKick) { actions.DuckKick.setLoop(THREE.LoopOnce, 1); actions.DuckKick.clampWhenFinished = true; }
+             if (actions?.CrouchBlockPose) { actions.CrouchBlockPose.setLoop(THREE.LoopOnce, 1); actions.CrouchBlockPose.clampWhenFinished = true; }
              if (actions?.TransitionToHello) { actions.TransitionToHello.setLoop(THREE.LoopOnce, 1); actions.TransitionToHello.clampWhenFinished = true; }
              if (actions?.HelloWaveLoop) { actions.HelloWaveLoop.setLoop(THREE.LoopRepeat, Infinity); }
              if (actions?.TransitionToArmsCrossed) { actions.TransitionToArmsCrossed.setLoop(THREE.LoopOnce, 1); actions.TransitionToArmsCrossed.clampWhenFinished = true; }
@@ -634,368 +453,218 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
 
              // --- Signal Readiness --- 
              if (!isReadySignaled.current) {
-                 
-                 onCharacterReady(); // Call the passed callback
+                 const skeleton = skeletonRef.current;
+                 const body = skeleton && fightStanceClip && duckPoseClip ? measureBodyLayout(scene, skeleton, initialPose, fightStanceClip, duckPoseClip) : null;
+                 if (!body) console.warn(`[PlayerCharacter ${initialFacing}] Could not measure the body, using the default hurtboxes and hitboxes.`);
+                 onCharacterReady(body); // Call the passed callback
                  isReadySignaled.current = true;
              }
 
-        }, [actions, mixer, isLoaded, onCharacterReady, initialFacing]);
+        }, [actions, mixer, isLoaded, onCharacterReady, initialFacing, scene, initialPose, fightStanceClip, duckPoseClip]);
 
 
-        // --- MOVE THESE DEFINITIONS UP ---
+        // --- Action Animations ---
+        // The fight simulation decides what each fighter does; these only play the matching animation.
 
-        const triggerDuck = useCallback(() => {
+        const playDuck = useCallback(() => {
             if (!actions?.DuckPose || !mixer) return; // Added mixer check
-
-            // Only trigger if not already ducking or performing another blocking action
-            if (isDuckingRef.current || isActionInProgress.current) {
-                // console.log(`[PlayerCharacter ${initialFacing}] Duck trigger ignored: Already ducking or action in progress.`);
-                 return;
-            }
-             
-            isActionInProgress.current = true;
-            isDuckingRef.current = true;
-
             // --- FORCE STOP other actions instead of fading ---
-           
             mixer.stopAllAction(); // Stop everything first
-            // actions.IdleBreath?.fadeOut(0.1);
-            // actions.WalkCycle?.fadeOut(0.1);
-            // actions.RightPunch?.fadeOut(0.1); // Should already be stopped by isActionInProgress check, but belt-and-suspenders
-            // actions.BlockPose?.fadeOut(0.1); // Should already be stopped
-            // actions.DuckKick?.fadeOut(0.1); // Should already be stopped
-            // --- End Change ---
-            
-            // Now play the duck pose
+            currentMoveActionRef.current = null;
             actions.DuckPose.reset().fadeIn(0.2).play(); // Keep the fade-in for smoothness
+        }, [actions, mixer]);
 
-         }, [actions, mixer, isDuckingRef, isActionInProgress, initialFacing]);
-
-         // Define triggerDuck dependency here explicitly for clarity if needed
-         const triggerDuckDep = triggerDuck; 
-
-        const triggerBlock = useCallback(() => {
-            if (!actions?.BlockPose) return;
-            console.log(`[PlayerCharacter ${initialFacing}] Triggering Block`);
-            isActionInProgress.current = true;
-            isBlockingRef.current = true;
-            isDuckingRef.current = false; // Stop ducking when blocking
-            actions.IdleBreath?.fadeOut(0.1);
-            actions.WalkCycle?.fadeOut(0.1);
-            actions.RightPunch?.fadeOut(0.1);
-            actions.DuckPose?.fadeOut(0.1); // Fade out duck if active
-            actions.DuckKick?.fadeOut(0.1);
-            actions.BlockPose.reset().fadeIn(0.2).play();
-        }, [actions, initialFacing]);
+        // Crouching moves end in the duck pose, so it's picked up at its end instead of replayed
+        const holdDuck = useCallback(() => {
+            const duckAction = actions?.DuckPose;
+            if (!duckAction) return;
+            duckAction.reset();
+            duckAction.time = duckAction.getClip().duration;
+            duckAction.play();
+        }, [actions]);
+
+        // Standing guard, or the crouching one (down + block)
+        const playBlock = useCallback((crouched: boolean) => {
+            const blockAction = crouched ? actions?.CrouchBlockPose : actions?.BlockPose;
+            if (!blockAction) return;
+            actions?.IdleBreath?.fadeOut(0.1);
+            actions?.WalkCycle?.fadeOut(0.1);
+            actions?.DuckPose?.fadeOut(0.1); // Fade out duck if active
+            (crouched ? actions?.BlockPose : actions?.CrouchBlockPose)?.fadeOut(0.1); // Switching guard height
+            currentMoveActionRef.current?.fadeOut(0.1);
+            blockAction.reset().fadeIn(0.2).play();
+        }, [actions]);
 
-        const stopBlock = useCallback(() => {
-            if (!actions?.BlockPose) return;
-            console.log(`[PlayerCharacter ${initialFacing}] Stopping Block`);
-            isActionInProgress.current = true;
-            actions.BlockPose.fadeOut(0.2);
-            isBlockingRef.current = false;
-            setTimeout(() => {
-                isActionInProgress.current = false;
-                const currentInput = getEffectiveInputState();
-                if (currentInput.duck && !isDuckingRef.current) {
-                     triggerDuckDep(); // Call the dependency-managed version
-                 } else if (isInStance.current && !isMovingHorizontally.current && !currentInput.duck) {
-                     // Check if idleAction exists before using it
-                     if(actions?.IdleBreath) {
-                        actions.IdleBreath.reset().fadeIn(0.3).play();
-                     }
-                }
-            }, 200);
-        }, [actions, getEffectiveInputState, isInStance, initialFacing, triggerDuckDep]); // Use triggerDuckDep
+        const playStopBlock = useCallback(() => {
+            actions?.BlockPose?.fadeOut(0.2);
+        }, [actions]);
 
-        const triggerStandUp = useCallback(() => {
+        const playStandUp = useCallback(() => {
             const duckAction = actions?.DuckPose;
             const stanceAction = actions?.GoToFightStance; // Get stance action
-            if (!duckAction || !stanceAction || !isDuckingRef.current) { // Check stance action exists
-                console.warn(`[PlayerCharacter ${initialFacing}] Stand Up prerequisites missing (duckAction=${!!duckAction}, stanceAction=${!!stanceAction}, isDucking=${isDuckingRef.current})`);
+            if (!duckAction || !stanceAction) {
+                console.warn(`[PlayerCharacter ${initialFacing}] Stand Up prerequisites missing (duckAction=${!!duckAction}, stanceAction=${!!stanceAction})`);
                 return;
             }
-
-            console.log(`[PlayerCharacter ${initialFacing}] Triggering Stand Up (New Logic: Play Stance)`);
-            isActionInProgress.current = true;
-            isDuckingRef.current = false; // No longer ducking
-            
-            // 1. Fade out ducking pose
+            // Fade out ducking (or the end of a duck kick), then play the transition to stance.
+            // The 'finished' listener plays IdleBreath once the stance transition is done.
             duckAction.fadeOut(0.2);
-
-            // 2. Play the transition to stance immediately after starting fade out
+            actions?.CrouchBlockPose?.fadeOut(0.2);
+            currentMoveActionRef.current?.fadeOut(0.2);
             stanceAction.reset().fadeIn(0.1).play(); // Short fade in for smoothness
+        }, [actions, initialFacing]);
 
-            // 3. Set state and potentially play idle *after* stance transition finishes
-            const stanceDuration = stanceAction.getClip().duration;
-            const delay = (stanceDuration + 0.1) * 1000; // Delay slightly longer than stance duration
-
-            // Clear previous timeout if any (belt-and-suspenders)
-            if (stanceTimeoutRef.current) clearTimeout(stanceTimeoutRef.current);
-
-            stanceTimeoutRef.current = setTimeout(() => {
-                const idleAction = actions?.IdleBreath;
-                const currentInput = getEffectiveInputState(); // Check input *now*
-
-                // --- Set state AFTER stance completes --- 
-                isInStance.current = true; // Now definitely in stance
-                isActionInProgress.current = false; // Allow actions
-                console.log(`[PlayerCharacter ${initialFacing}] Stand Up Stance finished. isInStance=${isInStance.current}, isActionInProgress=${isActionInProgress.current}`);
-
-                // --- Play Idle Breath if conditions met --- 
-                if (!isMovingHorizontally.current && !currentInput.block && idleAction) { 
-                    console.log(`[PlayerCharacter ${initialFacing}] Conditions met post-stance. Playing IdleBreath.`);
-                    idleAction.reset().fadeIn(0.3).play();
-                } else {
-                    console.warn(`[PlayerCharacter ${initialFacing}] Conditions NOT met for IdleBreath after stance transition.`);
-                }
-                 stanceTimeoutRef.current = null; // Clear ref after execution
-            }, delay); 
-
-        // Dependencies: actions, getEffectiveInputState, isMovingHorizontally (ref)
-        }, [actions, getEffectiveInputState]); 
-
-        const triggerKick = useCallback(() => {
-            if (!actions?.DuckKick) return;
-            console.log(`[PlayerCharacter ${initialFacing}] Triggering Kick`);
-            isActionInProgress.current = true;
-            isAttackingRef.current = true;
-            canDamageRef.current = true;
-            actions.IdleBreath?.fadeOut(0.1);
-            actions.WalkCycle?.fadeOut(0.1);
-            actions.BlockPose?.fadeOut(0.1);
-            actions.RightPunch?.fadeOut(0.1);
-            actions.DuckKick.reset().fadeIn(0.1).play();
-         }, [actions, initialFacing]);
-
-         const triggerPunch = useCallback(() => {
-            // --- Log Entry & Prerequisites ---
-            console.log(`[PlayerCharacter ${initialFacing}] ==> Attempting triggerPunch`);
-            console.log(`  - Mixer: ${!!mixer}, Skeleton: ${!!skeletonRef.current}, InitialPose: ${Object.keys(initialPose || {}).length > 0}, IdleAction: ${!!actions?.IdleBreath}, ActionInProgress: ${isActionInProgress.current}`);
-
-            // --- Check Prerequisites ---
-            if (!mixer || !skeletonRef.current || !initialPose || !actions?.IdleBreath) { // Added checks for mixer, skeleton, initialPose, idleAction
-                 console.warn(`[PlayerCharacter ${initialFacing}] triggerPunch: Prerequisites missing (mixer, skeleton, initialPose, idleAction).`);
-                 return; 
-            }
-            // --- Action Already in Progress Check --- 
-            if (isActionInProgress.current) {
-                console.log(`[PlayerCharacter ${initialFacing}] triggerPunch: Ignored, action already in progress.`);
-                console.log(`[PlayerCharacter ${initialFacing}] triggerPunch: Ignored, action already in progress.`); // Make this log active
+        // Plays the fighter's current move. The clip is built from the current pose and
+        // stretched to the move's frame data, so the animation ends when the move does.
+        const playMove = useCallback((fighter: FighterState) => {
+            const move = getCurrentMove(fighter);
+            const currentSkeleton = skeletonRef.current;
+            if (!move || !mixer || !currentSkeleton || !initialPose) {
+                console.warn(`[PlayerCharacter ${initialFacing} ${playerIndex}] playMove: Prerequisites missing.`);
                 return;
             }
-            
-            const punchTypeToCreate = nextPunchTypeRef.current; // Determine which punch to throw this time
-            const clipName = punchTypeToCreate === 'right' ? 'RightPunch' : 'LeftPunch';
-            console.log(`[PlayerCharacter ${initialFacing}] Triggering ${punchTypeToCreate} Punch (Dynamic) - Proceeding`);
-            isActionInProgress.current = true;
-            isAttackingRef.current = true;
-            canDamageRef.current = true; // Enable damage window
-
-            // --- Capture Current Pose --- 
-            const currentPose: StartPose = {};
-            skeletonRef.current.bones.forEach(bone => {
-                currentPose[bone.name] = { quat: bone.quaternion.clone() };
-            });
 
-            // --- Create Clip Dynamically based on type ---
-            const dynamicPunchClip = punchTypeToCreate === 'right' ? createRightPunchClip(
-                skeletonRef.current,
-                initialPose,
-                defaultFightStanceTargets, // Pass stance targets
-                currentPose,
-                clipName,
-                0.6 // Default duration (adjust if needed)
-            ) : createLeftPunchClip( // Create Left Punch if type is 'left'
-                skeletonRef.current,
-                initialPose,
-                defaultFightStanceTargets,
-                currentPose,
-                clipName,
-                0.6
-            );
+            // --- Capture Current Pose ---
+            const currentPose: StartPose = {};
+            currentSkeleton.bones.forEach(bone => { currentPose[bone.name] = { quat: bone.quaternion.clone() }; });
 
-            if (!dynamicPunchClip) {
-                console.error(`[PlayerCharacter ${initialFacing}] triggerPunch: Failed to create dynamic punch clip.`);
-                isActionInProgress.current = false; // Reset flags if clip creation fails
-                isAttackingRef.current = false;
-                canDamageRef.current = false;
+            const moveClip = MOVE_CLIP_FACTORIES[move.animation](currentSkeleton, initialPose, currentPose, {
+                duration: getMoveTotalFrames(move) / SIM_FPS,
+                side: fighter.punchSide,
+            });
+            if (!moveClip) {
+                console.error(`[PlayerCharacter ${initialFacing}] playMove: Failed to create clip for ${move.id}.`);
                 return;
             }
 
-            // --- Create and Play Dynamic Action --- 
-            const punchAction = mixer.clipAction(dynamicPunchClip);
-            punchAction.setLoop(THREE.LoopOnce, 1);
-            punchAction.clampWhenFinished = true; 
+            // --- Create and Play Dynamic Action ---
+            const moveAction = mixer.clipAction(moveClip);
+            moveAction.setLoop(THREE.LoopOnce, 1);
+            moveAction.clampWhenFinished = false;
 
-            // --- Stop Conflicting Actions --- 
-            actions.IdleBreath.fadeOut(0.1);
-            actions.WalkCycle?.fadeOut(0.1);
-            actions.BlockPose?.fadeOut(0.1); // Fade out if blocking
-            actions.DuckPose?.fadeOut(0.1); // Fade out if ducking
-            actions.DuckKick?.fadeOut(0.1); // Fade out if duck kicking (shouldn't happen with isActionInProgress)
-
-            // --- Play the Dynamic Punch --- 
-            console.log(`[PlayerCharacter ${initialFacing}] Playing dynamic ${punchTypeToCreate} action.`);
-            punchAction.reset().fadeIn(0.1).play();
+            // --- Stop Conflicting Actions ---
+            actions?.IdleBreath?.fadeOut(0.1);
+            actions?.WalkCycle?.fadeOut(0.1);
+            actions?.BlockPose?.fadeOut(0.1); // Fade out if blocking
+            actions?.DuckPose?.fadeOut(0.1); // Fade out if ducking
+            currentMoveActionRef.current?.fadeOut(0.1);
 
-            // --- Flip the type for the NEXT punch AFTER successfully starting this one ---
-            nextPunchTypeRef.current = punchTypeToCreate === 'right' ? 'left' : 'right';
-            console.log(`[PlayerCharacter ${initialFacing}] Set next punch type in ref to: ${nextPunchTypeRef.current}`);
+            currentMoveActionRef.current = moveAction;
+            moveAction.reset().fadeIn(0.1).play();
+        }, [actions, mixer, initialPose, initialFacing, playerIndex]);
 
-        }, [actions, mixer, initialPose, initialFacing]);
+        // Fades out the hit / block reaction once the fighter does something else
+        const releaseStunReaction = useCallback((fadeDuration: number) => {
+            stunReactionActionRef.current?.fadeOut(fadeDuration);
+        }, []);
 
-        // --- NEW: triggerSpecialPowerThrow Function ---
-        const triggerSpecialPowerThrow = useCallback(() => {
-           console.log(`[PlayerCharacter ${initialFacing} ${playerIndex}] ==> Attempting triggerSpecialPowerThrow`);
+        // Snaps back from a hit (dropping whatever was playing and recovering into the fight stance)
+        // or a blocked hit (a smaller jolt over the held guard), lasting the simulation's stun
+        const playStunReaction = useCallback((fighter: FighterState, blocked: boolean) => {
             const currentSkeleton = skeletonRef.current;
-            const wrapper = modelWrapperRef.current; // Get wrapper ref
-
-            // --- ADDED: Energy Check --- 
-            if (currentEnergyRef.current < ENERGY_COST_SPECIAL_THROW) {
-                console.warn(`[PlayerCharacter ${initialFacing} ${playerIndex}] triggerSpecialPowerThrow: Not enough energy. Have ${currentEnergyRef.current}, Need ${ENERGY_COST_SPECIAL_THROW}`);
-                return;
-            }
-            // --- END ADDED ---
-
-            // Check prerequisites including the new prop
-            if (!mixer || !currentSkeleton || !initialPose || !wrapper || isActionInProgress.current || isBlockingRef.current || !specialImageUrlProp || !onLaunchProjectile) {
-                console.warn(`[PlayerCharacter ${initialFacing} ${playerIndex}] triggerSpecialPowerThrow: Prerequisites missing or action blocked.`, {
-                    mixer: !!mixer, skeleton: !!currentSkeleton, initialPose: !!initialPose, wrapper: !!wrapper,
-                    actionInProgress: isActionInProgress.current, blocking: isBlockingRef.current, /*status: removed*/ hasImage: !!specialImageUrlProp, hasCallback: !!onLaunchProjectile
-                });
-                 return;
-            }
-
-            playSoundEffect(getRandomSound(SPECIAL_SOUNDS)); // <-- Play Special Sound
-            console.log(`[PlayerCharacter ${initialFacing} ${playerIndex}] Triggering Special Power Throw Animation & Launch Signal...`);
-            isActionInProgress.current = true;
-            isAttackingRef.current = true; // Keep?
-            isSpecialAttackRef.current = true;
+            if (!mixer || !currentSkeleton || !initialPose) return;
 
-          
-            // --- Play Animation (KEEP) ---
             const currentPose: StartPose = {};
             currentSkeleton.bones.forEach(bone => { currentPose[bone.name] = { quat: bone.quaternion.clone() }; });
-            const dynamicSpecialClip = createSpecialPowerThrowClip(currentSkeleton, initialPose, currentPose, 'SpecialPowerThrow_Dynamic');
-            if (!dynamicSpecialClip) {
-                console.error(`[PlayerCharacter ${initialFacing}] triggerSpecialPowerThrow: Failed to create dynamic special clip.`);
-                isActionInProgress.current = false; isAttackingRef.current = false; isSpecialAttackRef.current = false;
-                setSpecialPowerActive(false); setSpecialPowerStatus('idle'); // Reset local state on failure
-                return;
-            }
-            const specialAction = mixer.clipAction(dynamicSpecialClip);
-            specialAction.setLoop(THREE.LoopOnce, 1);
-            specialAction.clampWhenFinished = false;
-            actions?.IdleBreath?.fadeOut(0.1);
-            actions?.WalkCycle?.fadeOut(0.1);
-            actions?.BlockPose?.fadeOut(0.1);
-            actions?.DuckPose?.fadeOut(0.1);
-            actions?.DuckKick?.fadeOut(0.1);
-            specialAction.reset().fadeIn(0.1).play();
-            console.log(`[PlayerCharacter ${initialFacing}] Playing dynamic Special Power Throw action.`);
-
-            // --- Calculate World Launch Data ---
-            const lHand = currentSkeleton.bones.find(b => b.name === 'L_Hand');
-            const rHand = currentSkeleton.bones.find(b => b.name === 'R_Hand');
-            let launchPosWorld: THREE.Vector3 | null = null;
-
-            if (lHand && rHand) {
-                 lHand.updateWorldMatrix(true, false);
-                 rHand.updateWorldMatrix(true, false);
-                 const worldPosL = lHand.getWorldPosition(new THREE.Vector3());
-                 const worldPosR = rHand.getWorldPosition(new THREE.Vector3());
-                 launchPosWorld = worldPosL.lerp(worldPosR, 0.5);
-                 // Optional: Add slight forward offset in world space based on facing
-                 const forwardOffsetWorldX = (wrapper.rotation.y === 0 ? 1 : -1) * 0.4; // <-- Increased offset
-                 launchPosWorld.x += forwardOffsetWorldX;
-                 console.log(`[PlayerCharacter ${initialFacing}] Calculated launch pos between hands (World):`, launchPosWorld);
-            } else {
-                 const spineBone = currentSkeleton.bones.find(b => b.name === 'Spine02');
-                 if (spineBone && groupRef.current) {
-                     spineBone.updateWorldMatrix(true, false);
-                     launchPosWorld = spineBone.getWorldPosition(new THREE.Vector3());
-                     const forwardOffsetWorldX = (wrapper.rotation.y === 0 ? 1 : -1) * 0.4; // <-- Increased offset
-                     launchPosWorld.x = groupRef.current.position.x + forwardOffsetWorldX; // Base X on group position
-                     console.log(`[PlayerCharacter ${initialFacing}] Hands not found. Using Spine world Y/Z + Group X for launch:`, launchPosWorld);
-                 } else {
-                     console.warn(`[PlayerCharacter ${initialFacing}] Cannot find hands or spine. Using group position fallback.`);
-                     launchPosWorld = groupRef.current?.position.clone() || new THREE.Vector3(...initialPosition);
-                     launchPosWorld.y = 1.0; // Adjust Y
-                 }
+            const reactionClip = createHitReactionClip(
+                currentSkeleton, initialPose, currentPose,
+                blocked ? 'BlockReaction' : 'HitReaction',
+                fighter.stunFrames / SIM_FPS,
+                blocked ? BLOCK_REACTION_LEAN : HIT_REACTION_LEAN,
+                blocked ? null : defaultFightStanceTargets
+            );
+            if (!reactionClip) return;
+
+            // Only the latest reaction is kept, it starts from the pose the previous one left
+            const previousReaction = stunReactionActionRef.current;
+            if (previousReaction) {
+                previousReaction.stop();
+                mixer.uncacheAction(previousReaction.getClip(), previousReaction.getRoot());
+                mixer.uncacheClip(previousReaction.getClip());
             }
 
-            // Determine World Direction X
-            const directionX = wrapper.rotation.y === 0 ? 1 : -1;
-            console.log(`[PlayerCharacter ${initialFacing}] Launch Direction X: ${directionX}`);
-
-            // --- Call Launch Callback --- << NEW
-            if (launchPosWorld) {
-                 console.log(`[PlayerCharacter ${initialFacing} ${playerIndex}] Calling onLaunchProjectile...`);
-                 onLaunchProjectile(launchPosWorld, directionX, specialImageUrlProp, playerIndex); // <-- Pass playerIndex
-                 // --- ADDED: Consume Energy ---
-                 currentEnergyRef.current -= ENERGY_COST_SPECIAL_THROW;
-                 lastEnergyUpdateTimeRef.current = performance.now(); // Reset timer to prevent immediate full regen after use
-                 console.log(`[PlayerCharacter ${initialFacing} ${playerIndex}] Special throw performed. Energy consumed. Remaining: ${currentEnergyRef.current}`);
-                 // --- END ADDED ---
-            } else {
-                 console.error(`[PlayerCharacter ${initialFacing} ${playerIndex}] Could not determine launch position! Projectile callback not called.`);
-                 // Reset flags if launch calculation fails, even if animation plays
-                 // Note: isActionInProgress will be reset by the animation finish listener
-                 // isActionInProgress.current = false; // Don't reset here, let anim finish listener do it
-                 isAttackingRef.current = false;
-                 isSpecialAttackRef.current = false;
-                 setSpecialPowerActive(false); setSpecialPowerStatus('idle'); // Reset local state
+            if (!blocked) {
+                actions?.IdleBreath?.fadeOut(0.1);
+                actions?.WalkCycle?.fadeOut(0.1);
+                actions?.BlockPose?.fadeOut(0.1);
+                actions?.CrouchBlockPose?.fadeOut(0.1);
+                actions?.DuckPose?.fadeOut(0.1);
+                currentMoveActionRef.current?.fadeOut(0.1);
+                currentMoveActionRef.current = null;
             }
 
-       }, [ // Add onLaunchProjectile to dependencies
-           actions, mixer, initialPose, initialFacing, specialImageUrlProp, onLaunchProjectile, modelWrapperRef, groupRef, currentEnergyRef, lastEnergyUpdateTimeRef // Added groupRef dependency
-       ]);
-
-        // --- END MOVED DEFINITIONS ---
+            const reactionAction = mixer.clipAction(reactionClip);
+            reactionAction.setLoop(THREE.LoopOnce, 1);
+            reactionAction.clampWhenFinished = true;
+            stunReactionActionRef.current = reactionAction;
+            reactionAction.reset().play(); // No fade in, the impact is instant
+        }, [actions, mixer, initialPose]);
+
+        // Starts the animation for a new simulation action
+        const playActionAnimation = useCallback((fighter: FighterState, previous: AnimatedAction) => {
+            const walkAction = actions?.WalkCycle;
+            const idleAction = actions?.IdleBreath;
+            const previousMoveEndsCrouched = previous.action === 'attack' && !!previous.move && !!MOVES[previous.move].endsCrouched;
+            const previousCrouchGuard = previous.action === 'block' || previous.action === 'blockstun'; // Only a crouching guard goes straight to duck
+            if (fighter.action !== 'hitstun' && fighter.action !== 'blockstun') releaseStunReaction(previous.action === 'hitstun' ? 0.3 : 0.1);
+            switch (fighter.action) {
+                case 'walk':
+                    if (isInStance.current) idleAction?.fadeOut(0.2);
+                    walkAction?.reset().fadeIn(0.2).play();
+                    break;
+                case 'idle':
+                    walkAction?.fadeOut(0.2);
+                    currentMoveActionRef.current?.fadeOut(0.2);
+                    currentMoveActionRef.current = null;
+                    // After standing up the stance transition already hands over to IdleBreath
+                    if (previous.action !== 'standUp' && isInStance.current) idleAction?.reset().fadeIn(0.3).play();
+                    break;
+                case 'duck':
+                    if (previousCrouchGuard) {
+                        actions?.CrouchBlockPose?.fadeOut(0.2);
+                        holdDuck();
+                    } else if (previousMoveEndsCrouched) holdDuck();
+                    else playDuck();
+                    break;
+                case 'standUp':
+                    playStandUp();
+                    break;
+                case 'block':
+                    if (previous.action !== 'blockstun') playBlock(fighter.crouchGuard); // Guard is still up after blockstun
+                    break;
+                case 'unblock':
+                    playStopBlock();
+                    break;
+                case 'attack':
+                    playMove(fighter);
+                    break;
+                case 'hitstun':
+                    playStunReaction(fighter, false);
+                    break;
+                case 'blockstun':
+                    playStunReaction(fighter, true);
+                    break;
+            }
+        }, [actions, playDuck, holdDuck, playStandUp, playBlock, playStopBlock, playMove, playStunReaction, releaseStunReaction]);
 
 
         // --- Mixer Finished Listener ---
         useEffect(() => {
              if (!mixer || !actions) return;
              const idleAction = actions.IdleBreath;
-             const duckAction = actions.DuckPose;
              const stanceAction = actions.GoToFightStance;
 
              const listener = (e: AnimationFinishedEvent) => {
                 const finishedActionName = Object.keys(actions).find(name => actions[name] === e.action);
                 const finishedClipName = e.action.getClip().name;
 
-                // --- Handle finishing DYNAMIC Punch ---
-                if (finishedClipName === 'RightPunch' || finishedClipName === 'LeftPunch') {
-                    console.log(`[PlayerCharacter ${initialFacing} Anim Finished] Dynamic Punch finished.`);
-                    isActionInProgress.current = false;
-                    isAttackingRef.current = false;
-                    canDamageRef.current = false;
-                    const finishedAction = e.action;
-                    const finishedClip = finishedAction.getClip();
-                    if (mixer) { mixer.uncacheAction(finishedClip, finishedAction.getRoot()); mixer.uncacheClip(finishedClip); }
-                    if (canFight && !isBlockingRef.current && !isMovingHorizontally.current && !isDuckingRef.current) {
-                        idleAction?.reset().fadeIn(0.3).play();
-                    }
-                }
-                // --- Handle DuckKick ---
-                else if (e.action === actions.DuckKick) {
-                    console.log(`[PlayerCharacter ${initialFacing} Anim Finished] DuckKick finished.`);
-                    isActionInProgress.current = false;
-                    isAttackingRef.current = false;
-                    canDamageRef.current = false;
-                    if (canFight) isDuckingRef.current = true;
-                }
-                // --- Handle DuckPose ---
-                else if (e.action === duckAction) {
-                    console.log(`[PlayerCharacter ${initialFacing}] DuckPose animation transition finished.`);
-                    isActionInProgress.current = false;
+                // --- Dynamic clips are rebuilt every time, free the finished ones ---
+                if (finishedClipName.startsWith(MOVE_CLIP_PREFIX)) {
+                    const finishedClip = e.action.getClip();
+                    if (currentMoveActionRef.current === e.action) currentMoveActionRef.current = null;
+                    mixer.uncacheAction(finishedClip, e.action.getRoot());
+                    mixer.uncacheClip(finishedClip);
                 }
-                // --- Handle BlockPose ---
-                 else if (e.action === actions.BlockPose) {
-                     isActionInProgress.current = false;
-                 }
                  // --- Handle finishing Intro transitions (Original logic) ---
                  else if (e.action === actions.TransitionToHello && actions.HelloWaveLoop) {
                      console.log(`[PlayerCharacter ${initialFacing} Intro] TransitionToHello finished. Playing HelloWaveLoop.`);
@@ -1018,27 +687,10 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
 
                // --- DEBUG LOG: Log ALL finished animations --- 
               console.log(`[PlayerCharacter ${initialFacing} Anim Finished Listener] Event for clip: "${finishedClipName}" (Action Name: ${finishedActionName || 'Dynamic'})`);
-
-               // Handle finish for the dynamic special power throw animation
-              if (finishedClipName === 'SpecialPowerThrow_Dynamic') {
-                    console.log(`[PlayerCharacter ${initialFacing} Anim Finished Listener] Special Power Throw animation finished.`);
-                   isActionInProgress.current = false;
-                    isAttackingRef.current = false;
-                    canDamageRef.current = false;
-                    isSpecialAttackRef.current = false;
-                    isInStance.current = false;
-                    isMovingHorizontally.current = false;
-                    victoryAnimPlayed.current = false;
-                    winnerRotationComplete.current = false;
-                    winnerRotationTarget.current = null;
-                    currentIntroLoopAction.current = null;
-                    mixer.uncacheAction(e.action.getClip(), e.action.getRoot()); // Pass the clip, not the action
-                    mixer.uncacheClip(e.action.getClip());
-                }
              };
              mixer.addEventListener('finished', listener);
              return () => mixer.removeEventListener('finished', listener);
-        }, [mixer, actions, canFight, initialFacing]);
+        }, [mixer, actions, initialFacing]);
 
 
         // --- NEW: Effect to Handle Intro Animation Trigger ---
@@ -1159,6 +811,9 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
                  // Force update the matrix world after manual changes if needed? May not be necessary before starting new animation.
                  // groupRef.current?.updateMatrixWorld(true); 
 
+                 // Next round's simulation starts over from idle
+                 lastAnimatedActionRef.current = { key: 'idle:0', action: 'idle', move: null };
+
                  // 4. Play the stance transition
                  if (stanceAction) {
                      console.log(`[PlayerCharacter ${initialFacing}] Playing GoToFightStance.`);
@@ -1168,6 +823,10 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
                  }
 
              } 
+             // Round ended: the next PRE_FIGHT resets the pose and goes back to stance
+             else if (fightPhase === 'ROUND_OVER') {
+                 isInStance.current = false;
+             }
              // --- REFINED Condition for Stopping Actions ---
              // Only stop actions if moving OUT of the active fight/setup phases
              else if (fightPhase !== 'FIGHT' && fightPhase !== 'PRE_FIGHT' && fightPhase !== 'READY' && fightPhase !== 'INTRO_P1' && fightPhase !== 'INTRO_P2' && fightPhase !== 'GAME_OVER') { // <-- ADD GAME_OVER exclusion
@@ -1176,11 +835,6 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
                  console.log(`[PlayerCharacter ${initialFacing}] Phase ${fightPhase}. Stopping non-intro actions.`); // Updated log
 
                  // Reset relevant state flags
-                 isActionInProgress.current = false;
-                 isAttackingRef.current = false;
-                 isBlockingRef.current = false;
-                 isDuckingRef.current = false;
-                 isMovingHorizontally.current = false;
                  isInStance.current = false; // No longer in fight stance
 
                  // Fade out all fight-related actions, BUT NOT the intro loop if it's still active
@@ -1199,12 +853,11 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
 
          // --- NEW: Effect to Handle Game Over (Fall) --- 
          useEffect(() => {
-             if (fightPhase === 'GAME_OVER' && currentHealth <= 0 && fallBackwardAction && skeletonRef.current) {
-                 console.log(`[PlayerCharacter ${initialFacing}] GAME OVER - LOSER Check. Fall Action: ${actions?.FallBackward?.isRunning()}, ActionInProgress: ${isActionInProgress.current}`);
-                  // Check if fall isn't already playing AND ensure no other action is mid-way (like a punch)
-                  if (!actions?.FallBackward?.isRunning() && !isAttackingRef.current) { // Added !isAttackingRef check
+             if ((fightPhase === 'GAME_OVER' || fightPhase === 'ROUND_OVER') && currentHealth <= 0 && fallBackwardAction && skeletonRef.current) {
+                 console.log(`[PlayerCharacter ${initialFacing}] GAME OVER - LOSER Check. Fall Action: ${actions?.FallBackward?.isRunning()}`);
+                  // Check if fall isn't already playing
+                  if (!actions?.FallBackward?.isRunning()) {
                      mixer?.stopAllAction(); // Stop everything else forcefully
-                     isActionInProgress.current = true; // Prevent interference DURING fall trigger
 
                      const currentPose: StartPose = {};
                      skeletonRef.current.bones.forEach(bone => {
@@ -1217,11 +870,9 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
                          dynamicFallAction.setLoop(THREE.LoopOnce, 1);
                          dynamicFallAction.clampWhenFinished = true;
                          dynamicFallAction.reset().fadeIn(0.2).play();
-                         // Note: isActionInProgress remains true while falling animation plays
                          console.log(`[PlayerCharacter ${initialFacing}] Playing dynamic FallBackward.`);
                      } else {
                          console.error(`[PlayerCharacter ${initialFacing}] Failed to create dynamic FallBackward clip.`);
-                         isActionInProgress.current = false; // Reset if fall fails
                      }
                  }
              }
@@ -1232,8 +883,8 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
          useEffect(() => {
              let setupTimer: NodeJS.Timeout | undefined;
 
-             // Trigger ONLY when phase becomes GAME_OVER and health is positive
-             if (fightPhase === 'GAME_OVER' && currentHealth > 0) {
+             // Trigger ONLY when phase becomes GAME_OVER for the match winner
+             if (fightPhase === 'GAME_OVER' && isWinner) {
                  console.log(`[PlayerCharacter ${initialFacing}] GAME OVER - WINNER Check. Setting up state.`);
                  if (winnerRotationTarget.current === null) { // Check if not already set up
                      // Start setup after a delay
@@ -1244,8 +895,6 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
                          winnerRotationComplete.current = false; // Reset rotation flag
                          victoryAnimPlayed.current = false; // Reset animation flag
                          // Reset potentially conflicting state flags *after* delay
-                         isActionInProgress.current = false;
-                         isMovingHorizontally.current = false;
                          isInStance.current = false; // Winner is not in fight stance anymore
                      }, 2000); // 2-second delay
                  }
@@ -1263,17 +912,11 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
              return () => {
                   if (setupTimer) clearTimeout(setupTimer);
              };
-         }, [fightPhase, currentHealth, mixer, initialFacing]); // Minimal dependencies
+         }, [fightPhase, isWinner, mixer, initialFacing]); // Minimal dependencies
 
 
         // --- Frame Update ---
         useFrame((state, delta) => {
-            // --- ADD THIS LOG ---
-            if (isActionInProgress.current && isSpecialAttackRef.current) {
-                 console.log(`[PlayerCharacter ${initialFacing} useFrame] Special attack animation playing. NO local projectile updates should happen here.`);
-            }
-            // --- END ADDED LOG ---
- 
             if (isPaused) return;
  
             delta = Math.min(delta, 0.05);
@@ -1281,17 +924,6 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
             const modelWrapper = modelWrapperRef.current;
             if (!group || !isLoaded || !modelWrapper) return;
 
-            // --- ADDED: Energy Regeneration (before phase-specific logic, but after pause check) ---
-            const nowForEnergy = performance.now();
-            const energyDeltaTime = (nowForEnergy - lastEnergyUpdateTimeRef.current) / 1000; // in seconds
-            if (currentEnergyRef.current < MAX_ENERGY && energyDeltaTime > 0) {
-                const energyToRegen = ENERGY_REGEN_PER_SECOND * energyDeltaTime;
-                currentEnergyRef.current = Math.min(MAX_ENERGY, currentEnergyRef.current + energyToRegen);
-                // console.log(`[PlayerCharacter ${initialFacing}] Energy Regen: DeltaTime=${energyDeltaTime.toFixed(3)}s, RegenAmount=${energyToRegen.toFixed(3)}, NewEnergy=${currentEnergyRef.current.toFixed(2)}`);
-            }
-            lastEnergyUpdateTimeRef.current = nowForEnergy; // Always update for next frame calculation
-            // --- END ADDED ---
-
             // --- Material Flicker Logic ---
             // Placed after model loaded checks and before any phase-specific early returns in useFrame.
             modelWrapper.traverse((child) => {
@@ -1319,8 +951,22 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
                 }
             });
 
-            // --- [PRIORITY 1] Handle GAME OVER States ---
-            if (fightPhase === 'GAME_OVER') {
+            // Starts the animation for a new simulation action
+            const syncActionAnimation = (fighter: FighterState) => {
+                const actionKey = `${fighter.action}:${fighter.actionStartFrame}`;
+                if (actionKey !== lastAnimatedActionRef.current.key) {
+                    const previous = lastAnimatedActionRef.current;
+                    lastAnimatedActionRef.current = { key: actionKey, action: fighter.action, move: fighter.move };
+                    playActionAnimation(fighter, previous);
+                }
+            };
+
+            // --- [PRIORITY 1] Handle GAME OVER / ROUND OVER States ---
+            if (fightPhase === 'GAME_OVER' || fightPhase === 'ROUND_OVER') {
+                // The simulation keeps running physics so a fighter KO'd in the air lands
+                const fighter = getFighterState();
+                if (fighter) group.position.set(fighter.x, fighter.y, positionRef.current.z);
+
                 // --- Loser Logic --- 
                 if (currentHealth <= 0) {
                     // Only update mixer for fall animation
@@ -1329,6 +975,12 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
                     }
                     return; // Stop ALL other updates for loser
                 }
+                // --- Still standing without winning the match (round over, time over, draw) ---
+                else if (fightPhase !== 'GAME_OVER' || !isWinner) {
+                    if (fighter) syncActionAnimation(fighter); // Settles back to idle
+                    if (mixer) mixer.update(delta);
+                    return;
+                }
                 // --- Winner Logic --- 
                 else {
                     const targetY = winnerRotationTarget.current;
@@ -1373,7 +1025,6 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
             // --- [PRIORITY 2] Handle Non-Fighting Phases (Intro, Pre-Fight, Loading) ---
             // This block now runs ONLY if fightPhase is NOT GAME_OVER
             if (!canFight) { // Covers Intro, Pre-Fight, Loading etc.
-                 manualVelocityRef.current = { x: 0, y: 0, z: 0 };
                  group.position.copy(positionRef.current);
 
                  // Update mixer ONLY for relevant non-fight animations
@@ -1394,201 +1045,13 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
             }
 
 
-            // --- [PRIORITY 3] FIGHT PHASE LOGIC (Physics, Movement, Standard Anims) ---
+            // --- [PRIORITY 3] FIGHT PHASE LOGIC (Render the simulation state) ---
             // This block runs ONLY if fightPhase is FIGHT
-            
             if (fightPhase === 'FIGHT' && canFight && actions && isLoaded) {
-                const currentPos = positionRef.current;
-                const velocity = manualVelocityRef.current;
-                const currentInput = getEffectiveInputState(); // Get input here for physics & actions
-                let targetVelocityX = 0;
-                const isGrounded = hasHitGround.current && currentPos.y <= GROUND_LEVEL;
-
-                // Horizontal Movement
-                if (!isActionInProgress.current && isGrounded) {
-                     if (currentInput.left || currentInput.right) {
-                        targetVelocityX = currentInput.left ? -CHARACTER_WALK_SPEED : CHARACTER_WALK_SPEED;
-                     }
-                }
-                 if (isGrounded) { velocity.x = targetVelocityX; }
-
-                // Vertical Movement (Jump & Gravity)
-                if (currentInput.jump && isGrounded && !isActionInProgress.current) {
-                    velocity.y = JUMP_FORCE;
-                    playSoundEffect(getRandomSound(JUMP_SOUNDS)); // <-- Play Jump Sound
-                     if (currentInput.left) velocity.x = -JUMP_HORIZONTAL_SPEED;
-                     else if (currentInput.right) velocity.x = JUMP_HORIZONTAL_SPEED;
-                     else velocity.x = 0; // Keep jump X velocity setting
-                }
-                if (!isGrounded || velocity.y > 0) {
-                    velocity.y -= GRAVITY * delta;
-                }
-
-                // Boundary Checks
-                const nextX = currentPos.x + velocity.x * delta;
-                if (nextX <= MIN_X || nextX >= MAX_X) {
-                    velocity.x = 0; // Stop horizontal movement if next step is out of bounds
-                }
-
-                // Update Position
-                currentPos.x += velocity.x * delta;
-                currentPos.y += velocity.y * delta;
-                currentPos.z += velocity.z * delta;
-
-                // Ground Collision / State Update
-                if (currentPos.y <= GROUND_LEVEL && velocity.y <= 0) {
-                     currentPos.y = GROUND_LEVEL;
-                     velocity.y = 0;
-                     if (!hasHitGround.current) { hasHitGround.current = true; }
-                }
-                group.position.copy(currentPos);
-
-                // --- ACTION TRIGGERING LOGIC (MOVED FROM useEffect) ---
-                // This logic now uses `currentInput` already obtained in this useFrame scope.
-                if (actions) { // Ensure actions is still valid (redundant due to outer check, but safe)
-                    const shouldBeBlocking = currentInput.block;
-                    const shouldBeDucking = currentInput.duck;
-                    
-                    // Debug log for AI (can be commented out once stable)
-                    // if (!isPlayerControlled) {
-                    //      console.log(`[AI Char ${initialFacing} useFrame Action Check] Input: ${JSON.stringify(currentInput)}, InProgress: ${isActionInProgress.current}, Blocking: ${isBlockingRef.current}, Ducking: ${isDuckingRef.current}`);
-                    // }
-
-                    // Priority: Special > Block/Duck > Punch/Kick
-                    if (currentInput.special && !isActionInProgress.current && !isBlockingRef.current && !isDuckingRef.current) {
-                        triggerSpecialPowerThrow();
-                    } else if (shouldBeBlocking && !isBlockingRef.current && !isActionInProgress.current) {
-                        triggerBlock();
-                    } else if (!shouldBeBlocking && isBlockingRef.current && !isActionInProgress.current) {
-                        stopBlock();
-                    } else if (shouldBeDucking && !isDuckingRef.current && !isBlockingRef.current && !isActionInProgress.current) {
-                        triggerDuck();
-                    } else if (!shouldBeDucking && isDuckingRef.current && !isActionInProgress.current) {
-                        triggerStandUp();
-                    } else if (currentInput.punch && !isActionInProgress.current && !isBlockingRef.current) { // Only punch if not blocking
-                        if (isDuckingRef.current && actions.DuckKick) { // Check DuckKick action exists
-                            triggerKick();
-                        } else if (!isDuckingRef.current) {
-                            triggerPunch();
-                        }
-                    }
-                }
-                // --- END OF ACTION TRIGGERING LOGIC ---
-
-                // --- Update Projectile State (Movement, Scale, Transitions) ---
-                if (specialPowerActive && specialImageTexture) {
-                    const projectileMesh = projectileMeshRef.current; // Use the ref
-                    if (projectileMesh) { // Check if mesh exists via ref
-                        const now = performance.now();
-                        const isFlipped = projectileIsFlipped;
-
-                        switch (specialPowerStatus) {
-                            case 'growing': {
-                                const activationTime = (projectileMesh.userData.startTime as number | undefined) ?? now;
-                                if (!projectileMesh.userData.startTime) projectileMesh.userData.startTime = activationTime;
-
-                                const growingElapsedTime = now - activationTime;
-                                // Start growth only after delay
-                                const effectiveElapsedTime = Math.max(0, growingElapsedTime - GROWTH_START_DELAY_MS);
-                                const growthProgress = Math.min(effectiveElapsedTime / GROWTH_DURATION_MS, 1);
-
-                                // Interpolate scale
-                                const startScale = 0.01;
-                                const targetScale = BASE_PLANE_SIZE;
-                                const currentScale = THREE.MathUtils.lerp(startScale, targetScale, growthProgress);
-                                const aspect = specialImageTexture.image ? specialImageTexture.image.width / specialImageTexture.image.height : 1;
-                                projectileMesh.scale.set(currentScale * aspect, currentScale, 1);
-
-                                // Log growth values
-                                // console.log(`[${initialFacing} Growth] Elapsed: ${growingElapsedTime.toFixed(0)}, EffElapsed: ${effectiveElapsedTime.toFixed(0)}, Progress: ${growthProgress.toFixed(2)}, Scale: ${currentScale.toFixed(3)}`);
-
-                                // Update position between hands continuously
-                                // ... (position logic remains the same) ...
-                                 const lHand = skeletonRef.current?.bones.find(b => b.name === 'L_Hand');
-                                 const rHand = skeletonRef.current?.bones.find(b => b.name === 'R_Hand');
-                                 if (lHand && rHand && group) { // Ensure group exists
-                                     const worldPosL = lHand.getWorldPosition(new THREE.Vector3());
-                                     const worldPosR = rHand.getWorldPosition(new THREE.Vector3());
-                                     const midPoint = worldPosL.lerp(worldPosR, 0.5);
-                                     const forwardOffset = isFlipped ? -0.1 : 0.1;
-                                     const localMidPoint = group.worldToLocal(midPoint.clone()); // Ensure group exists
-                                     projectileMesh.position.set(localMidPoint.x, localMidPoint.y, localMidPoint.z + forwardOffset);
-                                     // console.log(`[${initialFacing} Growth Pos] LocalMid: ${localMidPoint.x.toFixed(2)},${localMidPoint.y.toFixed(2)},${localMidPoint.z.toFixed(2)} -> Proj Pos: ${projectileMesh.position.x.toFixed(2)},${projectileMesh.position.y.toFixed(2)},${projectileMesh.position.z.toFixed(2)}`);
-                                 } else {
-                                     projectileMesh.position.set(...specialPowerPosition);
-                                 }
-
-                                // Check for transition to throwing (based on total time including delay)
-                                if (growingElapsedTime >= (GROWTH_START_DELAY_MS + GROWTH_DURATION_MS)) {
-                                    console.log(`[PlayerCharacter ${initialFacing} Projectile] Growth finished. Transitioning to throwing.`);
-                                    setSpecialPowerStatus('throwing');
-                                    projectileMesh.userData.throwStartTime = now;
-                                }
-                                break;
-                            }
-
-                            case 'throwing': {
-                                const throwStartTime = (projectileMesh.userData.throwStartTime as number | undefined) ?? now;
-                                 if (!projectileMesh.userData.throwStartTime) projectileMesh.userData.throwStartTime = throwStartTime;
-                                 // Store initial X position if not already stored
-                                 if (projectileMesh.userData.initialX === undefined || projectileMesh.userData.initialX === null) {
-                                     projectileMesh.userData.initialX = projectileMesh.position.x;
-                                 }
- 
-                                const throwingElapsedTime = now - throwStartTime;
-                                const throwProgress = Math.min(throwingElapsedTime / THROW_DURATION_MS, 1);
-
-                                // Movement Logic
-                                const throwVelocity = 15; // Adjust speed as needed
-                                // Determine direction based on current facing (updated by isFlipped state)
-                                const direction = isFlipped ? -1 : 1; // If flipped (facing left), move in negative X; otherwise positive X
-                                projectileMesh.position.x += throwVelocity * direction * delta; // Move along the projectile's local X axis
-
-                                // Log throwing values
-                                // console.log(`[${initialFacing} Throw] Elapsed: ${throwingElapsedTime.toFixed(0)}, Progress: ${throwProgress.toFixed(2)}, X Pos: ${projectileMesh.position.x.toFixed(3)}, Direction: ${direction}`);
-
-                                // Deactivation Logic
-                                // Calculate distance based on local X movement relative to initial X
-                                const initialX = projectileMesh.userData.initialX ?? 0; // Use initial X stored in userData
-                                const currentDistance = Math.abs(projectileMesh.position.x - initialX);
-                                if (throwingElapsedTime >= THROW_DURATION_MS || currentDistance > MAX_THROW_DISTANCE) {
-                                    console.log(`[PlayerCharacter ${initialFacing} Projectile] Despawning - Time: ${throwingElapsedTime >= THROW_DURATION_MS}, Dist: ${currentDistance > MAX_THROW_DISTANCE}`);
-                                    setSpecialPowerActive(false);
-                                    setSpecialPowerStatus('idle');
-                                    isActionInProgress.current = false; // Release action lock
-                                    projectileMesh.userData.startTime = null;
-                                    projectileMesh.userData.throwStartTime = null;
-                                    projectileMesh.userData.initialX = null; // Clear initial X
-                                }
-                                break;
-                            }
-                        }
-
-                        // Look At Camera
-                        const cameraPosition = state.camera.position;
-                         // Get the projectile's world position for accurate lookAt
-                         const projectileWorldPos = projectileMesh.getWorldPosition(new THREE.Vector3());
-                        projectileMesh.lookAt(cameraPosition.x, projectileWorldPos.y, cameraPosition.z);
-                    }
-                } else if (!specialPowerActive && projectileMeshRef.current) {
-                     // Clean up userData if projectile becomes inactive and mesh still exists
-                     projectileMeshRef.current.userData.startTime = null;
-                     projectileMeshRef.current.userData.throwStartTime = null;
-                }
-
-                // Animation Control (Walk/Idle Trigger - Only during FIGHT)
-                const isCurrentlyMovingHorizontallyOnGround = isGrounded && targetVelocityX !== 0;
-                if (!isActionInProgress.current && isGrounded && isCurrentlyMovingHorizontallyOnGround !== isMovingHorizontally.current) {
-                    const walkAction = actions?.WalkCycle;
-                    const idleAction = actions?.IdleBreath;
-                    if (isCurrentlyMovingHorizontallyOnGround) {
-                        if (isInStance.current && idleAction) idleAction.fadeOut(0.2);
-                        if (walkAction) walkAction.reset().fadeIn(0.2).play();
-                    } else {
-                        if (walkAction) walkAction.fadeOut(0.2);
-                        if (idleAction && isInStance.current) idleAction.reset().fadeIn(0.3).play();
-                    }
-                    isMovingHorizontally.current = isCurrentlyMovingHorizontallyOnGround;
+                const fighter = getFighterState();
+                if (fighter) {
+                    group.position.set(fighter.x, fighter.y, positionRef.current.z);
+                    syncActionAnimation(fighter);
                 }
 
                 // Mixer update for FIGHT phase
@@ -1604,7 +1067,7 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
 
         return (
             <group ref={mainGroupRefCallback} name={`CharacterModelGroup-${initialFacing}`}>
-                <group ref={modelWrapperRef} name={`ModelWrapper-${initialFacing}`}>
+                <group ref={modelWrapperRef} name={`ModelWrapper-${initialFacing}`} scale={scale}>
                     <primitive object={scene} />
                 </group>
                 {/* Debug Cylinder */}
@@ -1612,17 +1075,6 @@ export const PlayerCharacter = memo(forwardRef<PlayerCharacterHandle, PlayerChar
                     <cylinderGeometry args={[DEBUG_CYLINDER_RADIUS, DEBUG_CYLINDER_RADIUS, DEBUG_CYLINDER_HEIGHT, 16]} />
                     <meshStandardMaterial color={isPlayerControlled ? "blue" : "red"} wireframe transparent opacity={0.5} />
                 </mesh>
-
-                {/* --- Render Special Power Projectile --- */}
-                <SpecialPowerProjectile
-                    ref={projectileMeshRef} // <-- Pass the ref
-                    active={specialPowerActive}
-                    status={specialPowerStatus}
-                    initialPosition={specialPowerPosition}
-                    initialScale={specialPowerScale}
-                    texture={specialImageTexture} // Pass loaded texture
-                    isFlipped={projectileIsFlipped}
-                />
             </group>
         );
     }
@@ -0,0 +1,69 @@
+import React, { useEffect } from 'react';
+import { REPLAY_SPEEDS } from '@/lib/replay/replay';
+
+interface ReplayControlsProps {
+    paused: boolean;
+    speed: number;
+    freeCamera: boolean;
+    onTogglePause: () => void;
+    onStep: () => void; // One frame forward, while paused
+    onSpeedChange: (speed: number) => void;
+    onToggleFreeCamera: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+    padding: '6px 12px', fontSize: '14px', cursor: 'pointer', color: 'white',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)', border: '1px solid rgba(255, 255, 255, 0.4)', borderRadius: '4px',
+};
+
+const activeButtonStyle: React.CSSProperties = { ...buttonStyle, backgroundColor: '#FFD700', color: 'black' };
+
+// Playback bar of a replay. Keys: P play/pause, . next frame, - / + speed, C free camera.
+export function ReplayControls({ paused, speed, freeCamera, onTogglePause, onStep, onSpeedChange, onToggleFreeCamera }: ReplayControlsProps) {
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const speedIndex = REPLAY_SPEEDS.indexOf(speed as typeof REPLAY_SPEEDS[number]);
+            switch (event.code) {
+                case 'KeyP':
+                    onTogglePause();
+                    break;
+                case 'Period':
+                    if (paused) onStep();
+                    break;
+                case 'Minus':
+                case 'NumpadSubtract':
+                    if (speedIndex > 0) onSpeedChange(REPLAY_SPEEDS[speedIndex - 1]);
+                    break;
+                case 'Equal':
+                case 'NumpadAdd':
+                    if (speedIndex < REPLAY_SPEEDS.length - 1) onSpeedChange(REPLAY_SPEEDS[speedIndex + 1]);
+                    break;
+                case 'KeyC':
+                    onToggleFreeCamera();
+                    break;
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [paused, speed, onTogglePause, onStep, onSpeedChange, onToggleFreeCamera]);
+
+    return (
+        <div
+            style={{
+                position: 'absolute', bottom: '20px', left: '50%', transform: 'translateX(-50%)', zIndex: 3,
+                display: 'flex', gap: '8px', alignItems: 'center', padding: '8px 12px',
+                backgroundColor: 'rgba(0, 0, 0, 0.6)', borderRadius: '6px', color: 'white', fontFamily: 'monospace',
+            }}
+        >
+            <span style={{ color: '#ff5252', marginRight: '4px' }}>● REPLAY</span>
+            <button onClick={onTogglePause} style={buttonStyle}>{paused ? 'Play' : 'Pause'}</button>
+            <button onClick={onStep} disabled={!paused} style={{ ...buttonStyle, opacity: paused ? 1 : 0.4 }}>Next Frame</button>
+            {REPLAY_SPEEDS.map(option => (
+                <button key={option} onClick={() => onSpeedChange(option)} style={option === speed ? activeButtonStyle : buttonStyle}>
+                    {option}x
+                </button>
+            ))}
+            <button onClick={onToggleFreeCamera} style={freeCamera ? activeButtonStyle : buttonStyle}>Free Camera</button>
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+import React, { useEffect } from 'react';
+import { SPECTATOR_EMOTES, type SpectatorEmote } from '@/lib/netplay/spectate';
+
+// An emote floating up the right side, removed once its animation is over
+export interface FloatingEmote {
+    id: number;
+    emote: SpectatorEmote;
+    offset: number; // Pixels from the right edge
+}
+
+interface SpectatorOverlayProps {
+    spectatorCount: number;
+    emotes: FloatingEmote[];
+    onReact?: (emote: SpectatorEmote) => void; // Spectators only, the players just see them
+}
+
+const emoteButtonStyle: React.CSSProperties = {
+    fontSize: '24px', lineHeight: 1, padding: '6px 8px', cursor: 'pointer',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)', border: '1px solid rgba(255, 255, 255, 0.4)', borderRadius: '6px',
+};
+
+// Spectator count and reaction emotes of an online match. Keys 1 to 6 send the emotes.
+export function SpectatorOverlay({ spectatorCount, emotes, onReact }: SpectatorOverlayProps) {
+    useEffect(() => {
+        if (!onReact) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const match = /^Digit([1-9])$/.exec(event.code);
+            const emote = match ? SPECTATOR_EMOTES[Number(match[1]) - 1] : undefined;
+            if (emote) onReact(emote);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onReact]);
+
+    return (
+        <>
+            {spectatorCount > 0 && (
+                <div style={{
+                    position: 'absolute', top: '90px', right: '20px', zIndex: 3, pointerEvents: 'none',
+                    backgroundColor: 'rgba(0, 0, 0, 0.55)', color: 'white', borderRadius: '6px', padding: '4px 10px',
+                    fontFamily: 'monospace', fontSize: '13px', textShadow: '1px 1px 2px #000',
+                }}>
+                    👁 {spectatorCount} watching
+                </div>
+            )}
+            {emotes.map(entry => (
+                <div key={entry.id} className="emote-rise" style={{
+                    position: 'absolute', bottom: '120px', right: `${entry.offset}px`, zIndex: 3, pointerEvents: 'none', fontSize: '40px',
+                }}>
+                    {entry.emote}
+                </div>
+            ))}
+            {onReact && (
+                <div style={{
+                    position: 'absolute', bottom: '20px', left: '50%', transform: 'translateX(-50%)', zIndex: 3,
+                    display: 'flex', gap: '6px', pointerEvents: 'auto',
+                }}>
+                    {SPECTATOR_EMOTES.map((emote, index) => (
+                        <button key={emote} onClick={() => onReact(emote)} style={emoteButtonStyle} title={`Key ${index + 1}`}>
+                            {emote}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,65 @@
+import React from 'react';
+import { MOVES } from '@/lib/combat/moves';
+import { TRAINING_DUMMY_LABELS, type InputLogEntry, type TrainingReadout, type TrainingSettings } from '@/lib/combat/training';
+import type { Direction } from '@/lib/combat/types';
+
+interface TrainingOverlayProps {
+    settings: TrainingSettings;
+    isRecording: boolean;
+    inputLog: InputLogEntry[];
+    readout: TrainingReadout;
+}
+
+// Numpad directions as arrows, relative to facing (→ is forward)
+const DIRECTION_ARROWS: Record<Direction, string> = {
+    1: '↙', 2: '↓', 3: '↘',
+    4: '←', 5: '•', 6: '→',
+    7: '↖', 8: '↑', 9: '↗',
+};
+
+const formatAdvantage = (frames: number): string => (frames > 0 ? `+${frames}` : `${frames}`);
+
+const panelStyle: React.CSSProperties = {
+    position: 'absolute', zIndex: 3, pointerEvents: 'none',
+    backgroundColor: 'rgba(0, 0, 0, 0.55)', color: 'white', borderRadius: '6px',
+    padding: '8px 12px', fontFamily: 'monospace', fontSize: '14px', textShadow: '1px 1px 2px #000',
+};
+
+// Training HUD: the player's input history on the left, frame data and damage at the bottom
+export function TrainingOverlay({ settings, isRecording, inputLog, readout }: TrainingOverlayProps) {
+    const { lastMove, lastHit, advantage } = readout;
+    return (
+        <>
+            <div style={{ ...panelStyle, top: '250px', left: '20px', minWidth: '120px' }}>
+                {[...inputLog].reverse().map((entry, index) => (
+                    <div key={inputLog.length - index} style={{ display: 'flex', gap: '8px', opacity: index === 0 ? 1 : 0.75 }}>
+                        <span style={{ width: '2.5em', textAlign: 'right', color: '#aaa' }}>{Math.min(entry.frames, 999)}</span>
+                        <span style={{ width: '1.2em', textAlign: 'center' }}>{DIRECTION_ARROWS[entry.direction]}</span>
+                        <span style={{ color: '#FFD700' }}>
+                            {entry.punch ? 'P ' : ''}{entry.special ? 'S ' : ''}{entry.block ? 'B' : ''}
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            <div style={{ ...panelStyle, bottom: '20px', left: '50%', transform: 'translateX(-50%)', textAlign: 'center', whiteSpace: 'nowrap' }}>
+                <div style={{ color: isRecording ? '#ff5252' : '#aaa' }}>
+                    {isRecording ? '● Recording' : `Dummy: ${TRAINING_DUMMY_LABELS[settings.dummy]}`}
+                    {settings.infiniteHealth ? ' · ∞ Health' : ''}{settings.infiniteEnergy ? ' · ∞ Energy' : ''}
+                </div>
+                <div>
+                    {lastMove
+                        ? `${lastMove.name}: startup ${lastMove.startup} · active ${lastMove.active} · recovery ${lastMove.recovery}`
+                        : 'Attack the dummy to see frame data'}
+                </div>
+                {lastHit && (
+                    <div>
+                        {MOVES[lastHit.move].name} {lastHit.blocked ? 'blocked' : 'hit'}: {lastHit.damage} damage
+                        {lastHit.comboHits > 1 ? ` · ${lastHit.comboHits} hit combo, ${lastHit.comboDamage} total` : ''}
+                        {advantage ? ` · ${formatAdvantage(advantage.frames)} on ${advantage.blocked ? 'block' : 'hit'}` : ''}
+                    </div>
+                )}
+            </div>
+        </>
+    );
+}
@@ -0,0 +1,57 @@
+import React from 'react';
+import { formatKeyChord, type InputAction, type KeyBindings } from '@/lib/input/keyBindings';
+import type { TutorialSession } from '@/lib/combat/tutorial';
+
+interface TutorialOverlayProps {
+    session: TutorialSession;
+    stepIndex: number; // Mirrors of the session, they make the overlay re-render
+    progress: number;
+    keyBindings: KeyBindings;
+    showStepCleared: boolean;
+    personalityLabel: string;
+}
+
+// {punch} -> the first key bound to punch, e.g. 'Space'
+const fillInKeys = (instruction: string, keyBindings: KeyBindings): string =>
+    instruction.replace(/\{(\w+)\}/g, (token, action: string) => {
+        const chord = keyBindings[action as InputAction]?.[0];
+        return chord ? formatKeyChord(chord) : token;
+    });
+
+// Tutorial HUD: the current step with its progress, under the health bars
+export function TutorialOverlay({ session, stepIndex, progress, keyBindings, showStepCleared, personalityLabel }: TutorialOverlayProps) {
+    const step = session.steps[stepIndex];
+    const isChallenge = stepIndex >= session.basicsCount;
+    const challengeCount = session.steps.length - session.basicsCount;
+
+    return (
+        <div
+            style={{
+                position: 'absolute', top: '150px', left: '50%', transform: 'translateX(-50%)', zIndex: 3, pointerEvents: 'none',
+                backgroundColor: 'rgba(0, 0, 0, 0.6)', color: 'white', borderRadius: '8px', padding: '12px 20px',
+                minWidth: '420px', maxWidth: '640px', textAlign: 'center', textShadow: '1px 1px 2px #000',
+            }}
+        >
+            {step ? (
+                <>
+                    <div style={{ fontSize: '12px', color: '#aaa', textTransform: 'uppercase', letterSpacing: '0.1em' }}>
+                        {isChallenge
+                            ? `${personalityLabel} Challenge ${stepIndex - session.basicsCount + 1}/${challengeCount}`
+                            : `Basics ${stepIndex + 1}/${session.basicsCount}`}
+                    </div>
+                    <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#FFD700' }}>{step.title}</div>
+                    <div style={{ fontSize: '16px', margin: '4px 0 8px' }}>{fillInKeys(step.instruction, keyBindings)}</div>
+                    <div style={{ height: '8px', backgroundColor: '#333', borderRadius: '4px', overflow: 'hidden' }}>
+                        <div style={{ width: `${(progress / step.goal) * 100}%`, height: '100%', backgroundColor: '#4caf50', transition: 'width 0.1s linear' }} />
+                    </div>
+                </>
+            ) : (
+                <>
+                    <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#FFD700' }}>Tutorial Complete!</div>
+                    <div style={{ fontSize: '16px' }}>Keep practicing on the dummy, or pause to leave.</div>
+                </>
+            )}
+            {showStepCleared && <div style={{ fontSize: '20px', fontWeight: 'bold', color: '#4caf50', marginTop: '6px' }}>Nice!</div>}
+        </div>
+    );
+}
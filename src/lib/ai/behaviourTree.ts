@@ -0,0 +1,55 @@
+// Minimal behaviour tree. Nodes are plain data with a name, so a tree can be printed and
+// every tick can leave a trace of the nodes it went through.
+export type NodeStatus = 'success' | 'failure';
+
+export type BehaviourNode<B> =
+    | { type: 'selector'; name: string; children: BehaviourNode<B>[] } // First child that succeeds
+    | { type: 'sequence'; name: string; children: BehaviourNode<B>[] } // Every child, stops at the first failure
+    | { type: 'condition'; name: string; test: (blackboard: B) => boolean }
+    | { type: 'action'; name: string; run: (blackboard: B) => NodeStatus };
+
+export interface BehaviourTraceEntry {
+    name: string;
+    depth: number;
+    status: NodeStatus;
+}
+
+export const selector = <B>(name: string, ...children: BehaviourNode<B>[]): BehaviourNode<B> => ({ type: 'selector', name, children });
+export const sequence = <B>(name: string, ...children: BehaviourNode<B>[]): BehaviourNode<B> => ({ type: 'sequence', name, children });
+export const condition = <B>(name: string, test: (blackboard: B) => boolean): BehaviourNode<B> => ({ type: 'condition', name, test });
+
+// Actions succeed unless they say otherwise
+export const action = <B>(name: string, run: (blackboard: B) => NodeStatus | void): BehaviourNode<B> =>
+    ({ type: 'action', name, run: blackboard => run(blackboard) ?? 'success' });
+
+/**
+ * Runs the tree once against the blackboard. Pass `trace` to collect the visited nodes
+ * in order (children are listed before their parent, which only knows its status after them).
+ */
+export function tickBehaviour<B>(node: BehaviourNode<B>, blackboard: B, trace?: BehaviourTraceEntry[], depth = 0): NodeStatus {
+    let status: NodeStatus;
+    switch (node.type) {
+        case 'selector':
+            status = node.children.some(child => tickBehaviour(child, blackboard, trace, depth + 1) === 'success') ? 'success' : 'failure';
+            break;
+        case 'sequence':
+            status = node.children.every(child => tickBehaviour(child, blackboard, trace, depth + 1) === 'success') ? 'success' : 'failure';
+            break;
+        case 'condition':
+            status = node.test(blackboard) ? 'success' : 'failure';
+            break;
+        case 'action':
+            status = node.run(blackboard);
+            break;
+    }
+    trace?.push({ name: node.name, depth, status });
+    return status;
+}
+
+// Indented outline of the tree, e.g. to log it
+export function describeBehaviourTree<B>(node: BehaviourNode<B>, depth = 0): string {
+    const line = `${'  '.repeat(depth)}${node.type === 'selector' ? '?' : node.type === 'sequence' ? '→' : node.type === 'condition' ? '·' : '!'} ${node.name}`;
+    return node.type === 'selector' || node.type === 'sequence'
+        ? [line, ...node.children.map(child => describeBehaviourTree(child, depth + 1))].join('\n')
+        : line;
+}
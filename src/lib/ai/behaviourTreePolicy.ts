@@ -0,0 +1,212 @@
+import { action, condition, selector, sequence, tickBehaviour, type BehaviourNode, type BehaviourTraceEntry } from '@/lib/ai/behaviourTree';
+import type { HabitId } from '@/lib/ai/habits';
+import type { AIObservation, AIPolicy, AIPolicyContext } from '@/lib/ai/policy';
+import { MAX_ENERGY } from '@/lib/combat/constants';
+import type { InputState, MotionId } from '@/lib/combat/types';
+
+export const BEHAVIOUR_TREE_POLICY_ID = 'behaviourTree';
+
+// --- Tuning (distances in world units, times in seconds) ---
+const ENGAGE_DISTANCE = 1.5;
+const CLOSE_DISTANCE = 0.5;
+const PUNCH_DISTANCE = 0.8;
+const OPTIMAL_DISTANCE = 0.7; // Steps back when closer than this
+const ANTI_AIR_DISTANCE = 0.6; // Rising punch at opponents jumping in this close
+const KEEP_AWAY_MARGIN = 0.4; // Zoners back off when the opponent gets this much closer than they like
+const MIN_ENERGY_FOR_SPECIAL = 50;
+const MIN_HEALTH_FOR_CAUTION = 300;
+const CAUTIOUS_ATTACK_FACTOR = 0.7; // Attacks less often when cautious
+const JUMP_PROBABILITY = 0.3;
+const STEP_BACK_PROBABILITY = 0.2;
+const MOVEMENT_COOLDOWN = 0.5;
+const ATTACK_COOLDOWN = 0.3;
+const LOW_ATTACK_TIMEOUT = 1; // Gives up on the low attack if it didn't come out by then
+
+interface CpuMemory {
+    lastMoveTime: number;
+    lastAttackTime: number;
+    goingLowAt: number | null; // Ducked to kick under a guard
+}
+
+// Shared by the nodes during one decision: what was seen, and the intent being built
+interface CpuBlackboard {
+    observation: AIObservation;
+    context: AIPolicyContext;
+    memory: CpuMemory;
+    input: InputState;
+    motion: MotionId | null;
+}
+
+export interface BehaviourTreePolicy extends AIPolicy {
+    tree: BehaviourNode<CpuBlackboard>;
+    lastTrace: BehaviourTraceEntry[]; // Nodes visited by the last decision
+}
+
+const distance = ({ observation: { self, opponent } }: CpuBlackboard) => Math.abs(self.x - opponent.x);
+
+const isCautious = ({ observation: { self, opponent } }: CpuBlackboard) =>
+    self.health < MIN_HEALTH_FOR_CAUTION || opponent.isAttacking;
+
+const chance = (name: string, odds: (blackboard: CpuBlackboard) => number) =>
+    condition<CpuBlackboard>(name, blackboard => blackboard.context.random() < odds(blackboard));
+
+// Raises odds towards certainty the more the opponent showed a habit (and the more the difficulty adapts)
+const adapted = (odds: number, habit: HabitId, { observation, context }: CpuBlackboard) =>
+    odds + (1 - odds) * observation.opponentHabits[habit] * context.difficulty.adaptation;
+
+const walk = (blackboard: CpuBlackboard, towardsOpponent: boolean) => {
+    const { self, opponent, time } = blackboard.observation;
+    const toOpponent = Math.sign(opponent.x - self.x) || self.facing;
+    const right = towardsOpponent ? toOpponent > 0 : toOpponent < 0;
+    blackboard.input.right = right;
+    blackboard.input.left = !right;
+    blackboard.memory.lastMoveTime = time;
+};
+
+const attackWith = (blackboard: CpuBlackboard, attack: 'punch' | MotionId) => {
+    if (attack === 'punch') blackboard.input.punch = true;
+    else blackboard.motion = attack;
+    blackboard.memory.lastAttackTime = blackboard.observation.time;
+};
+
+const opponentAttacking = condition<CpuBlackboard>('Opponent attacking', ({ observation }) => observation.opponent.isAttacking);
+const opponentNotAttacking = condition<CpuBlackboard>('Opponent not attacking', ({ observation }) => !observation.opponent.isAttacking);
+const inPunchRange = condition<CpuBlackboard>('In punch range', blackboard => distance(blackboard) <= PUNCH_DISTANCE);
+const canAffordSpecial = condition<CpuBlackboard>('Special power ready', ({ observation: { self } }) =>
+    self.canUseSpecial && self.energy >= MIN_ENERGY_FOR_SPECIAL);
+const walkBack = action<CpuBlackboard>('Walk back', blackboard => walk(blackboard, false));
+const block = action<CpuBlackboard>('Block', blackboard => { blackboard.input.block = true; });
+
+// Priorities top to bottom, the first branch that succeeds makes the decision
+const CPU_TREE: BehaviourNode<CpuBlackboard> = selector('CPU',
+    sequence('Air attack',
+        condition('Airborne', ({ observation }) => !observation.self.grounded && !observation.self.isAttacking),
+        condition('Opponent in punch range', blackboard => distance(blackboard) < PUNCH_DISTANCE),
+        chance('Aggression × air attacks', ({ context }) => context.difficulty.aggression * context.personality.airAttacks),
+        action('Jump punch', blackboard => attackWith(blackboard, 'punch'))),
+    // Nothing to decide in the middle of a move or a jump
+    condition('Busy', ({ observation }) => observation.self.isAttacking || !observation.self.grounded),
+    // Went low to get under a guard, follow up with the low attack
+    sequence('Low attack',
+        condition('Going low', ({ observation, memory }) =>
+            memory.goingLowAt !== null && observation.time - memory.goingLowAt < LOW_ATTACK_TIMEOUT),
+        action('Duck kick', blackboard => {
+            blackboard.input.duck = true;
+            attackWith(blackboard, 'punch');
+        })),
+    sequence('Anti-air',
+        condition('Opponent jumping in', blackboard => !blackboard.observation.opponent.grounded && distance(blackboard) < ANTI_AIR_DISTANCE),
+        selector('Stop the jump-in',
+            sequence('Rising punch',
+                chance('Anti-air (more against jump-in habits)', blackboard => adapted(blackboard.context.difficulty.antiAir, 'jumpIn', blackboard)),
+                action('Rising punch', blackboard => attackWith(blackboard, 'dp'))),
+            sequence('Block high',
+                chance('Expects jump-ins', ({ observation, context }) => observation.opponentHabits.jumpIn * context.difficulty.adaptation),
+                block))),
+    sequence('Reactive block',
+        opponentAttacking,
+        chance('Block accuracy × blocking', ({ context }) => context.difficulty.blockAccuracy * context.personality.blocking),
+        block),
+    sequence('Punish whiff',
+        condition('Opponent whiffed', ({ observation }) => observation.opponent.whiffed),
+        inPunchRange,
+        selector('Punish',
+            sequence('Go low',
+                chance('Blocks after whiffs', ({ observation, context }) => observation.opponentHabits.blockAfterWhiff * context.difficulty.adaptation),
+                action('Duck', blackboard => {
+                    blackboard.input.duck = true;
+                    blackboard.memory.goingLowAt = blackboard.observation.time;
+                })),
+            action('Punch', blackboard => attackWith(blackboard, 'punch')))),
+    sequence('Expect special',
+        condition('Opponent at full energy', ({ observation: { opponent } }) => opponent.canUseSpecial && opponent.energy >= MAX_ENERGY),
+        condition('Out of punch range', blackboard => distance(blackboard) > PUNCH_DISTANCE),
+        chance('Specials at full energy', ({ observation, context }) => observation.opponentHabits.specialAtFullEnergy * context.difficulty.adaptation),
+        block),
+    sequence('Predictive block',
+        opponentNotAttacking,
+        chance('Predictive block × blocking', ({ context }) => context.difficulty.predictiveBlock * context.personality.blocking),
+        block),
+    sequence('Offense',
+        opponentNotAttacking,
+        condition('Attack ready', ({ observation, memory }) => observation.time - memory.lastAttackTime > ATTACK_COOLDOWN),
+        selector('Attack',
+            sequence('Special',
+                inPunchRange,
+                condition('Not cautious', blackboard => !isCautious(blackboard)),
+                canAffordSpecial,
+                chance('Special usage', ({ context }) => context.difficulty.specialUsage * context.personality.specialUsage),
+                action('Special power (quarter circle)', blackboard => attackWith(blackboard, 'qcf'))),
+            sequence('Punch',
+                inPunchRange,
+                chance('Aggression', blackboard => blackboard.context.difficulty.aggression * blackboard.context.personality.aggression
+                    * (isCautious(blackboard) ? CAUTIOUS_ATTACK_FACTOR : 1)),
+                action('Punch', blackboard => attackWith(blackboard, 'punch'))),
+            sequence('Ranged special',
+                condition('Out of punch range', blackboard => distance(blackboard) > PUNCH_DISTANCE),
+                canAffordSpecial,
+                chance('Special usage × ranged specials (more against walking back)', blackboard =>
+                    adapted(blackboard.context.difficulty.specialUsage * blackboard.context.personality.rangedSpecials, 'walkBack', blackboard)),
+                action('Special power (quarter circle)', blackboard => attackWith(blackboard, 'qcf'))))),
+    sequence('Footsies',
+        condition('Movement ready', ({ observation, memory }) => observation.time - memory.lastMoveTime > MOVEMENT_COOLDOWN),
+        selector('Move',
+            sequence('Give ground',
+                condition('Cautious', isCautious),
+                selector('Retreat',
+                    sequence('Back off', condition('Too close', blackboard => distance(blackboard) < CLOSE_DISTANCE), walkBack),
+                    sequence('Step back', chance('Step back', () => STEP_BACK_PROBABILITY), walkBack))),
+            sequence('Approach',
+                condition('Further than preferred', blackboard => distance(blackboard) > blackboard.context.personality.preferredDistance),
+                action('Walk in', blackboard => walk(blackboard, true))),
+            sequence('Keep away',
+                condition('Inside the zone', ({ context: { personality } }) => personality.preferredDistance > PUNCH_DISTANCE),
+                condition('Opponent too close', blackboard => distance(blackboard) < blackboard.context.personality.preferredDistance - KEEP_AWAY_MARGIN),
+                walkBack),
+            sequence('Make space', condition('Closer than optimal', blackboard => distance(blackboard) < OPTIMAL_DISTANCE), walkBack),
+            action('Hold ground', () => undefined)),
+        selector('Maybe jump',
+            sequence('Jump',
+                chance('Jumping', ({ context }) => JUMP_PROBABILITY * context.personality.jumping),
+                selector('Jump reason',
+                    sequence('Jump away', condition('Cautious', isCautious), opponentAttacking,
+                        condition('Within engage distance', blackboard => distance(blackboard) < ENGAGE_DISTANCE)),
+                    sequence('Jump in', condition('Not cautious', blackboard => !isCautious(blackboard)),
+                        condition('Between close and engage distance', blackboard => distance(blackboard) > CLOSE_DISTANCE && distance(blackboard) < ENGAGE_DISTANCE))),
+                action('Jump', blackboard => {
+                    blackboard.input.jump = true;
+                    blackboard.memory.lastMoveTime = blackboard.observation.time;
+                })),
+            action('Stay grounded', () => undefined))),
+    action('Wait', () => undefined),
+);
+
+/**
+ * The default CPU: a behaviour tree weighing the difficulty's odds with the character's personality,
+ * shifted by the habits it learned of the opponent.
+ * `lastTrace` tells which branch made the last decision and why.
+ */
+export function createBehaviourTreePolicy(context: AIPolicyContext): BehaviourTreePolicy {
+    const memory: CpuMemory = { lastMoveTime: -Infinity, lastAttackTime: -Infinity, goingLowAt: null };
+    const policy: BehaviourTreePolicy = {
+        id: BEHAVIOUR_TREE_POLICY_ID,
+        tree: CPU_TREE,
+        lastTrace: [],
+        decide: observation => {
+            if (observation.self.move === 'duckKick') memory.goingLowAt = null;
+            const blackboard: CpuBlackboard = {
+                observation,
+                context,
+                memory,
+                input: { left: false, right: false, punch: false, duck: false, block: false, jump: false, special: false },
+                motion: null,
+            };
+            policy.lastTrace = [];
+            tickBehaviour(CPU_TREE, blackboard, policy.lastTrace);
+            return blackboard.motion
+                ? { type: 'motion', motion: blackboard.motion, button: 'punch' }
+                : { type: 'input', input: blackboard.input };
+        },
+    };
+    return policy;
+}
@@ -0,0 +1,73 @@
+// CPU opponent strength. Times are in seconds, the rest are probabilities (0-1) rolled on each decision.
+export type AIDifficulty = 'easy' | 'normal' | 'hard' | 'nightmare';
+
+export interface AIDifficultySettings {
+    label: string;
+    reactionTime: number; // How old the AI's view of the opponent is (attacks, jumps, position)
+    decisionInterval: number; // Time between two decisions
+    blockAccuracy: number; // Blocks an attack it has seen coming
+    predictiveBlock: number; // Blocks before seeing anything
+    aggression: number; // Attacks when in range
+    specialUsage: number; // Throws the special power when it can afford it
+    antiAir: number; // Rising punch at opponents jumping in
+    inputError: number; // Fumbles a motion (the special doesn't come out)
+    adaptation: number; // How much the opponent's learned habits shift these odds (habits.ts)
+}
+
+export const AI_DIFFICULTY_OPTIONS: readonly AIDifficulty[] = ['easy', 'normal', 'hard', 'nightmare'];
+export const DEFAULT_AI_DIFFICULTY: AIDifficulty = 'normal';
+
+export const AI_DIFFICULTIES: Record<AIDifficulty, AIDifficultySettings> = {
+    easy: {
+        label: 'Easy',
+        reactionTime: 0.5,
+        decisionInterval: 0.6,
+        blockAccuracy: 0.1,
+        predictiveBlock: 0.1,
+        aggression: 0.4,
+        specialUsage: 0.1,
+        antiAir: 0.1,
+        inputError: 0.5,
+        adaptation: 0.1,
+    },
+    normal: {
+        label: 'Normal',
+        reactionTime: 0.3,
+        decisionInterval: 0.3,
+        blockAccuracy: 0.3,
+        predictiveBlock: 0.4,
+        aggression: 0.8,
+        specialUsage: 0.4,
+        antiAir: 0.5,
+        inputError: 0.15,
+        adaptation: 0.5,
+    },
+    hard: {
+        label: 'Hard',
+        reactionTime: 0.2,
+        decisionInterval: 0.2,
+        blockAccuracy: 0.6,
+        predictiveBlock: 0.4,
+        aggression: 0.9,
+        specialUsage: 0.5,
+        antiAir: 0.8,
+        inputError: 0.05,
+        adaptation: 0.8,
+    },
+    nightmare: {
+        label: 'Nightmare',
+        reactionTime: 0.1,
+        decisionInterval: 0.1,
+        blockAccuracy: 0.9,
+        predictiveBlock: 0.5,
+        aggression: 0.95,
+        specialUsage: 0.6,
+        antiAir: 0.95,
+        inputError: 0,
+        adaptation: 1,
+    },
+};
+
+// Reads the difficulty from the fight URL (?ai=hard), falling back to the default
+export const parseAIDifficulty = (value: string | null): AIDifficulty =>
+    (AI_DIFFICULTY_OPTIONS as readonly string[]).includes(value ?? '') ? value as AIDifficulty : DEFAULT_AI_DIFFICULTY;
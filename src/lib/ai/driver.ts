@@ -0,0 +1,90 @@
+import type { AIDifficultySettings } from '@/lib/ai/difficulty';
+import { createHabitTracker, getHabitRates, observeHabits, type PlayerHabits } from '@/lib/ai/habits';
+import { createFighterSnapshot, type AIObservation, type AIPolicy, type FighterSnapshot } from '@/lib/ai/policy';
+import { DEFAULT_MOTION_LENIENCY, SIM_FPS } from '@/lib/combat/constants';
+import { getMotionInputs } from '@/lib/combat/motions';
+import type { FighterState, InputState } from '@/lib/combat/types';
+
+export interface AIDriver {
+    policy: AIPolicy;
+    habits: PlayerHabits; // What was learned of the opponent, kept across reset (one match)
+    // Input for this frame. delta = seconds since the last call (wall clock in a fight, SIM_DT headless)
+    update: (delta: number, self: FighterState, opponent: FighterState) => InputState;
+    reset: () => void;
+}
+
+export interface AIDriverOptions {
+    random?: () => number; // Math.random by default, headless runs can seed it
+    habits?: PlayerHabits; // Start from habits learned before (loadPlayerHabits)
+}
+
+const NEUTRAL_INPUT: InputState = { left: false, right: false, punch: false, duck: false, block: false, jump: false, special: false };
+
+/**
+ * Runs a policy like a player would: it sees the opponent `reactionTime` late, decides every
+ * `decisionInterval`, and performs motions one direction per simulation frame (fumbling some).
+ * It also learns the opponent's habits from what it sees, for the policy to punish them.
+ * Doesn't depend on React or the renderer, headless fights drive it the same way.
+ */
+export function createAIDriver(policy: AIPolicy, settings: AIDifficultySettings, { random = Math.random, habits }: AIDriverOptions = {}): AIDriver {
+    const tracker = createHabitTracker(habits);
+    let clock = 0; // AI time, only advances while update is called
+    let decisionTimer = 0;
+    let input: InputState = NEUTRAL_INPUT;
+    let motion: { inputs: InputState[]; elapsed: number } | null = null;
+    let observations: { time: number; snapshot: FighterSnapshot }[] = [];
+
+    const observe = (self: FighterState, opponent: FighterState): Omit<AIObservation, 'opponentHabits'> => {
+        observations.push({ time: clock, snapshot: createFighterSnapshot(opponent) });
+        const seenBefore = clock - settings.reactionTime;
+        while (observations.length > 1 && observations[1].time <= seenBefore) observations.shift();
+        const observation = { time: clock, self: createFighterSnapshot(self), opponent: observations[0].snapshot };
+        observeHabits(tracker, clock, observation.opponent, observation.self);
+        return observation;
+    };
+
+    return {
+        policy,
+        habits: tracker.habits,
+        update: (delta, self, opponent) => {
+            clock += delta;
+            const observation = observe(self, opponent);
+
+            // Finish the motion in progress before deciding anything else
+            if (motion) {
+                const frame = Math.floor(motion.elapsed * SIM_FPS);
+                motion.elapsed += delta;
+                if (frame < motion.inputs.length) return motion.inputs[frame];
+                motion = null;
+                input = NEUTRAL_INPUT;
+            }
+
+            decisionTimer += delta;
+            if (decisionTimer < settings.decisionInterval) {
+                // Buttons are pressed once, directions, duck and block are held until the next decision
+                input = { ...input, punch: false, special: false, jump: false };
+                return input;
+            }
+            decisionTimer = 0;
+
+            const intent = policy.decide({ ...observation, opponentHabits: getHabitRates(tracker.habits) });
+            if (intent.type === 'input') {
+                input = intent.input;
+                return input;
+            }
+            // A fumbled motion skips its middle direction, so only a normal move comes out
+            const inputs = getMotionInputs(intent.motion, intent.button, self.facing, DEFAULT_MOTION_LENIENCY);
+            const fumbled = intent.motion !== 'charge' && random() < settings.inputError;
+            motion = { inputs: fumbled ? inputs.filter((_, index) => index < 2 || index > 3) : inputs, elapsed: delta };
+            return motion.inputs[0];
+        },
+        reset: () => {
+            clock = 0;
+            decisionTimer = 0;
+            input = NEUTRAL_INPUT;
+            motion = null;
+            observations = [];
+            Object.assign(tracker, createHabitTracker(tracker.habits));
+        },
+    };
+}
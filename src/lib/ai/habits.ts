@@ -0,0 +1,134 @@
+import type { FighterSnapshot } from '@/lib/ai/policy';
+import { MAX_ENERGY } from '@/lib/combat/constants';
+
+// Tendencies of the player the CPU learns during a match. Each one is counted against the
+// chances the player had to show it: what they commit to from neutral (jumping in, walking back),
+// what they do right after an attack of theirs whiffed, and whether they throw the special
+// as soon as their energy is full.
+export type HabitId = 'jumpIn' | 'walkBack' | 'blockAfterWhiff' | 'specialAtFullEnergy';
+
+export const HABIT_IDS: readonly HabitId[] = ['jumpIn', 'walkBack', 'blockAfterWhiff', 'specialAtFullEnergy'];
+
+export interface HabitCount {
+    seen: number;
+    chances: number;
+}
+
+export type PlayerHabits = Record<HabitId, HabitCount>;
+
+// 0 = never seen (or not enough to tell), 1 = every time
+export type HabitRates = Record<HabitId, number>;
+
+// What the player is doing from neutral, a new commitment is a chance to show a habit
+type Commitment = 'neutral' | 'jumpIn' | 'jump' | 'walkForward' | 'walkBack' | 'other' | 'stunned';
+
+export interface HabitTracker {
+    habits: PlayerHabits;
+    commitment: Commitment;
+    previous: FighterSnapshot | null;
+    whiffedAt: number | null; // Time the player's last whiff ended, while waiting for what they do next
+    fullEnergyAt: number | null; // Time the player's energy got full, while waiting for a special
+}
+
+const WHIFF_FOLLOW_UP_TIME = 0.6; // A block this soon after a whiff is the answer to it
+const FULL_ENERGY_FOLLOW_UP_TIME = 3;
+const HABIT_DOUBT = 4; // Chances worth of doubt: a habit seen once out of once isn't a habit yet
+const STORED_HABITS_WEIGHT = 0.5; // Past matches count half, players change
+const MAX_STORED_CHANCES = 40;
+
+const STORAGE_KEY_PREFIX = 'vibefighter.habits.';
+
+export const createPlayerHabits = (): PlayerHabits =>
+    Object.fromEntries(HABIT_IDS.map(id => [id, { seen: 0, chances: 0 }])) as PlayerHabits;
+
+export const createHabitTracker = (habits: PlayerHabits = createPlayerHabits()): HabitTracker => ({
+    habits,
+    commitment: 'neutral',
+    previous: null,
+    whiffedAt: null,
+    fullEnergyAt: null,
+});
+
+function getCommitment(player: FighterSnapshot, opponent: FighterSnapshot, current: Commitment): Commitment {
+    if (player.action === 'hitstun' || player.action === 'blockstun') return 'stunned';
+    const towardsOpponent = Math.sign(player.vx) === Math.sign(opponent.x - player.x);
+    // A jump stays what it was at take-off, even once it crossed over
+    if (!player.grounded) return current === 'jumpIn' || current === 'jump' ? current : towardsOpponent ? 'jumpIn' : 'jump';
+    if (player.action === 'walk') return towardsOpponent ? 'walkForward' : 'walkBack';
+    return player.action === 'idle' ? 'neutral' : 'other';
+}
+
+const count = (habits: PlayerHabits, id: HabitId, seen: boolean) => {
+    habits[id].chances++;
+    if (seen) habits[id].seen++;
+};
+
+// Learns from one observation of the player (as the CPU saw it) and the CPU itself
+export function observeHabits(tracker: HabitTracker, time: number, player: FighterSnapshot, opponent: FighterSnapshot) {
+    const { habits, previous } = tracker;
+
+    const commitment = getCommitment(player, opponent, tracker.commitment);
+    if (commitment !== tracker.commitment && commitment !== 'neutral' && commitment !== 'stunned') {
+        count(habits, 'jumpIn', commitment === 'jumpIn');
+        count(habits, 'walkBack', commitment === 'walkBack');
+    }
+    tracker.commitment = commitment;
+
+    if (previous?.whiffed && !player.whiffed) {
+        habits.blockAfterWhiff.chances++;
+        tracker.whiffedAt = time;
+    } else if (tracker.whiffedAt !== null && player.action === 'block') {
+        habits.blockAfterWhiff.seen++;
+        tracker.whiffedAt = null;
+    } else if (tracker.whiffedAt !== null && time - tracker.whiffedAt > WHIFF_FOLLOW_UP_TIME) {
+        tracker.whiffedAt = null;
+    }
+
+    if (player.canUseSpecial && player.energy >= MAX_ENERGY && (previous?.energy ?? 0) < MAX_ENERGY) {
+        habits.specialAtFullEnergy.chances++;
+        tracker.fullEnergyAt = time;
+    } else if (tracker.fullEnergyAt !== null && player.move === 'specialPower') {
+        habits.specialAtFullEnergy.seen++;
+        tracker.fullEnergyAt = null;
+    } else if (tracker.fullEnergyAt !== null && time - tracker.fullEnergyAt > FULL_ENERGY_FOLLOW_UP_TIME) {
+        tracker.fullEnergyAt = null;
+    }
+
+    tracker.previous = player;
+}
+
+export const getHabitRates = (habits: PlayerHabits): HabitRates =>
+    Object.fromEntries(HABIT_IDS.map(id => [id, habits[id].seen / (habits[id].chances + HABIT_DOUBT)])) as HabitRates;
+
+// --- Persistence (per player, in localStorage) ---
+
+// What was learned about a player in past matches, weighted down so this match can change the picture
+export function loadPlayerHabits(playerId: string): PlayerHabits {
+    const habits = createPlayerHabits();
+    if (typeof window === 'undefined') return habits;
+
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY_PREFIX + playerId);
+        if (!raw) return habits;
+        const stored = JSON.parse(raw);
+        for (const id of HABIT_IDS) {
+            const seen = Number(stored?.[id]?.seen);
+            const chances = Number(stored?.[id]?.chances);
+            if (!Number.isFinite(seen) || !Number.isFinite(chances) || chances <= 0) continue;
+            const scale = Math.min(STORED_HABITS_WEIGHT, MAX_STORED_CHANCES / chances);
+            habits[id] = { seen: Math.min(seen, chances) * scale, chances: chances * scale };
+        }
+    } catch (error) {
+        console.error('[habits] Failed to read stored habits, starting fresh:', error);
+    }
+    return habits;
+}
+
+export function savePlayerHabits(playerId: string, habits: PlayerHabits): void {
+    if (typeof window === 'undefined') return;
+    try {
+        window.localStorage.setItem(STORAGE_KEY_PREFIX + playerId, JSON.stringify(habits));
+    } catch (error) {
+        console.error('[habits] Failed to save habits:', error);
+    }
+}
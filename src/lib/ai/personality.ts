@@ -0,0 +1,83 @@
+// How a character's CPU fights, picked by Gemini from the character's prompt and concept image
+// when it's created (stored in characters.ai_personality). It weights the difficulty's odds:
+// multipliers are applied to them, distances are in world units.
+export type AIPersonality = 'balanced' | 'rushdown' | 'zoner' | 'turtle' | 'jumper';
+
+export interface AIPersonalityProfile {
+    label: string;
+    description: string; // Also what Gemini picks from
+    aggression: number;
+    specialUsage: number;
+    blocking: number;
+    jumping: number;
+    airAttacks: number; // Jump punches on the way down
+    rangedSpecials: number; // Special power thrown from out of punch range
+    preferredDistance: number; // Walks in when further, zoners also back off to it
+}
+
+export const AI_PERSONALITY_OPTIONS: readonly AIPersonality[] = ['balanced', 'rushdown', 'zoner', 'turtle', 'jumper'];
+export const DEFAULT_AI_PERSONALITY: AIPersonality = 'balanced';
+
+export const AI_PERSONALITIES: Record<AIPersonality, AIPersonalityProfile> = {
+    balanced: {
+        label: 'Balanced',
+        description: 'an all-rounder, mixes punches, blocks and specials',
+        aggression: 1,
+        specialUsage: 1,
+        blocking: 1,
+        jumping: 1,
+        airAttacks: 0.3,
+        rangedSpecials: 0.2,
+        preferredDistance: 0.8,
+    },
+    rushdown: {
+        label: 'Rushdown',
+        description: 'relentless brawler, always in the face of the opponent, rarely blocks',
+        aggression: 1.25,
+        specialUsage: 0.5,
+        blocking: 0.6,
+        jumping: 1,
+        airAttacks: 0.5,
+        rangedSpecials: 0,
+        preferredDistance: 0.5,
+    },
+    zoner: {
+        label: 'Zoner',
+        description: 'keeps the opponent away and attacks from afar with the special power (mages, archers, gunners)',
+        aggression: 0.7,
+        specialUsage: 1.5,
+        blocking: 1.2,
+        jumping: 0.5,
+        airAttacks: 0.2,
+        rangedSpecials: 1,
+        preferredDistance: 2.5,
+    },
+    turtle: {
+        label: 'Turtle',
+        description: 'defensive and patient, blocks a lot and punishes mistakes (knights, tanks, monks)',
+        aggression: 0.6,
+        specialUsage: 0.8,
+        blocking: 2,
+        jumping: 0.3,
+        airAttacks: 0.1,
+        rangedSpecials: 0.2,
+        preferredDistance: 1.0,
+    },
+    jumper: {
+        label: 'Jumper',
+        description: 'acrobatic and airborne, jumps in with punches from above (ninjas, animals, acrobats)',
+        aggression: 1,
+        specialUsage: 0.7,
+        blocking: 0.8,
+        jumping: 3,
+        airAttacks: 1,
+        rangedSpecials: 0.1,
+        preferredDistance: 0.8,
+    },
+};
+
+// Reads a stored (or Gemini answered) personality, anything unknown is balanced
+export function parseAIPersonality(value: string | null | undefined): AIPersonality {
+    const normalized = value?.trim().toLowerCase().replace(/[^a-z]/g, '') ?? '';
+    return (AI_PERSONALITY_OPTIONS as readonly string[]).includes(normalized) ? normalized as AIPersonality : DEFAULT_AI_PERSONALITY;
+}
@@ -0,0 +1,78 @@
+import { getCurrentMove, isMoveActiveFrame } from '@/lib/combat/moves';
+import { isAttackAction } from '@/lib/combat/simulation';
+import type { FighterAction, FighterState, InputState, MotionId, MoveId } from '@/lib/combat/types';
+import type { AIDifficultySettings } from '@/lib/ai/difficulty';
+import type { AIPersonalityProfile } from '@/lib/ai/personality';
+import type { HabitRates } from '@/lib/ai/habits';
+
+// What a policy knows about one fighter
+export interface FighterSnapshot {
+    x: number;
+    y: number;
+    vx: number;
+    facing: 1 | -1;
+    grounded: boolean;
+    health: number;
+    energy: number;
+    action: FighterAction;
+    move: MoveId | null;
+    isAttacking: boolean;
+    whiffed: boolean; // Recovering from an attack that didn't connect, wide open
+    isBlocking: boolean; // Guard up, or stuck in blockstun
+    canUseSpecial: boolean;
+}
+
+// Both fighters, the opponent as the AI saw it its reaction time ago
+export interface AIObservation {
+    time: number; // Seconds of AI time, stops while paused
+    self: FighterSnapshot;
+    opponent: FighterSnapshot;
+    opponentHabits: HabitRates; // What the AI learned of the opponent so far (habits.ts)
+}
+
+// What a policy decided. Inputs are held until the next decision (punch, special and jump are only
+// pressed on the first frame), motions are played one direction after the other, then the button.
+export type AIIntent =
+    | { type: 'input'; input: InputState }
+    | { type: 'motion'; motion: MotionId; button: 'punch' | 'special' };
+
+// Everything a policy is built with. `random` is Math.random in a fight, headless runs can seed it.
+export interface AIPolicyContext {
+    difficulty: AIDifficultySettings;
+    personality: AIPersonalityProfile;
+    random: () => number;
+}
+
+/**
+ * A CPU brain: called every decision interval with an observation, answers with an intent.
+ * Reaction delay, decision timing and playing motions back are the driver's job (driver.ts),
+ * so policies stay plain functions of what they see.
+ */
+export interface AIPolicy {
+    id: string;
+    decide: (observation: AIObservation) => AIIntent;
+}
+
+export type AIPolicyFactory = (context: AIPolicyContext) => AIPolicy;
+
+const isWhiffing = (fighter: FighterState): boolean => {
+    const move = getCurrentMove(fighter);
+    return !!move && !move.projectile && !fighter.hitConfirmed
+        && fighter.actionFrame >= move.startup && !isMoveActiveFrame(move, fighter.actionFrame);
+};
+
+export const createFighterSnapshot = (fighter: FighterState): FighterSnapshot => ({
+    x: fighter.x,
+    y: fighter.y,
+    vx: fighter.vx,
+    facing: fighter.facing,
+    grounded: fighter.grounded,
+    health: fighter.health,
+    energy: fighter.energy,
+    action: fighter.action,
+    move: fighter.move,
+    isAttacking: isAttackAction(fighter.action),
+    whiffed: isWhiffing(fighter),
+    isBlocking: fighter.action === 'block' || fighter.action === 'blockstun',
+    canUseSpecial: fighter.canUseSpecial,
+});
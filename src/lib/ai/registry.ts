@@ -0,0 +1,22 @@
+import { BEHAVIOUR_TREE_POLICY_ID, createBehaviourTreePolicy } from '@/lib/ai/behaviourTreePolicy';
+import type { AIPolicy, AIPolicyContext, AIPolicyFactory } from '@/lib/ai/policy';
+
+export const DEFAULT_AI_POLICY_ID = BEHAVIOUR_TREE_POLICY_ID;
+
+const AI_POLICIES = new Map<string, AIPolicyFactory>([
+    [BEHAVIOUR_TREE_POLICY_ID, createBehaviourTreePolicy],
+]);
+
+// Makes a policy available by id (e.g. to pit an experimental bot against the default one)
+export function registerAIPolicy(id: string, factory: AIPolicyFactory) {
+    AI_POLICIES.set(id, factory);
+}
+
+export const getAIPolicyIds = (): string[] => [...AI_POLICIES.keys()];
+
+// Unknown ids fall back to the default policy
+export function createAIPolicy(id: string, context: AIPolicyContext): AIPolicy {
+    const factory = AI_POLICIES.get(id);
+    if (!factory) console.warn(`[AI] Unknown policy "${id}", using ${DEFAULT_AI_POLICY_ID}`);
+    return (factory ?? createBehaviourTreePolicy)(context);
+}
@@ -0,0 +1,300 @@
+import { AI_DIFFICULTIES, type AIDifficulty } from '@/lib/ai/difficulty';
+import { createAIDriver } from '@/lib/ai/driver';
+import { AI_PERSONALITIES, type AIPersonality } from '@/lib/ai/personality';
+import { createAIPolicy } from '@/lib/ai/registry';
+import { PLAYER1_START_X, PLAYER2_START_X, SIM_DT, SIM_FPS, secondsToFrames } from '@/lib/combat/constants';
+import { MOVES } from '@/lib/combat/moves';
+import { createRng, nextRandom } from '@/lib/combat/rng';
+import { getMatchOutcome, resolveRound, type MatchRules, type RoundResult } from '@/lib/combat/rounds';
+import { createFightState, createNextRoundState, isTimeOver, stepFight } from '@/lib/combat/simulation';
+import type { FightConfig, FighterIndex, MoveId } from '@/lib/combat/types';
+
+// Headless AI vs AI matches for balance testing: the real simulation and AI policies,
+// no rendering, as fast as the CPU allows. Everything is seeded, a match replays exactly.
+
+export interface TournamentEntrant {
+    policyId: string;
+    difficulty: AIDifficulty;
+    personality: AIPersonality;
+}
+
+// What one fighter did during a match
+export interface FighterMatchStats {
+    damageDealt: number;
+    damageByMove: Partial<Record<MoveId, number>>;
+    hitsByMove: Partial<Record<MoveId, number>>;
+    chipDamage: number; // Part of damageDealt that went through blocks
+    hitsBlocked: number; // Own attacks the opponent blocked
+    specialsThrown: number;
+    longestCombo: number;
+}
+
+export interface HeadlessMatchResult {
+    seed: number;
+    winner: FighterIndex | null; // null = drawn match
+    rounds: RoundResult[];
+    frames: number; // Fighting frames over all rounds
+    stats: [FighterMatchStats, FighterMatchStats];
+}
+
+export interface HeadlessMatchConfig {
+    seed: number;
+    entrants: [TournamentEntrant, TournamentEntrant];
+    rules: MatchRules;
+}
+
+// Untimed rounds are stopped (and judged like a time over) after this long, two turtles can block forever
+const MAX_UNTIMED_ROUND_SECONDS = 300;
+
+const AI_SEED_SALT: [number, number] = [0x9E3779B9, 0x85EBCA6B]; // Each AI gets its own random stream from the match seed
+
+const createMatchStats = (): FighterMatchStats => ({
+    damageDealt: 0,
+    damageByMove: {},
+    hitsByMove: {},
+    chipDamage: 0,
+    hitsBlocked: 0,
+    specialsThrown: 0,
+    longestCombo: 0,
+});
+
+export const describeEntrant = ({ policyId, difficulty, personality }: TournamentEntrant): string =>
+    `${policyId}/${difficulty}/${personality}`;
+
+export function runHeadlessMatch({ seed, entrants, rules }: HeadlessMatchConfig): HeadlessMatchResult {
+    const roundConfig: Omit<FightConfig, 'seed'> = {
+        fighters: [
+            { startX: PLAYER1_START_X, facing: 1, canUseSpecial: true },
+            { startX: PLAYER2_START_X, facing: -1, canUseSpecial: true },
+        ],
+        roundFrames: rules.roundSeconds === null ? null : secondsToFrames(rules.roundSeconds),
+    };
+    const drivers = entrants.map((entrant, index) => {
+        const rng = createRng(seed ^ AI_SEED_SALT[index]);
+        const random = () => nextRandom(rng);
+        const difficulty = AI_DIFFICULTIES[entrant.difficulty];
+        const policy = createAIPolicy(entrant.policyId, { difficulty, personality: AI_PERSONALITIES[entrant.personality], random });
+        return createAIDriver(policy, difficulty, { random });
+    });
+    const stats: [FighterMatchStats, FighterMatchStats] = [createMatchStats(), createMatchStats()];
+    const rounds: RoundResult[] = [];
+    const maxRoundFrames = secondsToFrames(MAX_UNTIMED_ROUND_SECONDS);
+    let state = createFightState({ ...roundConfig, seed });
+    let frames = 0;
+    let roundFrames = 0;
+
+    for (;;) {
+        const [fighter1, fighter2] = state.fighters;
+        const events = stepFight(state, [
+            drivers[0].update(SIM_DT, fighter1, fighter2),
+            drivers[1].update(SIM_DT, fighter2, fighter1),
+        ]);
+        frames++;
+        roundFrames++;
+
+        for (const event of events) {
+            if (event.type === 'special') {
+                stats[event.fighter].specialsThrown++;
+            } else if (event.type === 'hit') {
+                const attacker = stats[event.attacker];
+                attacker.damageDealt += event.damage;
+                attacker.damageByMove[event.move] = (attacker.damageByMove[event.move] ?? 0) + event.damage;
+                attacker.hitsByMove[event.move] = (attacker.hitsByMove[event.move] ?? 0) + 1;
+                if (event.blocked) {
+                    attacker.chipDamage += event.damage;
+                    attacker.hitsBlocked++;
+                }
+                attacker.longestCombo = Math.max(attacker.longestCombo, event.comboHits);
+            }
+        }
+
+        const health: [number, number] = [state.fighters[0].health, state.fighters[1].health];
+        const maxHealth: [number, number] = [state.fighters[0].maxHealth, state.fighters[1].maxHealth];
+        const result = resolveRound(health, maxHealth, isTimeOver(state) || roundFrames >= maxRoundFrames);
+        if (!result) continue;
+
+        rounds.push(result);
+        const outcome = getMatchOutcome(rounds, rules);
+        if (outcome.finished) return { seed, winner: outcome.winner, rounds, frames, stats };
+        state = createNextRoundState(state, roundConfig);
+        drivers.forEach(driver => driver.reset());
+        roundFrames = 0;
+    }
+}
+
+// --- Tournament (every entrant against every other, on both sides) ---
+
+export interface EntrantReport {
+    entrant: string;
+    matches: number;
+    wins: number;
+    losses: number;
+    draws: number;
+    winRate: number; // Draws count half
+    roundsWon: number;
+    roundsPlayed: number;
+    averageDamageDealt: number; // Per match
+    averageChipDamage: number;
+    damageByMove: Partial<Record<MoveId, number>>; // Share of all damage dealt (0-1)
+    hitsByMove: Partial<Record<MoveId, number>>; // Per match
+    blockedHitRate: number; // Own hits that were blocked
+    specialsPerMatch: number;
+    longestCombo: number;
+}
+
+export interface MatchupReport {
+    entrants: [string, string];
+    matches: number;
+    wins: [number, number];
+    draws: number;
+}
+
+export interface TournamentReport {
+    seed: number;
+    rules: MatchRules;
+    matchesPerPairing: number;
+    matches: number;
+    averageMatchSeconds: number;
+    averageRoundSeconds: number;
+    averageRounds: number;
+    roundEndings: Record<RoundResult['reason'], number>; // Share of all rounds (0-1)
+    player1WinRate: number; // Side bias check, draws count half
+    entrants: EntrantReport[];
+    matchups: MatchupReport[];
+}
+
+export interface TournamentConfig {
+    entrants: TournamentEntrant[];
+    matchesPerPairing: number; // Split between both sides
+    rules: MatchRules;
+    seed: number;
+    onMatchFinished?: (finished: number, total: number) => void;
+}
+
+interface EntrantTotals {
+    matches: number;
+    wins: number;
+    losses: number;
+    draws: number;
+    roundsWon: number;
+    roundsPlayed: number;
+    damageDealt: number;
+    chipDamage: number;
+    hitsBlocked: number;
+    hits: number;
+    damageByMove: Partial<Record<MoveId, number>>;
+    hitsByMove: Partial<Record<MoveId, number>>;
+    specialsThrown: number;
+    longestCombo: number;
+}
+
+const createEntrantTotals = (): EntrantTotals => ({
+    matches: 0, wins: 0, losses: 0, draws: 0, roundsWon: 0, roundsPlayed: 0, damageDealt: 0, chipDamage: 0,
+    hitsBlocked: 0, hits: 0, damageByMove: {}, hitsByMove: {}, specialsThrown: 0, longestCombo: 0,
+});
+
+const addTo = (totals: Partial<Record<MoveId, number>>, values: Partial<Record<MoveId, number>>) => {
+    for (const [move, value] of Object.entries(values) as [MoveId, number][]) {
+        totals[move] = (totals[move] ?? 0) + value;
+    }
+};
+
+const divideBy = (values: Partial<Record<MoveId, number>>, divisor: number): Partial<Record<MoveId, number>> =>
+    Object.fromEntries((Object.keys(MOVES) as MoveId[])
+        .filter(move => values[move] !== undefined)
+        .map(move => [move, divisor > 0 ? values[move]! / divisor : 0]));
+
+// Pairs of entrant indexes, a lone entrant plays mirror matches
+const getPairings = (count: number): [number, number][] =>
+    count === 1 ? [[0, 0]] : Array.from({ length: count }, (_, a) =>
+        Array.from({ length: count - a - 1 }, (_, offset): [number, number] => [a, a + offset + 1])).flat();
+
+export function runTournament({ entrants, matchesPerPairing, rules, seed, onMatchFinished }: TournamentConfig): TournamentReport {
+    const labels = entrants.map(describeEntrant);
+    const totals = entrants.map(createEntrantTotals);
+    const pairings = getPairings(entrants.length);
+    const matchups: MatchupReport[] = [];
+    const roundEndings: Record<RoundResult['reason'], number> = { ko: 0, doubleKo: 0, timeOver: 0 };
+    const seedRng = createRng(seed);
+    const total = pairings.length * matchesPerPairing;
+    let finished = 0;
+    let frames = 0;
+    let roundCount = 0;
+    let player1Score = 0;
+
+    for (const [a, b] of pairings) {
+        const matchup: MatchupReport = { entrants: [labels[a], labels[b]], matches: 0, wins: [0, 0], draws: 0 };
+        for (let match = 0; match < matchesPerPairing; match++) {
+            // Every other match swaps sides so the player 1 side doesn't favour anyone
+            const sides: [number, number] = match % 2 === 0 ? [a, b] : [b, a];
+            const matchSeed = Math.floor(nextRandom(seedRng) * 4294967296) >>> 0;
+            const result = runHeadlessMatch({ seed: matchSeed, entrants: [entrants[sides[0]], entrants[sides[1]]], rules });
+
+            frames += result.frames;
+            roundCount += result.rounds.length;
+            result.rounds.forEach(round => roundEndings[round.reason]++);
+            player1Score += result.winner === 0 ? 1 : result.winner === null ? 0.5 : 0;
+            matchup.matches++;
+            if (result.winner === null) matchup.draws++;
+            else matchup.wins[sides[result.winner] === a ? 0 : 1]++;
+
+            sides.forEach((entrantIndex, side) => {
+                const entrantTotals = totals[entrantIndex];
+                const fighterStats = result.stats[side];
+                entrantTotals.matches++;
+                if (result.winner === null) entrantTotals.draws++;
+                else if (result.winner === side) entrantTotals.wins++;
+                else entrantTotals.losses++;
+                entrantTotals.roundsPlayed += result.rounds.length;
+                entrantTotals.roundsWon += result.rounds.filter(round => round.winner === side).length;
+                entrantTotals.damageDealt += fighterStats.damageDealt;
+                entrantTotals.chipDamage += fighterStats.chipDamage;
+                entrantTotals.hitsBlocked += fighterStats.hitsBlocked;
+                entrantTotals.hits += Object.values(fighterStats.hitsByMove).reduce((sum, hits) => sum + hits, 0);
+                addTo(entrantTotals.damageByMove, fighterStats.damageByMove);
+                addTo(entrantTotals.hitsByMove, fighterStats.hitsByMove);
+                entrantTotals.specialsThrown += fighterStats.specialsThrown;
+                entrantTotals.longestCombo = Math.max(entrantTotals.longestCombo, fighterStats.longestCombo);
+            });
+
+            finished++;
+            onMatchFinished?.(finished, total);
+        }
+        matchups.push(matchup);
+    }
+
+    const seconds = frames / SIM_FPS;
+    return {
+        seed,
+        rules,
+        matchesPerPairing,
+        matches: finished,
+        averageMatchSeconds: finished > 0 ? seconds / finished : 0,
+        averageRoundSeconds: roundCount > 0 ? seconds / roundCount : 0,
+        averageRounds: finished > 0 ? roundCount / finished : 0,
+        roundEndings: {
+            ko: roundCount > 0 ? roundEndings.ko / roundCount : 0,
+            doubleKo: roundCount > 0 ? roundEndings.doubleKo / roundCount : 0,
+            timeOver: roundCount > 0 ? roundEndings.timeOver / roundCount : 0,
+        },
+        player1WinRate: finished > 0 ? player1Score / finished : 0,
+        entrants: totals.map((entrantTotals, index) => ({
+            entrant: labels[index],
+            matches: entrantTotals.matches,
+            wins: entrantTotals.wins,
+            losses: entrantTotals.losses,
+            draws: entrantTotals.draws,
+            winRate: entrantTotals.matches > 0 ? (entrantTotals.wins + entrantTotals.draws / 2) / entrantTotals.matches : 0,
+            roundsWon: entrantTotals.roundsWon,
+            roundsPlayed: entrantTotals.roundsPlayed,
+            averageDamageDealt: entrantTotals.matches > 0 ? entrantTotals.damageDealt / entrantTotals.matches : 0,
+            averageChipDamage: entrantTotals.matches > 0 ? entrantTotals.chipDamage / entrantTotals.matches : 0,
+            damageByMove: divideBy(entrantTotals.damageByMove, entrantTotals.damageDealt),
+            hitsByMove: divideBy(entrantTotals.hitsByMove, entrantTotals.matches),
+            blockedHitRate: entrantTotals.hits > 0 ? entrantTotals.hitsBlocked / entrantTotals.hits : 0,
+            specialsPerMatch: entrantTotals.matches > 0 ? entrantTotals.specialsThrown / entrantTotals.matches : 0,
+            longestCombo: entrantTotals.longestCombo,
+        })),
+        matchups,
+    };
+}
@@ -0,0 +1,148 @@
+import * as THREE from 'three';
+import { SIM_FPS } from '@/lib/combat/constants';
+import { getLimbBone } from '@/lib/combat/boxes';
+import { MOVES, getMoveTotalFrames } from '@/lib/combat/moves';
+import type { BodyBox, BodyLayout, BodyPart, LimbPosition, LimbSide, MoveReach } from '@/lib/combat/types';
+import { MOVE_CLIP_FACTORIES } from './moveClips';
+import type { InitialPoseData, StartPose } from './clips';
+
+// Measures a character's hurtboxes on its own model: the skinned vertices of each body part,
+// posed like the fight shows them. Arms are left out, the move hitboxes stand for them. The
+// hitboxes follow the attacking limb's bone, measured on each active frame of the move's clip.
+
+const LIMB_SIDES: LimbSide[] = ['right', 'left'];
+
+// Bone name parts, the first one found going up from a vertex's bone decides its body part
+const PART_BONES: [string, BodyPart | null][] = [
+    ['Head', 'head'],
+    ['Thigh', 'legs'],
+    ['Clavicle', null],
+    ['Upperarm', null],
+];
+
+// Centimeters: stops float noise between browsers from giving the two sides of an online match different boxes
+const roundToCentimeters = (value: number): number => Math.round(value * 100) / 100;
+
+function getBonePart(bone: THREE.Object3D): BodyPart | null {
+    for (let current: THREE.Object3D | null = bone; current; current = current.parent) {
+        const { name } = current;
+        const match = PART_BONES.find(([bonePart]) => name.includes(bonePart));
+        if (match) return match[1];
+    }
+    return 'torso';
+}
+
+// Bounds of each body part in the pose the model is in, relative to the model's feet and facing (+X)
+function measurePose(model: THREE.Object3D): Record<BodyPart, BodyBox> | null {
+    model.updateWorldMatrix(true, false); // Parents first, updateMatrixWorld also refreshes the skinned meshes' bind matrices
+    model.updateMatrixWorld(true);
+    const bounds: Record<BodyPart, THREE.Box3> = { head: new THREE.Box3(), torso: new THREE.Box3(), legs: new THREE.Box3() };
+    const vertex = new THREE.Vector3();
+    model.traverse(child => {
+        if (!(child instanceof THREE.SkinnedMesh)) return;
+        child.skeleton.update();
+        const skinIndex = child.geometry.getAttribute('skinIndex');
+        const skinWeight = child.geometry.getAttribute('skinWeight');
+        const boneParts = child.skeleton.bones.map(getBonePart);
+        for (let index = 0; index < skinIndex.count; index++) {
+            // The bone weighing the most on the vertex
+            let strongest = 0;
+            for (let influence = 1; influence < 4; influence++) {
+                if (skinWeight.getComponent(index, influence) > skinWeight.getComponent(index, strongest)) strongest = influence;
+            }
+            const part = boneParts[skinIndex.getComponent(index, strongest)];
+            if (!part) continue;
+            child.getVertexPosition(index, vertex);
+            vertex.applyMatrix4(child.matrixWorld);
+            if (model.parent) model.parent.worldToLocal(vertex);
+            bounds[part].expandByPoint(vertex);
+        }
+    });
+    if (Object.values(bounds).some(box => box.isEmpty())) return null;
+    const toBodyBox = ({ min, max }: THREE.Box3): BodyBox => ({
+        forward: roundToCentimeters((min.x + max.x) / 2),
+        halfWidth: roundToCentimeters((max.x - min.x) / 2),
+        bottom: roundToCentimeters(Math.max(0, min.y)),
+        top: roundToCentimeters(max.y),
+    });
+    return { head: toBodyBox(bounds.head), torso: toBodyBox(bounds.torso), legs: toBodyBox(bounds.legs) };
+}
+
+// Measured while a temporary mixer plays the clip on the model. Stopping the mixer puts the bones back.
+function measureWithClip<T>(model: THREE.Object3D, clip: THREE.AnimationClip, measure: (mixer: THREE.AnimationMixer) => T): T {
+    const mixer = new THREE.AnimationMixer(model);
+    const action = mixer.clipAction(clip);
+    action.setLoop(THREE.LoopOnce, 1);
+    action.clampWhenFinished = true;
+    action.play();
+    const result = measure(mixer);
+    mixer.stopAllAction();
+    mixer.uncacheRoot(model);
+    return result;
+}
+
+const measureClipEnd = (model: THREE.Object3D, clip: THREE.AnimationClip): Record<BodyPart, BodyBox> | null =>
+    measureWithClip(model, clip, mixer => {
+        mixer.update(clip.duration);
+        return measurePose(model);
+    });
+
+// The bone rotations at the clip's last frame, what the fight's moves start from
+const captureClipEnd = (model: THREE.Object3D, skeleton: THREE.Skeleton, clip: THREE.AnimationClip): StartPose =>
+    measureWithClip(model, clip, mixer => {
+        mixer.update(clip.duration);
+        return Object.fromEntries(skeleton.bones.map(bone => [bone.name, { quat: bone.quaternion.clone() }]));
+    });
+
+const limbPosition = new THREE.Vector3();
+
+// Like the body parts, relative to the model's feet and facing
+function measureLimb(model: THREE.Object3D, bone: THREE.Bone): LimbPosition {
+    bone.getWorldPosition(limbPosition);
+    if (model.parent) model.parent.worldToLocal(limbPosition);
+    return { forward: roundToCentimeters(limbPosition.x), height: roundToCentimeters(limbPosition.y) };
+}
+
+// Where each move's limb bone is on its active frames, with the move's clip built like the fight
+// builds it (from the stance, stretched to the move's frames). Both sides for alternating moves.
+function measureMoveReach(model: THREE.Object3D, skeleton: THREE.Skeleton, initialPose: Record<string, InitialPoseData>, stancePose: StartPose): MoveReach {
+    const reach: MoveReach = {};
+    Object.values(MOVES).forEach(move => {
+        if (!move.hitbox) return;
+        const { limb, side } = move.hitbox;
+        (side ? [side] : LIMB_SIDES).forEach(limbSide => {
+            const bone = skeleton.bones.find(({ name }) => name === getLimbBone(limb, limbSide));
+            const clip = MOVE_CLIP_FACTORIES[move.animation](skeleton, initialPose, stancePose, {
+                duration: getMoveTotalFrames(move) / SIM_FPS,
+                side: limbSide,
+            });
+            if (!bone || !clip) return;
+            (reach[move.id] ??= {})[limbSide] = measureWithClip(model, clip, mixer =>
+                Array.from({ length: move.active }, (_, activeFrame) => {
+                    mixer.setTime((move.startup + activeFrame) / SIM_FPS);
+                    return measureLimb(model, bone);
+                })
+            );
+        });
+    });
+    return reach;
+}
+
+/**
+ * The body layout of a loaded model, from the end poses of its stance and duck clips, and the
+ * reach of its moves. There's no jump pose, the stance is kept in the air. Null when the model
+ * has no skinned body to measure.
+ */
+export function measureBodyLayout(
+    model: THREE.Object3D,
+    skeleton: THREE.Skeleton,
+    initialPose: Record<string, InitialPoseData>,
+    stanceClip: THREE.AnimationClip,
+    duckClip: THREE.AnimationClip
+): BodyLayout | null {
+    const standing = measureClipEnd(model, stanceClip);
+    const crouching = measureClipEnd(model, duckClip);
+    if (!standing || !crouching) return null;
+    const reach = measureMoveReach(model, skeleton, initialPose, captureClipEnd(model, skeleton, stanceClip));
+    return { standing, crouching, airborne: standing, reach };
+}
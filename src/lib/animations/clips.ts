@@ -708,6 +708,10 @@ export function createDuckPoseClip(
     return new THREE.AnimationClip(clipName, duration, tracks);
 } 
 
+// Crouch block: the duck pose with the arms in the block pose. Used as the stance of
+// createDuckPoseClip, whose bones without a duck target (the arms) hold their stance.
+export const crouchBlockStanceTargets = { ...defaultFightStanceTargets, ...blockTargets };
+
 /**
  * Creates a right kick animation starting from the ducking pose.
  */
@@ -1478,6 +1482,9 @@ export function createLeftPunchClip(
 
 // --- NEW: Fall Backward Animation ---
 
+// Hip rotation of a fighter lying on their back, also the direction hit reactions lean towards
+const FALLEN_HIP_ROTATION = { x: 132, y: -150, z: 180 };
+
 /**
  * Creates a fall backward animation.
  * Starts from a provided startPose (or current), transitions to lying on the back.
@@ -1533,7 +1540,7 @@ export function createFallBackwardClip(
             finalPos.x = startPos.x;
             finalPos.y = startPos.y + 0.9; // Shift "backward" (positive Y) from start Y
             finalPos.z = 0.15;           // <-- INCREASED Z offset to keep body higher
-            tmpEuler.set(deg(132), deg(-150), deg(180), 'XYZ'); // Use user-provided rotation
+            tmpEuler.set(deg(FALLEN_HIP_ROTATION.x), deg(FALLEN_HIP_ROTATION.y), deg(FALLEN_HIP_ROTATION.z), 'XYZ'); // Use user-provided rotation
             finalQuat.setFromEuler(tmpEuler);
         } else {
             // Other bones revert to their initial pose relative to the fallen hip
@@ -1584,6 +1591,59 @@ export function createFallBackwardClip(
     return new THREE.AnimationClip(clipName, duration, tracks);
 }
 
+/**
+ * Creates a hit reaction: the body snaps back (leaning towards the fall backward pose),
+ * then recovers. Starts from startPose and recovers to endTargets where given
+ * (e.g. the fight stance after a hit), else back to the start pose (e.g. a held guard).
+ */
+export function createHitReactionClip(
+    skeleton: THREE.Skeleton | null,
+    initialPose: Record<string, InitialPoseData>,
+    startPose: StartPose,
+    clipName: string = 'HitReaction',
+    duration: number = 0.3,
+    lean: number = 0.15, // Fraction of the way to the fallen hip rotation at the peak
+    endTargets: Record<string, { rotation?: { x?: number; y?: number; z?: number }, eulerOrder?: EulerOrder }> | null = null
+): THREE.AnimationClip | null {
+    if (!skeleton || Object.keys(initialPose).length === 0) {
+        console.warn("[createHitReactionClip] Missing skeleton or initial pose.");
+        return null;
+    }
+
+    const tracks: THREE.KeyframeTrack[] = [];
+    const times = [0, duration * 0.2, duration]; // Start, Peak of the recoil, Recovered
+    const deg = THREE.MathUtils.degToRad;
+    const tmpEuler = new THREE.Euler();
+    const fallenHipQuat = new THREE.Quaternion().setFromEuler(
+        tmpEuler.set(deg(FALLEN_HIP_ROTATION.x), deg(FALLEN_HIP_ROTATION.y), deg(FALLEN_HIP_ROTATION.z), 'XYZ')
+    );
+
+    skeleton.bones.forEach(bone => {
+        const boneName = bone.name;
+        if (!initialPose[boneName]) return;
+
+        const startQuat = startPose[boneName]?.quat.clone() ?? bone.quaternion.clone();
+        const peakQuat = boneName === 'Hip' ? startQuat.clone().slerp(fallenHipQuat, lean) : startQuat.clone();
+
+        const endInfo = endTargets?.[boneName];
+        const endQuat = startQuat.clone();
+        if (endInfo?.rotation && endInfo.eulerOrder) {
+            tmpEuler.set(deg(endInfo.rotation.x ?? 0), deg(endInfo.rotation.y ?? 0), deg(endInfo.rotation.z ?? 0), endInfo.eulerOrder);
+            endQuat.setFromEuler(tmpEuler);
+        }
+
+        const quatValues = [
+            startQuat.x, startQuat.y, startQuat.z, startQuat.w,
+            peakQuat.x, peakQuat.y, peakQuat.z, peakQuat.w,
+            endQuat.x, endQuat.y, endQuat.z, endQuat.w
+        ];
+        tracks.push(new THREE.QuaternionKeyframeTrack(`${boneName}.quaternion`, times, quatValues));
+    });
+
+    if (tracks.length === 0) { console.warn(`[createHitReactionClip] No tracks generated for ${clipName}.`); return null; }
+    return new THREE.AnimationClip(clipName, duration, tracks);
+}
+
 // Define the target pose for the special power preparation (based on screenshot 1)
 export const specialPowerPrepTargets: Record<string, { rotation: { x: number; y: number; z: number }, eulerOrder: EulerOrder }> = {
     // Assume XYZ Order based on Leva screenshot 1
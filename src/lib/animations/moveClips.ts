@@ -0,0 +1,50 @@
+import * as THREE from 'three';
+import type { MoveAnimationId } from '@/lib/combat/types';
+import {
+    createRightPunchClip,
+    createLeftPunchClip,
+    createDuckKickClip,
+    createSpecialPowerThrowClip,
+    defaultFightStanceTargets,
+    type InitialPoseData,
+    type StartPose
+} from './clips';
+
+// Dynamic move clips share this prefix so they can be freed once they finish
+export const MOVE_CLIP_PREFIX = 'Move_';
+
+export interface MoveClipOptions {
+    duration: number; // Seconds, the move's total frames so the animation matches its frame data
+    side: 'right' | 'left'; // Hand for alternating moves
+}
+
+/**
+ * Builds the clip for one move, starting from the pose the fighter is in when the move starts.
+ */
+export type MoveClipFactory = (
+    skeleton: THREE.Skeleton,
+    initialPose: Record<string, InitialPoseData>,
+    startPose: StartPose,
+    options: MoveClipOptions
+) => THREE.AnimationClip | null;
+
+// Special throw timings at their default 3 second length: prep, throw, prep hold, throw hold, return
+const SPECIAL_THROW_PHASES = [0.5, 0.5, 0.5, 1.0, 0.5];
+
+export const MOVE_CLIP_FACTORIES: Record<MoveAnimationId, MoveClipFactory> = {
+    punch: (skeleton, initialPose, startPose, { duration, side }) => side === 'right'
+        ? createRightPunchClip(skeleton, initialPose, defaultFightStanceTargets, startPose, `${MOVE_CLIP_PREFIX}RightPunch`, duration)
+        : createLeftPunchClip(skeleton, initialPose, defaultFightStanceTargets, startPose, `${MOVE_CLIP_PREFIX}LeftPunch`, duration),
+    heavyPunch: (skeleton, initialPose, startPose, { duration }) =>
+        createRightPunchClip(skeleton, initialPose, defaultFightStanceTargets, startPose, `${MOVE_CLIP_PREFIX}HeavyPunch`, duration),
+    // Starts from the duck pose, not the current one
+    duckKick: (skeleton, initialPose, _startPose, { duration }) =>
+        createDuckKickClip(skeleton, initialPose, `${MOVE_CLIP_PREFIX}DuckKick`, duration),
+    jumpPunch: (skeleton, initialPose, startPose, { duration }) =>
+        createLeftPunchClip(skeleton, initialPose, defaultFightStanceTargets, startPose, `${MOVE_CLIP_PREFIX}JumpPunch`, duration),
+    specialPowerThrow: (skeleton, initialPose, startPose, { duration }) => {
+        const scale = duration / SPECIAL_THROW_PHASES.reduce((total, phase) => total + phase, 0);
+        const [prep, toss, prepHold, hold, back] = SPECIAL_THROW_PHASES.map(phase => phase * scale);
+        return createSpecialPowerThrowClip(skeleton, initialPose, startPose, `${MOVE_CLIP_PREFIX}SpecialPowerThrow`, prep, toss, prepHold, hold, back);
+    },
+};
@@ -0,0 +1,95 @@
+import type { AIDifficulty } from '@/lib/ai/difficulty';
+
+// Arcade mode: a ladder of CPU opponents getting harder, then a boss. Losing a stage costs a continue.
+
+export const ARCADE_OPPONENT_COUNT = 5; // Regular opponents before the boss (fewer when there aren't enough characters)
+export const ARCADE_CONTINUES = 3;
+export const ARCADE_CONTINUE_SECONDS = 10; // Countdown on the continue screen
+export const BOSS_DIFFICULTY: AIDifficulty = 'nightmare';
+export const BOSS_HEALTH_MULTIPLIER = 1.5;
+export const BOSS_SCALE = 1.3; // Bigger model, hurtboxes and reach
+
+// Difficulties the regular opponents climb through, spread evenly over the ladder
+const LADDER_DIFFICULTIES: AIDifficulty[] = ['easy', 'normal', 'hard'];
+
+// Points (see scoreStage)
+const VICTORY_POINTS: Record<AIDifficulty, number> = { easy: 10000, normal: 15000, hard: 20000, nightmare: 30000 };
+const BOSS_BONUS = 50000;
+const VITALITY_POINTS = 100; // Per percent of health left
+const TIME_POINTS = 100; // Per second left on the clock
+const PERFECT_BONUS = 30000; // Won the last round without taking a hit
+const ROUND_LOST_PENALTY = 5000;
+
+// A character that can be drawn as an opponent
+export interface LadderCandidate {
+    id: string;
+    wins: number; // Arcade matches won (characters.wins), the most winning character is the boss
+}
+
+export interface ArcadeStage {
+    opponentId: string;
+    difficulty: AIDifficulty;
+    isBoss: boolean;
+}
+
+// How a stage went, from the end of the match
+export interface StageResult {
+    roundsWon: number;
+    roundsLost: number;
+    healthLeft: number; // Share of the player's health left at the end (0-1)
+    timeLeft: number | null; // Seconds left on the clock of the last round, null = untimed
+}
+
+export interface ScoreLine {
+    label: string;
+    points: number;
+}
+
+export const getStageDifficulty = (stageIndex: number, opponentCount: number): AIDifficulty =>
+    LADDER_DIFFICULTIES[Math.min(LADDER_DIFFICULTIES.length - 1, Math.floor((stageIndex * LADDER_DIFFICULTIES.length) / opponentCount))];
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+};
+
+/**
+ * The player's opponents, in order. The boss is the character with the most arcade wins
+ * (a random one of them on a tie), the others are drawn at random and get harder as the ladder climbs.
+ * Empty when there's nobody else to fight.
+ */
+export function buildLadder(candidates: LadderCandidate[], playerId: string, random: () => number = Math.random, opponentCount = ARCADE_OPPONENT_COUNT): ArcadeStage[] {
+    const others = candidates.filter(candidate => candidate.id !== playerId);
+    if (others.length === 0) return [];
+
+    const mostWins = Math.max(...others.map(candidate => candidate.wins));
+    const bosses = others.filter(candidate => candidate.wins === mostWins);
+    const boss = bosses[Math.floor(random() * bosses.length)];
+    const opponents = shuffle(others.filter(candidate => candidate.id !== boss.id), random).slice(0, opponentCount);
+
+    return [
+        ...opponents.map((opponent, index) => ({
+            opponentId: opponent.id,
+            difficulty: getStageDifficulty(index, opponents.length),
+            isBoss: false,
+        })),
+        { opponentId: boss.id, difficulty: BOSS_DIFFICULTY, isBoss: true },
+    ];
+}
+
+// Score tally for a won stage, one line per bonus
+export function scoreStage(stage: ArcadeStage, result: StageResult): ScoreLine[] {
+    const lines: ScoreLine[] = [{ label: 'Victory', points: VICTORY_POINTS[stage.difficulty] }];
+    if (stage.isBoss) lines.push({ label: 'Boss Defeated', points: BOSS_BONUS });
+    lines.push({ label: 'Vitality', points: Math.round(result.healthLeft * 100) * VITALITY_POINTS });
+    if (result.timeLeft !== null) lines.push({ label: 'Time', points: result.timeLeft * TIME_POINTS });
+    if (result.healthLeft >= 1) lines.push({ label: 'Perfect', points: PERFECT_BONUS });
+    if (result.roundsLost > 0) lines.push({ label: 'Rounds Lost', points: -result.roundsLost * ROUND_LOST_PENALTY });
+    return lines;
+}
+
+export const sumScore = (lines: ScoreLine[]): number => lines.reduce((total, line) => total + line.points, 0);
@@ -0,0 +1,45 @@
+import { supabase } from '@/lib/supabase/client';
+import type { ChallengeMode, ChallengeResult } from '@/lib/arcade/results';
+import { TIME_ATTACK_STAGE_COUNT } from '@/lib/arcade/timeAttack';
+
+export const LEADERBOARD_SIZE = 10;
+
+export interface LeaderboardEntry extends ChallengeResult {
+    id: string;
+    characterName: string;
+    createdAt: string;
+}
+
+interface ChallengeResultRow {
+    id: string;
+    created_at: string;
+    character_id: string;
+    mode: ChallengeMode;
+    opponents_beaten: number;
+    time_ms: number;
+    characters: { name: string | null } | null;
+}
+
+// Best runs first: most opponents beaten in survival (then the quickest), quickest full ladder in time attack.
+// Time attack runs of a shorter ladder (saved while there were fewer characters) aren't ranked.
+export async function loadLeaderboard(mode: ChallengeMode, limit = LEADERBOARD_SIZE): Promise<LeaderboardEntry[]> {
+    let query = supabase
+        .from('challenge_results')
+        .select('id, created_at, character_id, mode, opponents_beaten, time_ms, characters(name)')
+        .eq('mode', mode);
+    query = mode === 'survival'
+        ? query.order('opponents_beaten', { ascending: false }).order('time_ms', { ascending: true })
+        : query.eq('opponents_beaten', TIME_ATTACK_STAGE_COUNT).order('time_ms', { ascending: true });
+
+    const { data, error } = await query.limit(limit);
+    if (error) throw error;
+    return ((data ?? []) as unknown as ChallengeResultRow[]).map(row => ({
+        id: row.id,
+        createdAt: row.created_at,
+        characterId: row.character_id,
+        characterName: row.characters?.name ?? '???',
+        mode: row.mode,
+        opponentsBeaten: row.opponents_beaten,
+        timeMs: row.time_ms,
+    }));
+}
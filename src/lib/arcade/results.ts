@@ -0,0 +1,24 @@
+// Finished survival and time attack runs (challenge_results), written through /api/record-result
+
+export type ChallengeMode = 'survival' | 'time-attack';
+
+export const CHALLENGE_MODES: readonly ChallengeMode[] = ['survival', 'time-attack'];
+
+export interface ChallengeResult {
+    characterId: string;
+    mode: ChallengeMode;
+    opponentsBeaten: number;
+    timeMs: number; // Fighting time of the run
+}
+
+export async function recordChallengeResult(result: ChallengeResult): Promise<void> {
+    const response = await fetch('/api/record-result', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(result),
+    });
+    if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to record the result (${response.status})`);
+    }
+}
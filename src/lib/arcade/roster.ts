@@ -0,0 +1,29 @@
+import { loadCompleteCharacters, loadUsableLocations, type RosterCharacter, type RosterLocation } from '@/lib/supabase/roster';
+
+// Everything the single player modes (arcade, survival, time attack) fight with
+export interface ArcadeRoster {
+    characters: Record<string, RosterCharacter>; // By id, complete characters only
+    locations: RosterLocation[];
+}
+
+// All complete characters and usable locations. Throws when the player's fighter isn't
+// one of them or there's nowhere to fight.
+export async function loadArcadeRoster(playerId: string): Promise<ArcadeRoster> {
+    const [completeCharacters, locations] = await Promise.all([loadCompleteCharacters(), loadUsableLocations()]);
+    const characters = Object.fromEntries(completeCharacters.map(character => [character.id, character]));
+
+    if (!characters[playerId]) throw new Error('Your fighter is not ready for the arcade yet.');
+    if (Object.keys(characters).length < 2) throw new Error('No opponents to fight yet, create another character first.');
+    if (locations.length === 0) throw new Error('No locations to fight in yet.');
+    return { characters, locations };
+}
+
+// Counts the match for the winner's character, the most winning one becomes the arcade boss.
+// Fire and forget: a failed count shouldn't stop the run.
+export const recordWin = (characterId: string) => {
+    fetch('/api/record-win', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ characterId }),
+    }).catch(err => console.error(`[Arcade] Failed to record a win for ${characterId}:`, err));
+};
@@ -0,0 +1,27 @@
+import type { AIDifficulty } from '@/lib/ai/difficulty';
+import type { MatchRules } from '@/lib/combat/rounds';
+
+// Survival: one CPU opponent after the other until the player falls. Health carries over
+// between fights, with a bit of it given back after each win.
+
+export const SURVIVAL_MATCH_RULES: MatchRules = { bestOf: 1, roundSeconds: 99 };
+export const SURVIVAL_REGEN = 0.25; // Share of the max health given back after a win
+export const SURVIVAL_WINS_PER_DIFFICULTY = 3; // The CPU gets a notch harder every this many wins
+
+const SURVIVAL_DIFFICULTIES: AIDifficulty[] = ['easy', 'normal', 'hard', 'nightmare'];
+
+export const getSurvivalDifficulty = (wins: number): AIDifficulty =>
+    SURVIVAL_DIFFICULTIES[Math.min(SURVIVAL_DIFFICULTIES.length - 1, Math.floor(wins / SURVIVAL_WINS_PER_DIFFICULTY))];
+
+// Health for the next fight: what was left plus the regen, up to the max
+export const regenerateHealth = (health: number, maxHealth: number): number =>
+    Math.min(maxHealth, health + Math.round(maxHealth * SURVIVAL_REGEN));
+
+// A random opponent, never the player's own character and not the same one twice in a row
+// (unless there's no one else)
+export function pickSurvivalOpponent(candidateIds: string[], playerId: string, previousId: string | null, random: () => number = Math.random): string | null {
+    const others = candidateIds.filter(id => id !== playerId);
+    const fresh = others.filter(id => id !== previousId);
+    const pool = fresh.length > 0 ? fresh : others;
+    return pool.length > 0 ? pool[Math.floor(random() * pool.length)] : null;
+}
@@ -0,0 +1,36 @@
+import type { MatchRules } from '@/lib/combat/rounds';
+import { getStageDifficulty, type ArcadeStage } from '@/lib/arcade/ladder';
+
+// Time attack: the same ladder every run, beaten as fast as possible. The clock only counts
+// fighting time, and a lost stage is fought again with the clock still running.
+
+export const TIME_ATTACK_STAGE_COUNT = 5;
+export const TIME_ATTACK_MATCH_RULES: MatchRules = { bestOf: 1, roundSeconds: null }; // No round clock, the run's clock is what counts
+
+export interface TimeAttackCandidate {
+    id: string;
+    createdAt: string;
+}
+
+// The TIME_ATTACK_STAGE_COUNT oldest characters in creation order, getting harder like the arcade
+// ladder. Every fighter races the same opponents, so the times compare. Empty while there aren't
+// enough characters for a full ladder.
+export function buildTimeAttackLadder(candidates: TimeAttackCandidate[]): ArcadeStage[] {
+    const opponents = [...candidates]
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .slice(0, TIME_ATTACK_STAGE_COUNT);
+    if (opponents.length < TIME_ATTACK_STAGE_COUNT) return [];
+    return opponents.map((opponent, index) => ({
+        opponentId: opponent.id,
+        difficulty: getStageDifficulty(index, opponents.length),
+        isBoss: false,
+    }));
+}
+
+// 83.456 seconds -> 1:23.45
+export function formatRaceTime(seconds: number): string {
+    const hundredths = Math.floor(seconds * 100);
+    const minutes = Math.floor(hundredths / 6000);
+    const secondsPart = Math.floor((hundredths % 6000) / 100);
+    return `${minutes}:${String(secondsPart).padStart(2, '0')}.${String(hundredths % 100).padStart(2, '0')}`;
+}
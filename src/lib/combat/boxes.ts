@@ -0,0 +1,124 @@
+import { PROJECTILE_HIT_RADIUS } from '@/lib/combat/constants';
+import { getCurrentMove, isMoveActiveFrame } from '@/lib/combat/moves';
+import type { BodyBox, BodyLayout, BodyPart, BodyStance, FighterState, LimbPosition, LimbSide, MoveHitbox, ProjectileState } from '@/lib/combat/types';
+
+// Axis-aligned box in world space (x along the stage, y up)
+export interface Box {
+    left: number;
+    right: number;
+    bottom: number;
+    top: number;
+}
+
+// Where the fighter can be hit, named after the rig bone it covers
+export interface Hurtbox extends Box {
+    part: BodyPart;
+    bone: string;
+}
+
+// Where an attack hits, around the limb bone that throws it
+export interface Hitbox extends Box {
+    bone: string;
+}
+
+// Bones of the Tripo rigs each hurtbox stands for (the debug overlay marks them to compare)
+export const HURTBOX_BONES: Record<BodyPart, string> = {
+    head: 'Head',
+    torso: 'Spine02',
+    legs: 'Pelvis',
+};
+
+// Rough boxes of a 1.7 m tall fighter, for fighters whose model wasn't measured (see
+// measureBodyLayout): headless fights, and replays recorded before the layouts were measured.
+// The simulation can't read the animated skeleton, it only gets the numbers through FightConfig.
+// No reach either, the hitboxes sit where the moves put them.
+export const DEFAULT_BODY_LAYOUT: BodyLayout = {
+    standing: {
+        head: { forward: 0.02, halfWidth: 0.1, bottom: 1.45, top: 1.7 },
+        torso: { forward: 0, halfWidth: 0.14, bottom: 0.85, top: 1.45 },
+        legs: { forward: 0, halfWidth: 0.12, bottom: 0, top: 0.85 },
+    },
+    crouching: {
+        head: { forward: 0.08, halfWidth: 0.1, bottom: 0.8, top: 1.0 },
+        torso: { forward: 0.05, halfWidth: 0.16, bottom: 0.45, top: 0.8 },
+        legs: { forward: 0, halfWidth: 0.16, bottom: 0, top: 0.45 },
+    },
+    airborne: {
+        head: { forward: 0.02, halfWidth: 0.1, bottom: 1.3, top: 1.55 },
+        torso: { forward: 0, halfWidth: 0.14, bottom: 0.7, top: 1.3 },
+        legs: { forward: 0, halfWidth: 0.15, bottom: 0.15, top: 0.7 },
+    },
+};
+
+const BODY_PARTS: BodyPart[] = ['head', 'torso', 'legs'];
+
+// Layouts are for a normal sized fighter and grow with fighter.scale
+const toWorldBox = (fighter: FighterState, shape: BodyBox): Box => {
+    const center = fighter.x + shape.forward * fighter.scale * fighter.facing;
+    return {
+        left: center - shape.halfWidth * fighter.scale,
+        right: center + shape.halfWidth * fighter.scale,
+        bottom: fighter.y + shape.bottom * fighter.scale,
+        top: fighter.y + shape.top * fighter.scale,
+    };
+};
+
+export const boxesOverlap = (a: Box, b: Box): boolean =>
+    a.left < b.right && b.left < a.right && a.bottom < b.top && b.bottom < a.top;
+
+// Middle of the part two overlapping boxes share
+export const getOverlapCenter = (a: Box, b: Box): { x: number; y: number } => ({
+    x: (Math.max(a.left, b.left) + Math.min(a.right, b.right)) / 2,
+    y: (Math.max(a.bottom, b.bottom) + Math.min(a.top, b.top)) / 2,
+});
+
+export function getBodyStance(fighter: FighterState): BodyStance {
+    if (!fighter.grounded) return 'airborne';
+    if (fighter.action === 'duck') return 'crouching';
+    if ((fighter.action === 'block' || fighter.action === 'blockstun') && fighter.crouchGuard) return 'crouching';
+    return getCurrentMove(fighter)?.input.stance === 'crouching' ? 'crouching' : 'standing';
+}
+
+export function getHurtboxes(fighter: FighterState): Hurtbox[] {
+    const layout = fighter.body[getBodyStance(fighter)];
+    return BODY_PARTS.map(part => ({ ...toWorldBox(fighter, layout[part]), part, bone: HURTBOX_BONES[part] }));
+}
+
+// Side of the limb that throws the move: its own, or the alternating punch side
+export const getHitboxSide = (fighter: FighterState, hitbox: MoveHitbox): LimbSide => hitbox.side ?? fighter.punchSide;
+
+export const getLimbBone = (limb: MoveHitbox['limb'], side: LimbSide): string =>
+    `${side === 'right' ? 'R' : 'L'}_${limb === 'hand' ? 'Hand' : 'Foot'}`;
+
+export const getHitboxBone = (fighter: FighterState, hitbox: MoveHitbox): string =>
+    getLimbBone(hitbox.limb, getHitboxSide(fighter, hitbox));
+
+// The attacking limb's hitbox, only during the move's active frames. It's centered on the limb bone
+// as measured for that frame on the fighter's model, or where the move puts it when it wasn't measured.
+export function getActiveHitbox(fighter: FighterState): Hitbox | null {
+    const move = getCurrentMove(fighter);
+    if (!move?.hitbox || !isMoveActiveFrame(move, fighter.actionFrame)) return null;
+    const { halfWidth, halfHeight } = move.hitbox;
+    const measured: LimbPosition | undefined = fighter.body.reach?.[move.id]?.[getHitboxSide(fighter, move.hitbox)]?.[fighter.actionFrame - move.startup];
+    const { forward, height } = measured ?? move.hitbox;
+    const { scale } = fighter;
+    const center = fighter.x + forward * scale * fighter.facing;
+    return {
+        left: center - halfWidth * scale,
+        right: center + halfWidth * scale,
+        bottom: fighter.y + (height - halfHeight) * scale,
+        top: fighter.y + (height + halfHeight) * scale,
+        bone: getHitboxBone(fighter, move.hitbox),
+    };
+}
+
+export const getProjectileHitbox = (projectile: ProjectileState): Box => ({
+    left: projectile.x - PROJECTILE_HIT_RADIUS,
+    right: projectile.x + PROJECTILE_HIT_RADIUS,
+    bottom: projectile.y - PROJECTILE_HIT_RADIUS,
+    top: projectile.y + PROJECTILE_HIT_RADIUS,
+});
+
+// The first of the defender's hurtboxes the hitbox touches, if any
+export const findHurtboxHit = (hitbox: Box, defender: FighterState): Hurtbox | null =>
+    getHurtboxes(defender).find(hurtbox => boxesOverlap(hitbox, hurtbox)) ?? null;
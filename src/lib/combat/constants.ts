@@ -0,0 +1,65 @@
+import type { MotionLeniency } from '@/lib/combat/types';
+
+// Fight simulation tuning. Durations are in simulation frames (SIM_FPS per second),
+// speeds in units per second, so results don't depend on the display refresh rate.
+
+export const SIM_FPS = 60;
+export const SIM_DT = 1 / SIM_FPS;
+
+// Converts a duration in seconds to whole simulation frames
+export const secondsToFrames = (seconds: number): number => Math.round(seconds * SIM_FPS);
+
+// --- Stage ---
+export const STAGE_MIN_X = -8;
+export const STAGE_MAX_X = 8;
+export const GROUND_LEVEL = 0;
+export const PLAYER1_START_X = -1.5;
+export const PLAYER2_START_X = 1.5;
+
+// --- Movement ---
+export const WALK_SPEED = 2;
+export const GRAVITY = 9.81 * 2;
+export const JUMP_FORCE = 7;
+export const JUMP_HORIZONTAL_SPEED = 1.8; // Speed for forward/backward jumps
+
+// --- Collision ---
+export const CHARACTER_RADIUS = 0.09;
+export const MIN_SEPARATION = CHARACTER_RADIUS * 2;
+export const VERTICAL_COLLISION_THRESHOLD = 0.5; // Allow jumping over if Y difference > this
+
+// --- Health & Damage (per move damage is in moves.ts) ---
+export const MAX_HEALTH = 1000;
+export const PUSHBACK_SPEED = 3; // How fast a hit fighter slides back
+
+// --- Combos ---
+export const COMBO_SCALING_FROM_HIT = 3; // Combo hits before this one deal full damage
+export const COMBO_SCALING_STEP = 0.1; // Damage lost per combo hit after that
+export const COMBO_MIN_SCALING = 0.3;
+export const MAX_JUGGLE_HITS = 3; // Airborne fighters can't be hit again until they land
+export const JUGGLE_POP_VELOCITY = 3.5; // Upward speed given to a fighter hit in the air
+
+// --- Motion inputs ---
+export const DEFAULT_MOTION_LENIENCY: MotionLeniency = {
+    motionFrames: 20,
+    buttonFrames: 8,
+    chargeFrames: 40,
+};
+export const INPUT_HISTORY_RUNS = 16; // Direction changes kept in a fighter's input buffer
+
+// --- Energy ---
+export const MAX_ENERGY = 100;
+export const ENERGY_REGEN_PER_FRAME = MAX_ENERGY / 30 / SIM_FPS; // Full charge in 30 seconds
+
+// --- Action lengths (matching the animation clips) ---
+export const DUCK_FRAMES = secondsToFrames(0.4); // Going down, then held while duck is pressed
+export const STAND_UP_FRAMES = secondsToFrames(0.6); // Fight stance transition + settle
+export const BLOCK_FRAMES = secondsToFrames(0.3); // Raising the guard, then held while block is pressed
+export const UNBLOCK_FRAMES = secondsToFrames(0.2);
+
+// --- Special projectile ---
+export const PROJECTILE_FORWARD_OFFSET = 0.4; // In front of the launcher's hands
+export const PROJECTILE_LAUNCH_HEIGHT = 0.9;
+export const PROJECTILE_GROWTH_FRAMES = secondsToFrames(0.5); // Grows in place before flying
+export const PROJECTILE_TRAVEL_FRAMES = secondsToFrames(1.5);
+export const PROJECTILE_SPEED = 3;
+export const PROJECTILE_HIT_RADIUS = 0.3; // Half size of its hitbox
@@ -0,0 +1,122 @@
+import { INPUT_HISTORY_RUNS } from '@/lib/combat/constants';
+import type { Direction, DirectionRun, InputState, MotionId, MotionLeniency } from '@/lib/combat/types';
+
+const NEUTRAL: Direction = 5;
+const FORWARD: Direction = 6;
+const BACK_DIRECTIONS: Direction[] = [1, 4, 7]; // Down-back and up-back keep a charge
+
+// Directions of the motions drawn on the stick, charge motions are recognized apart
+const MOTION_SEQUENCES: Record<Exclude<MotionId, 'charge'>, Direction[]> = {
+    qcf: [2, 3, 6],
+    qcb: [2, 1, 4],
+    dp: [6, 2, 3],
+};
+
+// Numpad direction of the input relative to facing (left + right or up + down cancel out)
+export function getInputDirection(input: InputState, facing: 1 | -1): Direction {
+    const forward = facing === 1 ? input.right : input.left;
+    const back = facing === 1 ? input.left : input.right;
+    const horizontal = forward === back ? 0 : forward ? 1 : -1;
+    const vertical = input.jump === input.duck ? 0 : input.jump ? 1 : -1;
+    return (NEUTRAL + horizontal + vertical * 3) as Direction;
+}
+
+// Adds one frame to the input buffer. Directions are stored relative to the facing at the time,
+// like the player thinks of them.
+export function recordDirection(history: DirectionRun[], direction: Direction) {
+    const last = history[history.length - 1];
+    if (last?.direction === direction) {
+        last.frames++;
+        return;
+    }
+    history.push({ direction, frames: 1 });
+    if (history.length > INPUT_HISTORY_RUNS) history.shift();
+}
+
+// The motion's directions in order, the last one held (or released to neutral) no more than
+// buttonFrames ago and the first one no more than motionFrames before it. Other directions
+// in between are forgiven, so rolling the stick through extra diagonals still counts.
+function matchesSequence(history: DirectionRun[], sequence: Direction[], leniency: MotionLeniency): boolean {
+    let step = sequence.length - 1;
+    let age = 0; // Frames since the run being looked at ended
+    let motionEnd: number | null = null;
+    for (let i = history.length - 1; i >= 0 && step >= 0; i--) {
+        const run = history[i];
+        if (run.direction === sequence[step]) {
+            if (motionEnd === null) {
+                if (age > leniency.buttonFrames) return false;
+                motionEnd = age;
+            } else if (age - motionEnd > leniency.motionFrames) {
+                return false;
+            }
+            step--;
+        } else if (motionEnd === null && run.direction !== NEUTRAL) {
+            return false; // The stick already moved on to something else
+        }
+        age += run.frames;
+    }
+    return step < 0;
+}
+
+// Forward (held or released no more than buttonFrames ago) right after back was held for chargeFrames.
+// A short neutral between the two, from going across the stick, still counts.
+function matchesCharge(history: DirectionRun[], leniency: MotionLeniency): boolean {
+    let i = history.length - 1;
+    let age = 0;
+    while (i >= 0 && history[i].direction === NEUTRAL) age += history[i--].frames;
+    if (i < 0 || history[i].direction !== FORWARD || age > leniency.buttonFrames) return false;
+    i--;
+
+    let gap = 0;
+    while (i >= 0 && history[i].direction === NEUTRAL) gap += history[i--].frames;
+    if (gap > leniency.buttonFrames) return false;
+
+    let charged = 0;
+    while (i >= 0 && BACK_DIRECTIONS.includes(history[i].direction)) charged += history[i--].frames;
+    return charged >= leniency.chargeFrames;
+}
+
+// True when the input buffer ends with the motion, ready for the button
+export function matchesMotion(history: DirectionRun[], motion: MotionId, leniency: MotionLeniency): boolean {
+    return motion === 'charge'
+        ? matchesCharge(history, leniency)
+        : matchesSequence(history, MOTION_SEQUENCES[motion], leniency);
+}
+
+/**
+ * Inputs that perform a motion move, one per simulation frame: the directions of the motion
+ * relative to `facing` (each held `framesPerDirection` frames), then the button with the
+ * last direction still held. Used by the AI, which plays motions like a player would.
+ */
+export function getMotionInputs(
+    motion: MotionId,
+    button: 'punch' | 'special',
+    facing: 1 | -1,
+    leniency: MotionLeniency,
+    framesPerDirection = 2
+): InputState[] {
+    const directions: Direction[] = motion === 'charge'
+        ? [...Array(leniency.chargeFrames).fill(4), FORWARD]
+        : MOTION_SEQUENCES[motion];
+    const inputs = directions.flatMap(direction => {
+        const frames = motion === 'charge' && direction !== FORWARD ? 1 : framesPerDirection;
+        return Array.from({ length: frames }, () => getDirectionInput(direction, facing));
+    });
+    inputs.push({ ...inputs[inputs.length - 1], [button]: true });
+    return inputs;
+}
+
+// The input that holds a direction relative to facing
+export function getDirectionInput(direction: Direction, facing: 1 | -1): InputState {
+    const horizontal = ((direction - 1) % 3) - 1; // -1 back, 0, 1 forward
+    const vertical = Math.floor((direction - 1) / 3) - 1; // -1 down, 0, 1 up
+    return {
+        left: horizontal === -facing,
+        right: horizontal === facing,
+        punch: false,
+        duck: vertical === -1,
+        block: false,
+        jump: vertical === 1,
+        special: false,
+    };
+}
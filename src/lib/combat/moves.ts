@@ -0,0 +1,182 @@
+import { matchesMotion } from '@/lib/combat/motions';
+import type { FighterState, InputState, MotionLeniency, MoveDefinition, MoveId } from '@/lib/combat/types';
+
+// Every attack in the game. Frame counts are simulation frames (SIM_FPS per second),
+// distances are in world units like the rest of the simulation.
+// Adding a move = adding an entry here (plus a clip factory for its animation id).
+export const MOVES: Record<MoveId, MoveDefinition> = {
+    jab: {
+        id: 'jab',
+        name: 'Jab',
+        input: { button: 'punch', stance: 'standing' },
+        animation: 'punch', // Alternates right and left hands
+        startup: 10,
+        active: 6,
+        recovery: 20,
+        damage: 20,
+        chipDamage: 2,
+        hitstun: 20,
+        blockstun: 8,
+        pushback: 0.06,
+        height: 'high',
+        hitbox: { limb: 'hand', forward: 0.34, height: 1.3, halfWidth: 0.06, halfHeight: 0.08 }, // Hand of the current punch side
+        cancelInto: ['jab', 'heavyPunch'], // Jab strings until pushback takes the opponent out of reach
+    },
+    heavyPunch: {
+        id: 'heavyPunch',
+        name: 'Heavy Punch',
+        input: { button: 'punch', stance: 'standing', direction: 'forward' },
+        animation: 'heavyPunch',
+        startup: 15,
+        active: 6,
+        recovery: 27,
+        damage: 45,
+        chipDamage: 5,
+        hitstun: 20,
+        blockstun: 14,
+        pushback: 0.35,
+        height: 'mid',
+        hitbox: { limb: 'hand', side: 'right', forward: 0.36, height: 1.0, halfWidth: 0.08, halfHeight: 0.1 },
+    },
+    duckKick: {
+        id: 'duckKick',
+        name: 'Duck Kick',
+        input: { button: 'punch', stance: 'crouching' },
+        animation: 'duckKick',
+        startup: 16,
+        active: 8,
+        recovery: 24,
+        damage: 25,
+        chipDamage: 2,
+        hitstun: 22,
+        blockstun: 10,
+        pushback: 0.12,
+        height: 'low',
+        hitbox: { limb: 'foot', side: 'right', forward: 0.42, height: 0.12, halfWidth: 0.08, halfHeight: 0.1 },
+        endsCrouched: true,
+        cancelInto: ['duckKick'],
+    },
+    jumpPunch: {
+        id: 'jumpPunch',
+        name: 'Jump Punch',
+        input: { button: 'punch', stance: 'airborne' },
+        animation: 'jumpPunch',
+        startup: 6,
+        active: 12,
+        recovery: 18, // Cut short by landing
+        damage: 30,
+        chipDamage: 3,
+        hitstun: 18,
+        blockstun: 12,
+        pushback: 0.25,
+        height: 'overhead', // Has to be blocked standing
+        hitbox: { limb: 'hand', side: 'left', forward: 0.3, height: 0.6, halfWidth: 0.1, halfHeight: 0.3 }, // Punching down
+    },
+    specialPower: {
+        id: 'specialPower',
+        name: 'Special Power',
+        input: { button: 'punch', stance: 'standing', motion: 'qcf' },
+        shortcut: 'special',
+        animation: 'specialPowerThrow',
+        startup: 0,
+        active: 1,
+        recovery: 179,
+        damage: 100,
+        chipDamage: 20,
+        hitstun: 30,
+        blockstun: 20,
+        pushback: 0.4,
+        height: 'mid',
+        energyCost: 50,
+        projectile: true,
+    },
+    risingPunch: {
+        id: 'risingPunch',
+        name: 'Rising Punch',
+        input: { button: 'punch', stance: 'standing', motion: 'dp' },
+        animation: 'heavyPunch',
+        startup: 5,
+        active: 10,
+        recovery: 36, // Punishable when it whiffs
+        damage: 70,
+        chipDamage: 7,
+        hitstun: 26,
+        blockstun: 18,
+        pushback: 0.3,
+        height: 'mid',
+        hitbox: { limb: 'hand', side: 'right', forward: 0.28, height: 1.55, halfWidth: 0.12, halfHeight: 0.3 }, // Up high, an anti-air
+    },
+};
+
+// Checked in this order, so the more specific inputs (with a direction) come before the plain ones
+const MOVE_MATCH_ORDER: MoveId[] = ['heavyPunch', 'jab', 'duckKick', 'jumpPunch'];
+
+// Motion moves, checked before the others. A dragon punch ends like half a quarter circle, so it goes first.
+const SPECIAL_MATCH_ORDER: MoveId[] = ['risingPunch', 'specialPower'];
+
+// Move the fighter is performing, null when not attacking
+export const getCurrentMove = (fighter: FighterState): MoveDefinition | null =>
+    fighter.action === 'attack' && fighter.move ? MOVES[fighter.move] : null;
+
+export const getMoveTotalFrames = (move: MoveDefinition): number => move.startup + move.active + move.recovery;
+
+// frame = frames since the move started (FighterState.actionFrame)
+export const isMoveActiveFrame = (move: MoveDefinition, frame: number): boolean =>
+    frame >= move.startup && frame < move.startup + move.active;
+
+const getStance = (fighter: FighterState, isCrouching: boolean): MoveDefinition['input']['stance'] =>
+    !fighter.grounded ? 'airborne' : isCrouching ? 'crouching' : 'standing';
+
+const canAfford = (fighter: FighterState, move: MoveDefinition): boolean =>
+    (!move.projectile || fighter.canUseSpecial) && (move.energyCost === undefined || fighter.energy >= move.energyCost);
+
+export const isSpecialMove = (move: MoveDefinition): boolean => move.input.motion !== undefined;
+
+// The motion move the input buffer and a fresh button press ask for (or its shortcut button, in its stance).
+// Motions go through crouched directions, so on the ground they work from a duck too.
+export function findSpecialMove(fighter: FighterState, input: InputState, isCrouching: boolean, leniency: MotionLeniency): MoveDefinition | null {
+    const stance = getStance(fighter, isCrouching);
+    for (const id of SPECIAL_MATCH_ORDER) {
+        const move = MOVES[id];
+        const { button, motion } = move.input;
+        if (!motion || !canAfford(fighter, move)) continue;
+        const isAirMove = move.input.stance === 'airborne';
+        const pressed = input[button] && !fighter.heldButtons[button];
+        if (isAirMove === !fighter.grounded && pressed && matchesMotion(fighter.inputHistory, motion, leniency)) return move;
+        if (move.shortcut && input[move.shortcut] && move.input.stance === stance) return move;
+    }
+    return null;
+}
+
+// The move the fighter's input asks for in their current stance, if they can afford it
+export function findMoveForInput(fighter: FighterState, input: InputState, isCrouching: boolean, leniency: MotionLeniency): MoveDefinition | null {
+    const special = findSpecialMove(fighter, input, isCrouching, leniency);
+    if (special) return special;
+
+    const stance = getStance(fighter, isCrouching);
+    const holdingForward = fighter.facing === 1 ? input.right : input.left;
+    const holdingBack = fighter.facing === 1 ? input.left : input.right;
+
+    for (const id of MOVE_MATCH_ORDER) {
+        const move = MOVES[id];
+        if (!input[move.input.button] || move.input.stance !== stance) continue;
+        if (move.input.direction === 'forward' && !holdingForward) continue;
+        if (move.input.direction === 'back' && !holdingBack) continue;
+        if (!canAfford(fighter, move)) continue;
+        return move;
+    }
+    return null;
+}
+
+// A move the current one can be cancelled into: it already connected and the button is freshly pressed
+export function findCancelMove(fighter: FighterState, input: InputState, leniency: MotionLeniency): MoveDefinition | null {
+    const current = getCurrentMove(fighter);
+    if (!current?.cancelInto || !fighter.hitConfirmed) return null;
+    const pressed = {
+        ...input,
+        punch: input.punch && !fighter.heldButtons.punch,
+        special: input.special && !fighter.heldButtons.special,
+    };
+    const next = findMoveForInput(fighter, pressed, current.input.stance === 'crouching' && input.duck, leniency);
+    return next && current.cancelInto.includes(next.id) ? next : null;
+}
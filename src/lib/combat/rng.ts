@@ -0,0 +1,23 @@
+// Seedable RNG for the fight simulation (mulberry32).
+// The whole generator state is a single uint32 so it can live inside FightState
+// and be copied with it: same seed + same inputs = same fight.
+export interface RngState {
+    state: number;
+}
+
+export const createRng = (seed: number): RngState => ({ state: seed >>> 0 });
+
+// Float in [0, 1), advances the generator
+export function nextRandom(rng: RngState): number {
+    rng.state = (rng.state + 0x6D2B79F5) >>> 0;
+    let t = rng.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Integer in [0, maxExclusive)
+export const nextInt = (rng: RngState, maxExclusive: number): number => Math.floor(nextRandom(rng) * maxExclusive);
+
+// Fresh seed for a new fight (the only non-deterministic call, made once outside the simulation)
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
@@ -0,0 +1,77 @@
+import type { FighterIndex } from '@/lib/combat/types';
+
+// Match format: how many rounds and how long each one lasts
+export interface MatchRules {
+    bestOf: number; // Odd number of rounds, first to win the majority takes the match
+    roundSeconds: number | null; // Round clock, null = no time limit
+}
+
+export const BEST_OF_OPTIONS = [1, 3, 5] as const;
+export const DEFAULT_MATCH_RULES: MatchRules = { bestOf: 3, roundSeconds: 99 };
+
+export type RoundEndReason = 'ko' | 'doubleKo' | 'timeOver';
+
+export interface RoundResult {
+    winner: FighterIndex | null; // null = draw
+    reason: RoundEndReason;
+}
+
+export interface MatchOutcome {
+    finished: boolean;
+    winner: FighterIndex | null; // null while running, or for a drawn match
+}
+
+export const roundsToWin = (bestOf: number): number => Math.floor(bestOf / 2) + 1;
+
+// Reads the match format from the fight URL (?rounds=5&time=60), falling back to the defaults
+export function parseMatchRules(rounds: string | null, time: string | null): MatchRules {
+    const bestOf = Number(rounds);
+    const roundSeconds = Number(time);
+    return {
+        bestOf: (BEST_OF_OPTIONS as readonly number[]).includes(bestOf) ? bestOf : DEFAULT_MATCH_RULES.bestOf,
+        roundSeconds: time === null || !Number.isFinite(roundSeconds) || roundSeconds < 0
+            ? DEFAULT_MATCH_RULES.roundSeconds
+            : roundSeconds === 0 ? null : Math.floor(roundSeconds),
+    };
+}
+
+/**
+ * Decides a finished round from the fighters' health, or returns null while it's still on.
+ * A KO wins outright, both KO'd in the same frame is a draw. When time runs out the
+ * fighter with the larger share of their health left wins, an exact tie is a draw.
+ */
+export function resolveRound(health: [number, number], maxHealth: [number, number], timeOver: boolean): RoundResult | null {
+    const knockedOut = health.map(value => value <= 0);
+    if (knockedOut[0] && knockedOut[1]) return { winner: null, reason: 'doubleKo' };
+    if (knockedOut[0]) return { winner: 1, reason: 'ko' };
+    if (knockedOut[1]) return { winner: 0, reason: 'ko' };
+    if (!timeOver) return null;
+
+    const p1Share = health[0] / maxHealth[0];
+    const p2Share = health[1] / maxHealth[1];
+    if (p1Share === p2Share) return { winner: null, reason: 'timeOver' };
+    return { winner: p1Share > p2Share ? 0 : 1, reason: 'timeOver' };
+}
+
+// Round wins per fighter. A drawn round counts for both, so draws can't stretch a match forever.
+export function countRoundWins(results: RoundResult[]): [number, number] {
+    return results.reduce<[number, number]>(
+        ([p1, p2], result) => [
+            p1 + (result.winner !== 1 ? 1 : 0),
+            p2 + (result.winner !== 0 ? 1 : 0),
+        ],
+        [0, 0],
+    );
+}
+
+// The match ends once someone reaches the winning round count; both reaching it together is a drawn match
+export function getMatchOutcome(results: RoundResult[], rules: MatchRules): MatchOutcome {
+    const target = roundsToWin(rules.bestOf);
+    const [p1Wins, p2Wins] = countRoundWins(results);
+    const p1Done = p1Wins >= target;
+    const p2Done = p2Wins >= target;
+    if (p1Done && p2Done) return { finished: true, winner: null };
+    if (p1Done) return { finished: true, winner: 0 };
+    if (p2Done) return { finished: true, winner: 1 };
+    return { finished: false, winner: null };
+}
@@ -0,0 +1,436 @@
+import {
+    BLOCK_FRAMES,
+    COMBO_MIN_SCALING,
+    COMBO_SCALING_FROM_HIT,
+    COMBO_SCALING_STEP,
+    DEFAULT_MOTION_LENIENCY,
+    DUCK_FRAMES,
+    ENERGY_REGEN_PER_FRAME,
+    GRAVITY,
+    GROUND_LEVEL,
+    JUMP_FORCE,
+    JUMP_HORIZONTAL_SPEED,
+    JUGGLE_POP_VELOCITY,
+    MAX_ENERGY,
+    MAX_HEALTH,
+    MAX_JUGGLE_HITS,
+    MIN_SEPARATION,
+    PROJECTILE_FORWARD_OFFSET,
+    PROJECTILE_GROWTH_FRAMES,
+    PROJECTILE_LAUNCH_HEIGHT,
+    PROJECTILE_SPEED,
+    PROJECTILE_TRAVEL_FRAMES,
+    PUSHBACK_SPEED,
+    SIM_DT,
+    STAGE_MAX_X,
+    STAGE_MIN_X,
+    STAND_UP_FRAMES,
+    UNBLOCK_FRAMES,
+    VERTICAL_COLLISION_THRESHOLD,
+    WALK_SPEED,
+} from '@/lib/combat/constants';
+import { createRng, nextInt } from '@/lib/combat/rng';
+import { MOVES, findCancelMove, findMoveForInput, findSpecialMove, getCurrentMove, getMoveTotalFrames, isSpecialMove } from '@/lib/combat/moves';
+import { getInputDirection, recordDirection } from '@/lib/combat/motions';
+import { DEFAULT_BODY_LAYOUT, findHurtboxHit, getActiveHitbox, getOverlapCenter, getProjectileHitbox } from '@/lib/combat/boxes';
+import type {
+    FightConfig,
+    FightEvent,
+    FightState,
+    FighterAction,
+    FighterConfig,
+    FighterIndex,
+    FighterState,
+    InputState,
+    MoveDefinition,
+    MoveId,
+} from '@/lib/combat/types';
+
+// Range of FightEvent.variant, callers pick e.g. a sound with variant % sounds.length
+const EVENT_VARIANTS = 1 << 16;
+
+const NO_INPUT: InputState = { left: false, right: false, punch: false, duck: false, block: false, jump: false, special: false };
+
+// Actions that run for a fixed number of frames, then hand over to the next one
+// (attacks last as long as their move, stuns as long as the hit that caused them)
+const ACTION_LENGTHS: Partial<Record<FighterAction, number>> = {
+    standUp: STAND_UP_FRAMES,
+    unblock: UNBLOCK_FRAMES,
+};
+
+const createFighter = ({ startX, facing, canUseSpecial, maxHealth = MAX_HEALTH, scale = 1, startHealth = maxHealth, body = DEFAULT_BODY_LAYOUT }: FighterConfig): FighterState => ({
+    x: startX,
+    y: GROUND_LEVEL,
+    vx: 0,
+    vy: 0,
+    facing,
+    grounded: true,
+    health: Math.min(startHealth, maxHealth),
+    energy: MAX_ENERGY,
+    action: 'idle',
+    actionFrame: 0,
+    actionStartFrame: 0,
+    move: null,
+    stunFrames: 0,
+    pushback: 0,
+    hitConfirmed: false,
+    crouchGuard: false,
+    comboHits: 0,
+    juggleHits: 0,
+    heldButtons: { punch: false, special: false },
+    inputHistory: [],
+    punchSide: 'left', // Flipped before the first punch, which is a right
+    canUseSpecial,
+    maxHealth,
+    scale,
+    body,
+});
+
+export function createFightState({ seed, fighters, roundFrames = null, motionLeniency }: FightConfig): FightState {
+    return {
+        frame: 0,
+        rng: createRng(seed),
+        fighters: [createFighter(fighters[0]), createFighter(fighters[1])],
+        projectiles: [],
+        nextProjectileId: 0,
+        timerFrames: roundFrames,
+        motionLeniency: { ...DEFAULT_MOTION_LENIENCY, ...motionLeniency },
+    };
+}
+
+// Fresh fighters for the next round of a match. The RNG carries on from the previous
+// round, so a whole match replays from its first seed.
+export function createNextRoundState(previous: FightState, config: Omit<FightConfig, 'seed'>): FightState {
+    const state = createFightState({ ...config, seed: 0 });
+    state.rng = { ...previous.rng };
+    return state;
+}
+
+const cloneFighter = (fighter: FighterState): FighterState => ({
+    ...fighter,
+    heldButtons: { ...fighter.heldButtons },
+    inputHistory: fighter.inputHistory.map(run => ({ ...run })),
+});
+
+// Deep copy, e.g. to keep a snapshot to rewind to
+export function cloneFightState(state: FightState): FightState {
+    return {
+        frame: state.frame,
+        rng: { ...state.rng },
+        fighters: [cloneFighter(state.fighters[0]), cloneFighter(state.fighters[1])],
+        projectiles: state.projectiles.map(projectile => ({ ...projectile })),
+        nextProjectileId: state.nextProjectileId,
+        timerFrames: state.timerFrames,
+        motionLeniency: { ...state.motionLeniency },
+    };
+}
+
+export const isFightOver = (state: FightState): boolean => state.fighters.some(fighter => fighter.health <= 0);
+
+export const isTimeOver = (state: FightState): boolean => state.timerFrames === 0;
+
+// A KO or the clock running out ends the round
+export const isRoundOver = (state: FightState): boolean => isFightOver(state) || isTimeOver(state);
+
+// True while the fighter can't start anything else
+export function isActionLocked(fighter: FighterState): boolean {
+    switch (fighter.action) {
+        case 'idle':
+        case 'walk':
+            return false;
+        case 'duck':
+            return fighter.actionFrame < DUCK_FRAMES;
+        case 'block':
+            return fighter.actionFrame < BLOCK_FRAMES;
+        default:
+            return true;
+    }
+}
+
+export const isAttackAction = (action: FighterAction): boolean => action === 'attack';
+
+const setAction = (state: FightState, fighter: FighterState, action: FighterAction, actionFrame = 0, move: MoveId | null = null) => {
+    fighter.action = action;
+    fighter.actionFrame = actionFrame;
+    fighter.actionStartFrame = state.frame;
+    fighter.move = move;
+    fighter.hitConfirmed = false;
+};
+
+const getActionLength = (fighter: FighterState): number | undefined => {
+    const move = getCurrentMove(fighter);
+    if (move) return getMoveTotalFrames(move);
+    if (fighter.action === 'hitstun' || fighter.action === 'blockstun') return fighter.stunFrames;
+    return ACTION_LENGTHS[fighter.action];
+};
+
+// Ends fixed length actions once their frames have played
+const advanceAction = (state: FightState, fighter: FighterState) => {
+    fighter.actionFrame++;
+    if (fighter.action === 'hitstun' && !fighter.grounded) return; // Juggled fighters stay stunned until they land
+    const length = getActionLength(fighter);
+    if (length === undefined || fighter.actionFrame < length) return;
+    if (getCurrentMove(fighter)?.endsCrouched) {
+        setAction(state, fighter, 'duck', DUCK_FRAMES); // Still crouched after e.g. a duck kick
+    } else if (fighter.action === 'blockstun') {
+        setAction(state, fighter, 'block', BLOCK_FRAMES); // Guard stays up, releasing block lowers it as usual
+    } else {
+        setAction(state, fighter, 'idle');
+    }
+};
+
+const startMove = (state: FightState, index: FighterIndex, move: MoveDefinition, events: FightEvent[]) => {
+    const fighter = state.fighters[index];
+    setAction(state, fighter, 'attack', 0, move.id);
+    if (move.energyCost !== undefined) fighter.energy -= move.energyCost;
+    if (move.animation === 'punch') fighter.punchSide = fighter.punchSide === 'right' ? 'left' : 'right';
+    if (move.projectile) events.push({ type: 'special', fighter: index, variant: nextInt(state.rng, EVENT_VARIANTS) });
+};
+
+const launchProjectile = (state: FightState, index: FighterIndex, move: MoveDefinition, events: FightEvent[]) => {
+    const fighter = state.fighters[index];
+    const projectile = {
+        id: state.nextProjectileId++,
+        owner: index,
+        move: move.id,
+        x: fighter.x + fighter.facing * PROJECTILE_FORWARD_OFFSET * fighter.scale,
+        y: fighter.y + PROJECTILE_LAUNCH_HEIGHT * fighter.scale,
+        direction: fighter.facing,
+        frame: 0,
+    };
+    state.projectiles.push(projectile);
+    events.push({ type: 'projectileSpawned', projectileId: projectile.id });
+};
+
+// Priority: Special moves > Block/Duck > Punch moves. A move that connected can be cancelled into its follow-ups.
+// Motion specials also cut into going down or standing up, which their motions pass through.
+const applyActionInput = (state: FightState, index: FighterIndex, input: InputState, events: FightEvent[]) => {
+    const fighter = state.fighters[index];
+    const locked = isActionLocked(fighter);
+    const isBlocking = fighter.action === 'block';
+    const isDucking = fighter.action === 'duck';
+    const canInterrupt = isDucking || fighter.action === 'standUp';
+    const special = locked && canInterrupt ? findSpecialMove(fighter, input, isDucking, state.motionLeniency) : null;
+    const move = special ?? (isBlocking ? null
+        : locked ? findCancelMove(fighter, input, state.motionLeniency)
+        : findMoveForInput(fighter, input, isDucking, state.motionLeniency));
+
+    if (move && isSpecialMove(move)) {
+        startMove(state, index, move, events);
+    } else if (input.block && !isBlocking && !locked) {
+        fighter.crouchGuard = input.duck;
+        setAction(state, fighter, 'block', isDucking ? BLOCK_FRAMES : 0); // Already low when ducking, only the arms come up
+    } else if (input.block && isBlocking && !locked && input.duck !== fighter.crouchGuard) {
+        // Switching between standing and crouching guard keeps the guard up
+        fighter.crouchGuard = input.duck;
+        setAction(state, fighter, 'block', BLOCK_FRAMES);
+    } else if (!input.block && isBlocking && !locked) {
+        // Letting go of block while crouched stays crouched (or stands up when down is released too)
+        if (fighter.crouchGuard && input.duck) setAction(state, fighter, 'duck', DUCK_FRAMES);
+        else setAction(state, fighter, fighter.crouchGuard ? 'standUp' : 'unblock');
+    } else if (input.duck && !isDucking && !isBlocking && !locked) {
+        setAction(state, fighter, 'duck');
+    } else if (!input.duck && isDucking && !locked) {
+        setAction(state, fighter, 'standUp');
+    } else if (move) {
+        startMove(state, index, move, events);
+    }
+
+    // Projectile moves throw on their first active frame
+    const currentMove = getCurrentMove(fighter);
+    if (currentMove?.projectile && fighter.actionFrame === currentMove.startup) {
+        launchProjectile(state, index, currentMove, events);
+    }
+    fighter.heldButtons = { punch: input.punch, special: input.special };
+};
+
+const applyMovement = (state: FightState, index: FighterIndex, input: InputState, events: FightEvent[]) => {
+    const fighter = state.fighters[index];
+    const canMove = fighter.grounded && (fighter.action === 'idle' || fighter.action === 'walk');
+
+    // Horizontal movement (only on the ground, airborne fighters keep their jump speed)
+    if (fighter.grounded) {
+        fighter.vx = canMove && (input.left || input.right) ? (input.left ? -WALK_SPEED : WALK_SPEED) : 0;
+    }
+
+    // Jump
+    if (input.jump && canMove) {
+        fighter.vy = JUMP_FORCE;
+        fighter.vx = input.left ? -JUMP_HORIZONTAL_SPEED : input.right ? JUMP_HORIZONTAL_SPEED : 0;
+        events.push({ type: 'jump', fighter: index, variant: nextInt(state.rng, EVENT_VARIANTS) });
+    }
+
+    // Walk/idle follow the horizontal speed on the ground
+    if (fighter.action === 'idle' || fighter.action === 'walk') {
+        const nextAction = fighter.grounded && fighter.vy <= 0 && fighter.vx !== 0 ? 'walk' : 'idle';
+        if (nextAction !== fighter.action) setAction(state, fighter, nextAction);
+    }
+
+    // Gravity
+    if (!fighter.grounded || fighter.vy > 0) {
+        fighter.vy -= GRAVITY * SIM_DT;
+    }
+
+    // Stage boundaries: stop horizontal movement if the next step is out of bounds
+    const nextX = fighter.x + fighter.vx * SIM_DT;
+    if (nextX <= STAGE_MIN_X || nextX >= STAGE_MAX_X) {
+        fighter.vx = 0;
+    }
+
+    fighter.x += fighter.vx * SIM_DT;
+    fighter.y += fighter.vy * SIM_DT;
+
+    // Sliding back from a hit
+    if (fighter.pushback !== 0) {
+        const slide = Math.sign(fighter.pushback) * Math.min(Math.abs(fighter.pushback), PUSHBACK_SPEED * SIM_DT);
+        fighter.pushback -= slide;
+        fighter.x = Math.min(STAGE_MAX_X, Math.max(STAGE_MIN_X, fighter.x + slide));
+    }
+
+    // Ground collision
+    if (fighter.y <= GROUND_LEVEL && fighter.vy <= 0) {
+        // Landing ends an air attack
+        if (!fighter.grounded && getCurrentMove(fighter)?.input.stance === 'airborne') {
+            setAction(state, fighter, 'idle');
+        }
+        fighter.y = GROUND_LEVEL;
+        fighter.vy = 0;
+        fighter.grounded = true;
+        fighter.juggleHits = 0;
+    } else {
+        fighter.grounded = false;
+    }
+};
+
+// Pushes overlapping fighters apart (unless one is high enough to jump over the other)
+const separateFighters = (state: FightState) => {
+    const [p1, p2] = state.fighters;
+    const distX = Math.abs(p1.x - p2.x);
+    const distY = Math.abs(p1.y - p2.y);
+    const separation = MIN_SEPARATION * (p1.scale + p2.scale) / 2; // Bigger fighters take more room
+    if (distX >= separation || distY >= VERTICAL_COLLISION_THRESHOLD) return;
+
+    p1.vx = 0;
+    p2.vx = 0;
+    const midPointX = (p1.x + p2.x) / 2;
+    const directionP1 = Math.sign(p1.x - p2.x) || -p1.facing;
+    p1.x = Math.min(STAGE_MAX_X, Math.max(STAGE_MIN_X, midPointX + directionP1 * separation / 2));
+    p2.x = Math.min(STAGE_MAX_X, Math.max(STAGE_MIN_X, midPointX - directionP1 * separation / 2));
+};
+
+const faceOpponents = (state: FightState) => {
+    const [p1, p2] = state.fighters;
+    if (p1.x === p2.x) return;
+    p1.facing = p2.x > p1.x ? 1 : -1;
+    p2.facing = p1.x > p2.x ? 1 : -1;
+};
+
+// Damage multiplier for the nth hit of a combo
+export const getComboScaling = (comboHits: number): number =>
+    Math.max(COMBO_MIN_SCALING, 1 - Math.max(0, comboHits - COMBO_SCALING_FROM_HIT + 1) * COMBO_SCALING_STEP);
+
+// Damage, stun and pushback for a hit (or chip damage and blockstun when blocked).
+// A standing guard stops everything but lows, a crouching guard everything but overheads.
+const applyHit = (state: FightState, attacker: FighterIndex, move: MoveDefinition, guarding: boolean, source: 'melee' | 'projectile', direction: 1 | -1, contact: { x: number; y: number }, events: FightEvent[]) => {
+    const defender: FighterIndex = attacker === 0 ? 1 : 0;
+    const target = state.fighters[defender];
+    const blocked = guarding && move.height !== (target.crouchGuard ? 'overhead' : 'low');
+    if (!blocked) {
+        target.comboHits = target.action === 'hitstun' ? target.comboHits + 1 : 1;
+        if (!target.grounded) {
+            target.juggleHits++;
+            target.vy = JUGGLE_POP_VELOCITY;
+        }
+    }
+    const damage = blocked ? move.chipDamage : Math.max(1, Math.round(move.damage * getComboScaling(target.comboHits)));
+    target.health = Math.max(0, target.health - damage);
+    setAction(state, target, blocked ? 'blockstun' : 'hitstun');
+    target.stunFrames = blocked ? move.blockstun : move.hitstun;
+    target.pushback = direction * move.pushback;
+    events.push({ type: 'hit', attacker, defender, move: move.id, damage, blocked, guardBroken: guarding && !blocked, comboHits: blocked ? 0 : target.comboHits, source, contact, variant: nextInt(state.rng, EVENT_VARIANTS) });
+};
+
+const isGuarding = (fighter: FighterState): boolean => fighter.action === 'block' || fighter.action === 'blockstun';
+
+// Airborne fighters can only be juggled a few times before they have to land
+const canBeHit = (fighter: FighterState): boolean => fighter.grounded || fighter.juggleHits < MAX_JUGGLE_HITS;
+
+// Moves land once, when the attacking limb's hitbox touches one of the opponent's hurtboxes.
+// Both sides are checked before any damage is applied so a trade hits both fighters.
+const resolveMeleeHits = (state: FightState, events: FightEvent[]) => {
+    const landed: { attacker: FighterIndex; move: MoveDefinition; guarding: boolean; direction: 1 | -1; contact: { x: number; y: number } }[] = [];
+    ([0, 1] as FighterIndex[]).forEach(attackerIndex => {
+        const attacker = state.fighters[attackerIndex];
+        const defender = state.fighters[attackerIndex === 0 ? 1 : 0];
+        const move = getCurrentMove(attacker);
+        const hitbox = getActiveHitbox(attacker);
+        if (!move || !hitbox || attacker.hitConfirmed || !canBeHit(defender)) return;
+        const hurtbox = findHurtboxHit(hitbox, defender);
+        if (!hurtbox) return;
+        attacker.hitConfirmed = true;
+        landed.push({ attacker: attackerIndex, move, guarding: isGuarding(defender), direction: attacker.facing, contact: getOverlapCenter(hitbox, hurtbox) });
+    });
+    landed.forEach(hit => applyHit(state, hit.attacker, hit.move, hit.guarding, 'melee', hit.direction, hit.contact, events));
+};
+
+// Projectiles grow in place, then fly straight until they hit the opponent or run out of time
+const updateProjectiles = (state: FightState, canHit: boolean, events: FightEvent[]) => {
+    state.projectiles = state.projectiles.filter(projectile => {
+        projectile.frame++;
+        if (projectile.frame <= PROJECTILE_GROWTH_FRAMES) return true;
+
+        projectile.x += projectile.direction * PROJECTILE_SPEED * SIM_DT;
+        const target = state.fighters[projectile.owner === 0 ? 1 : 0];
+        const hitbox = getProjectileHitbox(projectile);
+        const hurtbox = canHit && canBeHit(target) ? findHurtboxHit(hitbox, target) : null;
+        if (hurtbox) {
+            applyHit(state, projectile.owner, MOVES[projectile.move], isGuarding(target), 'projectile', projectile.direction, getOverlapCenter(hitbox, hurtbox), events);
+        }
+        const expired = projectile.frame > PROJECTILE_GROWTH_FRAMES + PROJECTILE_TRAVEL_FRAMES;
+        if (hurtbox || expired) {
+            events.push({ type: 'projectileRemoved', projectileId: projectile.id });
+            return false;
+        }
+        return true;
+    });
+};
+
+/**
+ * Advances the fight by one fixed frame (SIM_DT) and returns what happened.
+ * Mutates `state`; the result only depends on the state and the inputs, so the
+ * same seed and input sequence always plays out the same fight.
+ * Once a fighter is KO'd or time is over, inputs are ignored and nothing can hit
+ * anymore, but physics keep running so airborne fighters land.
+ */
+export function stepFight(state: FightState, inputs: [InputState, InputState]): FightEvent[] {
+    const events: FightEvent[] = [];
+    const fightOver = isRoundOver(state);
+    state.frame++;
+    if (!fightOver && state.timerFrames !== null) {
+        state.timerFrames--;
+    }
+
+    ([0, 1] as FighterIndex[]).forEach(index => {
+        const input = fightOver ? NO_INPUT : inputs[index];
+        const fighter = state.fighters[index];
+        recordDirection(fighter.inputHistory, getInputDirection(input, fighter.facing));
+        advanceAction(state, fighter);
+        applyActionInput(state, index, input, events);
+        applyMovement(state, index, input, events);
+    });
+
+    separateFighters(state);
+    faceOpponents(state);
+
+    if (!fightOver) {
+        resolveMeleeHits(state, events);
+    }
+    updateProjectiles(state, !fightOver, events);
+
+    if (!fightOver) {
+        state.fighters.forEach(fighter => {
+            fighter.energy = Math.min(MAX_ENERGY, fighter.energy + ENERGY_REGEN_PER_FRAME);
+        });
+    }
+    return events;
+}
@@ -0,0 +1,229 @@
+import { MAX_ENERGY, secondsToFrames } from '@/lib/combat/constants';
+import { getDirectionInput, getInputDirection } from '@/lib/combat/motions';
+import { MOVES, getCurrentMove } from '@/lib/combat/moves';
+import type { MatchRules } from '@/lib/combat/rounds';
+import { isActionLocked } from '@/lib/combat/simulation';
+import type { Direction, FightEvent, FightState, FighterIndex, InputState, MoveDefinition, MoveId } from '@/lib/combat/types';
+
+// Training mode: the player (P1) practices on a dummy (P2) that does what it's told.
+// Everything here runs around stepFight, on the same fixed frames as the fight.
+
+export type TrainingDummyMode = 'stand' | 'crouch' | 'blockAll' | 'jump' | 'attack' | 'replay';
+
+export const TRAINING_DUMMY_MODES: readonly TrainingDummyMode[] = ['stand', 'crouch', 'blockAll', 'jump', 'attack', 'replay'];
+export const TRAINING_DUMMY_LABELS: Record<TrainingDummyMode, string> = {
+    stand: 'Stand',
+    crouch: 'Crouch',
+    blockAll: 'Block All',
+    jump: 'Jump',
+    attack: 'Attack',
+    replay: 'Replay Recording',
+};
+
+export interface TrainingSettings {
+    dummy: TrainingDummyMode;
+    infiniteHealth: boolean; // Health comes back once a combo is over, and a combo can't KO
+    infiniteEnergy: boolean;
+}
+
+export const DEFAULT_TRAINING_SETTINGS: TrainingSettings = { dummy: 'stand', infiniteHealth: true, infiniteEnergy: true };
+
+// A single untimed round, KOs just reset the positions
+export const TRAINING_MATCH_RULES: MatchRules = { bestOf: 1, roundSeconds: null };
+
+export const MAX_RECORDING_FRAMES = secondsToFrames(10);
+export const INPUT_LOG_SIZE = 16;
+
+// One frame of controls relative to facing, so a recording plays back the same from either side
+export interface TrainingInput {
+    direction: Direction;
+    punch: boolean;
+    block: boolean;
+    special: boolean;
+}
+
+// A run of identical inputs in the on-screen input history
+export interface InputLogEntry extends TrainingInput {
+    frames: number;
+}
+
+export interface HitReadout {
+    move: MoveId;
+    damage: number;
+    blocked: boolean;
+    comboHits: number;
+    comboDamage: number; // Whole combo so far
+}
+
+// What the training HUD shows about the player's last actions
+export interface TrainingReadout {
+    lastMove: MoveDefinition | null; // Last move the player started (startup / active / recovery)
+    lastHit: HitReadout | null;
+    advantage: { frames: number; blocked: boolean } | null; // + = the player recovers first
+}
+
+// Frames at which both fighters could act again after the player's last hit
+interface AdvantageMeasure {
+    blocked: boolean;
+    attackerFreeAt: number | null;
+    defenderFreeAt: number | null;
+}
+
+export interface TrainingSession {
+    settings: TrainingSettings;
+    recording: TrainingInput[];
+    isRecording: boolean;
+    replayFrame: number;
+    inputLog: InputLogEntry[]; // Oldest first
+    readout: TrainingReadout;
+    measure: AdvantageMeasure | null;
+}
+
+// What a training step changed, for the HUD
+export interface TrainingStepResult {
+    inputLogChanged: boolean;
+    readoutChanged: boolean;
+    recordingStopped: boolean; // Hit MAX_RECORDING_FRAMES
+}
+
+const PLAYER: FighterIndex = 0;
+const DUMMY: FighterIndex = 1;
+const DUMMY_ATTACK_RANGE = 0.45; // Distance the attacking dummy walks in to before it jabs
+const DUMMY_ATTACK_INTERVAL = secondsToFrames(1);
+const NO_INPUT: InputState = { left: false, right: false, punch: false, duck: false, block: false, jump: false, special: false };
+
+export const createTrainingSession = (settings: TrainingSettings = DEFAULT_TRAINING_SETTINGS): TrainingSession => ({
+    settings,
+    recording: [],
+    isRecording: false,
+    replayFrame: 0,
+    inputLog: [],
+    readout: { lastMove: null, lastHit: null, advantage: null },
+    measure: null,
+});
+
+export const toTrainingInput = (input: InputState, facing: 1 | -1): TrainingInput => ({
+    direction: getInputDirection(input, facing),
+    punch: input.punch,
+    block: input.block,
+    special: input.special,
+});
+
+export const fromTrainingInput = (input: TrainingInput, facing: 1 | -1): InputState => ({
+    ...getDirectionInput(input.direction, facing),
+    punch: input.punch,
+    block: input.block,
+    special: input.special,
+});
+
+const isSameTrainingInput = (a: TrainingInput, b: TrainingInput): boolean =>
+    a.direction === b.direction && a.punch === b.punch && a.block === b.block && a.special === b.special;
+
+// Starts recording the player's inputs for the dummy to replay (replaces the previous recording)
+export function startTrainingRecording(session: TrainingSession) {
+    session.recording = [];
+    session.isRecording = true;
+}
+
+// Stops recording, the dummy replays the new recording from its start
+export function stopTrainingRecording(session: TrainingSession) {
+    session.isRecording = false;
+    session.replayFrame = 0;
+}
+
+// The dummy's input for the next step. Block All guards at the right height for the player's
+// current attack, crouched against lows and standing against the rest.
+export function getTrainingDummyInput(session: TrainingSession, state: FightState): InputState {
+    const dummy = state.fighters[DUMMY];
+    switch (session.settings.dummy) {
+        case 'crouch':
+            return { ...NO_INPUT, duck: true };
+        case 'blockAll':
+            return { ...NO_INPUT, block: true, duck: getCurrentMove(state.fighters[PLAYER])?.height === 'low' };
+        case 'jump':
+            return { ...NO_INPUT, jump: true };
+        case 'attack': {
+            // Walks in, then jabs every DUMMY_ATTACK_INTERVAL
+            if (Math.abs(state.fighters[PLAYER].x - dummy.x) > DUMMY_ATTACK_RANGE) return getDirectionInput(6, dummy.facing);
+            return { ...NO_INPUT, punch: state.frame % DUMMY_ATTACK_INTERVAL === 0 };
+        }
+        case 'replay': {
+            if (session.isRecording || session.recording.length === 0) return NO_INPUT;
+            const input = session.recording[session.replayFrame % session.recording.length];
+            session.replayFrame++;
+            return fromTrainingInput(input, dummy.facing);
+        }
+        default:
+            return NO_INPUT;
+    }
+}
+
+// Adds one frame to the input log, returns true when it started a new entry
+function logInput(log: InputLogEntry[], input: TrainingInput): boolean {
+    const last = log[log.length - 1];
+    if (last && isSameTrainingInput(last, input)) {
+        last.frames++;
+        return false;
+    }
+    log.push({ ...input, frames: 1 });
+    if (log.length > INPUT_LOG_SIZE) log.shift();
+    return true;
+}
+
+/**
+ * Bookkeeping after a stepFight: records and logs the player's input, refills health and energy,
+ * and updates the frame data. Frame advantage is measured rather than computed: after the
+ * player's hit, it's the difference between the frames both fighters can act again.
+ */
+export function afterTrainingStep(session: TrainingSession, state: FightState, playerInput: InputState, events: FightEvent[]): TrainingStepResult {
+    const player = state.fighters[PLAYER];
+    const dummy = state.fighters[DUMMY];
+    const input = toTrainingInput(playerInput, player.facing);
+    const result: TrainingStepResult = { inputLogChanged: logInput(session.inputLog, input), readoutChanged: false, recordingStopped: false };
+
+    if (session.isRecording) {
+        session.recording.push(input);
+        if (session.recording.length >= MAX_RECORDING_FRAMES) {
+            stopTrainingRecording(session);
+            result.recordingStopped = true;
+        }
+    }
+
+    // The player started a move this step
+    if (player.action === 'attack' && player.move && player.actionStartFrame === state.frame) {
+        session.readout = { ...session.readout, lastMove: MOVES[player.move] };
+        result.readoutChanged = true;
+    }
+
+    events.forEach(event => {
+        if (event.type !== 'hit' || event.attacker !== PLAYER) return;
+        const previous = session.readout.lastHit;
+        const comboDamage = !event.blocked && event.comboHits > 1 && previous ? previous.comboDamage + event.damage : event.damage;
+        session.readout = {
+            ...session.readout,
+            lastHit: { move: event.move, damage: event.damage, blocked: event.blocked, comboHits: event.comboHits, comboDamage },
+            advantage: null,
+        };
+        session.measure = { blocked: event.blocked, attackerFreeAt: null, defenderFreeAt: null };
+        result.readoutChanged = true;
+    });
+
+    const measure = session.measure;
+    if (measure) {
+        if (measure.attackerFreeAt === null && player.grounded && !isActionLocked(player)) measure.attackerFreeAt = state.frame;
+        if (measure.defenderFreeAt === null && dummy.grounded && !isActionLocked(dummy)) measure.defenderFreeAt = state.frame;
+        if (measure.attackerFreeAt !== null && measure.defenderFreeAt !== null) {
+            session.readout = { ...session.readout, advantage: { frames: measure.defenderFreeAt - measure.attackerFreeAt, blocked: measure.blocked } };
+            session.measure = null;
+            result.readoutChanged = true;
+        }
+    }
+
+    state.fighters.forEach(fighter => {
+        if (session.settings.infiniteHealth) {
+            fighter.health = fighter.action === 'hitstun' ? Math.max(1, fighter.health) : fighter.maxHealth;
+        }
+        if (session.settings.infiniteEnergy) fighter.energy = MAX_ENERGY;
+    });
+    return result;
+}
@@ -0,0 +1,235 @@
+import type { AIPersonality } from '@/lib/ai/personality';
+import { secondsToFrames } from '@/lib/combat/constants';
+import { getInputDirection } from '@/lib/combat/motions';
+import type { TrainingDummyMode } from '@/lib/combat/training';
+import type { FightEvent, FightState, FighterIndex, InputState } from '@/lib/combat/types';
+
+// Tutorial mode: scripted steps on top of training (same dummy, infinite health and energy).
+// Each step is checked against the player's actual inputs and the fight events, never against key presses.
+
+export type TutorialStepId =
+    | 'walkForward'
+    | 'walkBack'
+    | 'jump'
+    | 'duck'
+    | 'block'
+    | 'punch'
+    | 'special'
+    | 'specialMotion'
+    | 'combo'
+    | 'antiAir'
+    | 'zoning'
+    | 'punish'
+    | 'overhead';
+
+// What the player did on one simulation step
+export interface TutorialFrame {
+    state: FightState;
+    input: InputState; // The player's
+    events: FightEvent[];
+    lastBlockFrame: number | null; // Last frame the player blocked one of the dummy's attacks
+}
+
+export interface TutorialStep {
+    id: TutorialStepId;
+    title: string;
+    // {action} is replaced by the player's key for that InputAction, e.g. {punch}
+    instruction: string;
+    dummy: TrainingDummyMode;
+    goal: number; // Progress to reach, in frames or in times depending on the step
+    needsSpecial?: boolean; // Skipped for fighters without a special move
+    progress: (frame: TutorialFrame) => number; // Progress made on this step
+}
+
+export interface TutorialSession {
+    steps: TutorialStep[];
+    basicsCount: number; // Steps before the character's challenges
+    stepIndex: number; // steps.length once the tutorial is finished
+    progress: number;
+    lastBlockFrame: number | null;
+}
+
+export interface TutorialStepResult {
+    progressChanged: boolean;
+    stepCompleted: boolean;
+}
+
+const PLAYER: FighterIndex = 0;
+const DUMMY: FighterIndex = 1;
+const PUNISH_WINDOW = secondsToFrames(0.75); // After a block, a hit within this counts as a punish
+const ZONING_DISTANCE = 2; // Special power hits from at least this far count as zoning
+
+const countPlayerHits = (frame: TutorialFrame, matches: (event: Extract<FightEvent, { type: 'hit' }>) => boolean): number =>
+    frame.events.filter(event => event.type === 'hit' && event.attacker === PLAYER && matches(event)).length;
+
+const holdsDirection = (frame: TutorialFrame, direction: 4 | 6): boolean => {
+    const player = frame.state.fighters[PLAYER];
+    return player.action === 'walk' && getInputDirection(frame.input, player.facing) === direction;
+};
+
+const fighterDistance = (state: FightState): number => Math.abs(state.fighters[PLAYER].x - state.fighters[DUMMY].x);
+
+// The basics, in order, for every character
+const BASIC_STEPS: TutorialStep[] = [
+    {
+        id: 'walkForward',
+        title: 'Walk Forward',
+        instruction: 'Walk toward the dummy with {left} / {right}',
+        dummy: 'stand',
+        goal: secondsToFrames(1),
+        progress: frame => (holdsDirection(frame, 6) ? 1 : 0),
+    },
+    {
+        id: 'walkBack',
+        title: 'Walk Back',
+        instruction: 'Now walk away from the dummy',
+        dummy: 'stand',
+        goal: secondsToFrames(1),
+        progress: frame => (holdsDirection(frame, 4) ? 1 : 0),
+    },
+    {
+        id: 'jump',
+        title: 'Jump',
+        instruction: 'Jump with {jump}, hold a direction to jump forward or back',
+        dummy: 'stand',
+        goal: 3,
+        progress: frame => frame.events.filter(event => event.type === 'jump' && event.fighter === PLAYER).length,
+    },
+    {
+        id: 'duck',
+        title: 'Duck',
+        instruction: 'Hold {duck} to duck under high attacks',
+        dummy: 'stand',
+        goal: secondsToFrames(1),
+        progress: frame => (frame.state.fighters[PLAYER].action === 'duck' && frame.input.duck ? 1 : 0),
+    },
+    {
+        id: 'block',
+        title: 'Block',
+        instruction: "Hold {block} to block the dummy's punches",
+        dummy: 'attack',
+        goal: 3,
+        progress: frame => frame.events.filter(event => event.type === 'hit' && event.defender === PLAYER && event.blocked).length,
+    },
+    {
+        id: 'punch',
+        title: 'Punch',
+        instruction: 'Walk up to the dummy and punch it with {punch}',
+        dummy: 'stand',
+        goal: 3,
+        progress: frame => countPlayerHits(frame, event => !event.blocked && event.source === 'melee'),
+    },
+    {
+        id: 'special',
+        title: 'Special Power',
+        instruction: 'Throw your special power with {special}. It costs half of the energy bar under your health',
+        dummy: 'stand',
+        goal: 1,
+        needsSpecial: true,
+        progress: frame => frame.events.filter(event => event.type === 'special' && event.fighter === PLAYER).length,
+    },
+    {
+        id: 'specialMotion',
+        title: 'Special Motion',
+        instruction: 'The special power also comes out with a quarter circle: ↓ ↘ → then {punch}',
+        dummy: 'stand',
+        goal: 1,
+        needsSpecial: true,
+        progress: frame => (frame.input.special ? 0 : frame.events.filter(event => event.type === 'special' && event.fighter === PLAYER).length),
+    },
+];
+
+// Character challenges, picked from the fighting style
+const CHALLENGE_STEPS: Record<'combo' | 'antiAir' | 'zoning' | 'punish' | 'overhead', TutorialStep> = {
+    combo: {
+        id: 'combo',
+        title: 'Combo',
+        instruction: 'Cancel a jab into a heavy punch: {punch}, then → and {punch} right as the jab hits',
+        dummy: 'stand',
+        goal: 1,
+        progress: frame => countPlayerHits(frame, event => !event.blocked && event.move === 'heavyPunch' && event.comboHits > 1),
+    },
+    antiAir: {
+        id: 'antiAir',
+        title: 'Anti-Air',
+        instruction: 'Knock the jumping dummy down with a Rising Punch: → ↓ ↘ then {punch}',
+        dummy: 'jump',
+        goal: 2,
+        progress: frame => countPlayerHits(frame, event => !event.blocked && event.move === 'risingPunch' && !frame.state.fighters[DUMMY].grounded),
+    },
+    zoning: {
+        id: 'zoning',
+        title: 'Zoning',
+        instruction: 'Keep your distance: hit the dummy with your special power from far away',
+        dummy: 'stand',
+        goal: 1,
+        needsSpecial: true,
+        progress: frame => countPlayerHits(frame, event => !event.blocked && event.source === 'projectile' && fighterDistance(frame.state) >= ZONING_DISTANCE),
+    },
+    punish: {
+        id: 'punish',
+        title: 'Punish',
+        instruction: "Block the dummy's punch with {block}, then hit back with {punch} before it recovers",
+        dummy: 'attack',
+        goal: 2,
+        progress: frame => countPlayerHits(frame, event =>
+            !event.blocked && frame.lastBlockFrame !== null && frame.state.frame - frame.lastBlockFrame <= PUNISH_WINDOW),
+    },
+    overhead: {
+        id: 'overhead',
+        title: 'Overhead',
+        instruction: 'The dummy ducks under your punches: jump in with {jump} and hit it with {punch} in the air',
+        dummy: 'crouch',
+        goal: 2,
+        progress: frame => countPlayerHits(frame, event => !event.blocked && event.move === 'jumpPunch'),
+    },
+};
+
+export const TUTORIAL_CHALLENGES: Record<AIPersonality, TutorialStep[]> = {
+    balanced: [CHALLENGE_STEPS.combo, CHALLENGE_STEPS.antiAir],
+    rushdown: [CHALLENGE_STEPS.combo, CHALLENGE_STEPS.overhead],
+    zoner: [CHALLENGE_STEPS.zoning, CHALLENGE_STEPS.antiAir],
+    turtle: [CHALLENGE_STEPS.punish, CHALLENGE_STEPS.antiAir],
+    jumper: [CHALLENGE_STEPS.overhead, CHALLENGE_STEPS.combo],
+};
+
+// The basics then the challenges of the character's fighting style, without special steps when it has no special
+export function createTutorialSession(personality: AIPersonality, canUseSpecial: boolean): TutorialSession {
+    const keep = (step: TutorialStep) => canUseSpecial || !step.needsSpecial;
+    const basics = BASIC_STEPS.filter(keep);
+    return {
+        steps: [...basics, ...TUTORIAL_CHALLENGES[personality].filter(keep)],
+        basicsCount: basics.length,
+        stepIndex: 0,
+        progress: 0,
+        lastBlockFrame: null,
+    };
+}
+
+export const getTutorialStep = (session: TutorialSession): TutorialStep | null => session.steps[session.stepIndex] ?? null;
+
+export const isTutorialFinished = (session: TutorialSession): boolean => session.stepIndex >= session.steps.length;
+
+/**
+ * Checks the current step after a stepFight. A completed step moves the session on to the next one,
+ * the caller sets up the dummy for it.
+ */
+export function advanceTutorial(session: TutorialSession, state: FightState, playerInput: InputState, events: FightEvent[]): TutorialStepResult {
+    const result: TutorialStepResult = { progressChanged: false, stepCompleted: false };
+    const step = getTutorialStep(session);
+    if (!step) return result;
+
+    const progress = step.progress({ state, input: playerInput, events, lastBlockFrame: session.lastBlockFrame });
+    if (events.some(event => event.type === 'hit' && event.defender === PLAYER && event.blocked)) session.lastBlockFrame = state.frame;
+    if (progress <= 0) return result;
+
+    session.progress = Math.min(step.goal, session.progress + progress);
+    result.progressChanged = true;
+    if (session.progress >= step.goal) {
+        session.stepIndex++;
+        session.progress = 0;
+        session.lastBlockFrame = null;
+        result.stepCompleted = true;
+    }
+    return result;
+}
@@ -0,0 +1,221 @@
+import type { RngState } from '@/lib/combat/rng';
+
+// One frame of controls for a fighter (keyboard, gamepad, AI or network)
+export type InputState = {
+    left: boolean;
+    right: boolean;
+    punch: boolean;
+    duck: boolean;
+    block: boolean;
+    jump: boolean;
+    special: boolean;
+};
+
+// 0 = player 1, 1 = player 2
+export type FighterIndex = 0 | 1;
+
+// How a match is played, BattleScene sets itself up for it:
+// 'vs-ai': P1 on the keyboard against the AIController
+// 'local-versus': two humans sharing one keyboard, each with their own binding map
+// 'attract': the demo mode, an AIController on each side and nobody playing
+// 'training': P1 practices on a dummy set up from the pause menu, no rounds or clock
+// 'tutorial': training with scripted steps, each one sets up the dummy
+// 'replay': a recorded match played back from its inputs, nobody playing
+// 'online': against another browser over WebRTC, with rollback netcode
+// 'spectate': an online match watched live, a few seconds behind, through the replay playback
+export type GameMode = 'vs-ai' | 'local-versus' | 'attract' | 'training' | 'tutorial' | 'replay' | 'online' | 'spectate';
+
+// What a fighter is doing. Actions other than idle/walk lock out new ones until they finish
+// (duck and block only while going into the pose, then they are held as long as the button is).
+// 'attack' plays FighterState.move, the stun actions last FighterState.stunFrames.
+export type FighterAction =
+    | 'idle'
+    | 'walk'
+    | 'duck'
+    | 'standUp'
+    | 'block'
+    | 'unblock'
+    | 'attack'
+    | 'hitstun'
+    | 'blockstun';
+
+// --- Motion inputs (recognizers live in motions.ts) ---
+
+// Stick direction in numpad notation, relative to facing:
+// 6 = forward, 4 = back, 8 = up (jump), 2 = down (duck), 3 = down-forward... 5 = neutral
+export type Direction = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+// A direction held for a number of consecutive frames, the input buffer is a list of these
+export interface DirectionRun {
+    direction: Direction;
+    frames: number;
+}
+
+// Quarter circle forward (2 3 6), quarter circle back (2 1 4), dragon punch (6 2 3),
+// charge (back held, then forward)
+export type MotionId = 'qcf' | 'qcb' | 'dp' | 'charge';
+
+// How sloppy a motion can be, in simulation frames
+export interface MotionLeniency {
+    motionFrames: number; // The directions of a motion have to fit in this many frames
+    buttonFrames: number; // The button still counts this long after the last direction
+    chargeFrames: number; // Back has to be held this long before a charge move
+}
+
+// --- Moves (definitions live in moves.ts) ---
+export type MoveId = 'jab' | 'heavyPunch' | 'duckKick' | 'jumpPunch' | 'specialPower' | 'risingPunch';
+
+// Where an attack hits. A standing guard stops everything but lows,
+// a crouching guard (down + block) everything but overheads.
+export type HitHeight = 'high' | 'mid' | 'low' | 'overhead';
+
+// Animation played for a move, each id has a clip factory on the rendering side
+export type MoveAnimationId = 'punch' | 'heavyPunch' | 'duckKick' | 'jumpPunch' | 'specialPowerThrow';
+
+export interface MoveInput {
+    button: 'punch' | 'special';
+    stance: 'standing' | 'crouching' | 'airborne';
+    direction?: 'forward' | 'back'; // Held relative to facing, omitted = any
+    motion?: MotionId; // Special moves: the motion, then a fresh press of the button (stance only tells ground from air)
+}
+
+export type LimbSide = 'right' | 'left';
+
+// Box around the attacking limb's bone, relative to the attacker's feet and facing. It only exists
+// during the move's active frames, centered where the bone was measured (BodyLayout.reach).
+export interface MoveHitbox {
+    limb: 'hand' | 'foot';
+    side?: LimbSide; // Omitted = the fighter's punch side (alternating moves)
+    forward: number; // Center at full extension, in front of the attacker's center, when the limb wasn't measured
+    height: number; // Center at full extension, above the attacker's feet, when the limb wasn't measured
+    halfWidth: number;
+    halfHeight: number;
+}
+
+/**
+ * Frame data for one attack. A move lasts startup + active + recovery frames and can
+ * only hit during its active frames (once per move).
+ */
+export interface MoveDefinition {
+    id: MoveId;
+    name: string;
+    input: MoveInput;
+    animation: MoveAnimationId;
+    startup: number;
+    active: number;
+    recovery: number;
+    damage: number;
+    chipDamage: number; // Damage through a block
+    hitstun: number; // Frames the defender can't act after being hit
+    blockstun: number; // Frames the defender stays locked in their guard
+    pushback: number; // Distance the defender slides back
+    height: HitHeight;
+    hitbox?: MoveHitbox; // Omitted for projectile moves, the projectile does the hitting
+    energyCost?: number;
+    projectile?: boolean; // Launches the special projectile on its first active frame
+    endsCrouched?: boolean; // Back to a held duck afterwards instead of idle
+    cancelInto?: MoveId[]; // Moves that can interrupt it (with a fresh press) once it connected, hit or blocked
+    shortcut?: 'special'; // Button that also performs it alone, without the motion
+}
+
+// --- Bodies (the world space boxes are worked out in boxes.ts) ---
+export type BodyPart = 'head' | 'torso' | 'legs';
+
+export type BodyStance = 'standing' | 'crouching' | 'airborne';
+
+// A hurtbox relative to the fighter's feet and facing, for a fighter of scale 1
+export interface BodyBox {
+    forward: number; // Center, in front of the fighter's center
+    halfWidth: number;
+    bottom: number;
+    top: number;
+}
+
+// A limb bone relative to the fighter's feet and facing, for a fighter of scale 1
+export interface LimbPosition {
+    forward: number;
+    height: number;
+}
+
+// Per move and limb side, where the attacking limb's bone is on each active frame (from the first)
+export type MoveReach = Partial<Record<MoveId, Partial<Record<LimbSide, LimbPosition[]>>>>;
+
+// Where a character can be hit in each stance and where its attacks reach, measured on its model when it loads
+export interface BodyLayout extends Record<BodyStance, Record<BodyPart, BodyBox>> {
+    reach?: MoveReach; // Omitted = the moves' own hitbox positions
+}
+
+export interface FighterState {
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    facing: 1 | -1; // 1 = facing +X (right)
+    grounded: boolean;
+    health: number;
+    energy: number;
+    action: FighterAction;
+    actionFrame: number; // Frames since the action started
+    actionStartFrame: number; // FightState.frame when the action started, tells repeated actions apart
+    move: MoveId | null; // Move being performed while action is 'attack'
+    stunFrames: number; // Length of the current hitstun/blockstun
+    pushback: number; // Signed distance still to slide after being hit
+    hitConfirmed: boolean; // The current attack already landed
+    crouchGuard: boolean; // Block/blockstun is held crouched (down + block)
+    comboHits: number; // Hits taken in the current combo (the ones landed while already in hitstun)
+    juggleHits: number; // Hits taken in the air since the last landing
+    heldButtons: { punch: boolean; special: boolean }; // Attack buttons held last frame, cancels need a fresh press
+    inputHistory: DirectionRun[]; // Recent directions relative to facing, oldest first, for motion inputs
+    punchSide: LimbSide; // Side of the current punch, alternates on every punch
+    canUseSpecial: boolean; // Fighters without a special image have no special move
+    maxHealth: number;
+    scale: number; // Body size, 1 = normal. Hurtboxes, hitboxes and collision grow with it
+    body: BodyLayout; // Never changes during the fight
+}
+
+export interface ProjectileState {
+    id: number;
+    owner: FighterIndex;
+    move: MoveId; // Move that launched it (damage, stun)
+    x: number;
+    y: number;
+    direction: 1 | -1;
+    frame: number; // Frames since launch (growing, then flying)
+}
+
+export interface FightState {
+    frame: number;
+    rng: RngState;
+    fighters: [FighterState, FighterState];
+    projectiles: ProjectileState[];
+    nextProjectileId: number;
+    timerFrames: number | null; // Frames left on the round clock, null = untimed
+    motionLeniency: MotionLeniency;
+}
+
+export interface FighterConfig {
+    startX: number;
+    facing: 1 | -1;
+    canUseSpecial: boolean;
+    maxHealth?: number; // Omitted = MAX_HEALTH
+    scale?: number; // Omitted = 1
+    startHealth?: number; // Health at the start of the round, omitted = maxHealth (survival carries it over)
+    body?: BodyLayout; // Omitted = DEFAULT_BODY_LAYOUT
+}
+
+export interface FightConfig {
+    seed: number;
+    fighters: [FighterConfig, FighterConfig];
+    roundFrames?: number | null; // Round clock length, omitted/null = no time limit
+    motionLeniency?: Partial<MotionLeniency>; // Omitted values use DEFAULT_MOTION_LENIENCY
+}
+
+// Things that happened during a step, for sounds and effects. `variant` is drawn from the
+// fight RNG so a replayed fight picks the same sounds. A hit's `contact` is the middle of where
+// the hitbox met the hurtbox, in world space.
+export type FightEvent =
+    | { type: 'jump'; fighter: FighterIndex; variant: number }
+    | { type: 'special'; fighter: FighterIndex; variant: number }
+    | { type: 'hit'; attacker: FighterIndex; defender: FighterIndex; move: MoveId; damage: number; blocked: boolean; guardBroken: boolean; comboHits: number; source: 'melee' | 'projectile'; contact: { x: number; y: number }; variant: number }
+    | { type: 'projectileSpawned'; projectileId: number }
+    | { type: 'projectileRemoved'; projectileId: number };
@@ -0,0 +1,71 @@
+import type { FightEvent } from '@/lib/combat/types';
+import { EFFECTS_INTENSITY_SCALE, type EffectsSettings } from '@/lib/effects/settings';
+
+type HitEvent = Extract<FightEvent, { type: 'hit' }>;
+
+// How hard a landed hit feels. Everything here is presentation: the simulation never sees it.
+export interface HitEffects {
+    hitStopFrames: number; // Render frames at SIM_FPS both fighters stay frozen, 0 = none
+    shake: number; // Camera shake amplitude in world units, 0 = none
+    sparks: number; // Sparks flying from the contact point
+    dust: number; // Dust kicked up at the defender's feet
+    blocked: boolean; // Blocked hits throw cold sparks instead of hot ones
+}
+
+const NO_HIT_EFFECTS: HitEffects = { hitStopFrames: 0, shake: 0, sparks: 0, dust: 0, blocked: false };
+
+// Tuned on the move damages (20 for a jab up to 100 for the special power)
+const BLOCK_HIT_STOP_FRAMES = 2;
+const BASE_HIT_STOP_FRAMES = 3;
+const HIT_STOP_FRAMES_PER_DAMAGE = 1 / 20;
+const KO_HIT_STOP_FRAMES = 18;
+const SHAKE_PER_DAMAGE = 0.0005;
+const BLOCK_SHAKE = 0.004;
+const KO_SHAKE = 0.08;
+const BASE_SPARKS = 6;
+const SPARKS_PER_DAMAGE = 0.1;
+const BLOCK_SPARKS = 4;
+const KO_SPARKS = 28;
+const HEAVY_HIT_DAMAGE = 40; // From this much damage a hit kicks up dust too
+const HEAVY_HIT_DUST = 6;
+const KO_DUST = 16;
+const PROJECTILE_BOOST = 1.5; // The special power hits harder than its damage alone says
+
+/**
+ * Hit-stop, shake and particles for a hit, after the player's settings.
+ * `isKO` is a hit that ended the round, the strongest of all.
+ */
+export function getHitEffects(event: HitEvent, isKO: boolean, settings: EffectsSettings): HitEffects {
+    if (!settings.hitStop && !settings.screenShake && !settings.particles) return NO_HIT_EFFECTS;
+    const scale = EFFECTS_INTENSITY_SCALE[settings.intensity];
+    const boost = event.source === 'projectile' ? PROJECTILE_BOOST : 1;
+
+    let hitStopFrames: number;
+    let shake: number;
+    let sparks: number;
+    let dust: number;
+    if (isKO) {
+        hitStopFrames = KO_HIT_STOP_FRAMES;
+        shake = KO_SHAKE;
+        sparks = KO_SPARKS;
+        dust = KO_DUST;
+    } else if (event.blocked) {
+        hitStopFrames = BLOCK_HIT_STOP_FRAMES;
+        shake = BLOCK_SHAKE;
+        sparks = BLOCK_SPARKS;
+        dust = 0;
+    } else {
+        hitStopFrames = (BASE_HIT_STOP_FRAMES + event.damage * HIT_STOP_FRAMES_PER_DAMAGE) * boost;
+        shake = event.damage * SHAKE_PER_DAMAGE * boost;
+        sparks = (BASE_SPARKS + event.damage * SPARKS_PER_DAMAGE) * boost;
+        dust = event.damage >= HEAVY_HIT_DAMAGE ? HEAVY_HIT_DUST * boost : 0;
+    }
+
+    return {
+        hitStopFrames: settings.hitStop ? Math.round(hitStopFrames * scale) : 0,
+        shake: settings.screenShake ? shake * scale : 0,
+        sparks: settings.particles ? Math.round(sparks * scale) : 0,
+        dust: settings.particles ? Math.round(dust * scale) : 0,
+        blocked: event.blocked,
+    };
+}
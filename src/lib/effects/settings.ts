@@ -0,0 +1,79 @@
+// Hit effects settings of this browser, in localStorage. The effects are only drawn on top of the
+// fight and never change it, so every player (and spectator) can set them their own way.
+
+const EFFECTS_STORAGE_KEY = 'vibefighter.effects';
+
+export type EffectsIntensity = 'low' | 'normal' | 'high';
+
+export const EFFECTS_INTENSITIES: EffectsIntensity[] = ['low', 'normal', 'high'];
+
+export const EFFECTS_INTENSITY_LABELS: Record<EffectsIntensity, string> = {
+    low: 'Low',
+    normal: 'Normal',
+    high: 'High',
+};
+
+// Multiplies the hit-stop length, shake amplitude and particle counts
+export const EFFECTS_INTENSITY_SCALE: Record<EffectsIntensity, number> = {
+    low: 0.5,
+    normal: 1,
+    high: 1.5,
+};
+
+export interface EffectsSettings {
+    hitStop: boolean; // Both fighters freeze for a few frames when a hit lands
+    screenShake: boolean;
+    particles: boolean; // Sparks at the contact point, dust at the defender's feet
+    koCinematic: boolean; // Slow motion, a camera swing around the loser and a flash on a K.O.
+    intensity: EffectsIntensity;
+}
+
+export const DEFAULT_EFFECTS_SETTINGS: EffectsSettings = {
+    hitStop: true,
+    screenShake: true,
+    particles: true,
+    koCinematic: true,
+    intensity: 'normal',
+};
+
+// For motion-sensitive players: nothing freezes, shakes or swings, a few sparks are left to show the hits.
+// Also what a browser asking for reduced motion starts with.
+export const REDUCED_MOTION_EFFECTS_SETTINGS: EffectsSettings = {
+    hitStop: false,
+    screenShake: false,
+    particles: true,
+    koCinematic: false,
+    intensity: 'low',
+};
+
+const prefersReducedMotion = (): boolean =>
+    typeof window.matchMedia === 'function' && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+export function loadEffectsSettings(): EffectsSettings {
+    if (typeof window === 'undefined') return { ...DEFAULT_EFFECTS_SETTINGS };
+    const defaults = prefersReducedMotion() ? REDUCED_MOTION_EFFECTS_SETTINGS : DEFAULT_EFFECTS_SETTINGS;
+    try {
+        const raw = window.localStorage.getItem(EFFECTS_STORAGE_KEY);
+        if (!raw) return { ...defaults };
+        const stored = JSON.parse(raw);
+        return {
+            hitStop: typeof stored?.hitStop === 'boolean' ? stored.hitStop : defaults.hitStop,
+            screenShake: typeof stored?.screenShake === 'boolean' ? stored.screenShake : defaults.screenShake,
+            particles: typeof stored?.particles === 'boolean' ? stored.particles : defaults.particles,
+            koCinematic: typeof stored?.koCinematic === 'boolean' ? stored.koCinematic : defaults.koCinematic,
+            intensity: EFFECTS_INTENSITIES.includes(stored?.intensity) ? stored.intensity : defaults.intensity,
+        };
+    } catch (error) {
+        console.error('[effectsSettings] Failed to read the effects settings, using defaults:', error);
+        return { ...defaults };
+    }
+}
+
+export function saveEffectsSettings(settings: EffectsSettings): void {
+    if (typeof window === 'undefined') return;
+    try {
+        window.localStorage.setItem(EFFECTS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('[effectsSettings] Failed to save the effects settings:', error);
+    }
+}
@@ -0,0 +1,156 @@
+import {
+    DEFAULT_KEY_BINDINGS,
+    INPUT_ACTIONS,
+    P1_VERSUS_KEY_BINDINGS,
+    P2_VERSUS_KEY_BINDINGS,
+    formatKeyChord,
+    type InputAction,
+    type KeyBindings,
+    type KeyChord,
+} from '@/lib/input/keyBindings';
+
+// Which keyboard map a fighter uses: 'solo' is P1 against the CPU, 'p1'/'p2' are the two sides of local versus
+export type ControlSlot = 'solo' | 'p1' | 'p2';
+
+export const CONTROL_SLOTS: ControlSlot[] = ['solo', 'p1', 'p2'];
+
+export const CONTROL_SLOT_LABELS: Record<ControlSlot, string> = {
+    solo: '1P vs CPU',
+    p1: '2P Versus - Player 1',
+    p2: '2P Versus - Player 2',
+};
+
+// A named set of bindings that can be saved and loaded into any slot
+export interface ControlProfile {
+    name: string;
+    bindings: KeyBindings;
+}
+
+export interface ControlsConfig {
+    slots: Record<ControlSlot, KeyBindings>;
+    pauseKeys: KeyChord[];
+    profiles: ControlProfile[];
+}
+
+// event.code 'Enter' and 'NumpadEnter' both had event.key === 'Enter' in the old hardcoded handler
+export const DEFAULT_PAUSE_KEYS: KeyChord[] = ['Enter', 'NumpadEnter'];
+
+export const DEFAULT_SLOT_BINDINGS: Record<ControlSlot, KeyBindings> = {
+    solo: DEFAULT_KEY_BINDINGS,
+    p1: P1_VERSUS_KEY_BINDINGS,
+    p2: P2_VERSUS_KEY_BINDINGS,
+};
+
+const STORAGE_KEY = 'vibefighter.controls';
+
+export const cloneBindings = (bindings: KeyBindings): KeyBindings =>
+    Object.fromEntries(INPUT_ACTIONS.map(action => [action, [...bindings[action]]])) as KeyBindings;
+
+export const createDefaultControlsConfig = (): ControlsConfig => ({
+    slots: {
+        solo: cloneBindings(DEFAULT_SLOT_BINDINGS.solo),
+        p1: cloneBindings(DEFAULT_SLOT_BINDINGS.p1),
+        p2: cloneBindings(DEFAULT_SLOT_BINDINGS.p2),
+    },
+    pauseKeys: [...DEFAULT_PAUSE_KEYS],
+    profiles: [],
+});
+
+const isChordList = (value: unknown): value is KeyChord[] =>
+    Array.isArray(value) && value.every(chord => typeof chord === 'string');
+
+// Keeps stored bindings usable if actions are added later: missing or malformed actions fall back to the defaults
+const sanitizeBindings = (value: unknown, fallback: KeyBindings): KeyBindings => {
+    const stored = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    return Object.fromEntries(INPUT_ACTIONS.map(action => {
+        const chords = stored[action];
+        return [action, isChordList(chords) ? [...chords] : [...fallback[action]]];
+    })) as KeyBindings;
+};
+
+export function loadControlsConfig(): ControlsConfig {
+    const config = createDefaultControlsConfig();
+    if (typeof window === 'undefined') return config;
+
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        if (!raw) return config;
+        const stored = JSON.parse(raw);
+        for (const slot of CONTROL_SLOTS) {
+            config.slots[slot] = sanitizeBindings(stored?.slots?.[slot], DEFAULT_SLOT_BINDINGS[slot]);
+        }
+        if (isChordList(stored?.pauseKeys) && stored.pauseKeys.length > 0) {
+            config.pauseKeys = [...stored.pauseKeys];
+        }
+        if (Array.isArray(stored?.profiles)) {
+            config.profiles = stored.profiles
+                .filter((profile: unknown): profile is { name: string; bindings: unknown } =>
+                    !!profile && typeof (profile as ControlProfile).name === 'string')
+                .map((profile: { name: string; bindings: unknown }) => ({
+                    name: profile.name,
+                    bindings: sanitizeBindings(profile.bindings, DEFAULT_KEY_BINDINGS),
+                }));
+        }
+    } catch (error) {
+        console.error('[controlProfiles] Failed to read stored controls, using defaults:', error);
+    }
+    return config;
+}
+
+export function saveControlsConfig(config: ControlsConfig): void {
+    if (typeof window === 'undefined') return;
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+    } catch (error) {
+        console.error('[controlProfiles] Failed to save controls:', error);
+    }
+}
+
+// --- Conflict detection ---
+
+// Who owns a chord, e.g. { slot: 'p1', action: 'punch' } or { slot: null, action: 'pause' }
+export interface BindingOwner {
+    slot: ControlSlot | null;
+    action: InputAction | 'pause';
+}
+
+export interface BindingConflict {
+    chord: KeyChord;
+    owners: BindingOwner[];
+}
+
+// Slots that are read from the keyboard at the same time during a fight
+const ACTIVE_SLOT_GROUPS: ControlSlot[][] = [['solo'], ['p1', 'p2']];
+
+/**
+ * Lists chords bound to more than one action among maps that are live together
+ * (solo on its own, p1 and p2 together), the pause keys being live in both cases.
+ * 'Space' and 'Shift+Space' are different chords and do not conflict; a chord listed
+ * twice for the same action is harmless.
+ */
+export function findBindingConflicts(config: ControlsConfig): BindingConflict[] {
+    const conflicts: BindingConflict[] = [];
+    for (const group of ACTIVE_SLOT_GROUPS) {
+        const owners = new Map<KeyChord, BindingOwner[]>();
+        const addOwner = (chord: KeyChord, owner: BindingOwner) => {
+            owners.set(chord, [...(owners.get(chord) ?? []), owner]);
+        };
+        new Set(config.pauseKeys).forEach(chord => addOwner(chord, { slot: null, action: 'pause' }));
+        for (const slot of group) {
+            for (const action of INPUT_ACTIONS) {
+                new Set(config.slots[slot][action]).forEach(chord => addOwner(chord, { slot, action }));
+            }
+        }
+        owners.forEach((chordOwners, chord) => {
+            if (chordOwners.length > 1) conflicts.push({ chord, owners: chordOwners });
+        });
+    }
+    return conflicts;
+}
+
+export const isOwnerInConflict = (conflicts: BindingConflict[], slot: ControlSlot | null, action: InputAction | 'pause', chord: KeyChord): boolean =>
+    conflicts.some(conflict => conflict.chord === chord && conflict.owners.some(owner => owner.slot === slot && owner.action === action));
+
+export const describeConflict = (conflict: BindingConflict): string =>
+    `${formatKeyChord(conflict.chord)} is bound to ` +
+    conflict.owners.map(owner => owner.slot ? `${CONTROL_SLOT_LABELS[owner.slot]} ${owner.action}` : 'pause').join(', ');
@@ -0,0 +1,147 @@
+import type { InputState } from '@/lib/combat/types';
+import { createEmptyInputState } from '@/lib/input/keyBindings';
+
+// Button indices of the W3C "standard" gamepad mapping (Xbox names, PlayStation in comments)
+export const GAMEPAD_BUTTONS = {
+    A: 0, // Cross
+    B: 1, // Circle
+    X: 2, // Square
+    Y: 3, // Triangle
+    LB: 4,
+    RB: 5,
+    LT: 6,
+    RT: 7,
+    SELECT: 8, // Share / Back
+    START: 9, // Options
+    DPAD_UP: 12,
+    DPAD_DOWN: 13,
+    DPAD_LEFT: 14,
+    DPAD_RIGHT: 15,
+} as const;
+
+// Left stick travel needed before it counts as a direction
+export const GAMEPAD_STICK_DEADZONE = 0.5;
+
+export type GamepadPlayer = 1 | 2;
+
+// Menu directions produced by the d-pad or the left stick
+export type GamepadDirection = 'up' | 'down' | 'left' | 'right';
+
+export const isGamepadButtonPressed = (pad: Gamepad, index: number): boolean => !!pad.buttons[index]?.pressed;
+
+const getStickDirection = (pad: Gamepad): { x: number; y: number } => {
+    const axisX = pad.axes[0] ?? 0;
+    const axisY = pad.axes[1] ?? 0;
+    return {
+        x: axisX <= -GAMEPAD_STICK_DEADZONE ? -1 : axisX >= GAMEPAD_STICK_DEADZONE ? 1 : 0,
+        y: axisY <= -GAMEPAD_STICK_DEADZONE ? -1 : axisY >= GAMEPAD_STICK_DEADZONE ? 1 : 0,
+    };
+};
+
+/**
+ * Fighter input from a standard mapping pad:
+ * d-pad / left stick to move, jump (up) and duck (down),
+ * A punch, X or RB block, B special, Y jump.
+ */
+export function readGamepadInput(pad: Gamepad): InputState {
+    const stick = getStickDirection(pad);
+    return {
+        left: isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.DPAD_LEFT) || stick.x < 0,
+        right: isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.DPAD_RIGHT) || stick.x > 0,
+        jump: isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.DPAD_UP) || isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.Y) || stick.y < 0,
+        duck: isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.DPAD_DOWN) || stick.y > 0,
+        punch: isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.A),
+        block: isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.X) || isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.RB),
+        special: isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.B),
+    };
+}
+
+// Directions currently held on the pad, for menu navigation
+export function readGamepadDirections(pad: Gamepad): GamepadDirection[] {
+    const stick = getStickDirection(pad);
+    const directions: GamepadDirection[] = [];
+    if (isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.DPAD_UP) || stick.y < 0) directions.push('up');
+    if (isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.DPAD_DOWN) || stick.y > 0) directions.push('down');
+    if (isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.DPAD_LEFT) || stick.x < 0) directions.push('left');
+    if (isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.DPAD_RIGHT) || stick.x > 0) directions.push('right');
+    return directions;
+}
+
+// --- Pad to player assignment (hot-plug) ---
+
+// padAssignments[0] is P1's Gamepad.index, padAssignments[1] is P2's
+const padAssignments: (number | null)[] = [null, null];
+const assignmentListeners = new Set<(assignments: (number | null)[]) => void>();
+let listenersInstalled = false;
+
+const notifyAssignmentListeners = () => {
+    const snapshot = [...padAssignments];
+    assignmentListeners.forEach(listener => listener(snapshot));
+};
+
+// A new pad takes the first free player slot; a pad already assigned keeps its slot
+const assignPad = (padIndex: number) => {
+    if (padAssignments.includes(padIndex)) return;
+    const freeSlot = padAssignments.indexOf(null);
+    if (freeSlot === -1) {
+        console.log(`[gamepad] Pad ${padIndex} connected but P1 and P2 already have a pad.`);
+        return;
+    }
+    padAssignments[freeSlot] = padIndex;
+    console.log(`[gamepad] Pad ${padIndex} assigned to P${freeSlot + 1}.`);
+    notifyAssignmentListeners();
+};
+
+const releasePad = (padIndex: number) => {
+    const slot = padAssignments.indexOf(padIndex);
+    if (slot === -1) return;
+    padAssignments[slot] = null;
+    console.log(`[gamepad] Pad ${padIndex} disconnected, P${slot + 1} is free.`);
+    // A pad that was waiting for a slot can take it now
+    const connectedPads = navigator.getGamepads?.() ?? [];
+    connectedPads.forEach(pad => { if (pad && pad.index !== padIndex) assignPad(pad.index); });
+    notifyAssignmentListeners();
+};
+
+/**
+ * Installs the gamepadconnected/disconnected listeners once per page load.
+ * Browsers only report a pad after one of its buttons is pressed, so pads show up
+ * (and get assigned) on their first press rather than when plugged in.
+ */
+export function ensureGamepadListeners(): void {
+    if (listenersInstalled || typeof window === 'undefined' || !navigator.getGamepads) return;
+    listenersInstalled = true;
+    window.addEventListener('gamepadconnected', (event) => assignPad(event.gamepad.index));
+    window.addEventListener('gamepaddisconnected', (event) => releasePad(event.gamepad.index));
+    // Pads that were connected before this module loaded (e.g. on a client side navigation)
+    navigator.getGamepads().forEach(pad => { if (pad) assignPad(pad.index); });
+}
+
+export function subscribeGamepadAssignments(listener: (assignments: (number | null)[]) => void): () => void {
+    ensureGamepadListeners();
+    assignmentListeners.add(listener);
+    listener([...padAssignments]);
+    return () => {
+        assignmentListeners.delete(listener);
+    };
+}
+
+// The pad assigned to a player, polled fresh (Chrome only updates Gamepad objects through getGamepads())
+export function getPlayerGamepad(player: GamepadPlayer): Gamepad | null {
+    ensureGamepadListeners();
+    const padIndex = padAssignments[player - 1];
+    if (padIndex === null || typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+    return navigator.getGamepads()[padIndex] ?? null;
+}
+
+// Every connected pad, used by menus where any pad can navigate
+export function getConnectedGamepads(): Gamepad[] {
+    ensureGamepadListeners();
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+    return navigator.getGamepads().filter((pad): pad is Gamepad => !!pad);
+}
+
+export function readPlayerGamepadInput(player: GamepadPlayer): InputState {
+    const pad = getPlayerGamepad(player);
+    return pad ? readGamepadInput(pad) : createEmptyInputState();
+}
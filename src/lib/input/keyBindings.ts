@@ -0,0 +1,143 @@
+import type { InputState } from '@/lib/combat/types';
+
+// Every InputState field is a bindable action
+export type InputAction = keyof InputState;
+
+// A chord is a KeyboardEvent.code, optionally prefixed by modifiers (e.g. 'Space', 'Shift+Space', 'Numpad1').
+// Using event.code keeps bindings tied to the physical key position, whatever the keyboard layout.
+export type KeyChord = string;
+
+export type KeyBindings = Record<InputAction, KeyChord[]>;
+
+export const INPUT_ACTIONS: InputAction[] = ['left', 'right', 'jump', 'duck', 'punch', 'block', 'special'];
+
+// Single player defaults (the original hardcoded controls)
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+    left: ['ArrowLeft'],
+    right: ['ArrowRight'],
+    jump: ['ArrowUp'],
+    duck: ['ArrowDown'],
+    punch: ['Space'],
+    block: ['KeyB'],
+    special: ['Shift+Space'],
+};
+
+// Local versus: P1 on the left side of the keyboard (WASD + FGH)
+export const P1_VERSUS_KEY_BINDINGS: KeyBindings = {
+    left: ['KeyA'],
+    right: ['KeyD'],
+    jump: ['KeyW'],
+    duck: ['KeyS'],
+    punch: ['KeyF'],
+    block: ['KeyG'],
+    special: ['KeyH'],
+};
+
+// Local versus: P2 on the arrows + numpad, with , . / as a fallback for keyboards without a numpad
+export const P2_VERSUS_KEY_BINDINGS: KeyBindings = {
+    left: ['ArrowLeft'],
+    right: ['ArrowRight'],
+    jump: ['ArrowUp'],
+    duck: ['ArrowDown'],
+    punch: ['Numpad1', 'Comma'],
+    block: ['Numpad2', 'Period'],
+    special: ['Numpad3', 'Slash'],
+};
+
+export const createEmptyInputState = (): InputState => ({
+    left: false,
+    right: false,
+    punch: false,
+    duck: false,
+    block: false,
+    jump: false,
+    special: false,
+});
+
+interface ParsedChord {
+    code: string;
+    shift: boolean;
+    ctrl: boolean;
+    alt: boolean;
+}
+
+const parseChord = (chord: KeyChord): ParsedChord => {
+    const parts = chord.split('+');
+    const code = parts.pop() ?? '';
+    return {
+        code,
+        shift: parts.includes('Shift'),
+        ctrl: parts.includes('Ctrl'),
+        alt: parts.includes('Alt'),
+    };
+};
+
+const hasModifiers = (parsed: ParsedChord) => parsed.shift || parsed.ctrl || parsed.alt;
+
+/**
+ * Returns the actions pressed by a keydown event.
+ * A chord whose modifiers match exactly wins (shift+space -> special), otherwise
+ * unmodified chords on the same key apply (space -> punch, even with a stray modifier held).
+ */
+export function getActionsForKeyDown(event: KeyboardEvent, bindings: KeyBindings): InputAction[] {
+    const exact: InputAction[] = [];
+    const plain: InputAction[] = [];
+    for (const action of INPUT_ACTIONS) {
+        for (const chord of bindings[action] ?? []) {
+            const parsed = parseChord(chord);
+            if (parsed.code !== event.code) continue;
+            if (parsed.shift === event.shiftKey && parsed.ctrl === event.ctrlKey && parsed.alt === event.altKey) {
+                exact.push(action);
+            } else if (!hasModifiers(parsed)) {
+                plain.push(action);
+            }
+        }
+    }
+    return exact.length > 0 ? exact : plain;
+}
+
+// True if the keydown event triggers one of the chords (same modifier rules as getActionsForKeyDown)
+export function matchesAnyChord(event: KeyboardEvent, chords: KeyChord[]): boolean {
+    const parsedChords = chords.map(parseChord).filter(parsed => parsed.code === event.code);
+    return parsedChords.some(parsed =>
+        (parsed.shift === event.shiftKey && parsed.ctrl === event.ctrlKey && parsed.alt === event.altKey) || !hasModifiers(parsed)
+    );
+}
+
+// Builds a chord string from a keydown event, used when capturing a new binding
+export function chordFromEvent(event: KeyboardEvent): KeyChord | null {
+    // A lone modifier press is not a chord on its own
+    if (['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'].includes(event.code)) {
+        return null;
+    }
+    const modifiers: string[] = [];
+    if (event.ctrlKey) modifiers.push('Ctrl');
+    if (event.altKey) modifiers.push('Alt');
+    if (event.shiftKey) modifiers.push('Shift');
+    return [...modifiers, event.code].join('+');
+}
+
+/**
+ * Returns the actions released by a keyup event.
+ * Modifiers are ignored so releasing space ends both punch and shift+space special.
+ */
+export function getActionsForKeyUp(event: KeyboardEvent, bindings: KeyBindings): InputAction[] {
+    return INPUT_ACTIONS.filter(action =>
+        (bindings[action] ?? []).some(chord => parseChord(chord).code === event.code)
+    );
+}
+
+// Human readable label for a chord, e.g. 'Shift+Space' -> 'Shift+Space', 'KeyA' -> 'A', 'Numpad1' -> 'Num 1'
+export function formatKeyChord(chord: KeyChord): string {
+    const parts = chord.split('+');
+    const code = parts.pop() ?? '';
+    let label = code;
+    if (code.startsWith('Key')) label = code.slice(3);
+    else if (code.startsWith('Digit')) label = code.slice(5);
+    else if (code.startsWith('Numpad')) label = `Num ${code.slice(6)}`;
+    else if (code.startsWith('Arrow')) label = code.slice(5);
+    else if (code === 'Comma') label = ',';
+    else if (code === 'Period') label = '.';
+    else if (code === 'Slash') label = '/';
+    return [...parts, label].join('+');
+}
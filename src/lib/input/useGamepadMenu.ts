@@ -0,0 +1,121 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import {
+    GAMEPAD_BUTTONS,
+    getConnectedGamepads,
+    isGamepadButtonPressed,
+    readGamepadDirections,
+    type GamepadDirection,
+} from '@/lib/input/gamepad';
+
+interface GamepadMenuOptions {
+    // Move focus with the d-pad/stick and click with A (turn off during gameplay so pads only fight)
+    navigate?: boolean;
+    // Restrict navigation to this element, e.g. an open modal (defaults to the whole page)
+    rootRef?: RefObject<HTMLElement | null>;
+    // A pressed while nothing in the menu is focused (or with navigation off)
+    onConfirm?: () => void;
+    onBack?: () => void; // B
+    onStart?: () => void; // Start
+}
+
+const FOCUSABLE_SELECTOR = 'button:not([disabled]), a[href], input:not([disabled]), textarea:not([disabled]), select:not([disabled])';
+
+const isVisible = (element: HTMLElement) => {
+    const rect = element.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
+};
+
+// Picks the closest focusable element in the pressed direction (favouring the same row/column)
+const findNextFocusTarget = (elements: HTMLElement[], current: HTMLElement, direction: GamepadDirection): HTMLElement | null => {
+    const from = current.getBoundingClientRect();
+    const fromX = from.left + from.width / 2;
+    const fromY = from.top + from.height / 2;
+    let best: HTMLElement | null = null;
+    let bestScore = Infinity;
+    for (const element of elements) {
+        if (element === current) continue;
+        const rect = element.getBoundingClientRect();
+        const dx = rect.left + rect.width / 2 - fromX;
+        const dy = rect.top + rect.height / 2 - fromY;
+        const primary = direction === 'left' ? -dx : direction === 'right' ? dx : direction === 'up' ? -dy : dy;
+        const secondary = direction === 'left' || direction === 'right' ? Math.abs(dy) : Math.abs(dx);
+        if (primary <= 1) continue; // Not in that direction
+        const score = primary + secondary * 2;
+        if (score < bestScore) {
+            bestScore = score;
+            best = element;
+        }
+    }
+    return best;
+};
+
+/**
+ * Lets any connected pad drive a DOM menu: d-pad/left stick moves focus between
+ * buttons and links, A clicks the focused one, B and Start call the page's handlers.
+ * Buttons react on press (not while held).
+ */
+export function useGamepadMenu({ navigate = true, rootRef, onConfirm, onBack, onStart }: GamepadMenuOptions) {
+    // Keep the latest options without restarting the polling loop on every render
+    const optionsRef = useRef({ navigate, rootRef, onConfirm, onBack, onStart });
+    optionsRef.current = { navigate, rootRef, onConfirm, onBack, onStart };
+
+    useEffect(() => {
+        if (typeof navigator === 'undefined' || !navigator.getGamepads) return;
+
+        const previousButtons = new Map<number, Set<string>>();
+        let frameId = 0;
+
+        const handlePress = (input: string) => {
+            const options = optionsRef.current;
+            if (input === 'start') {
+                options.onStart?.();
+                return;
+            }
+            if (input === 'back') {
+                options.onBack?.();
+                return;
+            }
+
+            const root = options.rootRef?.current ?? document.body;
+            const active = options.navigate && document.activeElement instanceof HTMLElement
+                && root.contains(document.activeElement) && document.activeElement !== root
+                ? document.activeElement
+                : null;
+
+            if (input === 'confirm') {
+                if (active) active.click();
+                else options.onConfirm?.();
+                return;
+            }
+            if (!options.navigate) return;
+
+            const elements = Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)).filter(isVisible);
+            if (elements.length === 0) return;
+            const next = active ? findNextFocusTarget(elements, active, input as GamepadDirection) : elements[0];
+            if (next) {
+                next.focus();
+                next.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+            }
+        };
+
+        const poll = () => {
+            for (const pad of getConnectedGamepads()) {
+                const held = new Set<string>(readGamepadDirections(pad));
+                if (isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.A)) held.add('confirm');
+                if (isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.B)) held.add('back');
+                if (isGamepadButtonPressed(pad, GAMEPAD_BUTTONS.START)) held.add('start');
+
+                // First poll of a pad only records its state, so a button still held from the previous page doesn't fire again
+                const previous = previousButtons.get(pad.index);
+                if (previous) held.forEach(input => { if (!previous.has(input)) handlePress(input); });
+                previousButtons.set(pad.index, held);
+            }
+            frameId = requestAnimationFrame(poll);
+        };
+        frameId = requestAnimationFrame(poll);
+
+        return () => {
+            cancelAnimationFrame(frameId);
+        };
+    }, []);
+}
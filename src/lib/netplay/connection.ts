@@ -0,0 +1,222 @@
+import type { MatchRules } from '@/lib/combat/rounds';
+import type { FighterIndex } from '@/lib/combat/types';
+import type { RollbackMessage } from '@/lib/netplay/rollback';
+import { openSignaling, type NetplayRole, type SignalMessage, type SignalingKind } from '@/lib/netplay/signaling';
+import type { SpectateChannel } from '@/lib/netplay/spectate';
+
+// Peer-to-peer link of an online match: one WebRTC data channel, unordered and without
+// retransmits (the rollback messages repeat every input until it's acknowledged)
+
+// The fight the host set up on the VS screen, sent to the guest once connected
+export interface NetplaySetup {
+    char1: string; // Host's character, P1
+    char2: string; // Guest's character, P2
+    location: string;
+    matchRules: MatchRules;
+    seed: number;
+}
+
+export type NetplayMessage =
+    | RollbackMessage
+    | { type: 'hello' } // Guest → host, until the setup arrives
+    | { type: 'setup'; setup: NetplaySetup }
+    | { type: 'ping'; sent: number }
+    | { type: 'pong'; sent: number }
+    | { type: 'leave' };
+
+export interface NetplayConnection {
+    role: NetplayRole;
+    send: (message: NetplayMessage) => void;
+    onMessage: (handler: (message: NetplayMessage) => void) => () => void; // Returns the unsubscribe
+    onClose: (handler: () => void) => () => void; // The other side left or the link dropped
+    getPingMs: () => number | null; // Round trip, smoothed, null until the first pong
+    close: () => void;
+}
+
+// An online match as BattleScene plays it
+export interface NetplayMatch {
+    connection: NetplayConnection;
+    localIndex: FighterIndex; // The host is P1, the guest P2
+    inputDelay: number; // Frames, see INPUT_DELAY_OPTIONS
+    spectators: SpectateChannel | null; // The host streams the match to it, both players see the count and emotes
+}
+
+interface ConnectOptions {
+    room: string;
+    role: NetplayRole;
+    signalingKind: SignalingKind;
+    signal?: AbortSignal;
+}
+
+const ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+const CHANNEL_LABEL = 'fight';
+const JOIN_RETRY_MS = 2000;
+const PING_INTERVAL_MS = 1000;
+const PING_SMOOTHING = 0.2; // Weight of the newest round trip
+
+function createConnection(peer: RTCPeerConnection, channel: RTCDataChannel, role: NetplayRole): NetplayConnection {
+    const messageHandlers = new Set<(message: NetplayMessage) => void>();
+    const closeHandlers = new Set<() => void>();
+    let pingMs: number | null = null;
+    let closed = false;
+
+    const send = (message: NetplayMessage) => {
+        if (channel.readyState === 'open') channel.send(JSON.stringify(message));
+    };
+
+    const shutDown = () => {
+        closed = true;
+        clearInterval(pingTimer);
+        channel.close();
+        peer.close();
+    };
+
+    const handleClosed = () => {
+        if (closed) return;
+        shutDown();
+        closeHandlers.forEach(handler => handler());
+    };
+
+    channel.onmessage = (event: MessageEvent<string>) => {
+        let message: NetplayMessage;
+        try {
+            message = JSON.parse(event.data);
+        } catch (error) {
+            console.warn('[Netplay] Dropped a malformed message:', error);
+            return;
+        }
+        switch (message.type) {
+            case 'ping':
+                send({ type: 'pong', sent: message.sent });
+                break;
+            case 'pong': {
+                const roundTrip = performance.now() - message.sent;
+                pingMs = pingMs === null ? roundTrip : pingMs + (roundTrip - pingMs) * PING_SMOOTHING;
+                break;
+            }
+            case 'leave':
+                handleClosed();
+                break;
+            default:
+                messageHandlers.forEach(handler => handler(message));
+        }
+    };
+    channel.onclose = handleClosed;
+    peer.onconnectionstatechange = () => {
+        if (peer.connectionState === 'failed' || peer.connectionState === 'closed') handleClosed();
+    };
+    const pingTimer = setInterval(() => send({ type: 'ping', sent: performance.now() }), PING_INTERVAL_MS);
+
+    return {
+        role,
+        send,
+        onMessage: handler => {
+            messageHandlers.add(handler);
+            return () => messageHandlers.delete(handler);
+        },
+        onClose: handler => {
+            closeHandlers.add(handler);
+            return () => closeHandlers.delete(handler);
+        },
+        getPingMs: () => pingMs,
+        close: () => {
+            if (closed) return;
+            send({ type: 'leave' });
+            shutDown();
+        },
+    };
+}
+
+// The host waits for a guest to join the room and sends the offer, the guest answers.
+// Resolves once the data channel is open, the signaling is closed then.
+export function connectNetplay({ room, role, signalingKind, signal }: ConnectOptions): Promise<NetplayConnection> {
+    return new Promise((resolve, reject) => {
+        const peer = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+        const pendingCandidates: RTCIceCandidateInit[] = []; // Arrived before the remote description
+        let joinTimer: ReturnType<typeof setInterval> | null = null;
+        let hasOffered = false;
+        let settled = false;
+
+        const finish = () => {
+            settled = true;
+            if (joinTimer) clearInterval(joinTimer);
+            signaling.close();
+            signal?.removeEventListener('abort', handleAbort);
+        };
+
+        const fail = (error: Error) => {
+            if (settled) return;
+            finish();
+            peer.close();
+            reject(error);
+        };
+
+        function handleAbort() {
+            fail(new Error('Connection cancelled'));
+        }
+
+        const attachChannel = (channel: RTCDataChannel) => {
+            const handleOpen = () => {
+                if (settled) return;
+                finish();
+                resolve(createConnection(peer, channel, role));
+            };
+            if (channel.readyState === 'open') handleOpen();
+            else channel.onopen = handleOpen;
+        };
+
+        const handleSignal = async (message: SignalMessage) => {
+            switch (message.type) {
+                case 'join':
+                    if (role !== 'host' || hasOffered) return; // Only the first guest gets in
+                    hasOffered = true;
+                    attachChannel(peer.createDataChannel(CHANNEL_LABEL, { ordered: false, maxRetransmits: 0 }));
+                    await peer.setLocalDescription(await peer.createOffer());
+                    signaling.send({ type: 'description', description: peer.localDescription!.toJSON() });
+                    break;
+                case 'description':
+                    if (peer.remoteDescription) return;
+                    await peer.setRemoteDescription(message.description);
+                    await Promise.all(pendingCandidates.splice(0).map(candidate => peer.addIceCandidate(candidate)));
+                    if (message.description.type === 'offer') {
+                        await peer.setLocalDescription(await peer.createAnswer());
+                        signaling.send({ type: 'description', description: peer.localDescription!.toJSON() });
+                    }
+                    break;
+                case 'candidate':
+                    if (peer.remoteDescription) await peer.addIceCandidate(message.candidate);
+                    else pendingCandidates.push(message.candidate);
+                    break;
+            }
+        };
+
+        const signaling = openSignaling(signalingKind, room, role, message => {
+            handleSignal(message).catch(error => {
+                console.error(`[Netplay] Failed to handle ${message.type} in room ${room}:`, error);
+                fail(error instanceof Error ? error : new Error('Connection failed'));
+            });
+        }, fail);
+
+        peer.onicecandidate = event => {
+            if (event.candidate) signaling.send({ type: 'candidate', candidate: event.candidate.toJSON() });
+        };
+        peer.onconnectionstatechange = () => {
+            if (peer.connectionState === 'failed') fail(new Error('Could not reach the other player'));
+        };
+
+        if (signal?.aborted) {
+            handleAbort();
+            return;
+        }
+        signal?.addEventListener('abort', handleAbort);
+
+        if (role === 'guest') {
+            peer.ondatachannel = event => attachChannel(event.channel);
+            const join = () => {
+                if (!peer.remoteDescription) signaling.send({ type: 'join' });
+            };
+            join();
+            joinTimer = setInterval(join, JOIN_RETRY_MS);
+        }
+    });
+}
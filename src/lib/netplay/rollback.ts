@@ -0,0 +1,267 @@
+import { SIM_FPS } from '@/lib/combat/constants';
+import { cloneFightState, stepFight } from '@/lib/combat/simulation';
+import type { FightEvent, FightState, FighterIndex, InputState } from '@/lib/combat/types';
+import { packPlayerInput, recordReplayFrame, unpackPlayerInput, type ReplayRecorder } from '@/lib/replay/replay';
+
+// Rollback netcode: each side simulates right away with a guess of the other player's input
+// (the last one received), then rewinds to a saved state and simulates again when the real
+// input turns out to be different. The simulation is deterministic, so both sides end up in
+// the same state, checked with checksums every CHECKSUM_INTERVAL_FRAMES. Inputs and checksums go
+// in one message each frame, with everything the other side hasn't acknowledged yet, so a lost
+// message (the channel doesn't retransmit) loses nothing.
+
+export const MAX_ROLLBACK_FRAMES = 8; // Frames simulated on guesses, past that the simulation waits for the other side
+export const CHECKSUM_INTERVAL_FRAMES = 30;
+const SAVED_STATES = MAX_ROLLBACK_FRAMES + 2;
+const MAX_INPUTS_PER_MESSAGE = 64;
+// Time sync: the side further ahead than this (net of latency) skips a step, at most once per interval
+const TIME_SYNC_THRESHOLD_FRAMES = 2;
+const TIME_SYNC_INTERVAL_FRAMES = 10;
+const WAITING_STEPS = 30; // Stalled this long, the wait is shown on the HUD
+
+export interface RollbackMessage {
+    type: 'input';
+    round: number;
+    start: number; // Frame of inputs[0]
+    inputs: number[]; // Packed (packPlayerInput), every input the other side hasn't acknowledged
+    ack: number; // Last frame of the receiver's inputs the sender has
+    frame: number; // Sender's simulation frame, for time sync
+    checksums: [number, number][]; // [frame, checksum], every checksum the other side hasn't acknowledged
+    checksumAck: number; // Last frame of the receiver's checksums the sender has
+}
+
+export interface RollbackStats {
+    lastRollbackFrames: number;
+    maxRollbackFrames: number;
+    rollbacks: number;
+}
+
+export interface RollbackSession {
+    localIndex: FighterIndex;
+    inputDelay: number; // Frames between a local press and the frame it's simulated on
+    round: number; // 1-based, frames (and inputs) count from 0 in each round
+    frame: number; // Frames simulated this round
+    localInputs: number[]; // By frame, already delayed
+    remoteInputs: (number | undefined)[]; // By frame, as they arrive (possibly out of order)
+    remoteFrame: number; // Last frame with every remote input up to it received, -1 = none yet
+    predictedInputs: number[]; // By frame, the remote input each simulated frame used
+    savedStates: FightState[]; // By frame % SAVED_STATES, the state before simulating that frame
+    rollbackFrom: number | null; // Earliest simulated frame whose guess was wrong
+    stalledSteps: number; // Steps in a row not taken, waiting for the other side
+    remoteAck: number; // Last frame of the local inputs the other side has
+    remoteSimFrame: number;
+    lastSyncSkipFrame: number;
+    nextChecksumFrame: number;
+    checksums: Map<number, number>; // Local, by frame, until the other side's arrives
+    remoteChecksums: Map<number, number>; // By frame, until the local one is computed
+    unackedChecksums: [number, number][]; // Local [frame, checksum], sent until the other side has them
+    remoteChecksumAck: number; // Last frame of the local checksums the other side has
+    checksumAck: number; // Last frame of the other side's checksums received
+    futureMessages: RollbackMessage[]; // Already for the next round, this side is still finishing the current one
+    desync: { round: number; frame: number } | null;
+    stats: RollbackStats;
+}
+
+// The fields that start over with each round
+type RollbackRoundFields = Omit<RollbackSession, 'localIndex' | 'inputDelay' | 'futureMessages' | 'desync' | 'stats'>;
+
+const createRoundFields = (round: number, inputDelay: number): RollbackRoundFields => ({
+    round,
+    frame: 0,
+    localInputs: new Array(inputDelay).fill(0), // Nothing pressed before the first delayed input
+    remoteInputs: [],
+    remoteFrame: -1,
+    predictedInputs: [],
+    savedStates: [],
+    rollbackFrom: null,
+    stalledSteps: 0,
+    remoteAck: -1,
+    remoteSimFrame: 0,
+    lastSyncSkipFrame: -TIME_SYNC_INTERVAL_FRAMES,
+    nextChecksumFrame: CHECKSUM_INTERVAL_FRAMES,
+    checksums: new Map(),
+    remoteChecksums: new Map(),
+    unackedChecksums: [],
+    remoteChecksumAck: -1,
+    checksumAck: -1,
+});
+
+export const createRollbackSession = (localIndex: FighterIndex, inputDelay: number): RollbackSession => ({
+    localIndex,
+    inputDelay,
+    futureMessages: [],
+    desync: null,
+    stats: { lastRollbackFrames: 0, maxRollbackFrames: 0, rollbacks: 0 },
+    ...createRoundFields(1, inputDelay),
+});
+
+// FNV-1a of the whole state, equal on both sides as long as they simulate the same fight
+export function computeChecksum(state: FightState): number {
+    const text = JSON.stringify(state);
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < text.length; index++) {
+        hash ^= text.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function compareChecksums(session: RollbackSession, frame: number) {
+    const local = session.checksums.get(frame);
+    const remote = session.remoteChecksums.get(frame);
+    if (local === undefined || remote === undefined) return;
+    session.checksums.delete(frame);
+    session.remoteChecksums.delete(frame);
+    if (local !== remote && !session.desync) {
+        console.error(`[Netplay] Desync in round ${session.round} at frame ${frame}: ${local} here, ${remote} on the other side`);
+        session.desync = { round: session.round, frame };
+    }
+}
+
+function receiveInputs(session: RollbackSession, message: RollbackMessage) {
+    message.inputs.forEach((packed, offset) => {
+        const frame = message.start + offset;
+        if (frame <= session.remoteFrame || session.remoteInputs[frame] !== undefined) return;
+        session.remoteInputs[frame] = packed;
+        if (frame < session.frame && session.predictedInputs[frame] !== packed) {
+            session.rollbackFrom = Math.min(session.rollbackFrom ?? frame, frame);
+        }
+    });
+    while (session.remoteInputs[session.remoteFrame + 1] !== undefined) session.remoteFrame++;
+    session.remoteAck = Math.max(session.remoteAck, message.ack);
+    session.remoteSimFrame = Math.max(session.remoteSimFrame, message.frame);
+}
+
+// The other side sends its checksums oldest first until acknowledged, so having one means having every one before it
+function receiveChecksums(session: RollbackSession, message: RollbackMessage) {
+    message.checksums.forEach(([frame, checksum]) => {
+        if (frame <= session.checksumAck) return;
+        session.checksumAck = frame;
+        session.remoteChecksums.set(frame, checksum);
+        compareChecksums(session, frame);
+    });
+    session.remoteChecksumAck = Math.max(session.remoteChecksumAck, message.checksumAck);
+    session.unackedChecksums = session.unackedChecksums.filter(([frame]) => frame > session.remoteChecksumAck);
+    // A local checksum the other side's checksums went past without it can't be compared anymore
+    session.checksums.forEach((_, frame) => {
+        if (frame <= session.checksumAck) session.checksums.delete(frame);
+    });
+}
+
+export function receiveRollbackMessage(session: RollbackSession, message: RollbackMessage) {
+    if (message.round > session.round) {
+        session.futureMessages.push(message);
+        return;
+    }
+    if (message.round < session.round) return;
+    receiveInputs(session, message);
+    receiveChecksums(session, message);
+}
+
+// Called with the next round's fresh state, picks up what the other side already sent for it
+export function startRollbackRound(session: RollbackSession, round: number) {
+    Object.assign(session, createRoundFields(round, session.inputDelay));
+    const pending = session.futureMessages;
+    session.futureMessages = [];
+    pending.forEach(message => receiveRollbackMessage(session, message));
+}
+
+// Input of the other player for a frame: the real one once it arrived, else the last one seen
+const getRemoteInput = (session: RollbackSession, frame: number): number =>
+    session.remoteInputs[frame] ?? session.remoteInputs[session.remoteFrame] ?? 0;
+
+function getFrameInputs(session: RollbackSession, frame: number): [InputState, InputState] {
+    const local = unpackPlayerInput(session.localInputs[frame] ?? 0);
+    const remote = unpackPlayerInput(getRemoteInput(session, frame));
+    return session.localIndex === 0 ? [local, remote] : [remote, local];
+}
+
+// Saves the state, then steps it (in place) with the frame's inputs
+function simulateFrame(session: RollbackSession, state: FightState, recorder: ReplayRecorder | null): FightEvent[] {
+    const frame = state.frame;
+    session.savedStates[frame % SAVED_STATES] = cloneFightState(state);
+    session.predictedInputs[frame] = getRemoteInput(session, frame);
+    const inputs = getFrameInputs(session, frame);
+    if (recorder) recordReplayFrame(recorder, session.round, frame, inputs);
+    session.frame = frame + 1;
+    return stepFight(state, inputs);
+}
+
+// Checksums of the states every input before them is known for
+function collectChecksums(session: RollbackSession, state: FightState) {
+    while (session.nextChecksumFrame <= session.remoteFrame + 1 && session.nextChecksumFrame <= state.frame) {
+        const frame = session.nextChecksumFrame;
+        const checksum = computeChecksum(frame === state.frame ? state : session.savedStates[frame % SAVED_STATES]);
+        session.checksums.set(frame, checksum);
+        session.unackedChecksums.push([frame, checksum]);
+        compareChecksums(session, frame);
+        session.nextChecksumFrame += CHECKSUM_INTERVAL_FRAMES;
+    }
+}
+
+// Rewinds to the first wrongly guessed frame and simulates back up to the current one with the
+// inputs known now. Returns the corrected state (a new object), or the same one when nothing changed.
+// The events of the frames simulated again are dropped, they were (or should have been) seen already.
+export function applyRollback(session: RollbackSession, state: FightState, recorder: ReplayRecorder | null = null): FightState {
+    const from = session.rollbackFrom;
+    if (from === null) return state;
+    session.rollbackFrom = null;
+    const currentFrame = state.frame;
+    const corrected = cloneFightState(session.savedStates[from % SAVED_STATES]);
+    while (corrected.frame < currentFrame) simulateFrame(session, corrected, recorder);
+    const frames = currentFrame - from;
+    session.stats.lastRollbackFrames = frames;
+    session.stats.maxRollbackFrames = Math.max(session.stats.maxRollbackFrames, frames);
+    session.stats.rollbacks++;
+    collectChecksums(session, corrected);
+    return corrected;
+}
+
+// Steps the state (in place) one frame with the local player's input. null = not stepped,
+// the other side is too far behind to keep guessing its inputs.
+export function stepRollback(session: RollbackSession, state: FightState, localInput: InputState, recorder: ReplayRecorder | null = null): FightEvent[] | null {
+    if (state.frame - session.remoteFrame > MAX_ROLLBACK_FRAMES) {
+        session.stalledSteps++;
+        return null;
+    }
+    session.stalledSteps = 0;
+    session.localInputs[state.frame + session.inputDelay] = packPlayerInput(localInput);
+    const events = simulateFrame(session, state, recorder);
+    collectChecksums(session, state);
+    return events;
+}
+
+// The side ahead of the other (which then rolls back more) gives up a step now and then
+export function shouldSkipStepForSync(session: RollbackSession, pingMs: number | null): boolean {
+    const latencyFrames = pingMs === null ? 0 : (pingMs / 2) * SIM_FPS / 1000;
+    const advantage = session.frame - (session.remoteSimFrame + latencyFrames);
+    if (advantage < TIME_SYNC_THRESHOLD_FRAMES || session.frame - session.lastSyncSkipFrame < TIME_SYNC_INTERVAL_FRAMES) return false;
+    session.lastSyncSkipFrame = session.frame;
+    return true;
+}
+
+export const isWaitingForRemote = (session: RollbackSession): boolean => session.stalledSteps >= WAITING_STEPS;
+
+// No frame simulated so far can be rolled back anymore (a KO on a guess isn't a KO yet)
+export const isRollbackConfirmed = (session: RollbackSession): boolean =>
+    session.rollbackFrom === null && session.frame - 1 <= session.remoteFrame;
+
+// Frames of the round from its start whose inputs are final: simulated, with the other side's real
+// inputs, and no rollback pending over them
+export const getConfirmedFrames = (session: RollbackSession): number =>
+    Math.min(session.frame, session.remoteFrame + 1, session.rollbackFrom ?? Infinity);
+
+// What to send the other side after this frame's steps: the unacknowledged inputs and checksums
+export function takeRollbackMessage(session: RollbackSession): RollbackMessage {
+    const start = session.remoteAck + 1;
+    return {
+        type: 'input',
+        round: session.round,
+        start,
+        inputs: session.localInputs.slice(start, start + MAX_INPUTS_PER_MESSAGE),
+        ack: session.remoteFrame,
+        frame: session.frame,
+        checksums: [...session.unackedChecksums],
+        checksumAck: session.checksumAck,
+    };
+}
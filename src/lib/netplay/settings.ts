@@ -0,0 +1,28 @@
+// Online match settings of this browser, in localStorage
+
+const INPUT_DELAY_STORAGE_KEY = 'vibefighter.netplayInputDelay';
+
+// More delay = fewer rollbacks (less warping) but laggier controls. 2 frames suits most connections.
+export const INPUT_DELAY_OPTIONS = [0, 1, 2, 3, 4, 5, 6] as const;
+export const DEFAULT_INPUT_DELAY = 2;
+
+export function loadInputDelay(): number {
+    if (typeof window === 'undefined') return DEFAULT_INPUT_DELAY;
+    try {
+        const raw = window.localStorage.getItem(INPUT_DELAY_STORAGE_KEY);
+        const stored = raw === null ? NaN : Number(raw);
+        return (INPUT_DELAY_OPTIONS as readonly number[]).includes(stored) ? stored : DEFAULT_INPUT_DELAY;
+    } catch (error) {
+        console.error('[netplaySettings] Failed to read the input delay:', error);
+        return DEFAULT_INPUT_DELAY;
+    }
+}
+
+export function saveInputDelay(frames: number): void {
+    if (typeof window === 'undefined') return;
+    try {
+        window.localStorage.setItem(INPUT_DELAY_STORAGE_KEY, String(frames));
+    } catch (error) {
+        console.error('[netplaySettings] Failed to save the input delay:', error);
+    }
+}
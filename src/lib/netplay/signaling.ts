@@ -0,0 +1,98 @@
+// Signaling for online matches: the two browsers of a room swap their WebRTC offer, answer and
+// network candidates here, then talk directly. 'server' relays through /api/netplay, 'local'
+// through a BroadcastChannel (two tabs of the same browser, no server needed).
+
+export type NetplayRole = 'host' | 'guest';
+export type SignalingKind = 'server' | 'local';
+
+export type SignalMessage =
+    | { type: 'join' } // Guest → host, until the host's offer arrives
+    | { type: 'description'; description: RTCSessionDescriptionInit } // Offer (host) or answer (guest)
+    | { type: 'candidate'; candidate: RTCIceCandidateInit };
+
+export interface SignalingChannel {
+    send: (message: SignalMessage) => void;
+    close: () => void;
+}
+
+// No 0/O or 1/I, the code gets read out loud and typed
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const ROOM_CODE_LENGTH = 6;
+const ROOM_CODE_PATTERN = new RegExp(`^[${ROOM_CODE_ALPHABET}]{${ROOM_CODE_LENGTH}}$`);
+const POLL_INTERVAL_MS = 500;
+
+export const generateRoomCode = (): string =>
+    Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)]).join('');
+
+export const normalizeRoomCode = (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const isRoomCode = (code: string): boolean => ROOM_CODE_PATTERN.test(code);
+
+export const otherRole = (role: NetplayRole): NetplayRole => role === 'host' ? 'guest' : 'host';
+
+// A message that couldn't be delivered (the room is full, the server is gone) goes to onError:
+// the other side may be waiting for it, so the connection can't go on.
+function openServerSignaling(room: string, role: NetplayRole, onMessage: (message: SignalMessage) => void, onError: (error: Error) => void): SignalingChannel {
+    let closed = false;
+    let lastMessageId = 0;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+        try {
+            const response = await fetch(`/api/netplay?room=${room}&role=${role}&after=${lastMessageId}`);
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || `Signaling failed (${response.status})`);
+            (data.messages as { id: number; message: SignalMessage }[]).forEach(({ id, message }) => {
+                lastMessageId = Math.max(lastMessageId, id);
+                if (!closed) onMessage(message);
+            });
+        } catch (error) {
+            console.error(`[Netplay Signaling] Failed to poll room ${room}:`, error);
+        }
+        if (!closed) pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+    poll();
+
+    return {
+        send: async message => {
+            try {
+                const response = await fetch('/api/netplay', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ room, to: otherRole(role), message }),
+                });
+                if (!response.ok) {
+                    const data = await response.json().catch(() => ({}));
+                    throw new Error(data.error || `Signaling failed (${response.status})`);
+                }
+            } catch (error) {
+                console.error(`[Netplay Signaling] Failed to send ${message.type} to room ${room}:`, error);
+                if (!closed) onError(error instanceof Error ? error : new Error('Signaling failed'));
+            }
+        },
+        close: () => {
+            closed = true;
+            if (pollTimer) clearTimeout(pollTimer);
+        },
+    };
+}
+
+function openLocalSignaling(room: string, role: NetplayRole, onMessage: (message: SignalMessage) => void): SignalingChannel {
+    const channel = new BroadcastChannel(`vibefighter.netplay.${room}`);
+    channel.onmessage = (event: MessageEvent<{ to: NetplayRole; message: SignalMessage }>) => {
+        if (event.data?.to === role) onMessage(event.data.message);
+    };
+    return {
+        send: message => channel.postMessage({ to: otherRole(role), message }),
+        close: () => channel.close(),
+    };
+}
+
+export const openSignaling = (
+    kind: SignalingKind,
+    room: string,
+    role: NetplayRole,
+    onMessage: (message: SignalMessage) => void,
+    onError: (error: Error) => void,
+): SignalingChannel =>
+    kind === 'local' ? openLocalSignaling(room, role, onMessage) : openServerSignaling(room, role, onMessage, onError);
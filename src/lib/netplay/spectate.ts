@@ -0,0 +1,261 @@
+import type { NetplaySetup } from '@/lib/netplay/connection';
+import { getConfirmedFrames, type RollbackSession } from '@/lib/netplay/rollback';
+import type { SignalingKind } from '@/lib/netplay/signaling';
+import type { ReplayPlayback, ReplayRecorder } from '@/lib/replay/replay';
+
+// Spectating online matches: the host streams the match's final inputs to the room, spectators
+// play them back through the replay playback a few seconds behind. 'server' relays through
+// /api/spectate, 'local' through a BroadcastChannel (tabs of the host's browser), like the signaling.
+
+export const SPECTATOR_DELAY_MS = 3000;
+export const SPECTATE_PUBLISH_MS = 500;
+export const SPECTATOR_EMOTES = ['🔥', '😱', '😂', '👏', '💀', '🎉'] as const;
+export type SpectatorEmote = typeof SPECTATOR_EMOTES[number];
+
+const SERVER_POLL_MS = 500;
+const FEED_RETRY_MS = 1000; // Before sending a feed message the relay didn't take again
+const PRESENCE_INTERVAL_MS = 2000;
+const PRESENCE_TIMEOUT_MS = 5000; // A spectator not heard of for this long left
+
+// From the host, in order: the fight, then its inputs as they become final
+export type SpectateFeedMessage =
+    | { type: 'setup'; setup: NetplaySetup }
+    | { type: 'inputs'; round: number; start: number; inputs: number[] } // Packed, both players
+    | { type: 'end' }; // The host left (the match may not be over)
+
+export interface SpectatorReaction {
+    emote: SpectatorEmote;
+    viewer: string; // Who sent it
+}
+
+// viewer is set for a spectator (counted, gets the feed) and null for a player
+export interface SpectateChannel {
+    viewer: string | null;
+    publish: (message: SpectateFeedMessage) => void; // Host only
+    sendEmote: (emote: SpectatorEmote) => void; // Spectators only, handed to the own onEmote handlers right away
+    onFeed: (handler: (message: SpectateFeedMessage) => void) => () => void; // Returns the unsubscribe
+    onEmote: (handler: (reaction: SpectatorReaction) => void) => () => void;
+    onSpectatorCount: (handler: (count: number) => void) => () => void;
+    close: () => void;
+}
+
+// A live match as BattleScene shows it in 'spectate' mode
+export interface SpectatorMatch {
+    channel: SpectateChannel;
+    playback: ReplayPlayback; // Live, the spectate page appends the inputs
+}
+
+// How far the host got streaming the match
+export interface SpectateProgress {
+    round: number;
+    sentFrames: number;
+}
+
+type LocalSpectateMessage =
+    | { kind: 'feed'; message: SpectateFeedMessage }
+    | { kind: 'hello' } // A new spectator, the host sends the feed so far again
+    | { kind: 'presence'; viewer: string }
+    | { kind: 'emote'; reaction: SpectatorReaction };
+
+export const isSpectatorEmote = (value: unknown): value is SpectatorEmote =>
+    (SPECTATOR_EMOTES as readonly unknown[]).includes(value);
+
+export const createViewerId = (): string => `${Date.now().toString(36)}-${Math.floor(Math.random() * 36 ** 4).toString(36)}`;
+
+export const createSpectateProgress = (): SpectateProgress => ({ round: 1, sentFrames: 0 });
+
+/**
+ * The inputs to stream since the last call. A round is streamed as its frames get confirmed, and
+ * once the match moved on to the next one, the rest of it (the frames after the KO, which take
+ * no input). Holes in the recording are frames no input was recorded for, played as nothing pressed.
+ */
+export function takeSpectateInputs(progress: SpectateProgress, session: RollbackSession, recorder: ReplayRecorder): SpectateFeedMessage[] {
+    const messages: SpectateFeedMessage[] = [];
+    const take = (round: number, end: number) => {
+        const frames = recorder.rounds[round - 1] ?? [];
+        const inputs = Array.from(frames.slice(progress.sentFrames, end), packed => packed ?? 0);
+        if (inputs.length === 0) return;
+        messages.push({ type: 'inputs', round, start: progress.sentFrames, inputs });
+        progress.sentFrames += inputs.length;
+    };
+    while (progress.round < session.round) {
+        take(progress.round, recorder.rounds[progress.round - 1]?.length ?? 0);
+        progress.round++;
+        progress.sentFrames = 0;
+    }
+    take(session.round, getConfirmedFrames(session));
+    return messages;
+}
+
+function createHandlerSet<T>() {
+    const handlers = new Set<(value: T) => void>();
+    return {
+        add: (handler: (value: T) => void) => {
+            handlers.add(handler);
+            return () => {
+                handlers.delete(handler);
+            };
+        },
+        emit: (value: T) => handlers.forEach(handler => handler(value)),
+    };
+}
+
+function openServerSpectate(room: string, viewer: string | null): SpectateChannel {
+    const feed = createHandlerSet<SpectateFeedMessage>();
+    const emotes = createHandlerSet<SpectatorReaction>();
+    const counts = createHandlerSet<number>();
+    let closed = false;
+    let lastFeedId = 0;
+    let lastEmoteId = 0;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Feed messages go out one at a time, in order, each until the relay took it: spectators can only
+    // play on from contiguous inputs, one lost message would hold them on its frame for good
+    const unsentFeed: SpectateFeedMessage[] = [];
+    let sentFeed = 0;
+    let sendingFeed = false;
+    let feedRefused = false;
+
+    const post = (body: object) =>
+        fetch('/api/spectate', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ room, ...body }),
+        });
+
+    const sendFeed = async () => {
+        if (sendingFeed) return;
+        sendingFeed = true;
+        while (unsentFeed.length > 0 && !feedRefused) {
+            let status = 0; // Network failure
+            try {
+                const response = await post({ feed: unsentFeed[0], seq: sentFeed + 1 });
+                status = response.status;
+                if (response.ok) {
+                    unsentFeed.shift();
+                    sentFeed++;
+                    continue;
+                }
+            } catch (error) {
+                console.error(`[Spectate] Failed to post to room ${room}:`, error);
+            }
+            if (status !== 0) console.error(`[Spectate] Room ${room} refused a feed message (${status})`);
+            // A busy or unreachable relay is tried again, one refusing the message would refuse it again
+            if (status !== 0 && status !== 429 && status < 500) feedRefused = true;
+            if (closed || feedRefused) break;
+            await new Promise(resolve => setTimeout(resolve, FEED_RETRY_MS));
+        }
+        sendingFeed = false;
+    };
+
+    const poll = async () => {
+        try {
+            const response = await fetch(`/api/spectate?room=${room}&after=${lastFeedId}&emotesAfter=${lastEmoteId}${viewer ? `&viewer=${viewer}` : ''}`);
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || `Spectating failed (${response.status})`);
+            if (closed) return;
+            (data.feed as { id: number; message: SpectateFeedMessage }[]).forEach(({ id, message }) => {
+                lastFeedId = Math.max(lastFeedId, id);
+                feed.emit(message);
+            });
+            (data.emotes as { id: number; reaction: SpectatorReaction }[]).forEach(({ id, reaction }) => {
+                lastEmoteId = Math.max(lastEmoteId, id);
+                if (reaction.viewer !== viewer) emotes.emit(reaction); // The own ones were shown when sent
+            });
+            counts.emit(data.spectators);
+        } catch (error) {
+            console.error(`[Spectate] Failed to poll room ${room}:`, error);
+        }
+        if (!closed) pollTimer = setTimeout(poll, SERVER_POLL_MS);
+    };
+    poll();
+
+    return {
+        viewer,
+        publish: message => {
+            unsentFeed.push(message);
+            sendFeed();
+        },
+        sendEmote: emote => {
+            if (!viewer) return;
+            emotes.emit({ emote, viewer });
+            // Emotes aren't sent again, a late one would be out of place
+            post({ reaction: { emote, viewer } })
+                .then(response => {
+                    if (!response.ok) throw new Error(`Emote refused (${response.status})`);
+                })
+                .catch(error => console.error(`[Spectate] Failed to send an emote to room ${room}:`, error));
+        },
+        onFeed: feed.add,
+        onEmote: emotes.add,
+        onSpectatorCount: counts.add,
+        close: () => {
+            closed = true;
+            if (pollTimer) clearTimeout(pollTimer);
+        },
+    };
+}
+
+function openLocalSpectate(room: string, viewer: string | null): SpectateChannel {
+    const channel = new BroadcastChannel(`vibefighter.spectate.${room}`);
+    const feed = createHandlerSet<SpectateFeedMessage>();
+    const emotes = createHandlerSet<SpectatorReaction>();
+    const counts = createHandlerSet<number>();
+    const published: SpectateFeedMessage[] = []; // Sent again for spectators who come in later
+    const lastSeen = new Map<string, number>(); // Other spectators, by viewer
+    const post = (message: LocalSpectateMessage) => channel.postMessage(message);
+
+    channel.onmessage = (event: MessageEvent<LocalSpectateMessage>) => {
+        const message = event.data;
+        switch (message?.kind) {
+            case 'feed':
+                if (viewer) feed.emit(message.message);
+                break;
+            case 'hello':
+                published.forEach(sent => post({ kind: 'feed', message: sent }));
+                break;
+            case 'presence':
+                lastSeen.set(message.viewer, Date.now());
+                break;
+            case 'emote':
+                emotes.emit(message.reaction);
+                break;
+        }
+    };
+
+    const updatePresence = () => {
+        if (viewer) post({ kind: 'presence', viewer });
+        const now = Date.now();
+        lastSeen.forEach((seen, other) => {
+            if (now - seen > PRESENCE_TIMEOUT_MS) lastSeen.delete(other);
+        });
+        counts.emit(lastSeen.size + (viewer ? 1 : 0));
+    };
+    updatePresence();
+    const presenceTimer = setInterval(updatePresence, PRESENCE_INTERVAL_MS);
+    if (viewer) post({ kind: 'hello' });
+
+    return {
+        viewer,
+        publish: message => {
+            published.push(message);
+            post({ kind: 'feed', message });
+        },
+        sendEmote: emote => {
+            if (!viewer) return;
+            const reaction = { emote, viewer };
+            emotes.emit(reaction);
+            post({ kind: 'emote', reaction });
+        },
+        onFeed: feed.add,
+        onEmote: emotes.add,
+        onSpectatorCount: counts.add,
+        close: () => {
+            clearInterval(presenceTimer);
+            channel.close();
+        },
+    };
+}
+
+export const openSpectateChannel = (kind: SignalingKind, room: string, viewer: string | null): SpectateChannel =>
+    kind === 'local' ? openLocalSpectate(room, viewer) : openServerSpectate(room, viewer);
@@ -0,0 +1,48 @@
+import { parseReplay, type Replay } from '@/lib/replay/replay';
+
+// Replays of the matches played in this browser, newest first, in localStorage
+
+const STORAGE_KEY = 'vibefighter.replays';
+export const MAX_LOCAL_REPLAYS = 20;
+
+export function loadLocalReplays(): Replay[] {
+    if (typeof window === 'undefined') return [];
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        const stored = JSON.parse(raw);
+        if (!Array.isArray(stored)) return [];
+        return stored.map(parseReplay).filter((replay): replay is Replay => replay !== null);
+    } catch (error) {
+        console.error('[localReplays] Failed to read stored replays:', error);
+        return [];
+    }
+}
+
+export const loadLocalReplay = (id: string): Replay | null =>
+    loadLocalReplays().find(replay => replay.id === id) ?? null;
+
+// Drops the oldest replays when the storage is full
+function storeReplays(replays: Replay[]): void {
+    let kept = replays.slice(0, MAX_LOCAL_REPLAYS);
+    while (kept.length > 0) {
+        try {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+            return;
+        } catch (error) {
+            console.warn(`[localReplays] Failed to store ${kept.length} replays, dropping the oldest:`, error);
+            kept = kept.slice(0, -1);
+        }
+    }
+    window.localStorage.removeItem(STORAGE_KEY);
+}
+
+export function saveLocalReplay(replay: Replay): void {
+    if (typeof window === 'undefined') return;
+    storeReplays([replay, ...loadLocalReplays().filter(stored => stored.id !== replay.id)]);
+}
+
+export function deleteLocalReplay(id: string): void {
+    if (typeof window === 'undefined') return;
+    storeReplays(loadLocalReplays().filter(replay => replay.id !== id));
+}
@@ -0,0 +1,61 @@
+import { supabase } from '@/lib/supabase/client';
+import { parseReplay, type Replay } from '@/lib/replay/replay';
+
+// Shared replays (the replays table), uploaded through /api/save-replay
+
+export const ONLINE_REPLAYS_PAGE_SIZE = 20;
+
+export interface OnlineReplaySummary {
+    id: string; // Row id, not the replay's own id
+    createdAt: string;
+    player1Name: string;
+    player2Name: string;
+    winner: number | null;
+    frames: number;
+}
+
+interface ReplayRow {
+    id: string;
+    created_at: string;
+    winner: number | null;
+    frames: number;
+    player1: { name: string | null } | null;
+    player2: { name: string | null } | null;
+}
+
+export async function uploadReplay(replay: Replay): Promise<string> {
+    const response = await fetch('/api/save-replay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(replay),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `Failed to upload the replay (${response.status})`);
+    return data.id;
+}
+
+// Newest first, without the inputs
+export async function loadOnlineReplays(limit = ONLINE_REPLAYS_PAGE_SIZE): Promise<OnlineReplaySummary[]> {
+    const { data, error } = await supabase
+        .from('replays')
+        .select('id, created_at, winner, frames, player1:characters!replays_char1_fkey(name), player2:characters!replays_char2_fkey(name)')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+    if (error) throw error;
+    return ((data ?? []) as unknown as ReplayRow[]).map(row => ({
+        id: row.id,
+        createdAt: row.created_at,
+        player1Name: row.player1?.name ?? '???',
+        player2Name: row.player2?.name ?? '???',
+        winner: row.winner,
+        frames: row.frames,
+    }));
+}
+
+export async function loadOnlineReplay(id: string): Promise<Replay> {
+    const { data, error } = await supabase.from('replays').select('data').eq('id', id).single();
+    if (error) throw error;
+    const replay = parseReplay(data?.data);
+    if (!replay) throw new Error('This replay was recorded by another version of the game and cannot be played.');
+    return replay;
+}
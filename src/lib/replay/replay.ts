@@ -0,0 +1,231 @@
+import { SIM_FPS } from '@/lib/combat/constants';
+import { MOVES } from '@/lib/combat/moves';
+import type { MatchRules } from '@/lib/combat/rounds';
+import type { BodyLayout, FighterIndex, GameMode, InputState, LimbPosition, MoveId } from '@/lib/combat/types';
+
+// Match replays: the fight simulation is reproducible from its seed and inputs, so a replay is
+// just those plus what's needed to set the same fight up again (characters, location, rules).
+
+export const REPLAY_VERSION = 1;
+
+// Bit order of the packed inputs, P1 in the low bits and P2 above. Never reorder, stored replays use it.
+const INPUT_BITS: (keyof InputState)[] = ['left', 'right', 'jump', 'duck', 'punch', 'block', 'special'];
+const PLAYER_SHIFT = INPUT_BITS.length;
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2] as const;
+const LIVE_CATCH_UP_FRAMES = 2 * SIM_FPS; // A live playback further behind than this plays faster
+const LIVE_CATCH_UP_SPEED = 2;
+const MAX_PACKED_INPUT = (1 << (2 * PLAYER_SHIFT)) - 1;
+export const MAX_REPLAY_FRAMES = 60 * 60 * SIM_FPS; // An hour of fighting, anything longer is not a real match
+
+// The fight set-up, as the fight page and the arcade modes give it to BattleScene
+export interface ReplaySetup {
+    char1: string;
+    char2: string;
+    location: string;
+    player1Name: string;
+    player2Name: string;
+    gameMode: GameMode; // The mode it was played in, for the replay list
+    matchRules: MatchRules;
+    player1StartHealth?: number;
+    player2MaxHealth?: number;
+    player2Scale?: number;
+}
+
+export interface Replay extends ReplaySetup {
+    version: number;
+    id: string;
+    createdAt: string;
+    seed: number;
+    bodies?: [BodyLayout, BodyLayout]; // Measured on the models (hurtboxes and move reach) when it was fought, omitted in older replays (DEFAULT_BODY_LAYOUT)
+    rounds: number[][]; // Per round, run-length encoded packed inputs: [inputs, frames, inputs, frames...]
+    frames: number; // Simulation steps over all the rounds
+    winner: FighterIndex | null; // null = draw
+}
+
+// Filled while the match is fought, one packed input per simulation step
+export interface ReplayRecorder {
+    seed: number;
+    bodies: [BodyLayout, BodyLayout];
+    rounds: number[][];
+}
+
+// Plays a replay back in BattleScene. The controls change speed, paused and pendingSteps.
+export interface ReplayPlayback {
+    replay: Replay;
+    rounds: number[][]; // Decoded, one packed input per step
+    speed: number;
+    paused: boolean;
+    pendingSteps: number; // Steps to take while paused (frame by frame)
+    live: boolean; // A match still being fought (spectating): its inputs are appended as they arrive
+    availableFrames: number[]; // Live only, per round, how many frames can be played yet
+}
+
+// One player's buttons, also what online matches send each frame
+export const packPlayerInput = (input: InputState): number =>
+    INPUT_BITS.reduce((packed, key, bit) => input[key] ? packed | (1 << bit) : packed, 0);
+
+export const unpackPlayerInput = (packed: number): InputState =>
+    Object.fromEntries(INPUT_BITS.map((key, bit) => [key, (packed & (1 << bit)) !== 0])) as unknown as InputState;
+
+export const packInputs = (inputs: [InputState, InputState]): number =>
+    packPlayerInput(inputs[0]) | (packPlayerInput(inputs[1]) << PLAYER_SHIFT);
+
+export const unpackInputs = (packed: number): [InputState, InputState] =>
+    [unpackPlayerInput(packed), unpackPlayerInput(packed >> PLAYER_SHIFT)];
+
+export function encodeRuns(frames: number[]): number[] {
+    const runs: number[] = [];
+    frames.forEach(packed => {
+        if (runs.length > 0 && runs[runs.length - 2] === packed) runs[runs.length - 1]++;
+        else runs.push(packed, 1);
+    });
+    return runs;
+}
+
+export function decodeRuns(runs: number[]): number[] {
+    const frames: number[] = [];
+    for (let index = 0; index + 1 < runs.length; index += 2) {
+        for (let count = 0; count < runs[index + 1]; count++) frames.push(runs[index]);
+    }
+    return frames;
+}
+
+export const createReplayRecorder = (seed: number, bodies: [BodyLayout, BodyLayout]): ReplayRecorder => ({ seed, bodies, rounds: [] });
+
+// round is 1-based, like BattleScene's, frame counts from 0 in each round. Recording a frame
+// again (an online rollback simulating it with the right inputs) replaces it.
+export function recordReplayFrame(recorder: ReplayRecorder, round: number, frame: number, inputs: [InputState, InputState]) {
+    (recorder.rounds[round - 1] ??= [])[frame] = packInputs(inputs);
+}
+
+export function finishReplay(recorder: ReplayRecorder, setup: ReplaySetup, winner: FighterIndex | null): Replay {
+    const rounds = Array.from(recorder.rounds, round => Array.from(round ?? [], packed => packed ?? 0));
+    return {
+        ...setup,
+        version: REPLAY_VERSION,
+        id: `${Date.now().toString(36)}-${Math.floor(Math.random() * 36 ** 4).toString(36)}`,
+        createdAt: new Date().toISOString(),
+        seed: recorder.seed,
+        bodies: recorder.bodies,
+        rounds: rounds.map(encodeRuns),
+        frames: rounds.reduce((total, round) => total + round.length, 0),
+        winner,
+    };
+}
+
+export const createReplayPlayback = (replay: Replay): ReplayPlayback => ({
+    replay,
+    rounds: replay.rounds.map(decodeRuns),
+    speed: 1,
+    paused: false,
+    pendingSteps: 0,
+    live: false,
+    availableFrames: [],
+});
+
+// A live match has no recording yet: an empty one, filled by appendLiveInputs
+export const createLivePlayback = (setup: ReplaySetup, seed: number): ReplayPlayback => ({
+    ...createReplayPlayback({
+        ...setup,
+        version: REPLAY_VERSION,
+        id: `live-${Date.now().toString(36)}`,
+        createdAt: new Date().toISOString(),
+        seed,
+        rounds: [],
+        frames: 0,
+        winner: null,
+    }),
+    live: true,
+});
+
+// Inputs of a live match from frame start of a round, playable right away (the spectate page holds
+// them back for the delay). Only the frames up to the first one still missing can be played.
+export function appendLiveInputs(playback: ReplayPlayback, round: number, start: number, inputs: number[]) {
+    const frames = (playback.rounds[round - 1] ??= []);
+    inputs.forEach((packed, index) => {
+        frames[start + index] = packed;
+    });
+    let available = playback.availableFrames[round - 1] ?? 0;
+    while (frames[available] !== undefined) available++;
+    playback.availableFrames[round - 1] = available;
+}
+
+// Whether the step about to run can be played. A live playback waits at the end of what's
+// available (the fight only, the fall after a KO needs no input).
+export const isReplayFrameAvailable = (playback: ReplayPlayback, round: number, frame: number): boolean =>
+    !playback.live || frame < (playback.availableFrames[round - 1] ?? 0);
+
+// Speed factor of a live playback: faster while far behind what's available (joined late, or waited)
+export function getLiveCatchUpSpeed(playback: ReplayPlayback, round: number, frame: number): number {
+    if (!playback.live) return 1;
+    const behind = playback.availableFrames.reduce(
+        (total, available, index) => total + (index + 1 === round ? Math.max(available - frame, 0) : index + 1 > round ? available : 0),
+        0
+    );
+    return behind > LIVE_CATCH_UP_FRAMES ? LIVE_CATCH_UP_SPEED : 1;
+}
+
+// Inputs of the step about to run. Steps past the recording (the fall after a KO) get no input.
+export const getReplayInputs = (playback: ReplayPlayback, round: number, frame: number): [InputState, InputState] =>
+    unpackInputs(playback.rounds[round - 1]?.[frame] ?? 0);
+
+const isOptionalNumber = (value: unknown): boolean => value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+// Moves that exist, sides, and at most one position per active frame
+const isMoveReach = (value: unknown): boolean =>
+    !!value && typeof value === 'object' && Object.entries(value).every(([id, sides]) => {
+        const move = Object.keys(MOVES).includes(id) ? MOVES[id as MoveId] : null;
+        return !!move && !!sides && typeof sides === 'object' && Object.entries(sides).every(([side, positions]) =>
+            (side === 'right' || side === 'left')
+            && Array.isArray(positions)
+            && positions.length <= move.active
+            && positions.every((position: LimbPosition | undefined) => Number.isFinite(position?.forward) && Number.isFinite(position?.height))
+        );
+    });
+
+const isBodyLayout = (value: unknown): boolean =>
+    (['standing', 'crouching', 'airborne'] as const).every(stance => (['head', 'torso', 'legs'] as const).every(part => {
+        const box = (value as BodyLayout | undefined)?.[stance]?.[part];
+        return !!box && [box.forward, box.halfWidth, box.bottom, box.top].every(Number.isFinite);
+    }))
+    && ((value as BodyLayout).reach === undefined || isMoveReach((value as BodyLayout).reach));
+
+// Frames in a round's runs, null when they're not runs of inputs (what decodeRuns would be given)
+function countRunFrames(runs: unknown): number | null {
+    if (!Array.isArray(runs) || runs.length % 2 !== 0) return null;
+    let frames = 0;
+    for (let index = 0; index < runs.length; index += 2) {
+        const [packed, count] = [runs[index], runs[index + 1]];
+        if (!Number.isInteger(packed) || packed < 0 || packed > MAX_PACKED_INPUT || !Number.isInteger(count) || count < 1) return null;
+        frames += count;
+    }
+    return frames;
+}
+
+/**
+ * A stored or uploaded replay, null when it's not one this version can play. Its frames have to
+ * be what its rounds add up to and at most MAX_REPLAY_FRAMES, everything that plays it decodes them.
+ */
+export function parseReplay(value: unknown): Replay | null {
+    if (!value || typeof value !== 'object') return null;
+    const replay = value as Replay;
+    const roundFrames = Array.isArray(replay.rounds) ? replay.rounds.map(countRunFrames) : [null];
+    const frames = roundFrames.reduce<number | null>((total, round) => total === null || round === null ? null : total + round, 0);
+    const isValid = replay.version === REPLAY_VERSION
+        && typeof replay.id === 'string'
+        && typeof replay.createdAt === 'string'
+        && Number.isInteger(replay.seed)
+        && [replay.char1, replay.char2, replay.location, replay.player1Name, replay.player2Name, replay.gameMode].every(field => typeof field === 'string')
+        && Number.isInteger(replay.matchRules?.bestOf)
+        && (replay.matchRules.roundSeconds === null || Number.isInteger(replay.matchRules.roundSeconds))
+        && isOptionalNumber(replay.player1StartHealth)
+        && isOptionalNumber(replay.player2MaxHealth)
+        && isOptionalNumber(replay.player2Scale)
+        && (replay.bodies === undefined || (Array.isArray(replay.bodies) && replay.bodies.length === 2 && replay.bodies.every(isBodyLayout)))
+        && frames !== null
+        && frames === replay.frames
+        && frames <= MAX_REPLAY_FRAMES
+        && (replay.winner === null || replay.winner === 0 || replay.winner === 1);
+    return isValid ? { ...replay, frames } : null;
+}
@@ -0,0 +1,110 @@
+import { supabase } from '@/lib/supabase/client';
+import { parseAIPersonality, type AIPersonality } from '@/lib/ai/personality';
+
+// Characters and locations as the fight pages load them, with their files as absolute URLs
+
+export interface RosterCharacter {
+    id: string;
+    name: string;
+    createdAt: string;
+    modelUrl: string;
+    conceptImageUrl: string | null;
+    nameAudioUrl: string | null;
+    specialImageUrl: string | null;
+    aiPersonality: AIPersonality;
+    wins: number;
+}
+
+export interface RosterLocation {
+    id: string;
+    backgroundImageUrl: string;
+    floorTextureUrl: string;
+}
+
+// The columns read, as stored
+interface CharacterRow {
+    id: string;
+    name: string;
+    created_at: string;
+    model_glb_url: string;
+    concept_image_url: string | null;
+    name_audio_url: string | null;
+    special_image: string | null;
+    ai_personality: string | null;
+    wins: number | null;
+}
+
+interface LocationRow {
+    id: string;
+    background_image_url: string;
+    floor_texture_url: string;
+}
+
+const CHARACTER_COLUMNS = 'id, name, created_at, model_glb_url, concept_image_url, name_audio_url, special_image, ai_personality, wins';
+const LOCATION_COLUMNS = 'id, background_image_url, floor_texture_url';
+
+// Stored paths are relative to the R2 bucket, older rows hold full URLs
+export const ensureAbsoluteUrl = (url: string | null): string | null => {
+    if (url && !url.startsWith('http') && process.env.NEXT_PUBLIC_R2_PUBLIC_URL) {
+        return `${process.env.NEXT_PUBLIC_R2_PUBLIC_URL}/${url}`;
+    }
+    return url;
+};
+
+export const pickRandom = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+const toRosterCharacter = (data: CharacterRow): RosterCharacter => ({
+    id: data.id,
+    name: data.name,
+    createdAt: data.created_at,
+    modelUrl: ensureAbsoluteUrl(data.model_glb_url) as string,
+    conceptImageUrl: ensureAbsoluteUrl(data.concept_image_url),
+    nameAudioUrl: ensureAbsoluteUrl(data.name_audio_url),
+    specialImageUrl: ensureAbsoluteUrl(data.special_image),
+    aiPersonality: parseAIPersonality(data.ai_personality),
+    wins: data.wins ?? 0,
+});
+
+const toRosterLocation = (data: LocationRow): RosterLocation => ({
+    id: data.id,
+    backgroundImageUrl: ensureAbsoluteUrl(data.background_image_url) as string,
+    floorTextureUrl: ensureAbsoluteUrl(data.floor_texture_url) as string,
+});
+
+// One fighter of a set-up match (online, spectated, replayed). Throws when it can't be fought with.
+export async function loadRosterCharacter(id: string): Promise<RosterCharacter> {
+    const { data, error } = await supabase.from('characters').select(CHARACTER_COLUMNS).eq('id', id).single();
+    if (error) throw error;
+    if (!data?.model_glb_url || !data?.name) throw new Error('A fighter of this match has no model.');
+    return toRosterCharacter(data);
+}
+
+export async function loadRosterLocation(id: string): Promise<RosterLocation> {
+    const { data, error } = await supabase.from('locations').select(LOCATION_COLUMNS).eq('id', id).single();
+    if (error) throw error;
+    if (!data?.background_image_url || !data?.floor_texture_url) throw new Error('The location of this match is missing its images.');
+    return toRosterLocation(data);
+}
+
+// Every complete character, oldest first
+export async function loadCompleteCharacters(): Promise<RosterCharacter[]> {
+    const { data, error } = await supabase
+        .from('characters')
+        .select(CHARACTER_COLUMNS)
+        .eq('status', 'complete')
+        .not('model_glb_url', 'is', null)
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data ?? []).map(toRosterCharacter);
+}
+
+// Every location with both its images
+export async function loadUsableLocations(): Promise<RosterLocation[]> {
+    const { data, error } = await supabase
+        .from('locations')
+        .select(LOCATION_COLUMNS)
+        .not('background_image_url', 'is', null)
+        .not('floor_texture_url', 'is', null);
+    if (error) throw error;
+    return (data ?? []).map(toRosterLocation);
+}
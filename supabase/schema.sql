@@ -64,11 +64,34 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp" WITH SCHEMA "extensions";
 
 
 
+CREATE OR REPLACE FUNCTION "public"."increment_character_wins"("character_id" "uuid") RETURNS integer
+    LANGUAGE "sql"
+    AS $$
+    UPDATE "public"."characters" SET "wins" = "wins" + 1 WHERE "id" = "character_id" RETURNING "wins";
+$$;
+
+
+ALTER FUNCTION "public"."increment_character_wins"("character_id" "uuid") OWNER TO "postgres";
+
 SET default_tablespace = '';
 
 SET default_table_access_method = "heap";
 
 
+CREATE TABLE IF NOT EXISTS "public"."challenge_results" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "character_id" "uuid" NOT NULL,
+    "mode" "text" NOT NULL,
+    "opponents_beaten" integer NOT NULL,
+    "time_ms" integer NOT NULL,
+    CONSTRAINT "challenge_results_mode_check" CHECK (("mode" = ANY (ARRAY['survival'::"text", 'time-attack'::"text"])))
+);
+
+
+ALTER TABLE "public"."challenge_results" OWNER TO "postgres";
+
+
 CREATE TABLE IF NOT EXISTS "public"."characters" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
@@ -82,7 +105,9 @@ CREATE TABLE IF NOT EXISTS "public"."characters" (
     "status" "text" DEFAULT 'initializing'::"text",
     "name_audio_url" "text",
     "special_image" "text",
-    "special_prompt" "text"
+    "special_prompt" "text",
+    "ai_personality" "text",
+    "wins" integer DEFAULT 0 NOT NULL
 );
 
 
@@ -102,6 +127,26 @@ CREATE TABLE IF NOT EXISTS "public"."locations" (
 ALTER TABLE "public"."locations" OWNER TO "postgres";
 
 
+CREATE TABLE IF NOT EXISTS "public"."replays" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "char1" "uuid" NOT NULL,
+    "char2" "uuid" NOT NULL,
+    "location" "uuid" NOT NULL,
+    "winner" smallint,
+    "frames" integer NOT NULL,
+    "data" "jsonb" NOT NULL
+);
+
+
+ALTER TABLE "public"."replays" OWNER TO "postgres";
+
+
+ALTER TABLE ONLY "public"."challenge_results"
+    ADD CONSTRAINT "challenge_results_pkey" PRIMARY KEY ("id");
+
+
+
 ALTER TABLE ONLY "public"."characters"
     ADD CONSTRAINT "characters_pkey" PRIMARY KEY ("id");
 
@@ -112,6 +157,43 @@ ALTER TABLE ONLY "public"."locations"
 
 
 
+ALTER TABLE ONLY "public"."replays"
+    ADD CONSTRAINT "replays_pkey" PRIMARY KEY ("id");
+
+
+
+CREATE INDEX "challenge_results_mode_idx" ON "public"."challenge_results" USING "btree" ("mode");
+
+
+
+CREATE INDEX "replays_created_at_idx" ON "public"."replays" USING "btree" ("created_at" DESC);
+
+
+
+ALTER TABLE ONLY "public"."challenge_results"
+    ADD CONSTRAINT "challenge_results_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "public"."characters"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."replays"
+    ADD CONSTRAINT "replays_char1_fkey" FOREIGN KEY ("char1") REFERENCES "public"."characters"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."replays"
+    ADD CONSTRAINT "replays_char2_fkey" FOREIGN KEY ("char2") REFERENCES "public"."characters"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."replays"
+    ADD CONSTRAINT "replays_location_fkey" FOREIGN KEY ("location") REFERENCES "public"."locations"("id") ON DELETE CASCADE;
+
+
+
+CREATE POLICY "Allow public read access" ON "public"."challenge_results" FOR SELECT TO "authenticated", "anon" USING (true);
+
+
+
 CREATE POLICY "Allow public read access" ON "public"."characters" FOR SELECT TO "authenticated", "anon" USING (true);
 
 
@@ -120,12 +202,22 @@ CREATE POLICY "Enable anon" ON "public"."locations" FOR SELECT USING (true);
 
 
 
+CREATE POLICY "Allow public read access" ON "public"."replays" FOR SELECT TO "authenticated", "anon" USING (true);
+
+
+
+ALTER TABLE "public"."challenge_results" ENABLE ROW LEVEL SECURITY;
+
+
 ALTER TABLE "public"."characters" ENABLE ROW LEVEL SECURITY;
 
 
 ALTER TABLE "public"."locations" ENABLE ROW LEVEL SECURITY;
 
 
+ALTER TABLE "public"."replays" ENABLE ROW LEVEL SECURITY;
+
+
 
 
 ALTER PUBLICATION "supabase_realtime" OWNER TO "postgres";
@@ -327,6 +419,16 @@ GRANT USAGE ON SCHEMA "public" TO "service_role";
 
 
 
+
+
+
+GRANT ALL ON FUNCTION "public"."increment_character_wins"("character_id" "uuid") TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."challenge_results" TO "anon";
+GRANT ALL ON TABLE "public"."challenge_results" TO "authenticated";
+GRANT ALL ON TABLE "public"."challenge_results" TO "service_role";
 
 
 
@@ -342,6 +444,12 @@ GRANT ALL ON TABLE "public"."locations" TO "service_role";
 
 
 
+GRANT ALL ON TABLE "public"."replays" TO "anon";
+GRANT ALL ON TABLE "public"."replays" TO "authenticated";
+GRANT ALL ON TABLE "public"."replays" TO "service_role";
+
+
+
 ALTER DEFAULT PRIVILEGES FOR ROLE "postgres" IN SCHEMA "public" GRANT ALL ON SEQUENCES  TO "postgres";
 ALTER DEFAULT PRIVILEGES FOR ROLE "postgres" IN SCHEMA "public" GRANT ALL ON SEQUENCES  TO "anon";
 ALTER DEFAULT PRIVILEGES FOR ROLE "postgres" IN SCHEMA "public" GRANT ALL ON SEQUENCES  TO "authenticated";